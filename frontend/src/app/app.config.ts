@@ -4,6 +4,8 @@ import { provideHttpClient, withFetch, withInterceptors } from '@angular/common/
 
 import { routes } from './app.routes';
 import { telegramAuthInterceptor } from './core/auth/telegram-auth.interceptor';
+import { householdInterceptor } from './core/household/household.interceptor';
+import { mockRealtimeInterceptor } from './core/realtime/mock-event-source';
 
 // Zoneless mode — no zone.js; change detection driven by signals and explicit markDirty calls
 export const appConfig: ApplicationConfig = {
@@ -11,6 +13,9 @@ export const appConfig: ApplicationConfig = {
     provideBrowserGlobalErrorListeners(),
     provideZonelessChangeDetection(),
     provideRouter(routes, withComponentInputBinding()),
-    provideHttpClient(withFetch(), withInterceptors([telegramAuthInterceptor]))
+    provideHttpClient(
+      withFetch(),
+      withInterceptors([telegramAuthInterceptor, householdInterceptor, mockRealtimeInterceptor])
+    )
   ]
 };
@@ -16,6 +16,81 @@ export const routes: Routes = [
     loadChildren: () => import('./features/search/search.routes').then(m => m.searchRoutes),
     title: 'Search - StuffTracker'
   },
+  {
+    path: 'labels',
+    loadChildren: () => import('./features/labels/labels.routes').then(m => m.labelsRoutes),
+    title: 'QR Labels - StuffTracker'
+  },
+  {
+    path: 'export',
+    loadChildren: () => import('./features/export/export.routes').then(m => m.exportRoutes),
+    title: 'Export - StuffTracker'
+  },
+  {
+    path: 'import',
+    loadChildren: () => import('./features/import/import.routes').then(m => m.importRoutes),
+    title: 'Import - StuffTracker'
+  },
+  {
+    path: 'backup',
+    loadChildren: () => import('./features/backup/backup.routes').then(m => m.backupRoutes),
+    title: 'Backup - StuffTracker'
+  },
+  {
+    path: 'scan',
+    loadChildren: () => import('./features/scan/scan.routes').then(m => m.scanRoutes),
+    title: 'Scan - StuffTracker'
+  },
+  {
+    path: 'expiring',
+    loadChildren: () => import('./features/expiring/expiring.routes').then(m => m.expiringRoutes),
+    title: 'Expiring Soon - StuffTracker'
+  },
+  {
+    path: 'shopping-list',
+    loadChildren: () => import('./features/shopping-list/shopping-list.routes').then(m => m.shoppingListRoutes),
+    title: 'Shopping List - StuffTracker'
+  },
+  {
+    path: 'households',
+    loadChildren: () => import('./features/households/households.routes').then(m => m.householdsRoutes),
+    title: 'Households - StuffTracker'
+  },
+  {
+    path: 'loans',
+    loadChildren: () => import('./features/loans/loans.routes').then(m => m.loansRoutes),
+    title: 'On Loan - StuffTracker'
+  },
+  {
+    path: 'valuation',
+    loadChildren: () => import('./features/valuation/valuation.routes').then(m => m.valuationRoutes),
+    title: 'Valuation - StuffTracker'
+  },
+  {
+    path: 'activity',
+    loadChildren: () => import('./features/activity/activity.routes').then(m => m.activityRoutes),
+    title: 'Activity - StuffTracker'
+  },
+  {
+    path: 'tags',
+    loadChildren: () => import('./features/tags/tags.routes').then(m => m.tagsRoutes),
+    title: 'Tags - StuffTracker'
+  },
+  {
+    path: 'custom-fields',
+    loadChildren: () => import('./features/custom-fields/custom-fields.routes').then(m => m.customFieldsRoutes),
+    title: 'Custom Fields - StuffTracker'
+  },
+  {
+    path: 'trash',
+    loadChildren: () => import('./features/trash/trash.routes').then(m => m.trashRoutes),
+    title: 'Trash - StuffTracker'
+  },
+  {
+    path: 'sync',
+    loadChildren: () => import('./features/sync/sync.routes').then(m => m.syncRoutes),
+    title: 'Sync - StuffTracker'
+  },
   {
     path: '**',
     redirectTo: ''
@@ -3,13 +3,16 @@ import { isPlatformBrowser } from '@angular/common';
 import { Router, RouterOutlet } from '@angular/router';
 import { TelegramService } from './telegram/telegram.service';
 import { NavigationService } from './core/navigation.service';
+import { OfflineSyncService } from './core/offline/offline-sync.service';
+import { OutboxService } from './core/offline/outbox.service';
 import { ErrorToastComponent } from './shared/components/error-toast';
+import { OfflineBannerComponent } from './shared/components/offline-banner';
 
 @Component({
   selector: 'app-root',
   standalone: true,
   changeDetection: ChangeDetectionStrategy.OnPush,
-  imports: [RouterOutlet, ErrorToastComponent],
+  imports: [RouterOutlet, ErrorToastComponent, OfflineBannerComponent],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
@@ -17,6 +20,8 @@ export class App implements OnInit {
   private readonly router = inject(Router);
   private readonly telegramService = inject(TelegramService);
   private readonly navigationService = inject(NavigationService);
+  private readonly offlineSyncService = inject(OfflineSyncService);
+  private readonly outboxService = inject(OutboxService);
   private readonly platformId = inject(PLATFORM_ID);
 
   constructor() {
@@ -42,6 +47,12 @@ export class App implements OnInit {
 
       // Initialize navigation service for BackButton management
       this.navigationService.initialize();
+
+      // Mirror the inventory into IndexedDB for offline browsing
+      this.offlineSyncService.start();
+
+      // Replay writes queued while offline
+      this.outboxService.start();
     }
   }
 
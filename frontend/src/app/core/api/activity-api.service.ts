@@ -0,0 +1,147 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+
+/** Number of entries shown inline on item and location pages */
+export const ACTIVITY_PREVIEW_LIMIT = 5;
+
+/**
+ * Kind of change recorded in the activity history
+ */
+export type ActivityAction = 'created' | 'renamed' | 'quantityChanged' | 'moved' | 'deleted' | 'restored';
+
+/**
+ * One change to an item or location
+ *
+ * Only the fields for the entry's action are set: `fromName`/`toName` for
+ * renames, `fromQuantity`/`toQuantity` for quantity changes and
+ * `fromPath`/`toPath` for moves. Created and restored entries carry the
+ * path they were made in as `toPath`.
+ */
+export interface ActivityEntry {
+  id: string;
+  entityType: 'item' | 'location';
+  entityId: string;
+  /** Name of the item or location at the time of the change */
+  entityName: string;
+  action: ActivityAction;
+  /** Who made the change */
+  actorName: string;
+  /** Telegram username of who made the change, without "@" */
+  actorUsername?: string;
+  /** When the change was made */
+  at: string;
+  fromName?: string;
+  toName?: string;
+  fromQuantity?: number;
+  toQuantity?: number;
+  /** Location names from the root */
+  fromPath?: string[];
+  /** Location names from the root */
+  toPath?: string[];
+}
+
+/**
+ * Parameters for activity requests
+ */
+export interface ActivityParams {
+  /** Only changes to this item */
+  itemId?: string;
+  /** Only changes to this location and everything inside it */
+  locationId?: string;
+  /** Maximum number of entries to return */
+  limit?: number;
+  /** Offset for pagination */
+  offset?: number;
+}
+
+/**
+ * A page of activity, newest first
+ */
+export interface ActivityPage {
+  entries: ActivityEntry[];
+  /** Whether older entries are available */
+  hasMore: boolean;
+}
+
+/**
+ * What happened, e.g. "Quantity 3 → 2" or "Moved from Garage / Shelf to Basement"
+ */
+export function describeActivity(entry: ActivityEntry): string {
+  switch (entry.action) {
+    case 'created':
+      return entry.toPath?.length ? `Created in ${entry.toPath.join(' / ')}` : 'Created';
+    case 'renamed':
+      return `Renamed from "${entry.fromName ?? ''}" to "${entry.toName ?? entry.entityName}"`;
+    case 'quantityChanged':
+      return `Quantity ${entry.fromQuantity ?? '?'} → ${entry.toQuantity ?? '?'}`;
+    case 'moved':
+      return `Moved from ${formatPath(entry.fromPath)} to ${formatPath(entry.toPath)}`;
+    case 'deleted':
+      return 'Deleted';
+    case 'restored':
+      return entry.toPath?.length ? `Restored to ${entry.toPath.join(' / ')}` : 'Restored';
+  }
+}
+
+/**
+ * When something happened, e.g. "5 min ago", "Yesterday, 14:05" or "3 Mar, 09:12"
+ */
+export function describeActivityTime(at: string, now = new Date()): string {
+  const date = new Date(at);
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const time = date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (date >= startOfToday) return `Today, ${time}`;
+  if (date >= new Date(startOfToday.getTime() - 24 * 60 * 60 * 1000)) return `Yesterday, ${time}`;
+
+  const sameYear = date.getFullYear() === now.getFullYear();
+  const day = date.toLocaleDateString(undefined, sameYear
+    ? { month: 'short', day: 'numeric' }
+    : { year: 'numeric', month: 'short', day: 'numeric' });
+  return `${day}, ${time}`;
+}
+
+function formatPath(path: string[] | undefined): string {
+  return path?.length ? path.join(' / ') : 'the top level';
+}
+
+/**
+ * Service for the change history of items and locations
+ *
+ * The server records every change as it is made, with the user who made it;
+ * in a shared household that is any of its members.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ActivityApiService {
+  private readonly api = inject(ApiService);
+  private readonly basePath = '/activity';
+
+  /**
+   * Get recent changes, newest first
+   * @param params - Optional item or location filter and pagination
+   */
+  getActivity(params: ActivityParams = {}): Observable<ActivityPage> {
+    const queryParams: Record<string, string | number | boolean> = {};
+
+    if (params.itemId) {
+      queryParams['itemId'] = params.itemId;
+    }
+    if (params.locationId) {
+      queryParams['locationId'] = params.locationId;
+    }
+    if (params.limit !== undefined) {
+      queryParams['limit'] = params.limit;
+    }
+    if (params.offset !== undefined) {
+      queryParams['offset'] = params.offset;
+    }
+
+    return this.api.get<ActivityPage>(this.basePath, queryParams);
+  }
+}
@@ -1,13 +1,19 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, switchMap, tap } from 'rxjs/operators';
 import { environment } from '../../../environments/environment';
+import { OfflineStoreService } from '../offline/offline-store.service';
+import { ConnectivityService } from '../offline/connectivity.service';
+import { HouseholdService } from '../household/household.service';
+import { describeForbidden } from '../auth/permissions';
 
 export interface ApiError {
   message: string;
   statusCode: number;
   errors?: Record<string, string[]>;
+  /** Set when a failed write was kept in the offline outbox */
+  queued?: boolean;
 }
 
 @Injectable({
@@ -15,15 +21,30 @@ export interface ApiError {
 })
 export class ApiService {
   private readonly http = inject(HttpClient);
+  private readonly offlineStore = inject(OfflineStoreService);
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly householdService = inject(HouseholdService);
   private readonly baseUrl = environment.apiUrl;
 
   /**
    * Perform a GET request
+   *
+   * Successful responses are mirrored to the offline store. On a network
+   * error (status 0) the last cached response for the same request is returned instead.
    */
   get<T>(endpoint: string, params?: Record<string, string | number | boolean>): Observable<T> {
     const httpParams = this.buildParams(params);
+    const cacheKey = this.buildCacheKey(endpoint, httpParams);
+
     return this.http.get<T>(`${this.baseUrl}${endpoint}`, { params: httpParams })
-      .pipe(catchError(this.handleError));
+      .pipe(
+        tap(response => {
+          this.connectivity.markReachable();
+          void this.offlineStore.putResponse(cacheKey, response);
+        }),
+        catchError(this.handleError),
+        catchError((error: ApiError) => this.fallbackToCache<T>(cacheKey, error))
+      );
   }
 
   /**
@@ -58,6 +79,16 @@ export class ApiService {
       .pipe(catchError(this.handleError));
   }
 
+  /**
+   * Fetch a file the API linked to, such as an attachment URL
+   * Not cached offline: files can be large. Auth and household headers are
+   * only sent when the URL is on the API itself.
+   */
+  download(url: string): Observable<Blob> {
+    return this.http.get(url, { responseType: 'blob' })
+      .pipe(catchError(this.handleError));
+  }
+
   private buildParams(params?: Record<string, string | number | boolean>): HttpParams {
     let httpParams = new HttpParams();
     if (params) {
@@ -70,6 +101,37 @@ export class ApiService {
     return httpParams;
   }
 
+  /**
+   * Cache key of a request; responses of a shared household are kept apart
+   * from the personal inventory and from other households
+   */
+  private buildCacheKey(endpoint: string, params: HttpParams): string {
+    const query = params.toString();
+    const key = query ? `${endpoint}?${query}` : endpoint;
+    const householdId = this.householdService.activeHouseholdId();
+    return householdId ? `household:${householdId}:${key}` : key;
+  }
+
+  /**
+   * Serve a cached response when the API is unreachable; rethrow all other errors
+   */
+  private fallbackToCache<T>(cacheKey: string, error: ApiError): Observable<T> {
+    if (error.statusCode !== 0) {
+      return throwError(() => error);
+    }
+
+    return from(this.offlineStore.getResponse<T>(cacheKey)).pipe(
+      switchMap(cached => {
+        if (!cached) {
+          return throwError(() => error);
+        }
+        console.debug('[ApiService] Serving %s from offline cache (%s)', cacheKey, cached.cachedAt);
+        this.connectivity.markServedFromCache(cached.cachedAt);
+        return of(cached.data);
+      })
+    );
+  }
+
   private handleError(error: HttpErrorResponse): Observable<never> {
     let apiError: ApiError;
 
@@ -79,6 +141,12 @@ export class ApiService {
         message: error.error.message || 'A network error occurred',
         statusCode: 0
       };
+    } else if (error.status === 403) {
+      // Not allowed by the user's role on a shared location; say why
+      apiError = {
+        message: describeForbidden(error.error?.role, error.error?.requiredRole),
+        statusCode: 403
+      };
     } else {
       // Server-side error
       apiError = {
@@ -0,0 +1,33 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+
+/**
+ * Service for sending content to the user's chat with the bot
+ *
+ * A Mini App cannot hand files to Telegram itself, so the bot sends them
+ * on its behalf.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ChatApiService {
+  private readonly api = inject(ApiService);
+  private readonly basePath = '/chat';
+
+  /**
+   * Have the bot send a file to the current user as a document
+   * @param file - File contents
+   * @param fileName - File name shown in the chat
+   * @param caption - Optional message text sent with the file
+   * @returns Observable that completes once the bot has sent the file
+   */
+  sendDocument(file: Blob, fileName: string, caption?: string): Observable<void> {
+    const formData = new FormData();
+    formData.append('document', file, fileName);
+    if (caption) {
+      formData.append('caption', caption);
+    }
+    return this.api.post<void>(`${this.basePath}/documents`, formData);
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+
+/** Kinds of value a custom field holds */
+export type CustomFieldType = 'text' | 'number' | 'date' | 'boolean' | 'enum';
+
+/**
+ * A value stored for a custom field
+ * Dates are ISO calendar dates ("2024-05-31").
+ */
+export type CustomFieldValue = string | number | boolean;
+
+/**
+ * Custom field values of an item, keyed by field definition ID
+ */
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+/** Longest allowed text value */
+export const MAX_CUSTOM_FIELD_TEXT_LENGTH = 500;
+
+/**
+ * A user-defined item attribute, such as "Serial number" or "Voltage"
+ */
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  /** Allowed values, in display order (enum only) */
+  options?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Request model for creating a custom field
+ */
+export interface CreateCustomFieldRequest {
+  name: string;
+  type: CustomFieldType;
+  options?: string[];
+}
+
+/**
+ * Request model for updating a custom field
+ * The type cannot change once values exist.
+ */
+export interface UpdateCustomFieldRequest {
+  name?: string;
+  /** Removing an option clears it from items that have it */
+  options?: string[];
+}
+
+/**
+ * Display text for a custom field value
+ */
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue): string {
+  switch (field.type) {
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'date': {
+      // Parse as local midnight so the day does not shift across time zones
+      const date = new Date(`${value}T00:00:00`);
+      return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+    }
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Service for custom field definition API operations
+ *
+ * Definitions are shared by all items of the user; values live on the items
+ * themselves (`ItemResponse.customFields`).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CustomFieldApiService {
+  private readonly api = inject(ApiService);
+  private readonly basePath = '/custom-fields';
+
+  /**
+   * Get all field definitions in display order
+   */
+  getFields(): Observable<CustomFieldDefinition[]> {
+    return this.api.get<CustomFieldDefinition[]>(this.basePath);
+  }
+
+  /**
+   * Define a new field
+   */
+  createField(request: CreateCustomFieldRequest): Observable<CustomFieldDefinition> {
+    return this.api.post<CustomFieldDefinition>(this.basePath, request);
+  }
+
+  /**
+   * Rename a field or change its options
+   */
+  updateField(id: string, request: UpdateCustomFieldRequest): Observable<CustomFieldDefinition> {
+    return this.api.put<CustomFieldDefinition>(`${this.basePath}/${id}`, request);
+  }
+
+  /**
+   * Delete a field and its values on every item
+   */
+  deleteField(id: string): Observable<void> {
+    return this.api.delete(`${this.basePath}/${id}`);
+  }
+}
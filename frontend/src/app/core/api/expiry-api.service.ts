@@ -0,0 +1,100 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+import { ItemListItem } from './item-api.service';
+
+/** Days ahead within which an item counts as expiring soon */
+export const EXPIRING_SOON_DAYS = 7;
+
+/** Where an item stands relative to its expiry date */
+export type ExpiryStatus = 'expired' | 'expiring' | 'fresh';
+
+/**
+ * An item with an expiry date, with its place in the location tree
+ */
+export interface ExpiringItem extends ItemListItem {
+  expiresAt: string;
+  locationId: string;
+  /** Names from the root to the item's location */
+  locationPath: string[];
+}
+
+/**
+ * When the bot reminds the user about expiring items
+ */
+export interface ExpiryReminderSettings {
+  enabled: boolean;
+  /** Days before the expiry date the reminder is sent */
+  daysBefore: number;
+}
+
+/**
+ * Whole days from today until an expiry date; negative once it has passed
+ * @param expiresAt - ISO calendar date ("2024-05-31")
+ */
+export function daysUntilExpiry(expiresAt: string, today = new Date()): number {
+  // Compare local midnights so the count does not shift across time zones
+  const expiry = new Date(`${expiresAt}T00:00:00`);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expiry.getTime() - start.getTime()) / 86_400_000);
+}
+
+/**
+ * Expiry status of an item
+ * @returns null when the item has no expiry date
+ */
+export function getExpiryStatus(expiresAt: string | undefined, today = new Date()): ExpiryStatus | null {
+  if (!expiresAt) return null;
+  const days = daysUntilExpiry(expiresAt, today);
+  if (days < 0) return 'expired';
+  return days <= EXPIRING_SOON_DAYS ? 'expiring' : 'fresh';
+}
+
+/**
+ * Short text for an expiry date, e.g. "Expired 2 days ago" or "Expires tomorrow"
+ */
+export function describeExpiry(expiresAt: string, today = new Date()): string {
+  const days = daysUntilExpiry(expiresAt, today);
+  if (days < -1) return `Expired ${-days} days ago`;
+  if (days === -1) return 'Expired yesterday';
+  if (days === 0) return 'Expires today';
+  if (days === 1) return 'Expires tomorrow';
+  if (days <= EXPIRING_SOON_DAYS) return `Expires in ${days} days`;
+  return `Expires ${new Date(`${expiresAt}T00:00:00`).toLocaleDateString()}`;
+}
+
+/**
+ * Service for expiry tracking API operations
+ *
+ * Expiry dates live on the items themselves (`ItemResponse.expiresAt`); the bot
+ * sends reminders from the server side, so the app only manages when.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ExpiryApiService {
+  private readonly api = inject(ApiService);
+  private readonly basePath = '/expiry';
+
+  /**
+   * Get items across all locations that expire within the given days,
+   * including those already expired, soonest first
+   */
+  getExpiringItems(withinDays: number): Observable<ExpiringItem[]> {
+    return this.api.get<ExpiringItem[]>(`${this.basePath}/items`, { days: withinDays });
+  }
+
+  /**
+   * Get the reminder settings of the current user
+   */
+  getReminderSettings(): Observable<ExpiryReminderSettings> {
+    return this.api.get<ExpiryReminderSettings>(`${this.basePath}/reminders`);
+  }
+
+  /**
+   * Change when the bot sends expiry reminders
+   */
+  updateReminderSettings(settings: ExpiryReminderSettings): Observable<ExpiryReminderSettings> {
+    return this.api.put<ExpiryReminderSettings>(`${this.basePath}/reminders`, settings);
+  }
+}
@@ -0,0 +1,117 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+
+/**
+ * An inventory shared by several Telegram users
+ */
+export interface Household {
+  id: string;
+  name: string;
+  memberCount: number;
+  createdAt: string;
+}
+
+/**
+ * A member of a household
+ */
+export interface HouseholdMember {
+  /** Telegram user ID */
+  userId: string;
+  name: string;
+  /** Telegram username, without "@" */
+  username?: string;
+  joinedAt: string;
+}
+
+/**
+ * A single-use code that lets someone join a household
+ */
+export interface HouseholdInvite {
+  code: string;
+  expiresAt: string;
+}
+
+/**
+ * What an invite leads to, shown before joining
+ */
+export interface HouseholdInvitePreview {
+  householdId: string;
+  householdName: string;
+  /** Name of the member who created the invite */
+  invitedBy: string;
+  memberCount: number;
+  /** True when the current user is already a member */
+  isMember: boolean;
+}
+
+/**
+ * Request model for creating a household
+ */
+export interface CreateHouseholdRequest {
+  name: string;
+}
+
+/**
+ * Service for household API operations
+ *
+ * Households belong to users rather than to an inventory, so these calls
+ * are the same whichever household is active.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HouseholdApiService {
+  private readonly api = inject(ApiService);
+  private readonly basePath = '/households';
+
+  /**
+   * Get the households the current user belongs to
+   */
+  getHouseholds(): Observable<Household[]> {
+    return this.api.get<Household[]>(this.basePath);
+  }
+
+  /**
+   * Create a household with the current user as its first member
+   */
+  createHousehold(request: CreateHouseholdRequest): Observable<Household> {
+    return this.api.post<Household>(this.basePath, request);
+  }
+
+  /**
+   * Get the members of a household
+   */
+  getMembers(householdId: string): Observable<HouseholdMember[]> {
+    return this.api.get<HouseholdMember[]>(`${this.basePath}/${householdId}/members`);
+  }
+
+  /**
+   * Create an invite to a household
+   */
+  createInvite(householdId: string): Observable<HouseholdInvite> {
+    return this.api.post<HouseholdInvite>(`${this.basePath}/${householdId}/invites`);
+  }
+
+  /**
+   * Look up where an invite leads
+   * @throws ApiError with status 404 when the code is unknown or expired
+   */
+  getInvite(code: string): Observable<HouseholdInvitePreview> {
+    return this.api.get<HouseholdInvitePreview>(`${this.basePath}/invites/${encodeURIComponent(code)}`);
+  }
+
+  /**
+   * Join the household an invite leads to
+   */
+  acceptInvite(code: string): Observable<Household> {
+    return this.api.post<Household>(`${this.basePath}/invites/${encodeURIComponent(code)}/accept`);
+  }
+
+  /**
+   * Leave a household; its inventory stays with the other members
+   */
+  leaveHousehold(householdId: string): Observable<void> {
+    return this.api.delete<void>(`${this.basePath}/${householdId}/members/me`);
+  }
+}
@@ -1,6 +1,11 @@
 import { Injectable, inject } from '@angular/core';
 import { Observable } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
 import { ApiService } from './api.service';
+import { OutboxService } from '../offline/outbox.service';
+import { EntityStoreService } from '../store/entity-store.service';
+import { CustomFieldValues } from './custom-field-api.service';
+import { LocationRole } from '../auth/permissions';
 
 /**
  * Represents an item in a list view (compact format)
@@ -9,6 +14,48 @@ export interface ItemListItem {
   id: string;
   name: string;
   quantity: number;
+  /** Thumbnail URL of the item's first photo, if it has any */
+  thumbnailUrl?: string;
+  tags?: string[];
+  /** Expiry date as an ISO calendar date ("2024-05-31"), for consumables */
+  expiresAt?: string;
+  /** Units currently lent out, if any */
+  lentQuantity?: number;
+}
+
+/**
+ * A photo attached to an item
+ */
+export interface ItemPhoto {
+  id: string;
+  /** URL of the full-size image */
+  url: string;
+  /** URL of a small square preview */
+  thumbnailUrl: string;
+  createdAt: string;
+}
+
+/** Largest file accepted as an attachment, in bytes */
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+/** MIME types accepted as attachments */
+export const ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+/**
+ * A document attached to an item, such as a manual, receipt or warranty
+ */
+export interface ItemAttachment {
+  id: string;
+  /** Name of the file as uploaded */
+  fileName: string;
+  /** MIME type, one of `ATTACHMENT_TYPES` */
+  contentType: string;
+  /** Size in bytes */
+  size: number;
+  /** URL of the file */
+  url: string;
+  /** When the file was uploaded */
+  createdAt: string;
 }
 
 /**
@@ -20,6 +67,26 @@ export interface ItemResponse {
   description?: string;
   quantity: number;
   locationId: string;
+  /** Product barcode or QR label text, if assigned */
+  barcode?: string;
+  /** Cross-cutting labels such as "electronics" or "winter" */
+  tags?: string[];
+  /** Values of user-defined fields, keyed by field definition ID */
+  customFields?: CustomFieldValues;
+  /** Expiry date as an ISO calendar date ("2024-05-31"), for consumables */
+  expiresAt?: string;
+  /** Low-stock threshold: at or below this quantity the item goes on the shopping list */
+  minQuantity?: number;
+  /** Price paid per unit, in `currency` */
+  purchasePrice?: number;
+  /** ISO 4217 code of the purchase price, e.g. "EUR" */
+  currency?: string;
+  /** ISO calendar date the item was bought */
+  purchaseDate?: string;
+  /** Where the item was bought */
+  store?: string;
+  /** ISO calendar date the warranty runs out */
+  warrantyExpiresAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -30,6 +97,51 @@ export interface ItemResponse {
 export interface ItemDetail extends ItemResponse {
   locationPath: string[];
   locationName: string;
+  /** Attached documents, oldest first */
+  attachments?: ItemAttachment[];
+  /** The current user's effective role on the item's location; left out in the personal inventory */
+  role?: LocationRole;
+}
+
+/**
+ * One quantity change in an item's consumption log
+ */
+export interface QuantityLogEntry {
+  id: string;
+  /** Change applied: negative when used up, positive when restocked */
+  delta: number;
+  /** Quantity after the change */
+  quantity: number;
+  createdAt: string;
+}
+
+/**
+ * An item at or below its low-stock threshold, with its place in the location tree
+ */
+export interface LowStockItem extends ItemListItem {
+  minQuantity: number;
+  locationId: string;
+  /** Names from the root to the item's location */
+  locationPath: string[];
+}
+
+/**
+ * An item in the trash
+ */
+export interface DeletedItem {
+  id: string;
+  name: string;
+  quantity: number;
+  thumbnailUrl?: string;
+  /** Location the item was in when deleted */
+  locationId: string;
+  /** Names from the root to that location */
+  locationPath: string[];
+  /** False when that location is itself deleted or gone; restore then needs a new location */
+  locationExists: boolean;
+  deletedAt: string;
+  /** When the server purges the item for good */
+  expiresAt: string;
 }
 
 /**
@@ -40,6 +152,16 @@ export interface CreateItemRequest {
   description?: string;
   quantity?: number;
   locationId: string;
+  barcode?: string;
+  tags?: string[];
+  customFields?: CustomFieldValues;
+  expiresAt?: string;
+  minQuantity?: number;
+  purchasePrice?: number;
+  currency?: string;
+  purchaseDate?: string;
+  store?: string;
+  warrantyExpiresAt?: string;
 }
 
 /**
@@ -49,16 +171,42 @@ export interface UpdateItemRequest {
   name?: string;
   description?: string;
   quantity?: number;
+  barcode?: string;
+  /** Replaces the item's tags when given */
+  tags?: string[];
+  /** Replaces the item's custom field values when given; fields left out are cleared */
+  customFields?: CustomFieldValues;
+  /** Null clears the expiry date */
+  expiresAt?: string | null;
+  /** Null removes the low-stock threshold */
+  minQuantity?: number | null;
+  /** Purchase details: null clears a field */
+  purchasePrice?: number | null;
+  currency?: string | null;
+  purchaseDate?: string | null;
+  store?: string | null;
+  warrantyExpiresAt?: string | null;
 }
 
+/**
+ * The copy of an item a write is based on.
+ * The name labels the change in the offline outbox; `updatedAt`, when known,
+ * enables conflict detection on replay.
+ */
+export type ItemEditBase = Pick<ItemResponse, 'name'> & Partial<Pick<ItemResponse, 'updatedAt'>>;
+
 /**
  * Service for item-related API operations
+ *
+ * Items read and written here are kept in EntityStoreService.
  */
 @Injectable({
   providedIn: 'root'
 })
 export class ItemApiService {
   private readonly api = inject(ApiService);
+  private readonly outbox = inject(OutboxService);
+  private readonly entityStore = inject(EntityStoreService);
   private readonly basePath = '/items';
 
   /**
@@ -67,26 +215,86 @@ export class ItemApiService {
    * @returns Observable with item details including location path
    */
   getItem(id: string): Observable<ItemDetail> {
-    return this.api.get<ItemDetail>(`${this.basePath}/${id}`);
+    return this.api.get<ItemDetail>(`${this.basePath}/${id}`).pipe(
+      tap(item => this.entityStore.putItem(item))
+    );
   }
 
   /**
    * Create a new item
+   * When offline, the request is queued in the outbox and the error has `queued: true`.
    * @param request - Item creation request with name, description, quantity, and locationId
    * @returns Observable with the created item response
    */
   createItem(request: CreateItemRequest): Observable<ItemResponse> {
-    return this.api.post<ItemResponse>(this.basePath, request);
+    return this.api.post<ItemResponse>(this.basePath, request).pipe(
+      tap(item => this.entityStore.addItem(item)),
+      catchError(err => this.outbox.queueOnNetworkError(err, {
+        operation: 'createItem',
+        method: 'POST',
+        endpoint: this.basePath,
+        body: request,
+        label: `Create "${request.name}"`
+      }))
+    );
   }
 
   /**
    * Update an existing item
+   * When offline, the request is queued in the outbox and the error has `queued: true`.
    * @param id - Item ID to update
    * @param request - Partial update request (name, description, and/or quantity)
+   * @param base - The copy the user edited; used to detect conflicts on replay
    * @returns Observable with the updated item response
    */
-  updateItem(id: string, request: UpdateItemRequest): Observable<ItemResponse> {
-    return this.api.patch<ItemResponse>(`${this.basePath}/${id}`, request);
+  updateItem(id: string, request: UpdateItemRequest, base?: ItemEditBase): Observable<ItemResponse> {
+    const endpoint = `${this.basePath}/${id}`;
+    return this.api.patch<ItemResponse>(endpoint, request).pipe(
+      tap(item => this.entityStore.putItem(item)),
+      catchError(err => this.outbox.queueOnNetworkError(err, {
+        operation: 'updateItem',
+        method: 'PATCH',
+        endpoint,
+        body: request,
+        label: `Update "${request.name ?? base?.name ?? 'item'}"`,
+        entityEndpoint: endpoint,
+        baseUpdatedAt: base?.updatedAt
+      }))
+    );
+  }
+
+  /**
+   * Change an item's quantity by a relative amount, e.g. -1 for one used up
+   * The server records the change in the item's consumption log.
+   * When offline, the request is queued in the outbox and the error has `queued: true`;
+   * changes are relative, so replaying them never conflicts with other edits.
+   * @param id - Item ID
+   * @param delta - Amount to add; negative to take away
+   * @param itemName - Name for the outbox label
+   * @returns Observable with the updated item
+   */
+  adjustQuantity(id: string, delta: number, itemName: string): Observable<ItemResponse> {
+    const endpoint = `${this.basePath}/${id}/quantity`;
+    const body = { delta };
+    return this.api.post<ItemResponse>(endpoint, body).pipe(
+      tap(item => this.entityStore.putItem(item)),
+      catchError(err => this.outbox.queueOnNetworkError(err, {
+        operation: 'adjustQuantity',
+        method: 'POST',
+        endpoint,
+        body,
+        label: `${delta > 0 ? 'Restock' : 'Use'} ${Math.abs(delta)} of "${itemName}"`
+      }))
+    );
+  }
+
+  /**
+   * Get an item's consumption log, oldest first
+   * Covers every quantity change, including edits made through the item form.
+   * @param id - Item ID
+   */
+  getQuantityLog(id: string): Observable<QuantityLogEntry[]> {
+    return this.api.get<QuantityLogEntry[]>(`${this.basePath}/${id}/quantity-log`);
   }
 
   /**
@@ -95,16 +303,135 @@ export class ItemApiService {
    * @returns Observable that completes when deletion is successful
    */
   deleteItem(id: string): Observable<void> {
-    return this.api.delete<void>(`${this.basePath}/${id}`);
+    return this.api.delete<void>(`${this.basePath}/${id}`).pipe(
+      tap(() => this.entityStore.removeItem(id))
+    );
+  }
+
+  /**
+   * Restore a deleted item from the trash
+   * The server keeps deleted items for a retention period before purging them.
+   * @param id - Item ID to restore
+   * @param locationId - Location to restore into; defaults to the original one
+   * @returns Observable with the restored item
+   */
+  restoreItem(id: string, locationId?: string): Observable<ItemResponse> {
+    return this.api.post<ItemResponse>(
+      `${this.basePath}/${id}/restore`,
+      locationId ? { locationId } : undefined
+    ).pipe(
+      tap(item => this.entityStore.addItem(item))
+    );
+  }
+
+  /**
+   * Get items in the trash, most recently deleted first
+   */
+  getDeletedItems(): Observable<DeletedItem[]> {
+    return this.api.get<DeletedItem[]>(`${this.basePath}/deleted`);
+  }
+
+  /**
+   * Get items across all locations whose quantity is at or below their
+   * low-stock threshold
+   * @returns Observable with the items, in no particular order
+   */
+  getLowStockItems(): Observable<LowStockItem[]> {
+    return this.api.get<LowStockItem[]>(`${this.basePath}/low-stock`);
+  }
+
+  /**
+   * Permanently delete an item from the trash
+   * @param id - Item ID to purge
+   */
+  purgeItem(id: string): Observable<void> {
+    return this.api.delete<void>(`${this.basePath}/deleted/${id}`);
   }
 
   /**
    * Move an item to a different location
+   * When offline, the request is queued in the outbox and the error has `queued: true`.
    * @param itemId - Item ID to move
    * @param locationId - Target location ID
+   * @param base - The copy the user moved; used to detect conflicts on replay
    * @returns Observable with the updated item response
    */
-  moveItem(itemId: string, locationId: string): Observable<ItemResponse> {
-    return this.api.patch<ItemResponse>(`${this.basePath}/${itemId}/move`, { locationId });
+  moveItem(itemId: string, locationId: string, base?: ItemEditBase): Observable<ItemResponse> {
+    const endpoint = `${this.basePath}/${itemId}/move`;
+    return this.api.patch<ItemResponse>(endpoint, { locationId }).pipe(
+      tap(item => this.entityStore.putItem(item)),
+      catchError(err => this.outbox.queueOnNetworkError(err, {
+        operation: 'moveItem',
+        method: 'PATCH',
+        endpoint,
+        body: { locationId },
+        label: `Move "${base?.name ?? 'item'}"`,
+        entityEndpoint: `${this.basePath}/${itemId}`,
+        baseUpdatedAt: base?.updatedAt
+      }))
+    );
+  }
+
+  /**
+   * Get all photos of an item, oldest first
+   * @param itemId - Item ID
+   * @returns Observable with the item's photos
+   */
+  getPhotos(itemId: string): Observable<ItemPhoto[]> {
+    return this.api.get<ItemPhoto[]>(`${this.basePath}/${itemId}/photos`);
+  }
+
+  /**
+   * Upload a photo for an item
+   * @param itemId - Item ID
+   * @param photo - Image data, already resized on the device
+   * @param fileName - File name sent with the upload
+   * @returns Observable with the stored photo
+   */
+  uploadPhoto(itemId: string, photo: Blob, fileName = 'photo.jpg'): Observable<ItemPhoto> {
+    const formData = new FormData();
+    formData.append('photo', photo, fileName);
+    return this.api.post<ItemPhoto>(`${this.basePath}/${itemId}/photos`, formData);
+  }
+
+  /**
+   * Delete a photo of an item
+   * @param itemId - Item ID
+   * @param photoId - Photo ID to delete
+   * @returns Observable that completes when deletion is successful
+   */
+  deletePhoto(itemId: string, photoId: string): Observable<void> {
+    return this.api.delete<void>(`${this.basePath}/${itemId}/photos/${photoId}`);
+  }
+
+  /**
+   * Attach a document to an item
+   * Files over `MAX_ATTACHMENT_SIZE` or of other types than `ATTACHMENT_TYPES`
+   * are rejected by the server with 413 or 415.
+   * @param itemId - Item ID
+   * @param file - File to attach, stored as is
+   * @returns Observable with the stored attachment
+   */
+  uploadAttachment(itemId: string, file: File): Observable<ItemAttachment> {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+    return this.api.post<ItemAttachment>(`${this.basePath}/${itemId}/attachments`, formData);
+  }
+
+  /**
+   * Download the file of an attachment
+   */
+  downloadAttachment(attachment: ItemAttachment): Observable<Blob> {
+    return this.api.download(attachment.url);
+  }
+
+  /**
+   * Delete an attachment of an item
+   * @param itemId - Item ID
+   * @param attachmentId - Attachment ID to delete
+   * @returns Observable that completes when deletion is successful
+   */
+  deleteAttachment(itemId: string, attachmentId: string): Observable<void> {
+    return this.api.delete<void>(`${this.basePath}/${itemId}/attachments/${attachmentId}`);
   }
 }
@@ -0,0 +1,115 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+
+/**
+ * Units of an item lent to someone
+ */
+export interface Loan {
+  id: string;
+  itemId: string;
+  itemName: string;
+  /** Names from the root to the item's location */
+  locationPath: string[];
+  borrowerName: string;
+  /** Telegram username of the borrower, without "@" */
+  borrowerUsername?: string;
+  /** Units lent; they are taken off the item's quantity until returned */
+  quantity: number;
+  lentAt: string;
+  /** ISO calendar date the item is due back */
+  dueAt?: string;
+}
+
+/**
+ * Request model for lending an item
+ */
+export interface CreateLoanRequest {
+  borrowerName: string;
+  borrowerUsername?: string;
+  quantity: number;
+  dueAt?: string;
+}
+
+/**
+ * Whether the bot reminds the user about overdue loans
+ */
+export interface LoanReminderSettings {
+  enabled: boolean;
+}
+
+/**
+ * Whether a loan is past its due date
+ */
+export function isLoanOverdue(loan: Loan, today = new Date()): boolean {
+  if (!loan.dueAt) return false;
+  // Compare local midnights so the day does not shift across time zones
+  const due = new Date(`${loan.dueAt}T00:00:00`);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return due.getTime() < start.getTime();
+}
+
+/**
+ * Short text for when a loan is due, e.g. "Due 31/05/2024" or "Overdue since 31/05/2024"
+ */
+export function describeLoanDue(loan: Loan, today = new Date()): string {
+  if (!loan.dueAt) return 'No due date';
+  const date = new Date(`${loan.dueAt}T00:00:00`).toLocaleDateString();
+  return isLoanOverdue(loan, today) ? `Overdue since ${date}` : `Due ${date}`;
+}
+
+/**
+ * Service for lending API operations
+ *
+ * Lending takes units off the item's quantity and returning puts them back,
+ * both on the server. Overdue reminders are sent by the bot.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoanApiService {
+  private readonly api = inject(ApiService);
+  private readonly basePath = '/loans';
+
+  /**
+   * Get every open loan across all items, soonest due first
+   */
+  getLoans(): Observable<Loan[]> {
+    return this.api.get<Loan[]>(this.basePath);
+  }
+
+  /**
+   * Get the open loans of an item
+   */
+  getItemLoans(itemId: string): Observable<Loan[]> {
+    return this.api.get<Loan[]>(`/items/${itemId}/loans`);
+  }
+
+  /**
+   * Lend units of an item to someone
+   */
+  lendItem(itemId: string, request: CreateLoanRequest): Observable<Loan> {
+    return this.api.post<Loan>(`/items/${itemId}/loans`, request);
+  }
+
+  /**
+   * Mark a loan as returned, putting its units back on the item
+   */
+  returnLoan(loanId: string): Observable<void> {
+    return this.api.post<void>(`${this.basePath}/${loanId}/return`);
+  }
+
+  /**
+   * Get the reminder settings of the current user
+   */
+  getReminderSettings(): Observable<LoanReminderSettings> {
+    return this.api.get<LoanReminderSettings>(`${this.basePath}/reminders`);
+  }
+
+  /**
+   * Turn overdue reminders on or off
+   */
+  updateReminderSettings(settings: LoanReminderSettings): Observable<LoanReminderSettings> {
+    return this.api.put<LoanReminderSettings>(`${this.basePath}/reminders`, settings);
+  }
+}
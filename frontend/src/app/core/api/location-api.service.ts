@@ -1,7 +1,12 @@
 import { Injectable, inject } from '@angular/core';
 import { Observable } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
 import { ApiService } from './api.service';
+import { OutboxService } from '../offline/outbox.service';
+import { EntityStoreService } from '../store/entity-store.service';
 import { ItemListItem } from './item-api.service';
+import { MoneyAmount } from './valuation-api.service';
+import { LocationRole } from '../auth/permissions';
 
 /**
  * Re-export ItemListItem from item-api.service for backward compatibility
@@ -16,6 +21,11 @@ export interface LocationListItem {
   name: string;
   childCount: number;
   itemCount: number;
+  /**
+   * Purchase value of the items here and in all sub-locations, one amount per
+   * currency; left out when none of them has a price
+   */
+  value?: MoneyAmount[];
 }
 
 /**
@@ -30,6 +40,8 @@ export interface LocationResponse {
   depth: number;
   createdAt: string;
   updatedAt: string;
+  /** The current user's effective role here; left out in the personal inventory */
+  role?: LocationRole;
 }
 
 /**
@@ -40,6 +52,37 @@ export interface LocationDetail extends LocationResponse {
   items: ItemListItem[];
 }
 
+/**
+ * Everything below a location, at any depth
+ */
+export interface LocationSubtreeCounts {
+  /** Descendant locations, not counting the location itself */
+  locationCount: number;
+  /** Items in the location and all its descendants */
+  itemCount: number;
+}
+
+/**
+ * A location in the trash
+ */
+export interface DeletedLocation {
+  id: string;
+  name: string;
+  /** Parent the location had when deleted; null for a top-level location */
+  parentId: string | null;
+  /** Names from the root to the former parent */
+  locationPath: string[];
+  /** False when the former parent is itself deleted or gone; restore then needs a new parent */
+  parentExists: boolean;
+  /** Sub-locations deleted along with it */
+  childCount: number;
+  /** Items deleted along with it, including those in sub-locations */
+  itemCount: number;
+  deletedAt: string;
+  /** When the server purges the location for good */
+  expiresAt: string;
+}
+
 /**
  * Tree node for hierarchical location display
  */
@@ -48,6 +91,23 @@ export interface LocationTreeNode {
   name: string;
   depth: number;
   children: LocationTreeNode[];
+  /** The current user's effective role here; left out in the personal inventory */
+  role?: LocationRole;
+}
+
+/**
+ * A household member's access to a location
+ */
+export interface LocationAccess {
+  /** Telegram user ID */
+  userId: string;
+  name: string;
+  /** Telegram username, without "@" */
+  username?: string;
+  /** Effective role; null when the member cannot see the location */
+  role: LocationRole | null;
+  /** Name of the ancestor the role comes from; left out when set on this location */
+  inheritedFrom?: string;
 }
 
 /**
@@ -67,40 +127,61 @@ export interface UpdateLocationRequest {
 
 /**
  * Service for location-related API operations
+ *
+ * Locations read and written here are kept in EntityStoreService.
  */
 @Injectable({
   providedIn: 'root'
 })
 export class LocationApiService {
   private readonly api = inject(ApiService);
+  private readonly outbox = inject(OutboxService);
+  private readonly entityStore = inject(EntityStoreService);
   private readonly basePath = '/locations';
 
   /**
    * Get all top-level locations (locations without a parent)
    */
   getTopLevelLocations(): Observable<LocationListItem[]> {
-    return this.api.get<LocationListItem[]>(this.basePath);
+    return this.api.get<LocationListItem[]>(this.basePath).pipe(
+      tap(locations => this.entityStore.setTopLevelLocations(locations))
+    );
   }
 
   /**
    * Get a single location by ID with full details
    */
   getLocation(id: string): Observable<LocationDetail> {
-    return this.api.get<LocationDetail>(`${this.basePath}/${id}`);
+    return this.api.get<LocationDetail>(`${this.basePath}/${id}`).pipe(
+      tap(location => this.entityStore.setLocationDetail(location))
+    );
   }
 
   /**
    * Create a new location
    */
   createLocation(request: CreateLocationRequest): Observable<LocationResponse> {
-    return this.api.post<LocationResponse>(this.basePath, request);
+    return this.api.post<LocationResponse>(this.basePath, request).pipe(
+      tap(location => this.entityStore.addLocation(location))
+    );
   }
 
   /**
    * Update an existing location
    */
   updateLocation(id: string, request: UpdateLocationRequest): Observable<LocationResponse> {
-    return this.api.put<LocationResponse>(`${this.basePath}/${id}`, request);
+    return this.api.put<LocationResponse>(`${this.basePath}/${id}`, request).pipe(
+      tap(location => this.entityStore.updateLocation(location))
+    );
+  }
+
+  /**
+   * Count everything in a location's subtree
+   * Used to warn about what a cascade delete will remove.
+   * @param id - Location ID
+   */
+  getSubtreeCounts(id: string): Observable<LocationSubtreeCounts> {
+    return this.api.get<LocationSubtreeCounts>(`${this.basePath}/${id}/counts`);
   }
 
   /**
@@ -112,25 +193,98 @@ export class LocationApiService {
     const endpoint = force
       ? `${this.basePath}/${id}?force=true`
       : `${this.basePath}/${id}`;
-    return this.api.delete<void>(endpoint);
+    return this.api.delete<void>(endpoint).pipe(
+      tap(() => this.entityStore.removeLocation(id))
+    );
+  }
+
+  /**
+   * Restore a deleted location from the trash
+   * The server keeps deleted locations for a retention period; a location deleted
+   * with `force` comes back with its whole subtree and items.
+   * @param id - Location ID to restore
+   * @param parentId - New parent (null for top level); omit to restore under the original parent
+   */
+  restoreLocation(id: string, parentId?: string | null): Observable<LocationResponse> {
+    return this.api.post<LocationResponse>(
+      `${this.basePath}/${id}/restore`,
+      parentId !== undefined ? { parentId } : undefined
+    ).pipe(
+      tap(location => this.entityStore.addLocation(location))
+    );
+  }
+
+  /**
+   * Get locations in the trash, most recently deleted first
+   * Sub-locations deleted together with their parent are not listed separately.
+   */
+  getDeletedLocations(): Observable<DeletedLocation[]> {
+    return this.api.get<DeletedLocation[]>(`${this.basePath}/deleted`);
+  }
+
+  /**
+   * Permanently delete a location and everything deleted with it
+   * @param id - Location ID to purge
+   */
+  purgeLocation(id: string): Observable<void> {
+    return this.api.delete<void>(`${this.basePath}/deleted/${id}`);
   }
 
   /**
    * Get the complete location tree hierarchy
    */
   getLocationTree(): Observable<LocationTreeNode[]> {
-    return this.api.get<LocationTreeNode[]>(`${this.basePath}/tree`);
+    return this.api.get<LocationTreeNode[]>(`${this.basePath}/tree`).pipe(
+      tap(nodes => this.entityStore.setLocationTree(nodes))
+    );
   }
 
   /**
    * Move a location to a new parent
+   * When offline, the request is queued in the outbox and the error has `queued: true`.
    * @param locationId - ID of the location to move
    * @param parentId - ID of the new parent location, or null for root level
+   * @param base - The copy the user moved; used to detect conflicts on replay
    */
-  moveLocation(locationId: string, parentId: string | null): Observable<LocationResponse> {
-    return this.api.post<LocationResponse>(
-      `${this.basePath}/${locationId}/move`,
-      { parentId }
+  moveLocation(
+    locationId: string,
+    parentId: string | null,
+    base?: Pick<LocationResponse, 'name'> & Partial<Pick<LocationResponse, 'updatedAt'>>
+  ): Observable<LocationResponse> {
+    const endpoint = `${this.basePath}/${locationId}/move`;
+    return this.api.post<LocationResponse>(endpoint, { parentId }).pipe(
+      tap(location => this.entityStore.updateLocation(location)),
+      catchError(err => this.outbox.queueOnNetworkError(err, {
+        operation: 'moveLocation',
+        method: 'POST',
+        endpoint,
+        body: { parentId },
+        label: `Move "${base?.name ?? 'location'}"`,
+        entityEndpoint: `${this.basePath}/${locationId}`,
+        baseUpdatedAt: base?.updatedAt
+      }))
     );
   }
+
+  /**
+   * Get the role of each member of the active household on a location
+   */
+  getAccess(locationId: string): Observable<LocationAccess[]> {
+    return this.api.get<LocationAccess[]>(`${this.basePath}/${locationId}/access`);
+  }
+
+  /**
+   * Give a member a role on a location and everything below it
+   * Only owners of the location may do this.
+   */
+  setAccess(locationId: string, userId: string, role: LocationRole): Observable<LocationAccess> {
+    return this.api.put<LocationAccess>(`${this.basePath}/${locationId}/access/${userId}`, { role });
+  }
+
+  /**
+   * Remove the role set on a location, so the member falls back to the one inherited from above
+   */
+  removeAccess(locationId: string, userId: string): Observable<LocationAccess> {
+    return this.api.delete<LocationAccess>(`${this.basePath}/${locationId}/access/${userId}`);
+  }
 }
@@ -1,15 +1,23 @@
 import { Injectable, inject } from '@angular/core';
-import { Observable } from 'rxjs';
-import { ApiService } from './api.service';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { ApiError, ApiService } from './api.service';
+import { EntityStoreService } from '../store/entity-store.service';
 
 /**
  * Parameters for search requests
  */
 export interface SearchParams {
-  /** Search query string */
+  /** Search query string; also matches text, enum and number custom field values */
   q?: string;
   /** Filter by location ID */
   locationId?: string;
+  /** Only items carrying all of these tags */
+  tags?: string[];
+  /** Only items whose custom field with this ID has `fieldValue` */
+  fieldId?: string;
+  /** Value the `fieldId` field must have; text fields match on contains, other types exactly */
+  fieldValue?: string;
   /** Maximum number of results to return */
   limit?: number;
   /** Offset for pagination */
@@ -32,6 +40,9 @@ export interface SearchResultItem {
   locationId: string;
   /** Full path of location names from root to item's location */
   locationPath: string[];
+  /** Thumbnail URL of the item's first photo, if it has any */
+  thumbnailUrl?: string;
+  tags?: string[];
 }
 
 /**
@@ -48,12 +59,15 @@ export interface SearchResults {
 
 /**
  * Service for search-related API operations
+ *
+ * Item search results are kept in EntityStoreService.
  */
 @Injectable({
   providedIn: 'root'
 })
 export class SearchApiService {
   private readonly api = inject(ApiService);
+  private readonly entityStore = inject(EntityStoreService);
   private readonly basePath = '/search';
 
   /**
@@ -70,6 +84,13 @@ export class SearchApiService {
     if (params.locationId) {
       queryParams['locationId'] = params.locationId;
     }
+    if (params.tags?.length) {
+      queryParams['tags'] = params.tags.join(',');
+    }
+    if (params.fieldId && params.fieldValue !== undefined) {
+      queryParams['fieldId'] = params.fieldId;
+      queryParams['fieldValue'] = params.fieldValue;
+    }
     if (params.limit !== undefined) {
       queryParams['limit'] = params.limit;
     }
@@ -77,6 +98,19 @@ export class SearchApiService {
       queryParams['offset'] = params.offset;
     }
 
-    return this.api.get<SearchResults>(`${this.basePath}/items`, queryParams);
+    return this.api.get<SearchResults>(`${this.basePath}/items`, queryParams).pipe(
+      tap(results => this.entityStore.putItemSummaries(results.items))
+    );
+  }
+
+  /**
+   * Find the item with an exact barcode match
+   * @param barcode - Scanned barcode or QR label text
+   * @returns Observable with the matching item, or null if no item has this barcode
+   */
+  findByBarcode(barcode: string): Observable<SearchResultItem | null> {
+    return this.api.get<SearchResultItem>(`${this.basePath}/barcode`, { code: barcode }).pipe(
+      catchError((error: ApiError) => error.statusCode === 404 ? of(null) : throwError(() => error))
+    );
   }
 }
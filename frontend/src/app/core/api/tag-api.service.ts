@@ -0,0 +1,69 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+
+/** Longest allowed tag */
+export const MAX_TAG_LENGTH = 50;
+
+/** Most tags one item can have */
+export const MAX_TAGS_PER_ITEM = 20;
+
+/**
+ * A tag in use, with how many items carry it
+ */
+export interface TagSummary {
+  name: string;
+  itemCount: number;
+}
+
+/**
+ * Bring a typed tag into its stored form: trimmed, lowercase, single spaces
+ * Commas separate tags in search query params, so they are not allowed.
+ * @returns The tag, or an empty string if nothing usable is left
+ */
+export function normalizeTag(value: string): string {
+  return value
+    .replace(/,/g, ' ')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Service for tag-related API operations
+ *
+ * Tags are free-form labels stored on items; a tag exists as long as at least
+ * one item carries it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TagApiService {
+  private readonly api = inject(ApiService);
+  private readonly basePath = '/tags';
+
+  /**
+   * Get every tag in use, most used first
+   */
+  getTags(): Observable<TagSummary[]> {
+    return this.api.get<TagSummary[]>(this.basePath);
+  }
+
+  /**
+   * Rename a tag on every item that has it
+   * Renaming to a tag that already exists merges the two.
+   */
+  renameTag(name: string, newName: string): Observable<TagSummary> {
+    return this.api.put<TagSummary>(`${this.basePath}/${encodeURIComponent(name)}`, { name: newName });
+  }
+
+  /**
+   * Replace several tags with one on every item that has any of them
+   * @param sources - Tags to merge away
+   * @param target - Tag they become; may be new or one of the sources
+   */
+  mergeTags(sources: string[], target: string): Observable<TagSummary> {
+    return this.api.post<TagSummary>(`${this.basePath}/merge`, { sources, target });
+  }
+}
@@ -0,0 +1,79 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+
+/**
+ * An amount of money in one currency
+ */
+export interface MoneyAmount {
+  /** ISO 4217 code, e.g. "EUR" */
+  currency: string;
+  amount: number;
+}
+
+/**
+ * An item with a purchase price, as used for valuation
+ */
+export interface ValuedItem {
+  id: string;
+  name: string;
+  quantity: number;
+  locationId: string;
+  /** Price paid per unit */
+  purchasePrice: number;
+  currency: string;
+  purchaseDate?: string;
+  store?: string;
+  warrantyExpiresAt?: string;
+}
+
+/**
+ * Add amounts up per currency
+ * @returns One amount per currency, sorted by currency code
+ */
+export function sumMoney(amounts: MoneyAmount[]): MoneyAmount[] {
+  const totals = new Map<string, number>();
+  for (const { currency, amount } of amounts) {
+    totals.set(currency, (totals.get(currency) ?? 0) + amount);
+  }
+  return [...totals.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, amount]) => ({ currency, amount }));
+}
+
+/**
+ * Display text for amounts in one or more currencies, e.g. "€1,250.00 + $80.00"
+ */
+export function formatMoney(amounts: MoneyAmount[]): string {
+  return amounts
+    .map(({ currency, amount }) => {
+      try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+      } catch {
+        // Unknown currency code
+        return `${amount.toFixed(2)} ${currency}`;
+      }
+    })
+    .join(' + ');
+}
+
+/**
+ * Service for valuation API operations
+ *
+ * Purchase details live on the items themselves (`ItemResponse.purchasePrice`
+ * and friends); this service reads them across the whole inventory.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ValuationApiService {
+  private readonly api = inject(ApiService);
+  private readonly basePath = '/valuation';
+
+  /**
+   * Get every item that has a purchase price, across all locations
+   */
+  getValuedItems(): Observable<ValuedItem[]> {
+    return this.api.get<ValuedItem[]>(`${this.basePath}/items`);
+  }
+}
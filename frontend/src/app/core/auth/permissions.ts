@@ -0,0 +1,64 @@
+/**
+ * Role of the current user on a location subtree
+ * - viewer: browse only
+ * - editor: add, edit and move items and sub-locations
+ * - owner: also delete and share
+ *
+ * A role set on a location applies to everything below it unless a
+ * sub-location sets its own. In the personal inventory the user owns
+ * everything.
+ */
+export type LocationRole = 'owner' | 'editor' | 'viewer';
+
+/** Roles from least to most privileged */
+export const LOCATION_ROLES: readonly LocationRole[] = ['viewer', 'editor', 'owner'];
+
+/** Display labels for roles */
+export const LOCATION_ROLE_LABELS: Record<LocationRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+/** What each role allows, shown next to the role picker */
+export const LOCATION_ROLE_DESCRIPTIONS: Record<LocationRole, string> = {
+  owner: 'Can delete and share',
+  editor: 'Can add, edit and move',
+  viewer: 'Can only browse'
+};
+
+/**
+ * Whether a role includes everything another role allows.
+ * A missing role means the location is not shared, so the user owns it.
+ */
+export function hasRole(role: LocationRole | null | undefined, required: LocationRole): boolean {
+  return LOCATION_ROLES.indexOf(role ?? 'owner') >= LOCATION_ROLES.indexOf(required);
+}
+
+/** Whether the user may add, edit and move things in a location */
+export function canEdit(role: LocationRole | null | undefined): boolean {
+  return hasRole(role, 'editor');
+}
+
+/** Whether the user may delete and share a location and what is in it */
+export function canManage(role: LocationRole | null | undefined): boolean {
+  return hasRole(role, 'owner');
+}
+
+/**
+ * Explain a 403 response
+ * @param role - The user's role on the location, or null without any access
+ * @param required - The role the request needed
+ */
+export function describeForbidden(role?: LocationRole | null, required?: LocationRole): string {
+  if (role === null) {
+    return "You don't have access to this location. Ask one of its owners to share it with you.";
+  }
+  if (required === 'owner') {
+    return 'Only owners of this location can delete or share it. Ask an owner to do it for you.';
+  }
+  if (role === 'viewer' || required === 'editor') {
+    return 'You can view this location but not change it. Ask an owner for editor access.';
+  }
+  return "You don't have permission to do that here. Ask an owner of the location for access.";
+}
@@ -1,17 +1,19 @@
 import { HttpInterceptorFn } from '@angular/common/http';
 import { inject } from '@angular/core';
+import { environment } from '../../../environments/environment';
 import { TelegramService } from '../../telegram/telegram.service';
 
 /**
- * HTTP interceptor that adds the X-Telegram-Init-Data header to all requests.
+ * HTTP interceptor that adds the X-Telegram-Init-Data header to API requests.
  * This header contains the Telegram Mini App initialization data used for
- * authenticating requests on the backend.
+ * authenticating requests on the backend. Requests to other hosts (e.g. file
+ * URLs) are left alone, so the credential never leaves the API.
  */
 export const telegramAuthInterceptor: HttpInterceptorFn = (req, next) => {
   const telegramService = inject(TelegramService);
   const initData = telegramService.getInitData();
 
-  if (initData) {
+  if (initData && req.url.startsWith(environment.apiUrl)) {
     const clonedRequest = req.clone({
       setHeaders: {
         'X-Telegram-Init-Data': initData
@@ -0,0 +1,531 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { Observable, firstValueFrom, from, throwError } from 'rxjs';
+import { mergeMap, tap, toArray } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import {
+  CustomFieldApiService,
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValues
+} from '../api/custom-field-api.service';
+import { ItemApiService, ItemListItem } from '../api/item-api.service';
+import { LocationApiService, LocationTreeNode } from '../api/location-api.service';
+import { BulkOperationService } from '../bulk-operation.service';
+import { GeneratedFile } from '../export/file-delivery.service';
+
+/** Value of `format` in every backup file */
+export const BACKUP_FORMAT = 'stufftracker-backup';
+
+/**
+ * Schema version written by this build
+ * Bump it when the file layout changes and keep reading older versions.
+ */
+export const BACKUP_VERSION = 1;
+
+/**
+ * A location in a backup
+ */
+export interface BackupLocation {
+  id: string;
+  name: string;
+  /** Null for a top-level location */
+  parentId: string | null;
+  breadcrumbIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A custom field definition in a backup
+ */
+export interface BackupCustomField {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[];
+}
+
+/**
+ * An item in a backup
+ */
+export interface BackupItem {
+  id: string;
+  name: string;
+  description?: string;
+  quantity: number;
+  barcode?: string;
+  tags?: string[];
+  expiresAt?: string;
+  minQuantity?: number;
+  purchasePrice?: number;
+  currency?: string;
+  purchaseDate?: string;
+  store?: string;
+  warrantyExpiresAt?: string;
+  /** Keyed by the backup's custom field IDs */
+  customFields?: CustomFieldValues;
+  locationId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Contents of a backup file
+ * Locations and items are flat lists linked by ID; IDs are those of the
+ * account the backup was taken from.
+ */
+export interface InventoryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  /** Bot the backup was taken through, e.g. the dev or production bot */
+  source: { botUsername: string };
+  locations: BackupLocation[];
+  items: BackupItem[];
+  /** Missing in backups made before custom fields existed */
+  customFields?: BackupCustomField[];
+}
+
+/**
+ * How a backup is restored into an account that already has data
+ * - merge: locations with the same name under the same parent are reused,
+ *   and items already present there by name are left alone
+ * - copy: everything is created anew next to the existing data
+ */
+export type RestoreMode = 'merge' | 'copy';
+
+/**
+ * Something that could not be restored
+ */
+export interface RestoreFailure {
+  kind: 'customField' | 'location' | 'item';
+  name: string;
+  error: string;
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface RestoreResult {
+  customFieldsCreated: number;
+  locationsCreated: number;
+  /** Locations matched to existing ones (merge only) */
+  locationsMerged: number;
+  itemsCreated: number;
+  /** Items already present (merge only) */
+  itemsSkipped: number;
+  /** Items kept in the offline outbox */
+  itemsQueued: number;
+  failures: RestoreFailure[];
+}
+
+/**
+ * Progress of reading the inventory for a backup
+ */
+export interface BackupProgress {
+  label: string;
+  done: number;
+  total: number;
+}
+
+/** Requests in flight at once while reading */
+const CONCURRENCY = 3;
+
+/**
+ * Full-inventory backup and restore
+ *
+ * A backup is a single versioned JSON file with every location and item,
+ * their timestamps and the hierarchy. Restoring rebuilds the tree parent by
+ * parent and remaps the old IDs to the ones the server assigns, so a backup
+ * can be restored into another account or another environment (dev and
+ * production bots have separate data).
+ *
+ * Custom field definitions travel with the items: on restore they are matched
+ * to existing fields by name and type or created, and item values are
+ * rekeyed to the resulting IDs.
+ *
+ * Timestamps are kept in the file for reference; restored records get new
+ * ones from the server. Photos and attachments are not part of a backup.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BackupService {
+  private readonly itemApiService = inject(ItemApiService);
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly customFieldApiService = inject(CustomFieldApiService);
+  private readonly bulkOperationService = inject(BulkOperationService);
+
+  /** Bot this build talks to; recorded as the source of new backups */
+  readonly botUsername = environment.telegram.botUsername;
+
+  /** Progress of reading the inventory, or null when idle */
+  readonly progress = signal<BackupProgress | null>(null);
+
+  /**
+   * Read the whole inventory into a backup file
+   * Fails as a whole if any location or item cannot be read, so a backup is
+   * never silently incomplete.
+   */
+  async create(): Promise<GeneratedFile> {
+    try {
+      const fields = await firstValueFrom(this.customFieldApiService.getFields());
+      const tree = await firstValueFrom(this.locationApiService.getLocationTree());
+      const nodes = this.flatten(tree);
+
+      const details = await this.readAll('Reading locations', nodes, node =>
+        this.locationApiService.getLocation(node.id)
+      );
+      const listItems: ItemListItem[] = details.flatMap(detail => detail.items);
+      const items = await this.readAll('Reading items', listItems, item =>
+        this.itemApiService.getItem(item.id)
+      );
+
+      const backup: InventoryBackup = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: new Date().toISOString(),
+        source: { botUsername: this.botUsername },
+        locations: details.map(location => ({
+          id: location.id,
+          name: location.name,
+          parentId: location.parentId ?? null,
+          breadcrumbIds: location.breadcrumbIds,
+          createdAt: location.createdAt,
+          updatedAt: location.updatedAt
+        })),
+        items: items.map(item => ({
+          id: item.id,
+          name: item.name,
+          description: item.description,
+          quantity: item.quantity,
+          barcode: item.barcode,
+          tags: item.tags,
+          expiresAt: item.expiresAt,
+          minQuantity: item.minQuantity,
+          purchasePrice: item.purchasePrice,
+          currency: item.currency,
+          purchaseDate: item.purchaseDate,
+          store: item.store,
+          warrantyExpiresAt: item.warrantyExpiresAt,
+          customFields: item.customFields,
+          locationId: item.locationId,
+          createdAt: item.createdAt,
+          updatedAt: item.updatedAt
+        })),
+        customFields: fields.map(field => ({
+          id: field.id,
+          name: field.name,
+          type: field.type,
+          options: field.options
+        }))
+      };
+
+      return {
+        blob: new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }),
+        fileName: `stufftracker-backup-${backup.createdAt.slice(0, 10)}.json`
+      };
+    } finally {
+      this.progress.set(null);
+    }
+  }
+
+  /**
+   * Read and check a backup file
+   * @throws Error with a user-facing message if the file is not a usable backup
+   */
+  async read(file: File): Promise<InventoryBackup> {
+    let data: Partial<InventoryBackup>;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    if (data?.format !== BACKUP_FORMAT) {
+      throw new Error('This is not a StuffTracker backup');
+    }
+    if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+      throw new Error('This backup was made by a newer version of StuffTracker');
+    }
+    if (!Array.isArray(data.locations) || !Array.isArray(data.items)) {
+      throw new Error('The backup is damaged: locations or items are missing');
+    }
+    if (data.customFields !== undefined && !Array.isArray(data.customFields)) {
+      throw new Error('The backup is damaged: custom fields are unreadable');
+    }
+
+    const locationIds = new Set(data.locations.map(location => location.id));
+    const damaged = data.locations.some(location => !location.id || !location.name)
+      || data.items.some(item => !item.name || !locationIds.has(item.locationId))
+      || (data.customFields ?? []).some(field => !field.id || !field.name || !field.type);
+    if (damaged) {
+      throw new Error('The backup is damaged: some records are incomplete');
+    }
+
+    return data as InventoryBackup;
+  }
+
+  /**
+   * Restore a backup into the current account
+   * @param backup - Backup to restore
+   * @param mode - What to do with locations and items that already exist
+   */
+  async restore(backup: InventoryBackup, mode: RestoreMode): Promise<RestoreResult> {
+    const result: RestoreResult = {
+      customFieldsCreated: 0,
+      locationsCreated: 0,
+      locationsMerged: 0,
+      itemsCreated: 0,
+      itemsSkipped: 0,
+      itemsQueued: 0,
+      failures: []
+    };
+
+    // Old custom field ID → ID in this account
+    const fieldIdMap = await this.restoreCustomFields(backup.customFields ?? [], result);
+
+    // Old location ID → ID in this account
+    const idMap = new Map<string, string>();
+    // Locations reused from this account; their items may already be present
+    const mergedIds = new Set<string>();
+    const existing = mode === 'merge'
+      ? this.indexChildren(await firstValueFrom(this.locationApiService.getLocationTree()))
+      : new Map<string, string>();
+
+    // Restore level by level so every parent exists before its children
+    const levels = this.groupByDepth(backup.locations);
+    for (const level of levels) {
+      const toCreate: BackupLocation[] = [];
+      for (const location of level) {
+        const parentId = location.parentId ? idMap.get(location.parentId) : null;
+        const match = parentId !== undefined
+          ? existing.get(this.childKey(parentId, location.name))
+          : undefined;
+        if (match) {
+          idMap.set(location.id, match);
+          mergedIds.add(match);
+          result.locationsMerged++;
+        } else {
+          toCreate.push(location);
+        }
+      }
+
+      const created = await this.bulkOperationService.run('Restoring locations', toCreate, location => {
+        const parentId = location.parentId ? idMap.get(location.parentId) : undefined;
+        if (location.parentId && !parentId) {
+          return throwError(() => new Error('Its parent location could not be restored'));
+        }
+        return this.locationApiService
+          .createLocation({ name: location.name, parentId })
+          .pipe(tap(response => idMap.set(location.id, response.id)));
+      });
+      result.locationsCreated += created.succeeded.length;
+      created.failed.forEach(({ target, error }) =>
+        result.failures.push({ kind: 'location', name: target.name, error })
+      );
+    }
+
+    // Items already in reused locations are not duplicated
+    const present = await this.loadItemNames([...mergedIds]);
+    const toRestore = backup.items.filter(item => {
+      const locationId = idMap.get(item.locationId);
+      if (locationId && present.get(locationId)?.has(item.name.toLowerCase())) {
+        result.itemsSkipped++;
+        return false;
+      }
+      return true;
+    });
+
+    const restored = await this.bulkOperationService.run('Restoring items', toRestore, item => {
+      const locationId = idMap.get(item.locationId);
+      if (!locationId) {
+        return throwError(() => new Error('Its location could not be restored'));
+      }
+      return this.itemApiService.createItem({
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        barcode: item.barcode,
+        tags: item.tags,
+        expiresAt: item.expiresAt,
+        minQuantity: item.minQuantity,
+        purchasePrice: item.purchasePrice,
+        currency: item.currency,
+        purchaseDate: item.purchaseDate,
+        store: item.store,
+        warrantyExpiresAt: item.warrantyExpiresAt,
+        customFields: this.remapCustomFields(item.customFields, fieldIdMap),
+        locationId
+      });
+    });
+    result.itemsCreated = restored.succeeded.length;
+    result.itemsQueued = restored.queued.length;
+    restored.failed.forEach(({ target, error }) =>
+      result.failures.push({ kind: 'item', name: target.name, error })
+    );
+
+    return result;
+  }
+
+  /**
+   * Match backup custom fields to this account's fields, creating the missing ones
+   * A field with the same name and type is reused in either mode; its enum
+   * options are extended with any the backup's values may need.
+   * @returns Map of old field ID → ID in this account
+   */
+  private async restoreCustomFields(fields: BackupCustomField[], result: RestoreResult): Promise<Map<string, string>> {
+    const idMap = new Map<string, string>();
+    if (fields.length === 0) {
+      return idMap;
+    }
+
+    const existing = new Map<string, CustomFieldDefinition>();
+    for (const field of await firstValueFrom(this.customFieldApiService.getFields())) {
+      existing.set(this.fieldKey(field), field);
+    }
+
+    const toCreate: BackupCustomField[] = [];
+    const toExtend: { field: BackupCustomField; match: CustomFieldDefinition }[] = [];
+    for (const field of fields) {
+      const match = existing.get(this.fieldKey(field));
+      if (!match) {
+        toCreate.push(field);
+        continue;
+      }
+      idMap.set(field.id, match.id);
+      if (field.options?.some(option => !match.options?.includes(option))) {
+        toExtend.push({ field, match });
+      }
+    }
+
+    const created = await this.bulkOperationService.run('Restoring custom fields', toCreate, field =>
+      this.customFieldApiService
+        .createField({ name: field.name, type: field.type, options: field.options })
+        .pipe(tap(response => idMap.set(field.id, response.id)))
+    );
+    const extended = await this.bulkOperationService.run('Restoring custom fields', toExtend, ({ field, match }) =>
+      this.customFieldApiService.updateField(match.id, {
+        options: [...new Set([...(match.options ?? []), ...(field.options ?? [])])]
+      })
+    );
+
+    result.customFieldsCreated = created.succeeded.length;
+    created.failed.forEach(({ target, error }) =>
+      result.failures.push({ kind: 'customField', name: target.name, error })
+    );
+    extended.failed.forEach(({ target, error }) =>
+      result.failures.push({ kind: 'customField', name: target.field.name, error })
+    );
+    return idMap;
+  }
+
+  /**
+   * Rekey item values to this account's field IDs
+   * Values of fields that could not be restored are dropped.
+   */
+  private remapCustomFields(values: CustomFieldValues | undefined, fieldIdMap: Map<string, string>): CustomFieldValues | undefined {
+    if (!values) {
+      return undefined;
+    }
+    const remapped: CustomFieldValues = {};
+    for (const [fieldId, value] of Object.entries(values)) {
+      const id = fieldIdMap.get(fieldId);
+      if (id) {
+        remapped[id] = value;
+      }
+    }
+    return Object.keys(remapped).length > 0 ? remapped : undefined;
+  }
+
+  /**
+   * Run a read per target, failing as a whole on the first error
+   */
+  private async readAll<T, R>(label: string, targets: T[], read: (target: T) => Observable<R>): Promise<R[]> {
+    this.progress.set({ label, done: 0, total: targets.length });
+    if (targets.length === 0) {
+      return [];
+    }
+    return firstValueFrom(
+      from(targets).pipe(
+        mergeMap(read, CONCURRENCY),
+        tap(() => this.progress.update(p => p && { ...p, done: p.done + 1 })),
+        toArray()
+      )
+    );
+  }
+
+  /**
+   * Names of the items in each location, lowercased
+   */
+  private async loadItemNames(locationIds: string[]): Promise<Map<string, Set<string>>> {
+    const names = new Map<string, Set<string>>();
+    if (locationIds.length === 0) {
+      return names;
+    }
+    const details = await firstValueFrom(
+      from(locationIds).pipe(
+        mergeMap(id => this.locationApiService.getLocation(id), CONCURRENCY),
+        toArray()
+      )
+    );
+    details.forEach(detail => names.set(detail.id, new Set(detail.items.map(item => item.name.toLowerCase()))));
+    return names;
+  }
+
+  /**
+   * Split locations into levels, roots first
+   * Depth comes from `breadcrumbIds`; a location whose parent is not in the
+   * backup is restored at the top level.
+   */
+  private groupByDepth(locations: BackupLocation[]): BackupLocation[][] {
+    const ids = new Set(locations.map(location => location.id));
+    const normalized = locations.map(location =>
+      location.parentId && !ids.has(location.parentId) ? { ...location, parentId: null } : location
+    );
+
+    const levels: BackupLocation[][] = [];
+    const sorted = [...normalized].sort((a, b) => (a.breadcrumbIds?.length ?? 0) - (b.breadcrumbIds?.length ?? 0));
+    const placed = new Set<string>();
+    let remaining = sorted;
+    while (remaining.length > 0) {
+      const level = remaining.filter(location => !location.parentId || placed.has(location.parentId));
+      if (level.length === 0) {
+        // A parent cycle: nothing left can be placed
+        levels.push(remaining.map(location => ({ ...location, parentId: null })));
+        break;
+      }
+      level.forEach(location => placed.add(location.id));
+      levels.push(level);
+      remaining = remaining.filter(location => !placed.has(location.id));
+    }
+    return levels;
+  }
+
+  /**
+   * Map of (parent ID, lowercased name) to location ID for the whole tree
+   */
+  private indexChildren(nodes: LocationTreeNode[], parentId: string | null = null, index = new Map<string, string>()): Map<string, string> {
+    for (const node of nodes) {
+      const key = this.childKey(parentId, node.name);
+      // With duplicate sibling names the first one wins
+      if (!index.has(key)) {
+        index.set(key, node.id);
+      }
+      this.indexChildren(node.children, node.id, index);
+    }
+    return index;
+  }
+
+  private fieldKey(field: { name: string; type: CustomFieldType }): string {
+    return `${field.type}\u0000${field.name.trim().toLowerCase()}`;
+  }
+
+  private childKey(parentId: string | null, name: string): string {
+    return `${parentId ?? ''}\u0000${name.trim().toLowerCase()}`;
+  }
+
+  private flatten(nodes: LocationTreeNode[]): LocationTreeNode[] {
+    return nodes.flatMap(node => [node, ...this.flatten(node.children)]);
+  }
+}
@@ -0,0 +1,106 @@
+import { Injectable, signal } from '@angular/core';
+import { Observable, firstValueFrom, from, of } from 'rxjs';
+import { catchError, map, mergeMap, tap, toArray } from 'rxjs/operators';
+import { ApiError } from './api/api.service';
+
+/**
+ * Progress of the running bulk operation
+ */
+export interface BulkProgress {
+  /** Verb for display, e.g. "Moving" */
+  label: string;
+  done: number;
+  total: number;
+}
+
+/**
+ * A target the operation failed for
+ */
+export interface BulkFailure<T> {
+  target: T;
+  error: string;
+}
+
+/**
+ * Outcome of a bulk operation
+ */
+export interface BulkResult<T> {
+  succeeded: T[];
+  /** Targets whose write was kept in the offline outbox */
+  queued: T[];
+  failed: BulkFailure<T>[];
+}
+
+/** Requests in flight at once */
+const CONCURRENCY = 3;
+
+/**
+ * Runs one API call per target with limited concurrency
+ *
+ * A failing target does not stop the others; the result lists which
+ * targets succeeded, were queued offline, or failed and why.
+ * Only one bulk operation runs at a time: a run started while another is in
+ * progress (e.g. an Undo during an import) waits for it to finish, so the
+ * progress signal always belongs to the running operation.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BulkOperationService {
+  /** Progress of the running operation, or null when idle */
+  readonly progress = signal<BulkProgress | null>(null);
+
+  /** Last run waiting or in progress; the next one starts after it */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Run an action for every target, after any operation already running
+   * @param label - Verb shown with the progress, e.g. "Deleting"
+   * @param targets - Targets to act on
+   * @param action - API call for one target
+   * @returns Per-target outcome once all calls have finished
+   */
+  run<T>(label: string, targets: T[], action: (target: T) => Observable<unknown>): Promise<BulkResult<T>> {
+    if (targets.length === 0) {
+      return Promise.resolve({ succeeded: [], queued: [], failed: [] });
+    }
+
+    const next = this.queue.then(() => this.execute(label, targets, action));
+    // A run that throws must not hold up the ones after it
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async execute<T>(label: string, targets: T[], action: (target: T) => Observable<unknown>): Promise<BulkResult<T>> {
+    const result: BulkResult<T> = { succeeded: [], queued: [], failed: [] };
+    this.progress.set({ label, done: 0, total: targets.length });
+
+    try {
+      await firstValueFrom(
+        from(targets).pipe(
+          mergeMap(target => action(target).pipe(
+            // toArray emits once on completion, also for calls that return no body
+            toArray(),
+            map(() => result.succeeded.push(target)),
+            catchError((err: ApiError) => {
+              if (err.queued) {
+                result.queued.push(target);
+              } else {
+                result.failed.push({ target, error: err.message || 'Unknown error' });
+              }
+              return of(undefined);
+            }),
+            tap(() => this.progress.update(p => p && { ...p, done: p.done + 1 }))
+          ), CONCURRENCY),
+          toArray()
+        )
+      );
+    } finally {
+      this.progress.set(null);
+    }
+
+    console.debug('[BulkOperation] %s: %d ok, %d queued, %d failed',
+      label, result.succeeded.length, result.queued.length, result.failed.length);
+    return result;
+  }
+}
@@ -0,0 +1,112 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../environments/environment';
+
+/** Start parameter prefix for location links */
+const LOCATION_PREFIX = 'loc_';
+
+/** Start parameter prefix for item links */
+const ITEM_PREFIX = 'item_';
+
+/** Start parameter prefix for household invite links */
+const INVITE_PREFIX = 'join_';
+
+/** Separates the household ID from the location or item ID */
+const HOUSEHOLD_SEPARATOR = '_';
+
+/** Characters Telegram accepts in a start parameter */
+const START_PARAM_PATTERN = /^[A-Za-z0-9_-]{1,512}$/;
+
+/**
+ * Where a start parameter leads
+ */
+export interface DeepLinkTarget {
+  /** Router commands to open */
+  commands: string[];
+  /**
+   * Household the target lives in, null for the personal inventory;
+   * undefined when the link works in any household (invites)
+   */
+  householdId?: string | null;
+}
+
+/**
+ * Builds and resolves Telegram Mini App deep links
+ *
+ * Links have the form `https://t.me/<bot>?startapp=loc_<id>`,
+ * `...?startapp=item_<id>` or `...?startapp=join_<invite code>`; Telegram
+ * opens the Mini App and passes the `startapp` value as the start parameter.
+ * Locations and items in a shared household carry its ID as well
+ * (`loc_<household id>_<id>`), since requests are scoped to one household.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DeepLinkService {
+  /**
+   * Build a deep link that opens a location
+   * @param locationId - Location ID
+   * @param householdId - Household the location is in, or null for the personal inventory
+   */
+  locationLink(locationId: string, householdId: string | null): string {
+    return this.buildLink(`${LOCATION_PREFIX}${this.scopedId(locationId, householdId)}`);
+  }
+
+  /**
+   * Build a deep link that opens an item
+   * @param itemId - Item ID
+   * @param householdId - Household the item is in, or null for the personal inventory
+   */
+  itemLink(itemId: string, householdId: string | null): string {
+    return this.buildLink(`${ITEM_PREFIX}${this.scopedId(itemId, householdId)}`);
+  }
+
+  /**
+   * Build a deep link that invites someone to a household
+   * @param code - Invite code
+   */
+  inviteLink(code: string): string {
+    return this.buildLink(`${INVITE_PREFIX}${code}`);
+  }
+
+  /**
+   * Resolve a start parameter to router commands and the household to open them in
+   * @param startParam - The `startapp` value the Mini App was opened with
+   * @returns Where to go, or null if the parameter is not recognised
+   */
+  resolveStartParam(startParam: string): DeepLinkTarget | null {
+    if (!START_PARAM_PATTERN.test(startParam)) {
+      return null;
+    }
+
+    if (startParam.startsWith(LOCATION_PREFIX)) {
+      return this.resolveScoped('/location', startParam.slice(LOCATION_PREFIX.length));
+    }
+    if (startParam.startsWith(ITEM_PREFIX)) {
+      return this.resolveScoped('/item', startParam.slice(ITEM_PREFIX.length));
+    }
+    if (startParam.startsWith(INVITE_PREFIX) && startParam.length > INVITE_PREFIX.length) {
+      return { commands: ['/households', 'join', startParam.slice(INVITE_PREFIX.length)] };
+    }
+    return null;
+  }
+
+  private scopedId(id: string, householdId: string | null): string {
+    return householdId ? `${householdId}${HOUSEHOLD_SEPARATOR}${id}` : id;
+  }
+
+  /**
+   * Split `<household id>_<id>` or a bare `<id>` (personal inventory)
+   */
+  private resolveScoped(route: string, value: string): DeepLinkTarget | null {
+    const parts = value.split(HOUSEHOLD_SEPARATOR);
+    if (parts.length > 2 || parts.some(part => !part)) {
+      return null;
+    }
+    const [householdId, id] = parts.length === 2 ? parts : [null, parts[0]];
+    return { commands: [route, id], householdId };
+  }
+
+  private buildLink(startParam: string): string {
+    return `https://t.me/${environment.telegram.botUsername}?startapp=${encodeURIComponent(startParam)}`;
+  }
+}
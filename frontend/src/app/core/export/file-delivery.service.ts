@@ -0,0 +1,61 @@
+import { Injectable, inject } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { ChatApiService } from '../api/chat-api.service';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * A generated file ready to hand to the user
+ */
+export interface GeneratedFile {
+  blob: Blob;
+  fileName: string;
+}
+
+/** Where a delivered file ended up */
+export type FileDestination = 'download' | 'chat';
+
+/**
+ * Hands generated files to the user
+ *
+ * In a regular browser the file is downloaded. Inside Telegram, webviews on
+ * mobile silently drop blob downloads, so the bot sends the file to the
+ * user's chat instead, where it can be opened or forwarded.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FileDeliveryService {
+  private readonly chatApiService = inject(ChatApiService);
+  private readonly telegramService = inject(TelegramService);
+
+  /**
+   * Deliver a file to the user
+   * @param file - File to deliver
+   * @param caption - Message sent with the file when it goes to the chat
+   * @returns Where the file was delivered
+   */
+  async deliver(file: GeneratedFile, caption?: string): Promise<FileDestination> {
+    if (this.telegramService.isInTelegram()) {
+      await firstValueFrom(this.chatApiService.sendDocument(file.blob, file.fileName, caption), {
+        defaultValue: undefined
+      });
+      return 'chat';
+    }
+
+    this.download(file);
+    return 'download';
+  }
+
+  /**
+   * Save a file through the browser's download mechanism
+   */
+  download(file: GeneratedFile): void {
+    const url = URL.createObjectURL(file.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    link.click();
+    // Give the browser time to start the download before releasing the data
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
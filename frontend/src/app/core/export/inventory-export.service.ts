@@ -0,0 +1,210 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { firstValueFrom, from } from 'rxjs';
+import { map, mergeMap, tap, toArray } from 'rxjs/operators';
+import { ItemListItem, LocationApiService, LocationTreeNode } from '../api/location-api.service';
+import { XlsxCell, XlsxService } from './xlsx.service';
+import { GeneratedFile } from './file-delivery.service';
+
+/** Supported export formats */
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+/**
+ * An item in an export
+ */
+export interface InventoryExportItem {
+  id: string;
+  name: string;
+  quantity: number;
+}
+
+/**
+ * A location in an export, with its items and sub-locations
+ */
+export interface InventoryExportLocation {
+  id: string;
+  name: string;
+  items: InventoryExportItem[];
+  children: InventoryExportLocation[];
+}
+
+/**
+ * Progress of reading locations for an export
+ */
+export interface ExportProgress {
+  done: number;
+  total: number;
+}
+
+/** Locations read at once */
+const CONCURRENCY = 3;
+
+/** Cell values starting with these are run as formulas by spreadsheet apps */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Exports the inventory as CSV, JSON or XLSX
+ *
+ * Walks the location tree and loads each location's items. CSV and XLSX
+ * get one row per item with the full location path split into columns;
+ * JSON keeps the hierarchy.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InventoryExportService {
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly xlsxService = inject(XlsxService);
+
+  /** Progress of the running export, or null when idle */
+  readonly progress = signal<ExportProgress | null>(null);
+
+  /**
+   * Export the whole inventory or one subtree
+   * @param format - Output format
+   * @param tree - Full location tree
+   * @param rootId - Root of the subtree to export; null exports everything
+   */
+  async export(format: ExportFormat, tree: LocationTreeNode[], rootId: string | null): Promise<GeneratedFile> {
+    const scope = rootId ? this.findWithAncestors(tree, rootId, []) : null;
+    if (rootId && !scope) {
+      throw new Error('Location not found');
+    }
+
+    const nodes = scope ? [scope.node] : tree;
+    const ancestors = scope?.ancestors ?? [];
+    const locations = await this.collect(nodes);
+
+    const baseName = `stufftracker-${this.slugify(scope?.node.name ?? 'inventory')}-${new Date().toISOString().slice(0, 10)}`;
+
+    switch (format) {
+      case 'csv':
+        return {
+          // BOM so Excel detects UTF-8
+          blob: new Blob(['\uFEFF' + this.toCsv(this.toRows(locations, ancestors))], { type: 'text/csv;charset=utf-8' }),
+          fileName: `${baseName}.csv`
+        };
+      case 'json':
+        return {
+          blob: new Blob([JSON.stringify({
+            exportedAt: new Date().toISOString(),
+            parentPath: ancestors,
+            locations
+          }, null, 2)], { type: 'application/json' }),
+          fileName: `${baseName}.json`
+        };
+      case 'xlsx':
+        return {
+          blob: this.xlsxService.build('Inventory', this.toRows(locations, ancestors)),
+          fileName: `${baseName}.xlsx`
+        };
+    }
+  }
+
+  /**
+   * Load the items of every location in the given trees
+   */
+  private async collect(nodes: LocationTreeNode[]): Promise<InventoryExportLocation[]> {
+    const flat = this.flatten(nodes);
+    this.progress.set({ done: 0, total: flat.length });
+
+    try {
+      const entries = await firstValueFrom(
+        from(flat).pipe(
+          mergeMap(node => this.locationApiService.getLocation(node.id).pipe(
+            map(detail => [node.id, detail.items] as const)
+          ), CONCURRENCY),
+          tap(() => this.progress.update(p => p && { ...p, done: p.done + 1 })),
+          toArray()
+        )
+      );
+      const itemsById = new Map<string, ItemListItem[]>(entries);
+      return this.build(nodes, itemsById);
+    } finally {
+      this.progress.set(null);
+    }
+  }
+
+  private build(nodes: LocationTreeNode[], itemsById: Map<string, ItemListItem[]>): InventoryExportLocation[] {
+    return nodes.map(node => ({
+      id: node.id,
+      name: node.name,
+      items: (itemsById.get(node.id) ?? []).map(({ id, name, quantity }) => ({ id, name, quantity })),
+      children: this.build(node.children, itemsById)
+    }));
+  }
+
+  /**
+   * One row per item: name, quantity, joined path, then one column per path level
+   */
+  private toRows(locations: InventoryExportLocation[], ancestors: string[]): XlsxCell[][] {
+    const rows: { item: InventoryExportItem; path: string[] }[] = [];
+    const walk = (nodes: InventoryExportLocation[], path: string[]): void => {
+      for (const node of nodes) {
+        const nodePath = [...path, node.name];
+        node.items.forEach(item => rows.push({ item, path: nodePath }));
+        walk(node.children, nodePath);
+      }
+    };
+    walk(locations, ancestors);
+
+    const depth = Math.max(1, ...rows.map(row => row.path.length));
+    const levelHeaders = Array.from({ length: depth }, (_, i) => `Level ${i + 1}`);
+
+    return [
+      ['Item', 'Quantity', 'Location Path', ...levelHeaders, 'Item ID'],
+      ...rows.map(({ item, path }) => [
+        item.name,
+        item.quantity,
+        path.join(' / '),
+        ...levelHeaders.map((_, i) => path[i] ?? null),
+        item.id
+      ])
+    ];
+  }
+
+  private toCsv(rows: XlsxCell[][]): string {
+    return rows
+      .map(row => row.map(cell => this.csvCell(cell)).join(','))
+      .join('\r\n');
+  }
+
+  private csvCell(value: XlsxCell): string {
+    if (value === null) {
+      return '';
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private flatten(nodes: LocationTreeNode[]): LocationTreeNode[] {
+    return nodes.flatMap(node => [node, ...this.flatten(node.children)]);
+  }
+
+  private findWithAncestors(
+    nodes: LocationTreeNode[],
+    id: string,
+    ancestors: string[]
+  ): { node: LocationTreeNode; ancestors: string[] } | null {
+    for (const node of nodes) {
+      if (node.id === id) {
+        return { node, ancestors };
+      }
+      const found = this.findWithAncestors(node.children, id, [...ancestors, node.name]);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  private slugify(name: string): string {
+    return name
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '') || 'export';
+  }
+}
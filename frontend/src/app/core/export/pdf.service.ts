@@ -0,0 +1,96 @@
+import { Injectable } from '@angular/core';
+
+/** MIME type of .pdf files */
+export const PDF_MIME_TYPE = 'application/pdf';
+
+/** A4 in PDF points (1/72 inch) */
+const A4_WIDTH_PT = 595.28;
+const A4_HEIGHT_PT = 841.89;
+
+/**
+ * A page image to place on an A4 page
+ */
+export interface PdfPageImage {
+  /** Baseline JPEG data */
+  jpeg: Uint8Array;
+  /** Pixel size of the image */
+  width: number;
+  height: number;
+}
+
+/**
+ * Writes PDF documents made of full-page images
+ *
+ * Generates the PDF structure by hand and embeds each page as a JPEG, which
+ * PDF readers decode natively. Pages are rendered beforehand on a canvas, so
+ * any script the browser can draw ends up in the file without embedding fonts.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PdfService {
+  /**
+   * Build a PDF with one A4 portrait page per image, each image filling its page
+   */
+  fromImages(pages: PdfPageImage[]): Blob {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const startObject = (id: number) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+    };
+
+    // Object layout: 1 catalog, 2 page tree, then page, content and image per page
+    const pageId = (index: number) => 3 + index * 3;
+    const objectCount = 2 + pages.length * 3;
+
+    // The binary comment line tells transfer tools the file is not plain text
+    write('%PDF-1.4\n%âãÏÓ\n');
+
+    startObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    startObject(2);
+    const kids = pages.map((_, i) => `${pageId(i)} 0 R`).join(' ');
+    write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+    pages.forEach((page, i) => {
+      const id = pageId(i);
+      const content = `q ${A4_WIDTH_PT} 0 0 ${A4_HEIGHT_PT} 0 0 cm /Im0 Do Q`;
+
+      startObject(id);
+      write(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH_PT} ${A4_HEIGHT_PT}] ` +
+        `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`
+      );
+
+      startObject(id + 1);
+      write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+      startObject(id + 2);
+      write(
+        `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+      );
+      write(page.jpeg);
+      write('\nendstream\nendobj\n');
+    });
+
+    const xrefOffset = length;
+    const entries = Array.from({ length: objectCount }, (_, i) =>
+      `${String(offsets[i + 1]).padStart(10, '0')} 00000 n \n`
+    );
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n${entries.join('')}`);
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: PDF_MIME_TYPE });
+  }
+}
@@ -0,0 +1,120 @@
+import { Injectable } from '@angular/core';
+import { strToU8, zipSync } from 'fflate';
+
+/** A spreadsheet cell value; empty cells are null */
+export type XlsxCell = string | number | null;
+
+/** MIME type of .xlsx files */
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+/** Two cell formats: 0 = default, 1 = bold (header row) */
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+/** Characters Excel does not allow in sheet names */
+const INVALID_SHEET_NAME_CHARS = /[\\/?*[\]:]/g;
+
+/**
+ * Writes single-sheet XLSX workbooks
+ *
+ * Generates the minimal OpenXML package by hand: strings are stored inline,
+ * the first row is bold and frozen. Enough for data exports without pulling
+ * in a full spreadsheet library.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class XlsxService {
+  /**
+   * Build a workbook with one sheet
+   * @param sheetName - Sheet tab name (truncated to Excel's 31 characters)
+   * @param rows - Rows of cells; the first row is treated as the header
+   */
+  build(sheetName: string, rows: XlsxCell[][]): Blob {
+    const name = sheetName.replace(INVALID_SHEET_NAME_CHARS, ' ').slice(0, 31) || 'Sheet1';
+
+    const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${this.escape(name)}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+    const zipped = zipSync({
+      '[Content_Types].xml': strToU8(CONTENT_TYPES),
+      '_rels/.rels': strToU8(ROOT_RELS),
+      'xl/workbook.xml': strToU8(workbook),
+      'xl/_rels/workbook.xml.rels': strToU8(WORKBOOK_RELS),
+      'xl/styles.xml': strToU8(STYLES),
+      'xl/worksheets/sheet1.xml': strToU8(this.buildSheet(rows))
+    });
+
+    return new Blob([zipped], { type: XLSX_MIME_TYPE });
+  }
+
+  private buildSheet(rows: XlsxCell[][]): string {
+    const sheetRows = rows.map((cells, rowIndex) => {
+      const style = rowIndex === 0 ? ' s="1"' : '';
+      const xmlCells = cells.map((value, colIndex) => {
+        if (value === null || value === '') {
+          return '';
+        }
+        const ref = `${this.columnName(colIndex)}${rowIndex + 1}`;
+        if (typeof value === 'number') {
+          return `<c r="${ref}"${style}><v>${value}</v></c>`;
+        }
+        return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${this.escape(value)}</t></is></c>`;
+      });
+      return `<row r="${rowIndex + 1}">${xmlCells.join('')}</row>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>${sheetRows.join('')}</sheetData>
+</worksheet>`;
+  }
+
+  /** Column letters for a zero-based index: 0 → A, 25 → Z, 26 → AA */
+  private columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+  }
+
+  private escape(value: string): string {
+    return value
+      // Control characters other than tab and newlines are invalid in XML
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,24 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { HOUSEHOLD_HEADER, HouseholdService } from './household.service';
+
+/**
+ * HTTP interceptor that adds the X-Household-Id header to API requests
+ * while a shared household is active, so the server reads and writes that
+ * household's inventory. Requests to other hosts (e.g. file URLs) are left alone.
+ */
+export const householdInterceptor: HttpInterceptorFn = (req, next) => {
+  const householdId = inject(HouseholdService).activeHouseholdId();
+
+  if (householdId && req.url.startsWith(environment.apiUrl)) {
+    const clonedRequest = req.clone({
+      setHeaders: {
+        [HOUSEHOLD_HEADER]: householdId
+      }
+    });
+    return next(clonedRequest);
+  }
+
+  return next(req);
+};
@@ -0,0 +1,68 @@
+import { Injectable, PLATFORM_ID, computed, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+/** Header naming the household a request is scoped to */
+export const HOUSEHOLD_HEADER = 'X-Household-Id';
+
+/** localStorage key holding the active household */
+const ACTIVE_HOUSEHOLD_KEY = 'stuff-tracker:active-household';
+
+/**
+ * The household the app works in
+ */
+export interface ActiveHousehold {
+  id: string;
+  name: string;
+}
+
+/**
+ * Holds the active household
+ *
+ * With a household active, every API request carries its ID (see
+ * `householdInterceptor`) and the server answers with that shared inventory;
+ * with none, requests go to the user's personal inventory. The choice is
+ * kept across launches.
+ *
+ * Only state lives here so that ApiService can depend on it; household API
+ * calls are in HouseholdApiService.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HouseholdService {
+  private readonly platformId = inject(PLATFORM_ID);
+
+  /** Active household, or null for the personal inventory */
+  readonly active = signal<ActiveHousehold | null>(this.readStored());
+
+  /** ID of the active household, or null for the personal inventory */
+  readonly activeHouseholdId = computed(() => this.active()?.id ?? null);
+
+  /**
+   * Make a household the active one
+   * @param household - Household to work in, or null for the personal inventory
+   */
+  switchTo(household: ActiveHousehold | null): void {
+    this.active.set(household ? { id: household.id, name: household.name } : null);
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+    if (household) {
+      localStorage.setItem(ACTIVE_HOUSEHOLD_KEY, JSON.stringify(this.active()));
+    } else {
+      localStorage.removeItem(ACTIVE_HOUSEHOLD_KEY);
+    }
+  }
+
+  private readStored(): ActiveHousehold | null {
+    if (!isPlatformBrowser(this.platformId)) {
+      return null;
+    }
+    try {
+      const stored = JSON.parse(localStorage.getItem(ACTIVE_HOUSEHOLD_KEY) ?? 'null');
+      return stored?.id && stored?.name ? { id: stored.id, name: stored.name } : null;
+    } catch {
+      return null;
+    }
+  }
+}
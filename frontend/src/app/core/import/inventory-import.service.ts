@@ -0,0 +1,492 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, firstValueFrom, from, throwError } from 'rxjs';
+import { map, mergeMap, tap, toArray } from 'rxjs/operators';
+import { ItemApiService, ItemListItem } from '../api/item-api.service';
+import { LocationApiService, LocationTreeNode } from '../api/location-api.service';
+import { BulkOperationService } from '../bulk-operation.service';
+
+/**
+ * Parsed file contents: a header row and data rows of the same width
+ */
+export interface ImportTable {
+  columns: string[];
+  rows: string[][];
+}
+
+/**
+ * Which columns feed which item field
+ * Column indexes refer to `ImportTable.columns`.
+ */
+export interface ImportMapping {
+  name: number | null;
+  description: number | null;
+  quantity: number | null;
+  /**
+   * One column holding paths like "Garage > Shelf A > Bin 3",
+   * or several columns holding one level each (in order)
+   */
+  locationPath: number[];
+}
+
+/**
+ * What importing a row will do
+ * - create: a new item
+ * - merge: the quantity is added to an item with the same name in that location
+ * - combine: the row repeats an earlier row; its quantity is added to that row
+ * - skip: the row is invalid and is left out
+ */
+export type ImportRowAction = 'create' | 'merge' | 'combine' | 'skip';
+
+/**
+ * Planned outcome for one data row
+ */
+export interface ImportRowPlan {
+  /** 1-based row number in the file, counting the header as row 1 */
+  rowNumber: number;
+  name: string;
+  description?: string;
+  quantity: number;
+  path: string[];
+  action: ImportRowAction;
+  /** Why the row is skipped */
+  error?: string;
+  /** Item the quantity is added to (merge only) */
+  existingItem?: ItemListItem;
+  /** Row this one was folded into (combine only) */
+  combinedInto?: number;
+}
+
+/**
+ * Dry-run result: everything the import would do
+ */
+export interface ImportPlan {
+  rows: ImportRowPlan[];
+  /** Locations to create, parents before children */
+  newLocations: string[][];
+}
+
+/** Outcome of importing a row */
+export type ImportRowOutcome = 'created' | 'merged' | 'queued' | 'failed' | 'skipped';
+
+/**
+ * Per-row import report entry
+ */
+export interface ImportRowResult {
+  row: ImportRowPlan;
+  outcome: ImportRowOutcome;
+  error?: string;
+}
+
+/** Header names recognised when suggesting a mapping */
+const HEADER_ALIASES: Record<'name' | 'description' | 'quantity' | 'locationPath', string[]> = {
+  name: ['name', 'item', 'item name', 'title'],
+  description: ['description', 'notes', 'note', 'details', 'comment'],
+  quantity: ['quantity', 'qty', 'count', 'amount'],
+  locationPath: ['location path', 'location', 'path', 'place']
+};
+
+/**
+ * Separators accepted between levels of a path, in order of preference.
+ * A file uses one of them; a bare "/" is left alone so names like "Shelf A/B" survive.
+ */
+const PATH_SEPARATORS = [/\s*>\s*/, /\s+\/\s+/];
+
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_QUANTITY = 999999;
+
+/** Locations read at once while checking for existing items */
+const CONCURRENCY = 3;
+
+/**
+ * Imports items from CSV or JSON files
+ *
+ * The import runs in three steps: `parse` reads the file into a table,
+ * `plan` dry-runs a column mapping against the current location tree, and
+ * `run` creates the missing locations and items and reports per row.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InventoryImportService {
+  private readonly itemApiService = inject(ItemApiService);
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly bulkOperationService = inject(BulkOperationService);
+
+  /**
+   * Read a CSV or JSON file into a table
+   * JSON may be an array of flat objects or a StuffTracker export.
+   * @throws Error with a user-facing message if the file cannot be read
+   */
+  async parse(file: File): Promise<ImportTable> {
+    const text = (await file.text()).replace(/^\uFEFF/, '');
+    const isJson = file.name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+    const table = isJson ? this.parseJson(text) : this.parseCsv(text);
+
+    if (table.columns.length === 0 || table.rows.length === 0) {
+      throw new Error('The file has no rows to import');
+    }
+    return table;
+  }
+
+  /**
+   * Guess a mapping from the column headers
+   */
+  suggestMapping(columns: string[]): ImportMapping {
+    const normalized = columns.map(c => c.trim().toLowerCase());
+    const find = (aliases: string[]) => {
+      const index = normalized.findIndex(c => aliases.includes(c));
+      return index >= 0 ? index : null;
+    };
+
+    const pathColumn = find(HEADER_ALIASES.locationPath);
+    // Per-level columns, as written by the export ("Level 1", "Level 2", ...)
+    const levelColumns = normalized
+      .map((c, index) => ({ level: /^level (\d+)$/.exec(c), index }))
+      .filter(c => c.level)
+      .sort((a, b) => Number(a.level![1]) - Number(b.level![1]))
+      .map(c => c.index);
+
+    return {
+      name: find(HEADER_ALIASES.name),
+      description: find(HEADER_ALIASES.description),
+      quantity: find(HEADER_ALIASES.quantity),
+      locationPath: pathColumn !== null ? [pathColumn] : levelColumns
+    };
+  }
+
+  /**
+   * Work out what importing the table would do, without changing anything
+   */
+  async plan(table: ImportTable, mapping: ImportMapping): Promise<ImportPlan> {
+    const tree = await firstValueFrom(this.locationApiService.getLocationTree());
+    const existingIds = this.indexTree(tree, []);
+
+    const separator = this.detectPathSeparator(table, mapping);
+    const rows = table.rows.map((cells, index) => this.planRow(cells, index + 2, mapping, separator));
+
+    // Locations to create: every missing prefix of every valid path
+    const newLocations = new Map<string, string[]>();
+    for (const row of rows) {
+      if (row.action === 'skip') continue;
+      for (let depth = 1; depth <= row.path.length; depth++) {
+        const prefix = row.path.slice(0, depth);
+        const key = this.pathKey(prefix);
+        if (!existingIds.has(key) && !newLocations.has(key)) {
+          newLocations.set(key, prefix);
+        }
+      }
+    }
+
+    // Rows repeating an earlier row are folded into it
+    const firstRowByItem = new Map<string, ImportRowPlan>();
+    for (const row of rows) {
+      if (row.action === 'skip') continue;
+      const itemKey = `${this.pathKey(row.path)}\u0000${row.name.toLowerCase()}`;
+      const first = firstRowByItem.get(itemKey);
+      if (first) {
+        first.quantity = Math.min(MAX_QUANTITY, first.quantity + row.quantity);
+        row.action = 'combine';
+        row.combinedInto = first.rowNumber;
+      } else {
+        firstRowByItem.set(itemKey, row);
+      }
+    }
+
+    // Rows going into existing locations may match items that are already there
+    const targetIds = [...new Set(rows
+      .filter(row => row.action === 'create')
+      .map(row => existingIds.get(this.pathKey(row.path)))
+      .filter((id): id is string => !!id))];
+    const itemsByLocation = await this.loadItems(targetIds);
+
+    for (const row of rows) {
+      if (row.action !== 'create') continue;
+      const locationId = existingIds.get(this.pathKey(row.path));
+      const existing = locationId
+        ? itemsByLocation.get(locationId)?.find(item => item.name.toLowerCase() === row.name.toLowerCase())
+        : undefined;
+      if (existing) {
+        row.action = 'merge';
+        row.existingItem = existing;
+      }
+    }
+
+    return {
+      rows,
+      newLocations: [...newLocations.values()].sort((a, b) => a.length - b.length)
+    };
+  }
+
+  /**
+   * Create the planned locations and items
+   * @returns One result per row, in file order
+   */
+  async run(plan: ImportPlan): Promise<ImportRowResult[]> {
+    const tree = await firstValueFrom(this.locationApiService.getLocationTree());
+    const ids = this.indexTree(tree, []);
+
+    // Create locations level by level so every parent exists before its children
+    const maxDepth = Math.max(0, ...plan.newLocations.map(path => path.length));
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      // Paths that exist by now (e.g. when retrying) are reused, not created twice
+      const level = plan.newLocations.filter(
+        path => path.length === depth && !ids.has(this.pathKey(path))
+      );
+      await this.bulkOperationService.run('Creating locations', level, path => {
+        const parentId = depth > 1 ? ids.get(this.pathKey(path.slice(0, -1))) : undefined;
+        if (depth > 1 && !parentId) {
+          return throwError(() => new Error(`"${path[depth - 2]}" could not be created`));
+        }
+        return this.locationApiService
+          .createLocation({ name: path[depth - 1], parentId })
+          .pipe(tap(location => ids.set(this.pathKey(path), location.id)));
+      });
+    }
+
+    const actionable = plan.rows.filter(row => row.action === 'create' || row.action === 'merge');
+    const result = await this.bulkOperationService.run('Importing items', actionable, row =>
+      this.importRow(row, ids)
+    );
+
+    const outcomes = new Map<number, ImportRowResult>();
+    for (const row of result.succeeded) {
+      outcomes.set(row.rowNumber, { row, outcome: row.action === 'merge' ? 'merged' : 'created' });
+    }
+    for (const row of result.queued) {
+      outcomes.set(row.rowNumber, { row, outcome: 'queued' });
+    }
+    for (const { target, error } of result.failed) {
+      outcomes.set(target.rowNumber, { row: target, outcome: 'failed', error });
+    }
+
+    return plan.rows.map(row => {
+      if (row.action === 'skip') {
+        return { row, outcome: 'skipped', error: row.error };
+      }
+      if (row.action === 'combine') {
+        const target = outcomes.get(row.combinedInto!);
+        return { row, outcome: target?.outcome ?? 'failed', error: target?.error };
+      }
+      return outcomes.get(row.rowNumber)!;
+    });
+  }
+
+  private importRow(row: ImportRowPlan, ids: Map<string, string>): Observable<unknown> {
+    if (row.action === 'merge' && row.existingItem) {
+      const quantity = Math.min(MAX_QUANTITY, row.existingItem.quantity + row.quantity);
+      return this.itemApiService.updateItem(row.existingItem.id, { quantity }, { name: row.existingItem.name });
+    }
+
+    const locationId = ids.get(this.pathKey(row.path));
+    if (!locationId) {
+      return throwError(() => new Error(`Location "${row.path.join(' > ')}" could not be created`));
+    }
+    return this.itemApiService.createItem({
+      name: row.name,
+      description: row.description,
+      quantity: row.quantity,
+      locationId
+    });
+  }
+
+  /**
+   * The path separator the file uses in its single path column, if any
+   */
+  private detectPathSeparator(table: ImportTable, mapping: ImportMapping): RegExp | null {
+    if (mapping.locationPath.length !== 1) {
+      return null;
+    }
+    const column = mapping.locationPath[0];
+    const paths = table.rows.map(cells => cells[column] ?? '');
+    return PATH_SEPARATORS.find(separator => paths.some(path => separator.test(path.trim()))) ?? null;
+  }
+
+  private splitPath(text: string, separator: RegExp | null): string[] {
+    return (separator ? text.split(separator) : [text]).filter(Boolean);
+  }
+
+  private planRow(
+    cells: string[],
+    rowNumber: number,
+    mapping: ImportMapping,
+    separator: RegExp | null
+  ): ImportRowPlan {
+    const cell = (index: number | null) => (index === null ? '' : (cells[index] ?? '').trim()
+      // Undo the quote our CSV export puts before formula-like values
+      .replace(/^'(?=[=+\-@])/, ''));
+
+    const name = cell(mapping.name);
+    const description = cell(mapping.description) || undefined;
+    const quantityText = cell(mapping.quantity);
+    const quantity = quantityText === '' ? 1 : Number(quantityText.replace(',', '.'));
+    const path = mapping.locationPath.length === 1
+      ? this.splitPath(cell(mapping.locationPath[0]), separator)
+      : mapping.locationPath.map(index => cell(index)).filter(Boolean);
+
+    const plan: ImportRowPlan = { rowNumber, name, description, quantity, path, action: 'create' };
+    const error = this.validateRow(plan);
+    if (error) {
+      plan.action = 'skip';
+      plan.error = error;
+    }
+    return plan;
+  }
+
+  private validateRow(row: ImportRowPlan): string | null {
+    if (!row.name) {
+      return 'Missing name';
+    }
+    if (row.name.length > MAX_NAME_LENGTH) {
+      return `Name is longer than ${MAX_NAME_LENGTH} characters`;
+    }
+    if (row.description && row.description.length > MAX_DESCRIPTION_LENGTH) {
+      return `Description is longer than ${MAX_DESCRIPTION_LENGTH} characters`;
+    }
+    if (!Number.isInteger(row.quantity) || row.quantity < 1 || row.quantity > MAX_QUANTITY) {
+      return `Quantity must be a whole number from 1 to ${MAX_QUANTITY}`;
+    }
+    if (row.path.length === 0) {
+      return 'Missing location';
+    }
+    if (row.path.some(segment => segment.length > MAX_NAME_LENGTH)) {
+      return `Location name is longer than ${MAX_NAME_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  /**
+   * Load the items of the given locations
+   */
+  private async loadItems(locationIds: string[]): Promise<Map<string, ItemListItem[]>> {
+    const entries = await firstValueFrom(
+      from(locationIds).pipe(
+        mergeMap(id => this.locationApiService.getLocation(id).pipe(
+          map(detail => [id, detail.items] as const)
+        ), CONCURRENCY),
+        toArray()
+      )
+    );
+    return new Map(entries);
+  }
+
+  /**
+   * Map of path key to location ID for every location in the tree
+   */
+  private indexTree(nodes: LocationTreeNode[], parentPath: string[], index = new Map<string, string>()): Map<string, string> {
+    for (const node of nodes) {
+      const path = [...parentPath, node.name];
+      const key = this.pathKey(path);
+      // With duplicate sibling names the first one wins
+      if (!index.has(key)) {
+        index.set(key, node.id);
+      }
+      this.indexTree(node.children, path, index);
+    }
+    return index;
+  }
+
+  /** Case-insensitive key for a location path */
+  private pathKey(path: string[]): string {
+    return path.map(segment => segment.trim().toLowerCase()).join('\u0000');
+  }
+
+  private parseCsv(text: string): ImportTable {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const delimiter = [',', ';', '\t']
+      .map(d => ({ d, count: firstLine.split(d).length }))
+      .sort((a, b) => b.count - a.count)[0].d;
+
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    record.push(field);
+    records.push(record);
+
+    const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+    const [columns = [], ...rows] = nonEmpty;
+    return {
+      columns: columns.map(c => c.trim()),
+      rows: rows.map(r => columns.map((_, i) => r[i] ?? ''))
+    };
+  }
+
+  private parseJson(text: string): ImportTable {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    // A StuffTracker export: flatten the hierarchy into path rows
+    if (data && typeof data === 'object' && Array.isArray((data as { locations?: unknown }).locations)) {
+      const exported = data as { parentPath?: string[]; locations: ExportedLocation[] };
+      const rows: string[][] = [];
+      const walk = (locations: ExportedLocation[], path: string[]): void => {
+        for (const location of locations) {
+          const locationPath = [...path, location.name];
+          for (const item of location.items ?? []) {
+            rows.push([item.name, item.description ?? '', String(item.quantity ?? 1), locationPath.join(' > ')]);
+          }
+          walk(location.children ?? [], locationPath);
+        }
+      };
+      walk(exported.locations, exported.parentPath ?? []);
+      return { columns: ['Name', 'Description', 'Quantity', 'Location Path'], rows };
+    }
+
+    if (!Array.isArray(data) || !data.every(entry => entry && typeof entry === 'object' && !Array.isArray(entry))) {
+      throw new Error('Expected a list of objects or a StuffTracker export');
+    }
+
+    const objects = data as Record<string, unknown>[];
+    const columns = [...new Set(objects.flatMap(entry => Object.keys(entry)))];
+    const rows = objects.map(entry => columns.map(column => {
+      const value = entry[column];
+      if (value === null || value === undefined) return '';
+      if (Array.isArray(value)) return value.join(' > ');
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }));
+    return { columns, rows };
+  }
+}
+
+/**
+ * Location shape inside a StuffTracker JSON export
+ */
+interface ExportedLocation {
+  name: string;
+  items?: { name: string; description?: string; quantity?: number }[];
+  children?: ExportedLocation[];
+}
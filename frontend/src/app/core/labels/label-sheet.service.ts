@@ -0,0 +1,208 @@
+import { Injectable, inject } from '@angular/core';
+import qrcode from 'qrcode-generator';
+import { GeneratedFile } from '../export/file-delivery.service';
+import { PdfPageImage, PdfService } from '../export/pdf.service';
+
+/**
+ * One printable QR label
+ */
+export interface QrLabel {
+  id: string;
+  name: string;
+  /** Names of the ancestors inside the chosen subtree */
+  path: string[];
+  /** Deep link encoded in the QR code */
+  link: string;
+}
+
+/** Labels per A4 sheet: 3 columns x 7 rows of 70 x 42.4 mm */
+export const LABELS_PER_PAGE = 21;
+const COLUMNS = 3;
+const ROWS = 7;
+
+/** Page size in pixels: A4 at 200 dpi, enough for the codes to scan when printed */
+const PAGE_WIDTH = 1654;
+const PAGE_HEIGHT = 2339;
+const JPEG_QUALITY = 0.92;
+
+/** Quiet zone around each code, in modules */
+const QUIET_ZONE = 2;
+
+/**
+ * Proportions of a label, as fractions of the page width;
+ * the same as the on-screen sheet, which sizes in container units
+ */
+const PADDING = 0.02;
+const QR_SIZE = 0.14;
+const GAP = 0.015;
+const NAME_SIZE = 0.026;
+const PATH_SIZE = 0.016;
+const LINE_HEIGHT = 1.2;
+const NAME_MAX_LINES = 3;
+const PATH_MAX_LINES = 2;
+
+/**
+ * Renders QR label sheets as a PDF
+ *
+ * Used where the print dialog is not available, such as Telegram's mobile
+ * webviews. Each A4 page is drawn on a canvas with the same layout as the
+ * on-screen sheet and embedded as an image, so names in any script come out
+ * as typed.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LabelSheetService {
+  private readonly pdfService = inject(PdfService);
+
+  /**
+   * Render pages of labels as a PDF
+   * @param pages - Labels split into pages of up to LABELS_PER_PAGE
+   */
+  async toPdf(pages: QrLabel[][]): Promise<GeneratedFile> {
+    const images: PdfPageImage[] = [];
+    // One canvas at a time keeps memory flat for large sheets
+    for (const labels of pages) {
+      const canvas = this.drawPage(labels);
+      images.push({ jpeg: await this.toJpeg(canvas), width: canvas.width, height: canvas.height });
+    }
+    return {
+      blob: this.pdfService.fromImages(images),
+      fileName: `stufftracker-labels-${new Date().toISOString().slice(0, 10)}.pdf`
+    };
+  }
+
+  private drawPage(labels: QrLabel[]): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = PAGE_WIDTH;
+    canvas.height = PAGE_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not render the labels');
+    }
+
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+
+    const cellWidth = PAGE_WIDTH / COLUMNS;
+    const cellHeight = PAGE_HEIGHT / ROWS;
+    labels.forEach((label, index) => {
+      const x = (index % COLUMNS) * cellWidth;
+      const y = Math.floor(index / COLUMNS) * cellHeight;
+      this.drawLabel(ctx, label, x, y, cellWidth, cellHeight);
+    });
+    return canvas;
+  }
+
+  private drawLabel(ctx: CanvasRenderingContext2D, label: QrLabel, x: number, y: number, width: number, height: number): void {
+    const padding = PAGE_WIDTH * PADDING;
+    const qrSize = PAGE_WIDTH * QR_SIZE;
+    const gap = PAGE_WIDTH * GAP;
+
+    this.drawQr(ctx, label.link, x + padding, y + (height - qrSize) / 2, qrSize);
+
+    const textX = x + padding + qrSize + gap;
+    const textWidth = width - (textX - x) - padding;
+    const nameSize = PAGE_WIDTH * NAME_SIZE;
+    const pathSize = PAGE_WIDTH * PATH_SIZE;
+
+    ctx.font = `700 ${nameSize}px sans-serif`;
+    const nameLines = this.wrap(ctx, label.name, textWidth, NAME_MAX_LINES);
+    ctx.font = `400 ${pathSize}px sans-serif`;
+    const pathLines = label.path.length > 0
+      ? this.wrap(ctx, label.path.join(' / '), textWidth, PATH_MAX_LINES)
+      : [];
+
+    // Center the text block vertically, like the flex layout on screen
+    const blockHeight = nameLines.length * nameSize * LINE_HEIGHT
+      + (pathLines.length > 0 ? gap / 3 + pathLines.length * pathSize * LINE_HEIGHT : 0);
+    let lineY = y + (height - blockHeight) / 2;
+
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#000';
+    ctx.font = `700 ${nameSize}px sans-serif`;
+    for (const line of nameLines) {
+      ctx.fillText(line, textX, lineY);
+      lineY += nameSize * LINE_HEIGHT;
+    }
+
+    if (pathLines.length > 0) {
+      lineY += gap / 3;
+      ctx.fillStyle = '#555';
+      ctx.font = `400 ${pathSize}px sans-serif`;
+      for (const line of pathLines) {
+        ctx.fillText(line, textX, lineY);
+        lineY += pathSize * LINE_HEIGHT;
+      }
+    }
+  }
+
+  private drawQr(ctx: CanvasRenderingContext2D, value: string, x: number, y: number, size: number): void {
+    const qr = qrcode(0, 'M');
+    qr.addData(value);
+    qr.make();
+
+    const moduleCount = qr.getModuleCount();
+    // Whole pixels per module keep the edges sharp
+    const moduleSize = Math.floor(size / (moduleCount + QUIET_ZONE * 2));
+    const offset = (size - moduleSize * moduleCount) / 2;
+    const left = Math.round(x + offset);
+    const top = Math.round(y + offset);
+
+    ctx.fillStyle = '#000';
+    for (let row = 0; row < moduleCount; row++) {
+      for (let col = 0; col < moduleCount; col++) {
+        if (qr.isDark(row, col)) {
+          ctx.fillRect(left + col * moduleSize, top + row * moduleSize, moduleSize, moduleSize);
+        }
+      }
+    }
+  }
+
+  /**
+   * Break text into lines that fit the width, ending with an ellipsis when
+   * it needs more than `maxLines`
+   * Words longer than a line are broken between characters.
+   */
+  private wrap(ctx: CanvasRenderingContext2D, value: string, maxWidth: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const char of value) {
+      const candidate = line + char;
+      if (ctx.measureText(candidate).width <= maxWidth || !line) {
+        line = candidate;
+        continue;
+      }
+      // Break at the last space when there is one
+      const space = line.lastIndexOf(' ');
+      lines.push(space > 0 ? line.slice(0, space) : line);
+      line = (space > 0 ? line.slice(space + 1) : '') + char;
+    }
+    if (line) {
+      lines.push(line);
+    }
+
+    if (lines.length <= maxLines) {
+      return lines;
+    }
+    const kept = lines.slice(0, maxLines);
+    let last = kept[maxLines - 1];
+    while (last && ctx.measureText(`${last}…`).width > maxWidth) {
+      last = last.slice(0, -1);
+    }
+    kept[maxLines - 1] = `${last.trimEnd()}…`;
+    return kept;
+  }
+
+  private toJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Could not render the labels'));
+          return;
+        }
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+      }, 'image/jpeg', JPEG_QUALITY);
+    });
+  }
+}
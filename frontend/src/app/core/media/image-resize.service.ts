@@ -0,0 +1,55 @@
+import { Injectable } from '@angular/core';
+
+/** Longest edge of a resized photo, in pixels */
+const MAX_DIMENSION = 1600;
+
+/** JPEG quality used for resized photos */
+const JPEG_QUALITY = 0.8;
+
+/**
+ * Shrinks photos on the device before they are uploaded
+ *
+ * Phone cameras produce multi-megabyte images; scaling them down to
+ * MAX_DIMENSION and re-encoding as JPEG keeps uploads fast on mobile data.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageResizeService {
+  /**
+   * Scale an image down so its longest edge fits MAX_DIMENSION and encode it as JPEG.
+   * Images that are already small are re-encoded without scaling.
+   * @param file - Image picked by the user
+   * @returns The resized JPEG image
+   */
+  async resize(file: Blob): Promise<Blob> {
+    // 'from-image' applies EXIF orientation so portrait photos stay upright
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+    try {
+      const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+      const width = Math.round(bitmap.width * scale);
+      const height = Math.round(bitmap.height * scale);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas is not supported');
+      }
+      context.drawImage(bitmap, 0, 0, width, height);
+
+      return await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+          blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')),
+          'image/jpeg',
+          JPEG_QUALITY
+        );
+      });
+    } finally {
+      bitmap.close();
+    }
+  }
+}
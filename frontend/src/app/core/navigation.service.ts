@@ -3,6 +3,15 @@ import { Router, NavigationEnd } from '@angular/router';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { filter } from 'rxjs/operators';
 import { TelegramService } from '../telegram/telegram.service';
+import { ErrorToastService } from '../shared/components/error-toast';
+import { HouseholdApiService } from './api/household-api.service';
+import { DeepLinkService, DeepLinkTarget } from './deep-link.service';
+import { HouseholdService } from './household/household.service';
+import { OfflineSyncService } from './offline/offline-sync.service';
+import { OutboxService } from './offline/outbox.service';
+
+/** Session key remembering the start parameter that was already opened */
+const HANDLED_START_PARAM_KEY = 'stuff-tracker:handled-start-param';
 
 @Injectable({
   providedIn: 'root'
@@ -10,6 +19,12 @@ import { TelegramService } from '../telegram/telegram.service';
 export class NavigationService {
   private readonly router = inject(Router);
   private readonly telegramService = inject(TelegramService);
+  private readonly deepLinkService = inject(DeepLinkService);
+  private readonly householdService = inject(HouseholdService);
+  private readonly householdApiService = inject(HouseholdApiService);
+  private readonly offlineSyncService = inject(OfflineSyncService);
+  private readonly outboxService = inject(OutboxService);
+  private readonly toastService = inject(ErrorToastService);
   private readonly destroyRef = inject(DestroyRef);
 
   private isInitialized = false;
@@ -28,6 +43,62 @@ export class NavigationService {
     this.setupBackButtonHandler();
     this.subscribeToRouterEvents();
     this.updateBackButtonVisibility(this.router.url);
+    this.openStartParam();
+  }
+
+  /**
+   * Route to the location, item or invite a deep link points at,
+   * switching to the household it belongs to first.
+   * Runs once per launch so reloading the Mini App does not jump back to it.
+   */
+  private openStartParam(): void {
+    const startParam = this.telegramService.getStartParam();
+    if (!startParam || sessionStorage.getItem(HANDLED_START_PARAM_KEY) === startParam) {
+      return;
+    }
+
+    sessionStorage.setItem(HANDLED_START_PARAM_KEY, startParam);
+
+    const target = this.deepLinkService.resolveStartParam(startParam);
+    if (!target) {
+      console.warn('[Navigation] Unknown start parameter', startParam);
+      return;
+    }
+
+    console.debug('[Navigation] Opening deep link', startParam);
+    const { householdId } = target;
+    if (householdId === undefined || householdId === this.householdService.activeHouseholdId()) {
+      this.router.navigate(target.commands);
+    } else if (householdId === null) {
+      this.openInHousehold(target, null);
+    } else {
+      // The household's name is needed to switch to it
+      this.householdApiService.getHouseholds().subscribe({
+        next: (households) => {
+          const household = households.find(h => h.id === householdId);
+          if (household) {
+            this.openInHousehold(target, household);
+          } else {
+            this.toastService.error('This link belongs to a household you are not a member of');
+          }
+        },
+        error: (err) => {
+          console.error('[Navigation] Failed to load households for deep link', err);
+          this.toastService.error(err.message || 'Failed to open the link');
+        }
+      });
+    }
+  }
+
+  /**
+   * Switch households, refresh the offline copy and open the link target
+   */
+  private openInHousehold(target: DeepLinkTarget, household: { id: string; name: string } | null): void {
+    this.householdService.switchTo(household);
+    this.offlineSyncService.mirror();
+    void this.outboxService.replay();
+    this.toastService.success(household ? `Switched to ${household.name}` : 'Switched to your personal inventory');
+    this.router.navigate(target.commands);
   }
 
   private setupBackButtonHandler(): void {
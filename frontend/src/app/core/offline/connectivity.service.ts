@@ -0,0 +1,53 @@
+import { Injectable, inject, signal, computed, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+/**
+ * Tracks network connectivity and whether screens are showing cached data
+ *
+ * `isOnline` follows the browser online/offline events, while `isServingCache`
+ * is set by ApiService whenever a request falls back to the offline store.
+ * The latter also covers captive networks where the browser still reports online.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService {
+  private readonly platformId = inject(PLATFORM_ID);
+
+  /** Whether the browser reports a network connection */
+  readonly isOnline = signal(true);
+
+  /** Whether the last read was served from the offline cache */
+  readonly isServingCache = signal(false);
+
+  /** Timestamp of the cached data currently being shown */
+  readonly cachedAt = signal<string | null>(null);
+
+  /** Whether the app is effectively offline */
+  readonly isOffline = computed(() => !this.isOnline() || this.isServingCache());
+
+  constructor() {
+    if (isPlatformBrowser(this.platformId)) {
+      this.isOnline.set(navigator.onLine);
+      window.addEventListener('online', () => this.isOnline.set(true));
+      window.addEventListener('offline', () => this.isOnline.set(false));
+    }
+  }
+
+  /**
+   * Record that a response was served from the offline cache
+   * @param cachedAt - ISO timestamp of the cached response
+   */
+  markServedFromCache(cachedAt: string): void {
+    this.isServingCache.set(true);
+    this.cachedAt.set(cachedAt);
+  }
+
+  /**
+   * Record that the API answered a request
+   */
+  markReachable(): void {
+    this.isServingCache.set(false);
+    this.cachedAt.set(null);
+  }
+}
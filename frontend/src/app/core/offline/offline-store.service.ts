@@ -0,0 +1,175 @@
+import { Injectable, inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+/**
+ * A cached API response stored in IndexedDB
+ */
+export interface CachedResponse<T = unknown> {
+  /** Cache key (endpoint with serialized query params) */
+  key: string;
+  /** Response body as returned by the API */
+  data: T;
+  /** ISO timestamp of when the response was cached */
+  cachedAt: string;
+}
+
+const DB_NAME = 'stuff-tracker';
+const DB_VERSION = 2;
+const RESPONSES_STORE = 'responses';
+const OUTBOX_STORE = 'outbox';
+
+/**
+ * IndexedDB-backed local store for offline data
+ *
+ * Mirrors successful GET responses so that screens can be rendered
+ * from cache when the API is unreachable, and keeps the outbox of writes
+ * made while offline. Response cache methods fail soft: if IndexedDB is
+ * unavailable, reads resolve to undefined and writes are ignored.
+ * Outbox methods reject instead, so callers know an edit was not persisted.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineStoreService {
+  private readonly platformId = inject(PLATFORM_ID);
+
+  /** Lazily opened database connection */
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Read a cached response by key
+   * @param key - Cache key
+   * @returns The cached response, or undefined if not cached
+   */
+  async getResponse<T>(key: string): Promise<CachedResponse<T> | undefined> {
+    try {
+      const db = await this.openDb();
+      return await this.request<CachedResponse<T> | undefined>(
+        db.transaction(RESPONSES_STORE, 'readonly').objectStore(RESPONSES_STORE).get(key)
+      );
+    } catch (err) {
+      console.warn('[OfflineStore] Failed to read cached response', key, err);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response in the cache, replacing any previous entry for the key
+   * @param key - Cache key
+   * @param data - Response body to cache
+   */
+  async putResponse<T>(key: string, data: T): Promise<void> {
+    const entry: CachedResponse<T> = {
+      key,
+      data,
+      cachedAt: new Date().toISOString()
+    };
+
+    try {
+      const db = await this.openDb();
+      await this.request(
+        db.transaction(RESPONSES_STORE, 'readwrite').objectStore(RESPONSES_STORE).put(entry)
+      );
+    } catch (err) {
+      console.warn('[OfflineStore] Failed to cache response', key, err);
+    }
+  }
+
+  /**
+   * Remove all cached responses
+   */
+  async clear(): Promise<void> {
+    try {
+      const db = await this.openDb();
+      await this.request(
+        db.transaction(RESPONSES_STORE, 'readwrite').objectStore(RESPONSES_STORE).clear()
+      );
+    } catch (err) {
+      console.warn('[OfflineStore] Failed to clear cache', err);
+    }
+  }
+
+  /**
+   * Read all outbox entries in insertion order
+   */
+  async getOutboxEntries<T>(): Promise<T[]> {
+    const db = await this.openDb();
+    return this.request<T[]>(
+      db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE).getAll()
+    );
+  }
+
+  /**
+   * Append an entry to the outbox
+   * @param entry - Entry without an id; the store assigns one
+   * @returns The generated entry id
+   */
+  async addOutboxEntry<T>(entry: T): Promise<number> {
+    const db = await this.openDb();
+    return this.request<number>(
+      db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).add(entry)
+    );
+  }
+
+  /**
+   * Replace an existing outbox entry
+   * @param entry - Entry including its id
+   */
+  async putOutboxEntry<T extends { id?: number }>(entry: T): Promise<void> {
+    const db = await this.openDb();
+    await this.request(
+      db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).put(entry)
+    );
+  }
+
+  /**
+   * Remove an entry from the outbox
+   * @param id - Entry id
+   */
+  async deleteOutboxEntry(id: number): Promise<void> {
+    const db = await this.openDb();
+    await this.request(
+      db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).delete(id)
+    );
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    if (!isPlatformBrowser(this.platformId) || typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available'));
+    }
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+
+      openRequest.onupgradeneeded = () => {
+        const db = openRequest.result;
+        if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+          db.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+
+      openRequest.onsuccess = () => resolve(openRequest.result);
+      openRequest.onerror = () => {
+        // Allow a later call to retry opening the database
+        this.dbPromise = null;
+        reject(openRequest.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private request<T>(idbRequest: IDBRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      idbRequest.onsuccess = () => resolve(idbRequest.result as T);
+      idbRequest.onerror = () => reject(idbRequest.error);
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import { Injectable, inject, DestroyRef, PLATFORM_ID, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { EMPTY, Observable, from, fromEvent } from 'rxjs';
+import { catchError, finalize, ignoreElements, mergeMap, switchMap } from 'rxjs/operators';
+import { LocationApiService, LocationTreeNode } from '../api/location-api.service';
+import { ItemApiService } from '../api/item-api.service';
+import { ConnectivityService } from './connectivity.service';
+
+/** Number of parallel requests while mirroring the inventory */
+const MIRROR_CONCURRENCY = 3;
+
+/** Minimum time between two full mirrors */
+const MIRROR_INTERVAL_MS = 30 * 60 * 1000;
+
+/** localStorage key holding the timestamp of the last completed mirror */
+const LAST_MIRROR_KEY = 'stuff-tracker:last-mirror';
+
+/**
+ * Keeps the offline store populated with the whole inventory
+ *
+ * Walks the location tree and requests every location and item through
+ * the regular API services, which mirror each response into IndexedDB.
+ * Runs on startup (at most every 30 minutes) and whenever the connection returns.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineSyncService {
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly itemApiService = inject(ItemApiService);
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly platformId = inject(PLATFORM_ID);
+
+  /** Whether a mirror is currently running */
+  readonly isMirroring = signal(false);
+
+  private isStarted = false;
+
+  /**
+   * Start background mirroring.
+   * Should be called once from AppComponent.
+   */
+  start(): void {
+    if (this.isStarted || !isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    this.isStarted = true;
+
+    if (this.isMirrorStale()) {
+      this.mirror();
+    }
+
+    fromEvent(window, 'online')
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.mirror());
+  }
+
+  /**
+   * Mirror the full inventory into the offline store
+   */
+  mirror(): void {
+    if (this.isMirroring() || !this.connectivity.isOnline()) {
+      return;
+    }
+
+    this.isMirroring.set(true);
+    console.debug('[OfflineSync] Mirroring inventory');
+
+    this.mirrorInventory()
+      .pipe(
+        finalize(() => this.isMirroring.set(false)),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        complete: () => {
+          if (!this.connectivity.isServingCache()) {
+            localStorage.setItem(LAST_MIRROR_KEY, String(Date.now()));
+            console.debug('[OfflineSync] Inventory mirrored');
+          }
+        }
+      });
+  }
+
+  private mirrorInventory(): Observable<never> {
+    return this.locationApiService.getTopLevelLocations().pipe(
+      switchMap(() => this.locationApiService.getLocationTree()),
+      switchMap(tree => {
+        // The API is unreachable and reads come from cache; nothing to mirror
+        if (this.connectivity.isServingCache()) {
+          return EMPTY;
+        }
+        return from(this.flattenIds(tree));
+      }),
+      mergeMap(id => this.locationApiService.getLocation(id).pipe(
+        catchError(() => EMPTY)
+      ), MIRROR_CONCURRENCY),
+      mergeMap(location => from(location.items), MIRROR_CONCURRENCY),
+      mergeMap(item => this.itemApiService.getItem(item.id).pipe(
+        catchError(() => EMPTY)
+      ), MIRROR_CONCURRENCY),
+      ignoreElements(),
+      catchError(err => {
+        console.warn('[OfflineSync] Mirror failed', err);
+        return EMPTY;
+      })
+    );
+  }
+
+  private flattenIds(nodes: LocationTreeNode[]): string[] {
+    return nodes.flatMap(node => [node.id, ...this.flattenIds(node.children ?? [])]);
+  }
+
+  private isMirrorStale(): boolean {
+    const lastMirror = Number(localStorage.getItem(LAST_MIRROR_KEY));
+    return !lastMirror || Date.now() - lastMirror > MIRROR_INTERVAL_MS;
+  }
+}
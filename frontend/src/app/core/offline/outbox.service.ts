@@ -0,0 +1,398 @@
+import { Injectable, inject, signal, computed, DestroyRef, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, firstValueFrom, from, fromEvent, interval, merge, throwError } from 'rxjs';
+import { catchError, filter, switchMap } from 'rxjs/operators';
+import { ApiError, ApiService } from '../api/api.service';
+import type { ItemResponse } from '../api/item-api.service';
+import type { LocationResponse } from '../api/location-api.service';
+import { EntityStoreService } from '../store/entity-store.service';
+import { OfflineStoreService } from './offline-store.service';
+import { ConnectivityService } from './connectivity.service';
+import { HouseholdService } from '../household/household.service';
+import { ErrorToastService } from '../../shared/components/error-toast';
+
+/**
+ * Write operations that are kept in the outbox when the API is unreachable
+ */
+export type OutboxOperation = 'createItem' | 'updateItem' | 'adjustQuantity' | 'moveItem' | 'moveLocation';
+
+/**
+ * Replay state of an outbox entry
+ * - pending: waiting to be sent
+ * - conflict: the server copy changed after the user's edit; needs a decision
+ * - failed: the server rejected the write; kept so the user can retry or discard it
+ */
+export type OutboxEntryStatus = 'pending' | 'conflict' | 'failed';
+
+/**
+ * A queued write request
+ */
+export interface OutboxEntry {
+  /** Store-assigned id; also defines replay order */
+  id?: number;
+  operation: OutboxOperation;
+  method: 'POST' | 'PATCH';
+  endpoint: string;
+  body: unknown;
+  /** Human-readable summary, e.g. "Update Drill" */
+  label: string;
+  /** Endpoint returning the current server copy, used for conflict checks */
+  entityEndpoint?: string;
+  /** updatedAt of the copy the user edited */
+  baseUpdatedAt?: string;
+  /** updatedAt of the server copy when a conflict was detected */
+  serverUpdatedAt?: string;
+  status: OutboxEntryStatus;
+  /** Server error message for failed entries */
+  error?: string;
+  /** Household the write was made in; unset for the personal inventory */
+  householdId?: string;
+  queuedAt: string;
+}
+
+/**
+ * Parameters for queueing a write
+ */
+export type OutboxRequest = Pick<
+  OutboxEntry,
+  'operation' | 'method' | 'endpoint' | 'body' | 'label' | 'entityEndpoint' | 'baseUpdatedAt'
+>;
+
+/**
+ * Error returned to callers when a write was queued instead of sent
+ */
+export interface QueuedApiError extends ApiError {
+  queued: true;
+}
+
+/** Interval for retrying replay while entries are pending */
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Durable outbox for writes made while offline
+ *
+ * API services hand failed writes to `queueOnNetworkError`; entries are
+ * persisted in IndexedDB and replayed in order once the connection returns.
+ * Before replaying an edit, the current server copy is fetched: if its
+ * `updatedAt` is newer than the copy the user edited, replay stops until
+ * the user resolves the conflict on the sync screen. Background replays only
+ * point there with a toast, so nobody is pulled out of a form mid-edit.
+ *
+ * Saved copies the server returns go into the entity store, so open screens
+ * show the synced state. Writes are sent in the household they were made in, so entries of other
+ * households wait until the user switches back to it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OutboxService {
+  private readonly api = inject(ApiService);
+  private readonly offlineStore = inject(OfflineStoreService);
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly householdService = inject(HouseholdService);
+  private readonly entityStore = inject(EntityStoreService);
+  private readonly router = inject(Router);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly platformId = inject(PLATFORM_ID);
+
+  /** Queued entries of every household, in replay order */
+  private readonly allEntries = signal<OutboxEntry[]>([]);
+
+  /**
+   * Queued entries of the active household in replay order; those of other
+   * households cannot be sent or resolved until the user switches back
+   */
+  readonly entries = computed(() => {
+    const householdId = this.householdService.activeHouseholdId() ?? undefined;
+    return this.allEntries().filter(e => e.householdId === householdId);
+  });
+
+  /** Number of entries that still need to reach the server */
+  readonly pendingCount = computed(() => this.entries().filter(e => e.status === 'pending').length);
+
+  /** Entries waiting for a conflict decision */
+  readonly conflicts = computed(() => this.entries().filter(e => e.status === 'conflict'));
+
+  /** Whether a replay is in progress */
+  readonly isReplaying = signal(false);
+
+  private isStarted = false;
+
+  /**
+   * Load queued entries and start replaying when the connection returns.
+   * Should be called once from AppComponent.
+   */
+  start(): void {
+    if (this.isStarted || !isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    this.isStarted = true;
+    void this.refresh().then(() => this.replay());
+
+    merge(fromEvent(window, 'online'), interval(RETRY_INTERVAL_MS))
+      .pipe(
+        filter(() => this.entries().some(e => e.status === 'pending')),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(() => void this.replay());
+  }
+
+  /**
+   * Queue a write if it failed with a network error; rethrow any other error.
+   * The returned error has `queued: true` so callers can tell the user the
+   * change was saved locally.
+   */
+  queueOnNetworkError(error: ApiError, request: OutboxRequest): Observable<never> {
+    if (error.statusCode !== 0) {
+      return throwError(() => error);
+    }
+
+    return from(this.enqueue(request)).pipe(
+      // If the edit cannot be persisted, report the original network error
+      catchError(() => throwError(() => error)),
+      switchMap(() => {
+        const queuedError: QueuedApiError = {
+          message: 'You are offline. The change was saved and will sync when the connection returns.',
+          statusCode: 0,
+          queued: true
+        };
+        return throwError(() => queuedError);
+      })
+    );
+  }
+
+  /**
+   * Replay pending entries in order.
+   * Stops at the first network error or conflict to preserve ordering.
+   * @param userInitiated - Whether the user asked for the replay; only then
+   *   is a conflict opened on the sync screen right away
+   */
+  async replay(userInitiated = false): Promise<void> {
+    if (this.isReplaying()) {
+      return;
+    }
+
+    this.isReplaying.set(true);
+
+    try {
+      // Re-read the store each time: a replay can rebase the entries after it
+      let entry = await this.nextPendingEntry();
+      while (entry) {
+        const outcome = await this.replayEntry(entry);
+        if (outcome === 'offline') {
+          break;
+        }
+        if (outcome === 'conflict') {
+          this.reportConflict(userInitiated);
+          break;
+        }
+        entry = await this.nextPendingEntry();
+      }
+    } catch (err) {
+      console.warn('[Outbox] Replay aborted', err);
+    } finally {
+      this.isReplaying.set(false);
+      await this.refresh();
+    }
+  }
+
+  /**
+   * Resolve a conflict
+   * @param id - Entry id
+   * @param resolution - 'mine' overwrites the server copy, 'server' drops the local edit
+   */
+  async resolveConflict(id: number, resolution: 'mine' | 'server'): Promise<void> {
+    const entry = this.entries().find(e => e.id === id);
+    if (!entry) return;
+
+    if (resolution === 'server') {
+      await this.offlineStore.deleteOutboxEntry(id);
+      await this.refresh();
+      return;
+    }
+
+    await this.offlineStore.putOutboxEntry<OutboxEntry>({
+      ...entry,
+      status: 'pending',
+      baseUpdatedAt: undefined,
+      serverUpdatedAt: undefined
+    });
+    await this.refresh();
+    await this.replay(true);
+  }
+
+  /**
+   * Fetch the current server copy of the entity an entry targets
+   */
+  getServerCopy(entry: OutboxEntry): Observable<Record<string, unknown>> {
+    if (!entry.entityEndpoint) {
+      return throwError(() => ({ message: 'This change has no server copy', statusCode: 400 } as ApiError));
+    }
+    return this.api.get<Record<string, unknown>>(entry.entityEndpoint);
+  }
+
+  /**
+   * Put a failed entry back into the replay queue
+   */
+  async retry(id: number): Promise<void> {
+    const entry = this.entries().find(e => e.id === id);
+    if (!entry) return;
+
+    await this.offlineStore.putOutboxEntry<OutboxEntry>({ ...entry, status: 'pending', error: undefined });
+    await this.refresh();
+    await this.replay(true);
+  }
+
+  /**
+   * Drop an entry without sending it
+   */
+  async discard(id: number): Promise<void> {
+    await this.offlineStore.deleteOutboxEntry(id);
+    await this.refresh();
+  }
+
+  private reportConflict(userInitiated: boolean): void {
+    if (userInitiated) {
+      this.router.navigate(['/sync']);
+      return;
+    }
+    this.toastService.warning('A change made offline conflicts with a newer version', undefined, {
+      label: 'Review',
+      run: () => this.router.navigate(['/sync'])
+    });
+  }
+
+  private async enqueue(request: OutboxRequest): Promise<void> {
+    const entry: OutboxEntry = {
+      ...request,
+      householdId: this.householdService.activeHouseholdId() ?? undefined,
+      status: 'pending',
+      queuedAt: new Date().toISOString()
+    };
+
+    await this.offlineStore.addOutboxEntry(entry);
+    console.debug('[Outbox] Queued %s', entry.label);
+    await this.refresh();
+  }
+
+  private async replayEntry(entry: OutboxEntry): Promise<'sent' | 'offline' | 'conflict' | 'failed'> {
+    try {
+      if (entry.entityEndpoint && entry.baseUpdatedAt) {
+        const server = await firstValueFrom(this.api.get<{ updatedAt: string }>(entry.entityEndpoint));
+
+        // A cached copy means the API is still unreachable
+        if (this.connectivity.isServingCache()) {
+          return 'offline';
+        }
+
+        if (new Date(server.updatedAt).getTime() > new Date(entry.baseUpdatedAt).getTime()) {
+          console.debug('[Outbox] Conflict for %s', entry.label);
+          await this.offlineStore.putOutboxEntry<OutboxEntry>({
+            ...entry,
+            status: 'conflict',
+            serverUpdatedAt: server.updatedAt
+          });
+          return 'conflict';
+        }
+      }
+
+      const response = await firstValueFrom(this.send(entry));
+      await this.offlineStore.deleteOutboxEntry(entry.id!);
+      this.updateStore(entry, response);
+      await this.rebaseLaterEntries(entry, response);
+      console.debug('[Outbox] Replayed %s', entry.label);
+      return 'sent';
+    } catch (err) {
+      const apiError = err as ApiError;
+      if (apiError.statusCode === 0) {
+        return 'offline';
+      }
+
+      console.error('[Outbox] Replay failed for %s', entry.label, err);
+      await this.offlineStore.putOutboxEntry<OutboxEntry>({
+        ...entry,
+        status: 'failed',
+        error: apiError.message
+      });
+      return 'failed';
+    }
+  }
+
+  private send(entry: OutboxEntry): Observable<{ updatedAt?: string }> {
+    return entry.method === 'POST'
+      ? this.api.post<{ updatedAt?: string }>(entry.endpoint, entry.body)
+      : this.api.patch<{ updatedAt?: string }>(entry.endpoint, entry.body);
+  }
+
+  /**
+   * Record the saved copy a replayed write returned, as the API services do
+   * for writes that went through directly
+   */
+  private updateStore(entry: OutboxEntry, response: unknown): void {
+    if (!response) {
+      return;
+    }
+    switch (entry.operation) {
+      case 'createItem':
+        this.entityStore.addItem(response as ItemResponse);
+        break;
+      case 'updateItem':
+      case 'adjustQuantity':
+      case 'moveItem':
+        this.entityStore.putItem(response as ItemResponse);
+        break;
+      case 'moveLocation':
+        this.entityStore.updateLocation(response as LocationResponse);
+        break;
+    }
+  }
+
+  /**
+   * Later edits of the same entity were based on the copy before this replay;
+   * move their base forward so our own write is not reported as a conflict.
+   */
+  private async rebaseLaterEntries(sent: OutboxEntry, response: { updatedAt?: string }): Promise<void> {
+    if (!sent.entityEndpoint || !response?.updatedAt) {
+      return;
+    }
+
+    const stored = await this.offlineStore.getOutboxEntries<OutboxEntry>();
+    for (const entry of stored) {
+      if (entry.entityEndpoint === sent.entityEndpoint && entry.baseUpdatedAt) {
+        await this.offlineStore.putOutboxEntry<OutboxEntry>({ ...entry, baseUpdatedAt: response.updatedAt });
+      }
+    }
+  }
+
+  private async nextPendingEntry(): Promise<OutboxEntry | undefined> {
+    const householdId = this.householdService.activeHouseholdId() ?? undefined;
+    const stored = await this.offlineStore.getOutboxEntries<OutboxEntry>();
+    for (const entry of stored) {
+      // Requests go to the active household only
+      if (entry.householdId !== householdId) {
+        continue;
+      }
+      // An unresolved conflict blocks everything queued after it
+      if (entry.status === 'conflict') {
+        return undefined;
+      }
+      if (entry.status === 'pending') {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const entries = await this.offlineStore.getOutboxEntries<OutboxEntry>();
+      this.allEntries.set(entries);
+    } catch (err) {
+      console.warn('[Outbox] Failed to load outbox', err);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { tap } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { HouseholdService } from '../household/household.service';
+import type { ChangeEvent, RealtimeSource } from './realtime.service';
+
+/** BroadcastChannel carrying mock change events between tabs */
+const MOCK_EVENTS_CHANNEL = 'stuff-tracker:mock-events';
+
+/**
+ * A change as it travels between tabs
+ */
+interface MockMessage {
+  householdId: string | null;
+  event: ChangeEvent;
+}
+
+/** Channel the interceptor posts on; a tab never receives its own posts */
+let outgoing: BroadcastChannel | null = null;
+
+/**
+ * Development stand-in for the server's `GET /events` stream
+ *
+ * Delivers the changes other tabs of the app make, as reported by
+ * `mockRealtimeInterceptor`, for the same household. Open the app in two
+ * tabs to see screens update live.
+ */
+export class MockEventSource implements RealtimeSource {
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent<string>) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  private readonly channel = new BroadcastChannel(MOCK_EVENTS_CHANNEL);
+  private readonly openTimer: ReturnType<typeof setTimeout>;
+
+  constructor(private readonly householdId: string | null) {
+    this.channel.onmessage = ({ data }: MessageEvent<MockMessage>) => {
+      if (data.householdId === this.householdId) {
+        this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data.event) }));
+      }
+    };
+    // Like EventSource, report the connection as open after the constructor returns
+    this.openTimer = setTimeout(() => this.onopen?.(new Event('open')));
+  }
+
+  close(): void {
+    clearTimeout(this.openTimer);
+    this.channel.close();
+  }
+}
+
+/**
+ * HTTP interceptor that reports successful item and location changes to
+ * other tabs while `environment.mockRealtime` is set, standing in for the
+ * events the server would push
+ */
+export const mockRealtimeInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!environment.mockRealtime || req.method === 'GET' || !req.url.startsWith(environment.apiUrl)) {
+    return next(req);
+  }
+
+  const householdId = inject(HouseholdService).activeHouseholdId();
+
+  return next(req).pipe(
+    tap(response => {
+      if (!(response instanceof HttpResponse)) {
+        return;
+      }
+      const event = toChangeEvent(req.method, req.url.slice(environment.apiUrl.length), response.body);
+      if (event) {
+        outgoing ??= new BroadcastChannel(MOCK_EVENTS_CHANNEL);
+        outgoing.postMessage({ householdId, event } satisfies MockMessage);
+      }
+    })
+  );
+};
+
+/**
+ * Work out which item or location a request changed, e.g.
+ * `POST /items` → created, `DELETE /locations/:id` → deleted,
+ * `PATCH /items/:id` or `POST /items/:id/photos` → updated
+ */
+function toChangeEvent(method: string, url: string, body: unknown): ChangeEvent | null {
+  const match = /^\/(items|locations)(\/deleted)?(?:\/([^/]+))?(\/.*)?$/.exec(url.split('?')[0]);
+  if (!match) {
+    return null;
+  }
+
+  const [, collection, inTrash, pathId, subPath] = match;
+  if (inTrash) {
+    // Purged from the trash: no open screen shows it
+    return null;
+  }
+
+  const response = body as { id?: string; locationId?: string; parentId?: string | null } | null;
+  const id = pathId ?? response?.id;
+  if (!id) {
+    return null;
+  }
+  // Sub-resource responses (photos, loans, ...) are not the item or location itself
+  const saved = response?.id === id ? response : null;
+
+  const entityType = collection === 'items' ? 'item' : 'location';
+  const action = !pathId || subPath === '/restore'
+    ? 'created'
+    : method === 'DELETE' && !subPath ? 'deleted' : 'updated';
+  const locationId = entityType === 'item' ? saved?.locationId : saved?.parentId;
+
+  return { entityType, action, id, ...(locationId !== undefined && { locationId }) };
+}
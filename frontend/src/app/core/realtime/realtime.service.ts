@@ -0,0 +1,204 @@
+import { Injectable, PLATFORM_ID, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { EMPTY, Observable, Subject, Subscription, combineLatest, merge, of, timer } from 'rxjs';
+import { debounceTime, filter, map, share, switchMap } from 'rxjs/operators';
+import { environment } from '../../../environments/environment';
+import { ApiService } from '../api/api.service';
+import { HouseholdService } from '../household/household.service';
+import { ConnectivityService } from '../offline/connectivity.service';
+import { MockEventSource } from './mock-event-source';
+
+/** First reconnect delay; doubles with every failed attempt */
+const RECONNECT_BASE_DELAY_MS = 1000;
+
+/** Longest wait between reconnect attempts */
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/** Bursts of changes (e.g. a bulk move) are handled as one refresh */
+const REFRESH_DEBOUNCE_MS = 300;
+
+/** How long the connection outlives its last watcher, so moving between screens keeps it */
+const IDLE_DISCONNECT_MS = 5000;
+
+/**
+ * A change to an item or location made by someone else
+ */
+export interface ChangeEvent {
+  entityType: 'item' | 'location';
+  action: 'created' | 'updated' | 'deleted';
+  id: string;
+  /**
+   * Location the item is in, or parent of the location, after the change;
+   * null for a top-level location, left out when unknown (e.g. deletes)
+   */
+  locationId?: string | null;
+  /** Where the item or location was before a move */
+  previousLocationId?: string | null;
+}
+
+/**
+ * Response of `POST /events/token`
+ */
+interface StreamTokenResponse {
+  /** Short-lived, single-use token that opens one event stream */
+  token: string;
+}
+
+/**
+ * The parts of EventSource the service uses, so that MockEventSource can
+ * stand in during development
+ */
+export interface RealtimeSource {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent<string>) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+/**
+ * Live changes from other household members and devices
+ *
+ * Streams server-sent events from `GET /events`. EventSource cannot send
+ * headers, so every connection first exchanges the usual authenticated
+ * request for a short-lived stream token (`POST /events/token`, scoped to the
+ * active household) and only that token goes in the query string; the
+ * Telegram init data never appears in a URL. The connection is only open while a screen watches for
+ * changes, restarts when the household changes or the device comes back
+ * online, and reconnects with exponential backoff after errors. Changes
+ * missed while disconnected are covered by a resync: watchers refresh once
+ * the connection is back.
+ *
+ * With `environment.mockRealtime`, MockEventSource replaces the server so
+ * two browser tabs see each other's changes without backend support.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RealtimeService {
+  private readonly platformId = inject(PLATFORM_ID);
+  private readonly api = inject(ApiService);
+  private readonly householdService = inject(HouseholdService);
+  private readonly connectivityService = inject(ConnectivityService);
+
+  /** Emitted when the connection comes back after a drop */
+  private readonly resync = new Subject<void>();
+
+  /** Whether changes may have been missed since the last open connection */
+  private missedChanges = false;
+
+  /** Changes made elsewhere, shared by all watchers */
+  readonly changes$: Observable<ChangeEvent> = combineLatest([
+    toObservable(this.householdService.activeHouseholdId),
+    toObservable(this.connectivityService.isOnline)
+  ]).pipe(
+    switchMap(([householdId, isOnline]) => {
+      if (!isOnline || !isPlatformBrowser(this.platformId)) {
+        this.missedChanges = true;
+        return EMPTY;
+      }
+      return this.connect(householdId);
+    }),
+    share({ resetOnRefCountZero: () => timer(IDLE_DISCONNECT_MS) })
+  );
+
+  /**
+   * Notify when changes matching the predicate arrive, or after a reconnect
+   *
+   * Keeps the connection open while subscribed.
+   * @param predicate - Whether a change concerns the watcher
+   */
+  watch(predicate: (event: ChangeEvent) => boolean): Observable<void> {
+    return merge(this.changes$.pipe(filter(predicate)), this.resync).pipe(
+      debounceTime(REFRESH_DEBOUNCE_MS),
+      map(() => undefined)
+    );
+  }
+
+  /**
+   * Open the event stream, reconnecting after errors until unsubscribed
+   */
+  private connect(householdId: string | null): Observable<ChangeEvent> {
+    return new Observable<ChangeEvent>(subscriber => {
+      let source: RealtimeSource | null = null;
+      let opening: Subscription | undefined;
+      let retryTimer: ReturnType<typeof setTimeout> | undefined;
+      let attempt = 0;
+
+      const retry = () => {
+        this.missedChanges = true;
+        const delay = this.reconnectDelay(attempt++);
+        console.debug('[Realtime] Connection lost, retrying in %dms', delay);
+        retryTimer = setTimeout(open, delay);
+      };
+
+      const open = () => {
+        opening = this.createSource(householdId).subscribe({
+          next: created => listen(created),
+          error: err => {
+            console.debug('[Realtime] Could not get a stream token', err);
+            retry();
+          }
+        });
+      };
+
+      const listen = (created: RealtimeSource) => {
+        source = created;
+
+        source.onopen = () => {
+          console.debug('[Realtime] Connected');
+          attempt = 0;
+          if (this.missedChanges) {
+            this.missedChanges = false;
+            this.resync.next();
+          }
+        };
+
+        source.onmessage = (message) => {
+          try {
+            subscriber.next(JSON.parse(message.data) as ChangeEvent);
+          } catch (err) {
+            console.warn('[Realtime] Ignoring malformed event', err);
+          }
+        };
+
+        source.onerror = () => {
+          // Close so EventSource does not retry on its own schedule, reusing a spent token
+          source?.close();
+          retry();
+        };
+      };
+
+      open();
+
+      return () => {
+        clearTimeout(retryTimer);
+        opening?.unsubscribe();
+        source?.close();
+      };
+    });
+  }
+
+  /**
+   * Create an event source with a fresh stream token
+   * The token request carries the auth and household headers like any
+   * other API call, so the server ties the stream to the active household.
+   */
+  private createSource(householdId: string | null): Observable<RealtimeSource> {
+    if (environment.mockRealtime) {
+      return of(new MockEventSource(householdId));
+    }
+
+    return this.api.post<StreamTokenResponse>('/events/token').pipe(
+      map(({ token }) => new EventSource(`${environment.apiUrl}/events?${new URLSearchParams({ token })}`))
+    );
+  }
+
+  /**
+   * Exponential backoff with jitter, so clients do not reconnect in lockstep
+   */
+  private reconnectDelay(attempt: number): number {
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+    return Math.round(delay * (0.5 + Math.random() / 2));
+  }
+}
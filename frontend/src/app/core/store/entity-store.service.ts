@@ -0,0 +1,472 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { skip } from 'rxjs/operators';
+import { HouseholdService } from '../household/household.service';
+import type {
+  LocationDetail,
+  LocationListItem,
+  LocationResponse,
+  LocationTreeNode
+} from '../api/location-api.service';
+import type { ItemDetail, ItemListItem, ItemResponse } from '../api/item-api.service';
+
+/**
+ * What the store knows about a location: the list fields, plus the full
+ * record once the location itself was loaded. `parentId` is null for a
+ * top-level location and left out while unknown.
+ */
+export type LocationEntity = LocationListItem &
+  Partial<Omit<LocationResponse, 'id' | 'name' | 'parentId'>> & { parentId?: string | null };
+
+/**
+ * What the store knows about an item: the list fields, plus whatever a
+ * search, the item page or a write has reported
+ */
+export type ItemEntity = ItemListItem & Partial<Omit<ItemDetail, keyof ItemListItem>>;
+
+/** Optional fields a compact item listing reports; left out means cleared */
+const ITEM_LIST_FIELDS = ['thumbnailUrl', 'tags', 'expiresAt', 'lentQuantity'] as const;
+
+/** Item fields only listings and the item page report; kept when a write response leaves them out */
+const ITEM_VIEW_FIELDS = [
+  'thumbnailUrl',
+  'lentQuantity',
+  'locationPath',
+  'locationName',
+  'attachments',
+  'role'
+] as const;
+
+/**
+ * Normalized copies of locations and items, keyed by ID
+ */
+interface StoreState {
+  locations: Map<string, LocationEntity>;
+  items: Map<string, ItemEntity>;
+  /** Ordered child location IDs per parent (null for top level), once that listing was loaded */
+  childIds: Map<string | null, string[]>;
+  /** Ordered item IDs per location, once that listing was loaded */
+  itemIds: Map<string, string[]>;
+}
+
+/**
+ * Client-side store of the locations and items the app has seen
+ *
+ * LocationApiService, ItemApiService and SearchApiService write every
+ * response into it; screens read computed selectors instead of keeping their
+ * own copies. A write such as a move updates the entity, the listings it
+ * leaves and joins, and their counts in one step, so every open view shows
+ * the change without a refetch. Purchase value subtotals are not rolled up
+ * and refresh with the next load.
+ *
+ * Selectors are plain methods reading the store's signal; call them inside
+ * `computed()` to follow changes. The store is emptied when the active
+ * household changes.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class EntityStoreService {
+  private readonly householdService = inject(HouseholdService);
+
+  private readonly state = signal<StoreState>(emptyState());
+
+  constructor() {
+    toObservable(this.householdService.activeHouseholdId)
+      .pipe(skip(1))
+      .subscribe(() => this.clear());
+  }
+
+  // Selectors
+
+  /**
+   * Top-level locations, or null until they were loaded
+   */
+  topLevelLocations(): LocationListItem[] | null {
+    const state = this.state();
+    const ids = state.childIds.get(null);
+    return ids ? pick(state.locations, ids) : null;
+  }
+
+  /**
+   * A location with its sub-locations and items, or null until it was loaded
+   */
+  locationDetail(id: string): LocationDetail | null {
+    const state = this.state();
+    const location = state.locations.get(id);
+    const childIds = state.childIds.get(id);
+    const itemIds = state.itemIds.get(id);
+    if (!location || !childIds || !itemIds) {
+      return null;
+    }
+
+    return {
+      id: location.id,
+      name: location.name,
+      parentId: location.parentId ?? undefined,
+      breadcrumbs: location.breadcrumbs ?? [location.name],
+      breadcrumbIds: location.breadcrumbIds ?? [location.id],
+      depth: location.depth ?? 0,
+      createdAt: location.createdAt ?? '',
+      updatedAt: location.updatedAt ?? '',
+      role: location.role,
+      children: pick(state.locations, childIds),
+      items: pick(state.items, itemIds)
+    };
+  }
+
+  /**
+   * An item with its location context, or null until the item itself was
+   * loaded. The path, location name and role follow the item's location when
+   * the store knows it, so they stay right after moves and renames.
+   */
+  itemDetail(id: string): ItemDetail | null {
+    const state = this.state();
+    const item = state.items.get(id);
+    if (!item?.locationId || !item.createdAt || !item.updatedAt || !item.locationPath) {
+      return null;
+    }
+
+    const location = state.locations.get(item.locationId);
+    return {
+      ...item,
+      locationId: item.locationId,
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt,
+      locationPath: location?.breadcrumbs ?? item.locationPath,
+      locationName: location?.name ?? item.locationName ?? '',
+      role: location?.role ?? item.role
+    };
+  }
+
+  /**
+   * Items by ID, in the given order; IDs of deleted or unknown items are skipped
+   */
+  items(ids: readonly string[]): ItemEntity[] {
+    const state = this.state();
+    return pick(state.items, ids).map(item => {
+      const location = item.locationId ? state.locations.get(item.locationId) : undefined;
+      return location?.breadcrumbs ? { ...item, locationPath: location.breadcrumbs } : item;
+    });
+  }
+
+  // Location writes
+
+  /**
+   * Record the top-level listing
+   */
+  setTopLevelLocations(locations: LocationListItem[]): void {
+    this.mutate(state => {
+      for (const location of locations) {
+        putLocationSummary(state, location, null);
+      }
+      state.childIds.set(null, locations.map(location => location.id));
+    });
+  }
+
+  /**
+   * Record a location with its sub-locations and items
+   */
+  setLocationDetail(detail: LocationDetail): void {
+    const { children, items, ...response } = detail;
+    this.mutate(state => {
+      putLocation(state, response);
+      for (const child of children) {
+        putLocationSummary(state, child, detail.id);
+      }
+      for (const item of items) {
+        const previous = state.items.get(item.id);
+        putItemEntity(state, { ...omit(previous, ITEM_LIST_FIELDS), ...item, locationId: detail.id });
+      }
+
+      state.childIds.set(detail.id, children.map(child => child.id));
+      state.itemIds.set(detail.id, items.map(item => item.id));
+      const location = state.locations.get(detail.id)!;
+      state.locations.set(detail.id, { ...location, childCount: children.length, itemCount: items.length });
+    });
+  }
+
+  /**
+   * Record names, paths and roles from the location tree
+   */
+  setLocationTree(nodes: LocationTreeNode[]): void {
+    this.mutate(state => {
+      const visit = (node: LocationTreeNode, parent: LocationEntity | null) => {
+        const previous = state.locations.get(node.id);
+        const location: LocationEntity = {
+          childCount: node.children.length,
+          itemCount: 0,
+          ...previous,
+          id: node.id,
+          name: node.name,
+          parentId: parent?.id ?? null,
+          depth: node.depth,
+          breadcrumbs: [...(parent?.breadcrumbs ?? []), node.name],
+          breadcrumbIds: [...(parent?.breadcrumbIds ?? []), node.id],
+          role: node.role ?? previous?.role
+        };
+        state.locations.set(node.id, location);
+        node.children.forEach(child => visit(child, location));
+      };
+      nodes.forEach(node => visit(node, null));
+    });
+  }
+
+  /**
+   * Record a newly created or restored location under its parent
+   */
+  addLocation(response: LocationResponse): void {
+    this.mutate(state => {
+      const isKnown = state.locations.get(response.id)?.parentId !== undefined;
+      putLocation(state, response);
+      if (!isKnown) {
+        join(state.childIds, state.locations, response.parentId ?? null, response.id, 'childCount');
+      }
+    });
+  }
+
+  /**
+   * Record an updated or moved location
+   */
+  updateLocation(response: LocationResponse): void {
+    this.mutate(state => putLocation(state, response));
+  }
+
+  /**
+   * Drop a deleted location from its parent's listing
+   */
+  removeLocation(id: string): void {
+    this.mutate(state => {
+      const location = state.locations.get(id);
+      if (location?.parentId !== undefined) {
+        leave(state.childIds, state.locations, location.parentId, id, 'childCount');
+      }
+      state.locations.delete(id);
+      state.childIds.delete(id);
+      state.itemIds.delete(id);
+    });
+  }
+
+  // Item writes
+
+  /**
+   * Record items from a search; fields a result leaves out are kept
+   */
+  putItemSummaries(items: ItemEntity[]): void {
+    this.mutate(state => {
+      for (const item of items) {
+        putItemEntity(state, { ...state.items.get(item.id), ...item });
+      }
+    });
+  }
+
+  /**
+   * Record an item as loaded, updated or moved
+   */
+  putItem(item: ItemResponse | ItemDetail): void {
+    this.mutate(state => {
+      const previous = state.items.get(item.id);
+      // The item page reports its own view fields; a write response leaves them to the listings
+      const kept = 'locationPath' in item
+        ? { thumbnailUrl: previous?.thumbnailUrl, lentQuantity: previous?.lentQuantity }
+        : keep(previous, ITEM_VIEW_FIELDS);
+      putItemEntity(state, { ...kept, ...item });
+    });
+  }
+
+  /**
+   * Change fields of a known item, e.g. after a quick quantity change
+   */
+  patchItem(id: string, changes: Partial<ItemEntity>): void {
+    this.mutate(state => {
+      const previous = state.items.get(id);
+      if (previous) {
+        putItemEntity(state, { ...previous, ...changes, id });
+      }
+    });
+  }
+
+  /**
+   * Record a newly created or restored item in its location
+   */
+  addItem(item: ItemResponse): void {
+    this.mutate(state => {
+      const previous = state.items.get(item.id);
+      putItemEntity(state, { ...previous, ...item });
+      if (previous?.locationId === undefined) {
+        join(state.itemIds, state.locations, item.locationId, item.id, 'itemCount');
+      }
+    });
+  }
+
+  /**
+   * Drop a deleted item from its location's listing
+   */
+  removeItem(id: string): void {
+    this.mutate(state => {
+      const item = state.items.get(id);
+      if (item?.locationId) {
+        leave(state.itemIds, state.locations, item.locationId, id, 'itemCount');
+      }
+      state.items.delete(id);
+    });
+  }
+
+  /**
+   * Forget everything, e.g. when switching households
+   */
+  clear(): void {
+    this.state.set(emptyState());
+  }
+
+  /**
+   * Apply a change to a copy of the state and publish it
+   */
+  private mutate(change: (state: StoreState) => void): void {
+    this.state.update(current => {
+      const next: StoreState = {
+        locations: new Map(current.locations),
+        items: new Map(current.items),
+        childIds: new Map(current.childIds),
+        itemIds: new Map(current.itemIds)
+      };
+      change(next);
+      return next;
+    });
+  }
+}
+
+function emptyState(): StoreState {
+  return { locations: new Map(), items: new Map(), childIds: new Map(), itemIds: new Map() };
+}
+
+/**
+ * Store a location as listed under a parent; its value subtotal is cleared when left out.
+ * The caller replaces the parent's listing.
+ */
+function putLocationSummary(state: StoreState, summary: LocationListItem, parentId: string | null): void {
+  const previous = state.locations.get(summary.id);
+  if (previous?.parentId !== undefined && previous.parentId !== parentId) {
+    leave(state.childIds, state.locations, previous.parentId, summary.id, 'childCount');
+  }
+  state.locations.set(summary.id, { ...omit(previous, ['value']), ...summary, parentId });
+}
+
+/**
+ * Store a location record, moving it between listings when its parent
+ * changed and updating the paths of everything below it
+ */
+function putLocation(state: StoreState, response: LocationResponse): void {
+  const previous = state.locations.get(response.id);
+  const parentId = response.parentId ?? null;
+  const location: LocationEntity = {
+    childCount: 0,
+    itemCount: 0,
+    ...previous,
+    ...response,
+    parentId
+  };
+  state.locations.set(response.id, location);
+
+  if (previous?.parentId !== undefined && previous.parentId !== parentId) {
+    leave(state.childIds, state.locations, previous.parentId, response.id, 'childCount');
+    join(state.childIds, state.locations, parentId, response.id, 'childCount');
+  }
+
+  // Descendants share this location's path prefix
+  for (const [id, descendant] of state.locations) {
+    const index = descendant.breadcrumbIds?.indexOf(response.id) ?? -1;
+    if (id === response.id || index < 0 || !descendant.breadcrumbIds || !descendant.breadcrumbs) {
+      continue;
+    }
+    state.locations.set(id, {
+      ...descendant,
+      breadcrumbIds: [...response.breadcrumbIds, ...descendant.breadcrumbIds.slice(index + 1)],
+      breadcrumbs: [...response.breadcrumbs, ...descendant.breadcrumbs.slice(index + 1)],
+      depth: response.depth + descendant.breadcrumbIds.length - 1 - index
+    });
+  }
+}
+
+/**
+ * Store an item, moving it between listings when its location changed
+ */
+function putItemEntity(state: StoreState, item: ItemEntity): void {
+  const previous = state.items.get(item.id);
+  state.items.set(item.id, item);
+
+  if (previous?.locationId && item.locationId && previous.locationId !== item.locationId) {
+    leave(state.itemIds, state.locations, previous.locationId, item.id, 'itemCount');
+    join(state.itemIds, state.locations, item.locationId, item.id, 'itemCount');
+  }
+}
+
+/**
+ * Add an ID to a location's listing (when loaded) and count
+ * @param count - Count on the owning location to raise
+ */
+function join<K extends string | null>(
+  listings: Map<K, string[]>,
+  locations: Map<string, LocationEntity>,
+  ownerId: K,
+  id: string,
+  count: 'childCount' | 'itemCount'
+): void {
+  const ids = listings.get(ownerId);
+  if (ids && !ids.includes(id)) {
+    listings.set(ownerId, [...ids, id]);
+  }
+  const owner = ownerId === null ? undefined : locations.get(ownerId);
+  if (owner) {
+    locations.set(owner.id, { ...owner, [count]: owner[count] + 1 });
+  }
+}
+
+/**
+ * Remove an ID from a location's listing (when loaded) and count
+ * @param count - Count on the owning location to lower
+ */
+function leave<K extends string | null>(
+  listings: Map<K, string[]>,
+  locations: Map<string, LocationEntity>,
+  ownerId: K,
+  id: string,
+  count: 'childCount' | 'itemCount'
+): void {
+  const ids = listings.get(ownerId);
+  if (ids) {
+    listings.set(ownerId, ids.filter(existing => existing !== id));
+  }
+  const owner = ownerId === null ? undefined : locations.get(ownerId);
+  if (owner) {
+    locations.set(owner.id, { ...owner, [count]: Math.max(0, owner[count] - 1) });
+  }
+}
+
+/**
+ * Entities for the given IDs, in order, skipping unknown ones
+ */
+function pick<T>(entities: Map<string, T>, ids: readonly string[]): T[] {
+  return ids.flatMap(id => {
+    const entity = entities.get(id);
+    return entity ? [entity] : [];
+  });
+}
+
+function keep<T extends object, K extends keyof T>(entity: T | undefined, fields: readonly K[]): Partial<T> {
+  const kept: Partial<T> = {};
+  for (const field of fields) {
+    if (entity?.[field] !== undefined) {
+      kept[field] = entity[field];
+    }
+  }
+  return kept;
+}
+
+function omit<T extends object, K extends keyof T>(entity: T | undefined, fields: readonly K[]): Partial<T> {
+  const rest: Partial<T> = { ...entity };
+  for (const field of fields) {
+    delete rest[field];
+  }
+  return rest;
+}
@@ -0,0 +1,256 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, forkJoin } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { LocationApiService, LocationTreeNode } from '../api/location-api.service';
+import { MoneyAmount, ValuationApiService, ValuedItem, formatMoney, sumMoney } from '../api/valuation-api.service';
+import { GeneratedFile } from '../export/file-delivery.service';
+import { PdfPageImage, PdfService } from '../export/pdf.service';
+
+/**
+ * A location in a valuation report
+ * Totals include every sub-location.
+ */
+export interface ValuationNode {
+  id: string;
+  name: string;
+  depth: number;
+  totals: MoneyAmount[];
+  /** Valued items stored directly here */
+  items: ValuedItem[];
+  children: ValuationNode[];
+}
+
+/**
+ * Value of the whole inventory, broken down by location
+ */
+export interface ValuationReport {
+  createdAt: string;
+  /** Locations holding valued items, directly or below them */
+  locations: ValuationNode[];
+  totals: MoneyAmount[];
+  itemCount: number;
+}
+
+/**
+ * Value of all units of an item
+ */
+export function itemValue(item: ValuedItem): MoneyAmount {
+  return { currency: item.currency, amount: item.purchasePrice * item.quantity };
+}
+
+/** Page size in pixels: A4 at 150 dpi */
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 100;
+const LINE_HEIGHT = 40;
+const INDENT = 32;
+const JPEG_QUALITY = 0.85;
+
+/**
+ * Builds the inventory valuation report
+ *
+ * Rolls purchase prices up the location hierarchy so each location shows
+ * what everything inside it is worth. Amounts in different currencies are
+ * kept apart rather than converted.
+ *
+ * The PDF export is meant for insurers: it lists every valued item with its
+ * purchase details and subtotals per location. Pages are drawn on a canvas,
+ * so item names in any script come out as typed.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ValuationService {
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly valuationApiService = inject(ValuationApiService);
+  private readonly pdfService = inject(PdfService);
+
+  /**
+   * Load the current report
+   */
+  load(): Observable<ValuationReport> {
+    return forkJoin({
+      tree: this.locationApiService.getLocationTree(),
+      items: this.valuationApiService.getValuedItems()
+    }).pipe(
+      map(({ tree, items }) => {
+        const byLocation = new Map<string, ValuedItem[]>();
+        for (const item of items) {
+          byLocation.set(item.locationId, [...(byLocation.get(item.locationId) ?? []), item]);
+        }
+        const locations = this.build(tree, byLocation);
+        return {
+          createdAt: new Date().toISOString(),
+          locations,
+          totals: sumMoney(locations.flatMap(node => node.totals)),
+          itemCount: items.length
+        };
+      })
+    );
+  }
+
+  /**
+   * Render the report as a PDF
+   */
+  async toPdf(report: ValuationReport): Promise<GeneratedFile> {
+    const pages: PdfPageImage[] = [];
+    for (const canvas of this.draw(report)) {
+      pages.push({ jpeg: await this.toJpeg(canvas), width: canvas.width, height: canvas.height });
+    }
+    return {
+      blob: this.pdfService.fromImages(pages),
+      fileName: `stufftracker-valuation-${report.createdAt.slice(0, 10)}.pdf`
+    };
+  }
+
+  /**
+   * Attach items to the tree and total it bottom-up, dropping empty branches
+   */
+  private build(nodes: LocationTreeNode[], byLocation: Map<string, ValuedItem[]>): ValuationNode[] {
+    return nodes
+      .map(node => {
+        const items = [...(byLocation.get(node.id) ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+        const children = this.build(node.children, byLocation);
+        return {
+          id: node.id,
+          name: node.name,
+          depth: node.depth,
+          totals: sumMoney([...items.map(itemValue), ...children.flatMap(child => child.totals)]),
+          items,
+          children
+        };
+      })
+      .filter(node => node.items.length > 0 || node.children.length > 0);
+  }
+
+  /**
+   * Draw the report onto as many pages as it needs
+   */
+  private draw(report: ValuationReport): HTMLCanvasElement[] {
+    const pages: HTMLCanvasElement[] = [];
+    let ctx!: CanvasRenderingContext2D;
+    let y = 0;
+
+    const newPage = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = PAGE_WIDTH;
+      canvas.height = PAGE_HEIGHT;
+      ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+      ctx.textBaseline = 'alphabetic';
+      pages.push(canvas);
+      y = MARGIN;
+    };
+    const ensureSpace = (lines: number) => {
+      if (y + lines * LINE_HEIGHT > PAGE_HEIGHT - MARGIN) {
+        newPage();
+      }
+    };
+    const text = (value: string, x: number, font: string, color = '#111111', align: CanvasTextAlign = 'left', maxWidth?: number) => {
+      ctx.font = font;
+      ctx.fillStyle = color;
+      ctx.textAlign = align;
+      ctx.fillText(maxWidth ? this.fit(ctx, value, maxWidth) : value, x, y);
+    };
+
+    const right = PAGE_WIDTH - MARGIN;
+    const amountWidth = 360;
+
+    newPage();
+    y += 20;
+    text('Inventory valuation', MARGIN, 'bold 48px sans-serif');
+    y += LINE_HEIGHT + 8;
+    text(`As of ${new Date(report.createdAt).toLocaleString()}`, MARGIN, '24px sans-serif', '#555555');
+    y += LINE_HEIGHT * 1.5;
+    text(`${report.itemCount} ${report.itemCount === 1 ? 'item' : 'items'}`, MARGIN, 'bold 30px sans-serif');
+    text(formatMoney(report.totals) || '—', right, 'bold 30px sans-serif', '#111111', 'right');
+    y += LINE_HEIGHT * 1.5;
+
+    const drawNode = (node: ValuationNode, level: number) => {
+      const x = MARGIN + level * INDENT;
+      ensureSpace(2);
+      y += LINE_HEIGHT * 0.5;
+      text(node.name, x, 'bold 28px sans-serif', '#111111', 'left', right - amountWidth - x);
+      text(formatMoney(node.totals), right, 'bold 28px sans-serif', '#111111', 'right', amountWidth);
+      y += LINE_HEIGHT;
+
+      for (const item of node.items) {
+        const details = this.describe(item);
+        ensureSpace(details ? 2 : 1);
+        const itemX = x + INDENT;
+        const label = item.quantity > 1
+          ? `${item.name} × ${item.quantity} @ ${formatMoney([{ currency: item.currency, amount: item.purchasePrice }])}`
+          : item.name;
+        text(label, itemX, '24px sans-serif', '#111111', 'left', right - amountWidth - itemX);
+        text(formatMoney([itemValue(item)]), right, '24px sans-serif', '#111111', 'right', amountWidth);
+        y += LINE_HEIGHT;
+        if (details) {
+          text(details, itemX, '20px sans-serif', '#666666', 'left', right - itemX);
+          y += LINE_HEIGHT;
+        }
+      }
+
+      node.children.forEach(child => drawNode(child, level + 1));
+    };
+    report.locations.forEach(node => drawNode(node, 0));
+
+    pages.forEach((canvas, index) => {
+      const page = canvas.getContext('2d')!;
+      page.font = '20px sans-serif';
+      page.fillStyle = '#888888';
+      page.textAlign = 'center';
+      page.fillText(`Page ${index + 1} of ${pages.length}`, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN / 2);
+    });
+
+    return pages;
+  }
+
+  /**
+   * Purchase date, store and warranty of an item on one line
+   */
+  private describe(item: ValuedItem): string {
+    const parts: string[] = [];
+    if (item.purchaseDate || item.store) {
+      const date = item.purchaseDate ? ` ${this.formatDate(item.purchaseDate)}` : '';
+      const store = item.store ? ` at ${item.store}` : '';
+      parts.push(`Bought${date}${store}`);
+    }
+    if (item.warrantyExpiresAt) {
+      parts.push(`Warranty until ${this.formatDate(item.warrantyExpiresAt)}`);
+    }
+    return parts.join(' · ');
+  }
+
+  private formatDate(value: string): string {
+    // Parse as local midnight so the day does not shift across time zones
+    const date = new Date(`${value}T00:00:00`);
+    return isNaN(date.getTime()) ? value : date.toLocaleDateString();
+  }
+
+  /**
+   * Shorten text with an ellipsis until it fits the width
+   */
+  private fit(ctx: CanvasRenderingContext2D, value: string, maxWidth: number): string {
+    if (ctx.measureText(value).width <= maxWidth) {
+      return value;
+    }
+    let end = value.length;
+    while (end > 0 && ctx.measureText(`${value.slice(0, end)}…`).width > maxWidth) {
+      end--;
+    }
+    return `${value.slice(0, end)}…`;
+  }
+
+  private toJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Could not render the report'));
+          return;
+        }
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+      }, 'image/jpeg', JPEG_QUALITY);
+    });
+  }
+}
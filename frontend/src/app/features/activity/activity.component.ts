@@ -0,0 +1,251 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import { EMPTY } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import {
+  ActivityApiService,
+  ActivityEntry,
+  ActivityParams
+} from '../../core/api/activity-api.service';
+import { ActivityTimelineComponent } from '../../shared/components/activity-timeline';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/** Entries loaded per page */
+const PAGE_SIZE = 30;
+
+/**
+ * Activity screen
+ *
+ * Features:
+ * - Recent changes across the whole inventory, newest first
+ * - Full history of one item (`?item=`) or one location and its contents (`?location=`)
+ * - Who made each change and when
+ * - Load older entries page by page
+ */
+@Component({
+  selector: 'app-activity',
+  standalone: true,
+  imports: [ActivityTimelineComponent, LoadingSpinnerComponent, EmptyStateComponent],
+  template: `
+    <div class="activity">
+      <header class="activity__header">
+        <h1 class="activity__title">{{ title() }}</h1>
+        @if (subjectName(); as name) {
+          <p class="activity__subtitle">{{ name }}</p>
+        }
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading activity..." />
+      }
+
+      @if (error()) {
+        <div class="activity__error">
+          <svg class="activity__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="activity__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="reload()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        @if (entries().length === 0) {
+          <app-empty-state
+            icon="empty-search"
+            title="No activity yet"
+            message="Changes to items and locations will show up here"
+          />
+        } @else {
+          <app-activity-timeline [entries]="entries()" [showSubject]="!item()" />
+        }
+
+        @if (hasMore()) {
+          <button
+            type="button"
+            class="btn btn-secondary activity__more"
+            [disabled]="isLoadingMore()"
+            (click)="loadMore()"
+          >
+            {{ isLoadingMore() ? 'Loading...' : 'Show older' }}
+          </button>
+        }
+      }
+    </div>
+  `,
+  styles: [`
+    .activity {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: var(--spacing-xl);
+    }
+
+    .activity__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .activity__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .activity__subtitle {
+      margin-top: var(--spacing-xs);
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      overflow-wrap: anywhere;
+    }
+
+    .activity__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .activity__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .activity__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .activity__more {
+      width: 100%;
+      min-height: 44px;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ActivityComponent implements OnInit {
+  private readonly activityApiService = inject(ActivityApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Item to show the history of, from the `item` query parameter */
+  readonly item = input<string>();
+
+  /** Location to show the history of, from the `location` query parameter */
+  readonly location = input<string>();
+
+  /** Loaded entries, newest first */
+  readonly entries = signal<ActivityEntry[]>([]);
+
+  /** Loading state of the first page */
+  readonly isLoading = signal(true);
+
+  /** Error message if the first page fails to load */
+  readonly error = signal<string | null>(null);
+
+  /** Whether older entries are available */
+  readonly hasMore = signal(false);
+
+  /** Whether older entries are being loaded */
+  readonly isLoadingMore = signal(false);
+
+  /** Filter taken from the query parameters */
+  readonly filter = computed<ActivityParams>(() => ({
+    itemId: this.item(),
+    locationId: this.item() ? undefined : this.location()
+  }));
+
+  readonly title = computed(() => {
+    if (this.item()) return 'Item History';
+    if (this.location()) return 'Location History';
+    return 'Recent Activity';
+  });
+
+  /** Name of the filtered item or location, taken from its newest entry */
+  readonly subjectName = computed(() => {
+    const id = this.item() ?? this.location();
+    return id ? this.entries().find(entry => entry.entityId === id)?.entityName ?? null : null;
+  });
+
+  /** Bumped by "Try Again" to reload with the same filter */
+  private readonly reloadCount = signal(0);
+
+  constructor() {
+    // Reload the first page whenever the filter changes
+    toObservable(computed(() => ({ filter: this.filter(), reload: this.reloadCount() })))
+      .pipe(
+        switchMap(({ filter }) => {
+          this.isLoading.set(true);
+          this.error.set(null);
+          return this.activityApiService.getActivity({ ...filter, limit: PAGE_SIZE, offset: 0 }).pipe(
+            catchError(err => {
+              this.error.set(err.message || 'Failed to load activity');
+              this.isLoading.set(false);
+              return EMPTY;
+            })
+          );
+        }),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(page => {
+        this.entries.set(page.entries);
+        this.hasMore.set(page.hasMore);
+        this.isLoading.set(false);
+      });
+  }
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+  }
+
+  reload(): void {
+    this.reloadCount.update(count => count + 1);
+  }
+
+  /**
+   * Append the next page of older entries
+   */
+  loadMore(): void {
+    if (this.isLoadingMore() || !this.hasMore()) {
+      return;
+    }
+
+    this.isLoadingMore.set(true);
+
+    this.activityApiService
+      .getActivity({ ...this.filter(), limit: PAGE_SIZE, offset: this.entries().length })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (page) => {
+          this.entries.update(entries => [...entries, ...page.entries]);
+          this.hasMore.set(page.hasMore);
+          this.isLoadingMore.set(false);
+        },
+        error: (err) => {
+          this.isLoadingMore.set(false);
+          this.toastService.error(err.message || 'Failed to load older activity');
+        }
+      });
+  }
+}
@@ -0,0 +1,16 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Activity feature routes
+ *
+ * - /activity - Recent changes across the inventory
+ * - /activity?item=:id - Full history of an item
+ * - /activity?location=:id - Full history of a location and everything in it
+ */
+export const activityRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./activity.component').then(m => m.ActivityComponent),
+    title: 'Activity - StuffTracker'
+  }
+];
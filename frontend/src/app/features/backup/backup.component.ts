@@ -0,0 +1,589 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { DatePipe } from '@angular/common';
+import { LocationApiService } from '../../core/api/location-api.service';
+import {
+  BackupService,
+  InventoryBackup,
+  RestoreFailure,
+  RestoreMode,
+  RestoreResult
+} from '../../core/backup/backup.service';
+import { BulkOperationService } from '../../core/bulk-operation.service';
+import { FileDeliveryService } from '../../core/export/file-delivery.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * Restore mode option shown to the user
+ */
+interface RestoreModeOption {
+  value: RestoreMode;
+  label: string;
+  description: string;
+}
+
+const RESTORE_MODE_OPTIONS: RestoreModeOption[] = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Reuse locations with the same name and skip items that are already there'
+  },
+  {
+    value: 'copy',
+    label: 'Add as a copy',
+    description: 'Create everything anew next to your current locations'
+  }
+];
+
+/** How each kind of restore failure is named in the report */
+const FAILURE_LABELS: Record<RestoreFailure['kind'], string> = {
+  customField: 'Custom field',
+  location: 'Location',
+  item: 'Item'
+};
+
+/**
+ * Backup and restore screen
+ *
+ * Features:
+ * - One-file backup of every location and item
+ * - Downloads in the browser; inside Telegram the bot sends the file to the chat
+ * - Restore into an empty account, or merge into an existing one
+ * - Shows where a backup came from, so dev and production backups are told apart
+ */
+@Component({
+  selector: 'app-backup',
+  standalone: true,
+  imports: [DatePipe, LoadingSpinnerComponent],
+  template: `
+    <div class="backup">
+      <header class="backup__header">
+        <h1 class="backup__title">Backup</h1>
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading..." />
+      }
+
+      @if (error()) {
+        <div class="backup__error">
+          <svg class="backup__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="backup__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadAccount()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        <!-- Create -->
+        <section class="backup__section">
+          <h2 class="backup__section-title">Create Backup</h2>
+          <p class="backup__text">
+            Saves every location and item, with their hierarchy, timestamps and custom fields, to one JSON file.
+            Photos are not included.
+          </p>
+          <button
+            type="button"
+            class="btn btn-primary backup__wide-btn"
+            [disabled]="isBusy()"
+            (click)="createBackup()"
+          >
+            {{ isCreating() ? 'Creating...' : (inTelegram ? 'Send Backup to Chat' : 'Download Backup') }}
+          </button>
+        </section>
+
+        <!-- Restore -->
+        <section class="backup__section">
+          <h2 class="backup__section-title">Restore</h2>
+
+          @if (!backup()) {
+            <p class="backup__text">Rebuilds locations and items from a backup file. Nothing is deleted.</p>
+            <button
+              type="button"
+              class="btn btn-secondary backup__wide-btn"
+              [disabled]="isBusy()"
+              (click)="fileInput.click()"
+            >
+              Choose Backup File
+            </button>
+            <input
+              #fileInput
+              type="file"
+              accept=".json,application/json"
+              hidden
+              (change)="onFileSelected($event)"
+            />
+          }
+
+          @if (fileError()) {
+            <p class="backup__file-error" role="alert">{{ fileError() }}</p>
+          }
+
+          @if (backup(); as b) {
+            <div class="backup__file">
+              <span class="backup__file-name">{{ fileName() }}</span>
+              <span class="backup__file-meta">
+                {{ b.createdAt | date:'medium' }} · {{ b.locations.length }} locations · {{ b.items.length }} items
+              </span>
+              <span class="backup__file-meta">From &#64;{{ b.source.botUsername }}</span>
+            </div>
+
+            @if (isOtherBot()) {
+              <p class="backup__hint">
+                This backup comes from a different bot than this one (&#64;{{ botUsername }}). IDs are remapped on restore.
+              </p>
+            }
+
+            @if (hasLocations() && !result()) {
+              <fieldset class="backup__modes" [disabled]="isBusy()">
+                <legend class="backup__hint">Your account already has locations.</legend>
+                @for (option of modeOptions; track option.value) {
+                  <label class="backup__mode" [class.backup__mode--selected]="mode() === option.value">
+                    <input
+                      type="radio"
+                      name="restore-mode"
+                      [value]="option.value"
+                      [checked]="mode() === option.value"
+                      (change)="mode.set(option.value)"
+                    />
+                    <span class="backup__mode-text">
+                      <span class="backup__mode-label">{{ option.label }}</span>
+                      <span class="backup__mode-description">{{ option.description }}</span>
+                    </span>
+                  </label>
+                }
+              </fieldset>
+            }
+
+            @if (result(); as r) {
+              <div class="backup__result" role="status">
+                <p>
+                  @if (r.customFieldsCreated) {
+                    {{ r.customFieldsCreated }} custom fields created.
+                  }
+                  {{ r.locationsCreated }} locations created{{ r.locationsMerged ? ', ' + r.locationsMerged + ' merged' : '' }}.
+                  {{ r.itemsCreated }} items restored{{ r.itemsSkipped ? ', ' + r.itemsSkipped + ' already present' : '' }}{{ r.itemsQueued ? ', ' + r.itemsQueued + ' queued offline' : '' }}.
+                </p>
+                @if (r.failures.length > 0) {
+                  <p class="backup__file-error">{{ r.failures.length }} could not be restored:</p>
+                  <ul class="backup__failures">
+                    @for (failure of r.failures; track $index) {
+                      <li>{{ failureLabels[failure.kind] }} "{{ failure.name }}": {{ failure.error }}</li>
+                    }
+                  </ul>
+                }
+              </div>
+            }
+
+            <div class="backup__actions">
+              <button type="button" class="btn btn-secondary" [disabled]="isBusy()" (click)="clearFile()">
+                {{ result() ? 'Done' : 'Cancel' }}
+              </button>
+              @if (!result()) {
+                <button type="button" class="btn btn-primary" [disabled]="isBusy()" (click)="restore()">
+                  {{ isRestoring() ? 'Restoring...' : 'Restore' }}
+                </button>
+              }
+            </div>
+          }
+        </section>
+
+        @if (progress(); as p) {
+          <div class="backup__progress" role="status">
+            <span>{{ p.label }}: {{ p.done }} of {{ p.total }}</span>
+            <div class="backup__progress-track">
+              <div class="backup__progress-fill" [style.width.%]="p.total ? p.done / p.total * 100 : 0"></div>
+            </div>
+          </div>
+        }
+      }
+    </div>
+  `,
+  styles: [`
+    .backup {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-lg);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-xl) + 60px);
+    }
+
+    .backup__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .backup__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .backup__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .backup__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .backup__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .backup__section {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+    }
+
+    .backup__section-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .backup__text {
+      font-size: 0.9375rem;
+      line-height: 1.4;
+      color: var(--tg-theme-text-color);
+    }
+
+    .backup__hint {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .backup__file-error {
+      font-size: 0.875rem;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .backup__wide-btn {
+      width: 100%;
+      min-height: 52px;
+    }
+
+    .backup__file {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .backup__file-name {
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .backup__file-meta {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .backup__modes {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      border: none;
+      padding: 0;
+      margin: 0;
+
+      legend {
+        margin-bottom: var(--spacing-sm);
+      }
+    }
+
+    .backup__mode {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-md);
+      min-height: 52px;
+      padding: var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-lg);
+      cursor: pointer;
+
+      input {
+        width: 20px;
+        height: 20px;
+        flex-shrink: 0;
+        accent-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .backup__mode--selected {
+      border-color: var(--tg-theme-button-color);
+    }
+
+    .backup__mode-text {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+    }
+
+    .backup__mode-label {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+    }
+
+    .backup__mode-description {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .backup__result {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-lg);
+      font-size: 0.875rem;
+      color: var(--tg-theme-text-color);
+    }
+
+    .backup__failures {
+      margin: 0;
+      padding-left: var(--spacing-lg);
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .backup__actions {
+      display: flex;
+      gap: var(--spacing-sm);
+
+      .btn {
+        flex: 1;
+        min-height: 48px;
+      }
+    }
+
+    .backup__progress {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .backup__progress-track {
+      height: 4px;
+      background-color: var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-full);
+      overflow: hidden;
+    }
+
+    .backup__progress-fill {
+      height: 100%;
+      background-color: var(--tg-theme-button-color);
+      transition: width var(--transition-fast);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class BackupComponent implements OnInit {
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly backupService = inject(BackupService);
+  private readonly bulkOperationService = inject(BulkOperationService);
+  private readonly fileDeliveryService = inject(FileDeliveryService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly modeOptions = RESTORE_MODE_OPTIONS;
+  readonly failureLabels = FAILURE_LABELS;
+
+  /** Bot this build talks to */
+  readonly botUsername = this.backupService.botUsername;
+
+  /** Whether the file goes to the Telegram chat instead of a download */
+  readonly inTelegram = this.telegramService.isInTelegram();
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if the account check fails */
+  readonly error = signal<string | null>(null);
+
+  /** Whether the account has any locations */
+  readonly hasLocations = signal(false);
+
+  /** Whether a backup is being created */
+  readonly isCreating = signal(false);
+
+  /** Whether a restore is running */
+  readonly isRestoring = signal(false);
+
+  /** Backup file chosen for restore */
+  readonly backup = signal<InventoryBackup | null>(null);
+
+  /** Name of the chosen file */
+  readonly fileName = signal('');
+
+  /** Why the chosen file cannot be restored */
+  readonly fileError = signal<string | null>(null);
+
+  /** Chosen restore mode */
+  readonly mode = signal<RestoreMode>('merge');
+
+  /** Outcome of the last restore */
+  readonly result = signal<RestoreResult | null>(null);
+
+  /** Progress of reading (backup) or writing (restore) */
+  readonly progress = computed(() => this.backupService.progress() ?? this.bulkOperationService.progress());
+
+  readonly isBusy = computed(() => this.isCreating() || this.isRestoring());
+
+  /** Whether the chosen backup was taken through another bot */
+  readonly isOtherBot = computed(() => {
+    const backup = this.backup();
+    return !!backup && backup.source?.botUsername !== this.botUsername;
+  });
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadAccount();
+  }
+
+  /**
+   * Check whether the account already has data
+   */
+  loadAccount(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.locationApiService
+      .getTopLevelLocations()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (locations) => {
+          this.hasLocations.set(locations.length > 0);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load locations');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Create a backup and hand it to the user
+   */
+  async createBackup(): Promise<void> {
+    this.triggerHapticFeedback();
+    this.isCreating.set(true);
+
+    try {
+      const file = await this.backupService.create();
+      const destination = await this.fileDeliveryService.deliver(file, 'StuffTracker backup');
+      this.toastService.success(destination === 'chat' ? 'Backup sent to the chat' : 'Backup downloaded');
+    } catch (err) {
+      console.error('[Backup] Backup failed', err);
+      this.toastService.error((err as { message?: string }).message || 'Backup failed');
+    } finally {
+      this.isCreating.set(false);
+    }
+  }
+
+  /**
+   * Read the chosen backup file
+   */
+  async onFileSelected(event: Event): Promise<void> {
+    const fileInput = event.target as HTMLInputElement;
+    const file = fileInput.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    fileInput.value = '';
+
+    if (!file) return;
+
+    this.fileError.set(null);
+    this.result.set(null);
+    try {
+      this.backup.set(await this.backupService.read(file));
+      this.fileName.set(file.name);
+    } catch (err) {
+      this.fileError.set((err as { message?: string }).message || 'Could not read the file');
+    }
+  }
+
+  /**
+   * Restore the chosen backup
+   */
+  async restore(): Promise<void> {
+    const backup = this.backup();
+    if (!backup) return;
+
+    this.triggerHapticFeedback();
+    this.isRestoring.set(true);
+
+    try {
+      const result = await this.backupService.restore(backup, this.hasLocations() ? this.mode() : 'copy');
+      this.result.set(result);
+      this.hasLocations.set(this.hasLocations() || result.locationsCreated > 0);
+      if (result.failures.length === 0) {
+        this.toastService.success('Backup restored');
+      }
+    } catch (err) {
+      console.error('[Backup] Restore failed', err);
+      this.toastService.error((err as { message?: string }).message || 'Restore failed');
+    } finally {
+      this.isRestoring.set(false);
+    }
+  }
+
+  /**
+   * Forget the chosen file
+   */
+  clearFile(): void {
+    this.backup.set(null);
+    this.fileName.set('');
+    this.fileError.set(null);
+    this.result.set(null);
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
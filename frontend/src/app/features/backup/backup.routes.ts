@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Backup feature routes
+ *
+ * - /backup - Create a full backup or restore one
+ */
+export const backupRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./backup.component').then(m => m.BackupComponent),
+    title: 'Backup - StuffTracker'
+  }
+];
@@ -0,0 +1,605 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable } from 'rxjs';
+import {
+  CustomFieldApiService,
+  CustomFieldDefinition,
+  CustomFieldType
+} from '../../core/api/custom-field-api.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import {
+  DeleteConfirmationComponent,
+  DeleteConfirmationData
+} from '../../shared/components/delete-confirmation';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/** Longest allowed field name */
+const MAX_FIELD_NAME_LENGTH = 50;
+
+/** Field types offered when adding a field, with their labels */
+const FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'boolean', label: 'Yes / No' },
+  { type: 'enum', label: 'List of options' }
+];
+
+/**
+ * Split typed list options on commas, dropping blanks and repeats
+ */
+function parseOptions(text: string): string[] {
+  const options = text.split(',').map(option => option.trim()).filter(Boolean);
+  return [...new Set(options)];
+}
+
+/**
+ * Custom field settings screen
+ *
+ * Features:
+ * - All defined fields with their type (and options for lists)
+ * - Add a field: name, type and, for lists, the options
+ * - Rename a field or change its options; the type is fixed once created
+ * - Delete a field along with its value on every item, after confirmation
+ */
+@Component({
+  selector: 'app-custom-fields',
+  standalone: true,
+  imports: [LoadingSpinnerComponent, EmptyStateComponent, DeleteConfirmationComponent],
+  template: `
+    <div class="custom-fields">
+      <header class="custom-fields__header">
+        <h1 class="custom-fields__title">Custom Fields</h1>
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading fields..." />
+      }
+
+      @if (error()) {
+        <div class="custom-fields__error">
+          <svg class="custom-fields__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="custom-fields__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadFields()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        @if (fields().length === 0) {
+          <app-empty-state
+            icon="empty-search"
+            title="No custom fields yet"
+            message="Add fields such as serial number or warranty date to record them on every item"
+          />
+        } @else {
+          <ul class="custom-fields__list">
+            @for (field of fields(); track field.id) {
+              <li class="custom-fields__row">
+                @if (editing()?.id === field.id) {
+                  <input
+                    type="text"
+                    class="custom-fields__input"
+                    [value]="editName()"
+                    [attr.maxlength]="maxNameLength"
+                    [attr.aria-label]="'New name for ' + field.name"
+                    autocomplete="off"
+                    (input)="onEditNameInput($event)"
+                    (keydown.enter)="saveEdit(field)"
+                    (keydown.escape)="cancelEdit()"
+                  />
+                  @if (field.type === 'enum') {
+                    <input
+                      type="text"
+                      class="custom-fields__input"
+                      [value]="editOptions()"
+                      placeholder="Options, separated by commas"
+                      [attr.aria-label]="'Options for ' + field.name"
+                      autocomplete="off"
+                      (input)="onEditOptionsInput($event)"
+                      (keydown.enter)="saveEdit(field)"
+                      (keydown.escape)="cancelEdit()"
+                    />
+                    <span class="custom-fields__hint">Removing an option clears it from items that have it.</span>
+                  }
+                  <div class="custom-fields__actions">
+                    <button type="button" class="btn btn-secondary" [disabled]="isSaving()" (click)="cancelEdit()">Cancel</button>
+                    <button
+                      type="button"
+                      class="btn btn-primary"
+                      [disabled]="isSaving() || !editName().trim() || (field.type === 'enum' && editOptionList().length === 0)"
+                      (click)="saveEdit(field)"
+                    >
+                      Save
+                    </button>
+                  </div>
+                } @else {
+                  <div class="custom-fields__info">
+                    <span class="custom-fields__name">{{ field.name }}</span>
+                    <span class="custom-fields__type">
+                      {{ typeLabel(field.type) }}
+                      @if (field.options?.length) {
+                        · {{ field.options!.join(', ') }}
+                      }
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    class="custom-fields__icon-btn"
+                    [disabled]="isSaving()"
+                    (click)="startEdit(field)"
+                    [attr.aria-label]="'Edit ' + field.name"
+                  >
+                    <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                      <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/>
+                    </svg>
+                  </button>
+                  <button
+                    type="button"
+                    class="custom-fields__icon-btn custom-fields__icon-btn--danger"
+                    [disabled]="isSaving()"
+                    (click)="deleteTarget.set(field)"
+                    [attr.aria-label]="'Delete ' + field.name"
+                  >
+                    <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                      <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
+                    </svg>
+                  </button>
+                }
+              </li>
+            }
+          </ul>
+        }
+
+        <!-- Add field -->
+        <section class="custom-fields__add" aria-labelledby="add-field-title">
+          <h2 id="add-field-title" class="custom-fields__add-title">Add a field</h2>
+          <input
+            type="text"
+            class="custom-fields__input"
+            [value]="newName()"
+            [attr.maxlength]="maxNameLength"
+            placeholder="Field name, e.g. Serial number"
+            aria-label="Field name"
+            autocomplete="off"
+            (input)="onNewNameInput($event)"
+          />
+          <select class="custom-fields__input" aria-label="Field type" (change)="onNewTypeChange($event)">
+            @for (option of fieldTypes; track option.type) {
+              <option [value]="option.type" [selected]="newType() === option.type">{{ option.label }}</option>
+            }
+          </select>
+          @if (newType() === 'enum') {
+            <input
+              type="text"
+              class="custom-fields__input"
+              [value]="newOptions()"
+              placeholder="Options, separated by commas"
+              aria-label="Options"
+              autocomplete="off"
+              (input)="onNewOptionsInput($event)"
+            />
+          }
+          <button
+            type="button"
+            class="btn btn-primary"
+            [disabled]="!canAdd() || isSaving()"
+            (click)="addField()"
+          >
+            {{ isSaving() ? 'Saving...' : 'Add Field' }}
+          </button>
+        </section>
+      }
+    </div>
+
+    @if (deleteData(); as data) {
+      <app-delete-confirmation
+        [data]="data"
+        [title]="deleteTitle()"
+        [permanent]="true"
+        (confirm)="onDeleteConfirmed()"
+        (cancel)="deleteTarget.set(null)"
+      />
+    }
+  `,
+  styles: [`
+    .custom-fields {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: var(--spacing-xl);
+    }
+
+    .custom-fields__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .custom-fields__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .custom-fields__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .custom-fields__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .custom-fields__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .custom-fields__list {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      list-style: none;
+      padding: 0;
+      margin: 0;
+    }
+
+    .custom-fields__row {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: var(--spacing-sm);
+      min-height: 56px;
+      padding: var(--spacing-sm) var(--spacing-sm) var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .custom-fields__info {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+    }
+
+    .custom-fields__name {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .custom-fields__type,
+    .custom-fields__hint {
+      font-size: 0.75rem;
+      color: var(--tg-theme-hint-color);
+      overflow-wrap: anywhere;
+    }
+
+    .custom-fields__icon-btn {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 44px;
+      height: 44px;
+      padding: 0;
+      border: none;
+      background: none;
+      border-radius: var(--radius-md);
+      color: var(--tg-theme-hint-color);
+      cursor: pointer;
+
+      svg {
+        width: 20px;
+        height: 20px;
+      }
+
+      &:active:not(:disabled) {
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+      }
+    }
+
+    .custom-fields__icon-btn--danger {
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .custom-fields__input {
+      width: 100%;
+      min-height: 44px;
+      padding: var(--spacing-sm) var(--spacing-md);
+      font-size: 1rem;
+      font-family: inherit;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-md);
+      transition: border-color var(--transition-fast);
+
+      &::placeholder {
+        color: var(--tg-theme-hint-color);
+      }
+
+      &:focus {
+        outline: none;
+        border-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .custom-fields__actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: var(--spacing-sm);
+      width: 100%;
+
+      .btn {
+        min-height: 40px;
+      }
+    }
+
+    .custom-fields__add {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .custom-fields__add-title {
+      font-size: 1rem;
+      font-weight: 600;
+      color: var(--tg-theme-text-color);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CustomFieldsComponent implements OnInit {
+  private readonly customFieldApiService = inject(CustomFieldApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly maxNameLength = MAX_FIELD_NAME_LENGTH;
+  readonly fieldTypes = FIELD_TYPES;
+
+  /** Defined fields */
+  readonly fields = signal<CustomFieldDefinition[]>([]);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if fields fail to load */
+  readonly error = signal<string | null>(null);
+
+  /** Whether an add, edit or delete is running */
+  readonly isSaving = signal(false);
+
+  /** Name typed for a new field */
+  readonly newName = signal('');
+
+  /** Type chosen for a new field */
+  readonly newType = signal<CustomFieldType>('text');
+
+  /** Options typed for a new list field */
+  readonly newOptions = signal('');
+
+  /** Field being edited */
+  readonly editing = signal<CustomFieldDefinition | null>(null);
+
+  /** Name typed for the field being edited */
+  readonly editName = signal('');
+
+  /** Options typed for the field being edited */
+  readonly editOptions = signal('');
+
+  /** Field waiting for delete confirmation */
+  readonly deleteTarget = signal<CustomFieldDefinition | null>(null);
+
+  /** Options of the field being edited, parsed */
+  readonly editOptionList = computed(() => parseOptions(this.editOptions()));
+
+  /** Whether the new field form is complete */
+  readonly canAdd = computed(() =>
+    !!this.newName().trim() && (this.newType() !== 'enum' || parseOptions(this.newOptions()).length > 0)
+  );
+
+  /** What deleting the pending field removes */
+  readonly deleteData = computed<DeleteConfirmationData | null>(() => {
+    const target = this.deleteTarget();
+    return target ? { name: target.name, childCount: 0, itemCount: 0, totalDescendantItems: 0 } : null;
+  });
+
+  readonly deleteTitle = computed(() => `Delete "${this.deleteTarget()?.name}" from all items?`);
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadFields();
+  }
+
+  /**
+   * Load all field definitions
+   */
+  loadFields(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.customFieldApiService
+      .getFields()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (fields) => {
+          this.fields.set(fields);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load custom fields');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  typeLabel(type: CustomFieldType): string {
+    return FIELD_TYPES.find(option => option.type === type)?.label ?? type;
+  }
+
+  onNewNameInput(event: Event): void {
+    this.newName.set((event.target as HTMLInputElement).value);
+  }
+
+  onNewTypeChange(event: Event): void {
+    this.newType.set((event.target as HTMLSelectElement).value as CustomFieldType);
+  }
+
+  onNewOptionsInput(event: Event): void {
+    this.newOptions.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Create a field from the add form
+   */
+  addField(): void {
+    if (!this.canAdd() || this.isSaving()) {
+      return;
+    }
+
+    const name = this.newName().trim();
+    const type = this.newType();
+    this.runChange(
+      this.customFieldApiService.createField({
+        name,
+        type,
+        options: type === 'enum' ? parseOptions(this.newOptions()) : undefined
+      }),
+      `Added "${name}"`,
+      'Failed to add field',
+      () => {
+        this.newName.set('');
+        this.newType.set('text');
+        this.newOptions.set('');
+      }
+    );
+  }
+
+  /**
+   * Open the edit fields for a field
+   */
+  startEdit(field: CustomFieldDefinition): void {
+    this.triggerHapticFeedback();
+    this.editing.set(field);
+    this.editName.set(field.name);
+    this.editOptions.set((field.options ?? []).join(', '));
+  }
+
+  onEditNameInput(event: Event): void {
+    this.editName.set((event.target as HTMLInputElement).value);
+  }
+
+  onEditOptionsInput(event: Event): void {
+    this.editOptions.set((event.target as HTMLInputElement).value);
+  }
+
+  cancelEdit(): void {
+    this.editing.set(null);
+    this.editName.set('');
+    this.editOptions.set('');
+  }
+
+  /**
+   * Save the name and options of the field being edited
+   */
+  saveEdit(field: CustomFieldDefinition): void {
+    const name = this.editName().trim();
+    const options = this.editOptionList();
+    if (!name || (field.type === 'enum' && options.length === 0) || this.isSaving()) {
+      return;
+    }
+
+    this.runChange(
+      this.customFieldApiService.updateField(field.id, {
+        name,
+        options: field.type === 'enum' ? options : undefined
+      }),
+      `Saved "${name}"`,
+      'Failed to save field',
+      () => this.cancelEdit()
+    );
+  }
+
+  /**
+   * Delete the field the user confirmed
+   */
+  onDeleteConfirmed(): void {
+    const target = this.deleteTarget();
+    if (!target) return;
+
+    this.deleteTarget.set(null);
+    this.runChange(
+      this.customFieldApiService.deleteField(target.id),
+      `Deleted "${target.name}"`,
+      'Failed to delete field'
+    );
+  }
+
+  private runChange(
+    request: Observable<unknown>,
+    successMessage: string,
+    fallbackError: string,
+    onSuccess?: () => void
+  ): void {
+    this.triggerHapticFeedback();
+    this.isSaving.set(true);
+
+    request
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.isSaving.set(false);
+          onSuccess?.();
+          this.toastService.success(successMessage);
+          this.loadFields();
+        },
+        error: (err) => {
+          this.isSaving.set(false);
+          this.toastService.error(err.message || fallbackError);
+        }
+      });
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Custom fields feature routes
+ *
+ * - /custom-fields - Define the extra fields items can have
+ */
+export const customFieldsRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./custom-fields.component').then(m => m.CustomFieldsComponent),
+    title: 'Custom Fields - StuffTracker'
+  }
+];
@@ -0,0 +1,441 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import {
+  EXPIRING_SOON_DAYS,
+  ExpiringItem,
+  ExpiryApiService,
+  ExpiryReminderSettings,
+  daysUntilExpiry
+} from '../../core/api/expiry-api.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { ExpiryBadgeComponent } from '../../shared/components/expiry-badge';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/** Look-ahead windows offered, in days */
+const WINDOW_OPTIONS = [EXPIRING_SOON_DAYS, 30, 90];
+
+/** Reminder lead times offered, in days */
+const REMINDER_OPTIONS = [1, 3, 7, 14];
+
+/**
+ * Expiring items screen
+ *
+ * Features:
+ * - Items across all locations that already expired or expire within
+ *   the chosen window, soonest first, with their location path
+ * - Tap an item to open it
+ * - Reminder settings for the messages the bot sends before items expire
+ */
+@Component({
+  selector: 'app-expiring',
+  standalone: true,
+  imports: [LoadingSpinnerComponent, EmptyStateComponent, ExpiryBadgeComponent],
+  template: `
+    <div class="expiring">
+      <header class="expiring__header">
+        <h1 class="expiring__title">Expiring Soon</h1>
+      </header>
+
+      <div class="expiring__windows" role="group" aria-label="Show items expiring within">
+        @for (days of windowOptions; track days) {
+          <button
+            type="button"
+            class="expiring__window"
+            [class.expiring__window--selected]="windowDays() === days"
+            [attr.aria-pressed]="windowDays() === days"
+            (click)="selectWindow(days)"
+          >
+            {{ days }} days
+          </button>
+        }
+      </div>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading items..." />
+      }
+
+      @if (error()) {
+        <div class="expiring__error">
+          <svg class="expiring__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="expiring__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadItems()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        @if (items().length === 0) {
+          <app-empty-state
+            icon="empty-search"
+            title="Nothing expiring"
+            [message]="'No items expire in the next ' + windowDays() + ' days. Set an expiry date when editing an item.'"
+          />
+        }
+
+        @for (section of sections(); track section.title) {
+          <section class="expiring__section">
+            <h2 class="expiring__section-title">{{ section.title }}</h2>
+            @for (item of section.items; track item.id) {
+              <button type="button" class="expiring__item" (click)="openItem(item)">
+                <span class="expiring__item-name">
+                  {{ item.name }}
+                  @if (item.quantity > 1) {
+                    <span class="expiring__item-quantity">×{{ item.quantity }}</span>
+                  }
+                </span>
+                <span class="expiring__item-path">{{ item.locationPath.join(' / ') }}</span>
+                <app-expiry-badge [expiresAt]="item.expiresAt" [always]="true" />
+              </button>
+            }
+          </section>
+        }
+      }
+
+      <!-- Reminders -->
+      @if (reminders(); as settings) {
+        <section class="expiring__section">
+          <h2 class="expiring__section-title">Reminders</h2>
+          <div class="expiring__reminders">
+            <label class="expiring__toggle">
+              <input
+                type="checkbox"
+                [checked]="settings.enabled"
+                [disabled]="isSavingReminders()"
+                (change)="onRemindersToggle($event)"
+              />
+              <span>Remind me in the chat before items expire</span>
+            </label>
+            @if (settings.enabled) {
+              <label class="expiring__lead">
+                <span>Send the reminder</span>
+                <select
+                  class="expiring__select"
+                  [disabled]="isSavingReminders()"
+                  (change)="onLeadTimeChange($event)"
+                >
+                  @for (days of reminderOptions; track days) {
+                    <option [value]="days" [selected]="settings.daysBefore === days">
+                      {{ days === 1 ? '1 day' : days + ' days' }} before
+                    </option>
+                  }
+                </select>
+              </label>
+            }
+          </div>
+        </section>
+      }
+    </div>
+  `,
+  styles: [`
+    .expiring {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: var(--spacing-xl);
+    }
+
+    .expiring__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .expiring__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .expiring__windows {
+      display: flex;
+      gap: var(--spacing-xs);
+    }
+
+    .expiring__window {
+      min-height: 36px;
+      padding: 0 var(--spacing-md);
+      font-size: 0.875rem;
+      border: 1px solid var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-full);
+      background-color: var(--tg-theme-section-bg-color);
+      color: var(--tg-theme-text-color);
+      cursor: pointer;
+      transition: background-color var(--transition-fast);
+    }
+
+    .expiring__window--selected {
+      background-color: color-mix(in srgb, var(--tg-theme-button-color) 15%, transparent);
+      border-color: color-mix(in srgb, var(--tg-theme-button-color) 30%, transparent);
+      color: var(--tg-theme-button-color);
+      font-weight: 500;
+    }
+
+    .expiring__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .expiring__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .expiring__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .expiring__section {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      margin-top: var(--spacing-sm);
+    }
+
+    .expiring__section-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .expiring__item {
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: var(--spacing-xs);
+      width: 100%;
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border: none;
+      border-radius: var(--radius-lg);
+      text-align: left;
+      cursor: pointer;
+      transition: background-color var(--transition-fast);
+
+      &:active {
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+    }
+
+    .expiring__item-name {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .expiring__item-quantity {
+      font-size: 0.875rem;
+      font-weight: 400;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .expiring__item-path {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+      overflow-wrap: anywhere;
+    }
+
+    .expiring__reminders {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .expiring__toggle {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      min-height: 44px;
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+      cursor: pointer;
+
+      input {
+        width: 20px;
+        height: 20px;
+        accent-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .expiring__lead {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: var(--spacing-sm);
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+    }
+
+    .expiring__select {
+      min-height: 44px;
+      padding: 0 var(--spacing-md);
+      font-size: 0.9375rem;
+      font-family: inherit;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: none;
+      border-radius: var(--radius-md);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ExpiringComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly expiryApiService = inject(ExpiryApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly windowOptions = WINDOW_OPTIONS;
+  readonly reminderOptions = REMINDER_OPTIONS;
+
+  /** Days ahead to list items for */
+  readonly windowDays = signal(EXPIRING_SOON_DAYS);
+
+  /** Expired and expiring items, soonest first */
+  readonly items = signal<ExpiringItem[]>([]);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if items fail to load */
+  readonly error = signal<string | null>(null);
+
+  /** Reminder settings; null until loaded, or if they failed to load */
+  readonly reminders = signal<ExpiryReminderSettings | null>(null);
+
+  /** Whether a reminder settings change is being saved */
+  readonly isSavingReminders = signal(false);
+
+  /** Items split into already expired and coming up; empty sections left out */
+  readonly sections = computed(() => {
+    const items = this.items();
+    return [
+      { title: 'Expired', items: items.filter(item => daysUntilExpiry(item.expiresAt) < 0) },
+      { title: 'Coming up', items: items.filter(item => daysUntilExpiry(item.expiresAt) >= 0) }
+    ].filter(section => section.items.length > 0);
+  });
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadItems();
+    this.loadReminders();
+  }
+
+  /**
+   * Load items expiring within the chosen window
+   */
+  loadItems(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.expiryApiService
+      .getExpiringItems(this.windowDays())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (items) => {
+          this.items.set([...items].sort((a, b) => a.expiresAt.localeCompare(b.expiresAt)));
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load expiring items');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  selectWindow(days: number): void {
+    if (days === this.windowDays()) return;
+    this.triggerHapticFeedback();
+    this.windowDays.set(days);
+    this.loadItems();
+  }
+
+  openItem(item: ExpiringItem): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/item', item.id]);
+  }
+
+  onRemindersToggle(event: Event): void {
+    const enabled = (event.target as HTMLInputElement).checked;
+    this.saveReminders({ ...this.reminders()!, enabled });
+  }
+
+  onLeadTimeChange(event: Event): void {
+    const daysBefore = Number((event.target as HTMLSelectElement).value);
+    this.saveReminders({ ...this.reminders()!, daysBefore });
+  }
+
+  private loadReminders(): void {
+    this.expiryApiService
+      .getReminderSettings()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (settings) => this.reminders.set(settings),
+        error: (err) => console.warn('[Expiring] Failed to load reminder settings', err)
+      });
+  }
+
+  /**
+   * Save reminder settings, showing them right away and rolling back on failure
+   */
+  private saveReminders(settings: ExpiryReminderSettings): void {
+    const previous = this.reminders();
+    this.triggerHapticFeedback();
+    this.reminders.set(settings);
+    this.isSavingReminders.set(true);
+
+    this.expiryApiService
+      .updateReminderSettings(settings)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (saved) => {
+          this.reminders.set(saved);
+          this.isSavingReminders.set(false);
+        },
+        error: (err) => {
+          this.reminders.set(previous);
+          this.isSavingReminders.set(false);
+          this.toastService.error(err.message || 'Failed to save reminder settings');
+        }
+      });
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Expiring items feature routes
+ *
+ * - /expiring - Items across all locations that expired or expire soon
+ */
+export const expiringRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./expiring.component').then(m => m.ExpiringComponent),
+    title: 'Expiring Soon - StuffTracker'
+  }
+];
@@ -0,0 +1,439 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  input,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { LocationApiService, LocationTreeNode } from '../../core/api/location-api.service';
+import { ExportFormat, InventoryExportService } from '../../core/export/inventory-export.service';
+import { FileDeliveryService } from '../../core/export/file-delivery.service';
+import { LocationPickerComponent } from '../../shared/components/location-picker';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * Export format option shown to the user
+ */
+interface FormatOption {
+  value: ExportFormat;
+  label: string;
+  description: string;
+}
+
+const FORMAT_OPTIONS: FormatOption[] = [
+  { value: 'xlsx', label: 'Excel (.xlsx)', description: 'One row per item with the location path in columns' },
+  { value: 'csv', label: 'CSV', description: 'Same rows as Excel, for any spreadsheet or script' },
+  { value: 'json', label: 'JSON', description: 'Keeps the full location hierarchy' }
+];
+
+/**
+ * Inventory export screen
+ *
+ * Features:
+ * - Export the whole inventory or a chosen subtree
+ * - CSV, JSON and XLSX formats
+ * - Progress while locations are read
+ * - Downloads in the browser; inside Telegram the bot sends the file to the chat
+ */
+@Component({
+  selector: 'app-export',
+  standalone: true,
+  imports: [LocationPickerComponent, LoadingSpinnerComponent],
+  template: `
+    <div class="export">
+      <header class="export__header">
+        <h1 class="export__title">Export</h1>
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading locations..." />
+      }
+
+      @if (error()) {
+        <div class="export__error">
+          <svg class="export__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="export__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadTree()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        <button
+          type="button"
+          class="export__picker-btn"
+          [disabled]="isExporting()"
+          (click)="showLocationPicker.set(true)"
+        >
+          <span class="export__picker-label">Locations</span>
+          <span class="export__picker-value">{{ rootNode()?.name ?? 'All locations' }}</span>
+        </button>
+
+        <fieldset class="export__formats" [disabled]="isExporting()">
+          <legend class="export__section-title">Format</legend>
+          @for (option of formatOptions; track option.value) {
+            <label
+              class="export__format"
+              [class.export__format--selected]="format() === option.value"
+            >
+              <input
+                type="radio"
+                name="format"
+                [value]="option.value"
+                [checked]="format() === option.value"
+                (change)="format.set(option.value)"
+              />
+              <span class="export__format-text">
+                <span class="export__format-label">{{ option.label }}</span>
+                <span class="export__format-description">{{ option.description }}</span>
+              </span>
+            </label>
+          }
+        </fieldset>
+
+        @if (progress(); as p) {
+          <div class="export__progress" role="status">
+            <span>Reading locations: {{ p.done }} of {{ p.total }}</span>
+            <div class="export__progress-track">
+              <div class="export__progress-fill" [style.width.%]="p.total ? p.done / p.total * 100 : 0"></div>
+            </div>
+          </div>
+        }
+
+        <button
+          type="button"
+          class="btn btn-primary export__submit"
+          [disabled]="isExporting() || tree().length === 0"
+          (click)="export()"
+        >
+          {{ isExporting() ? 'Exporting...' : (inTelegram ? 'Send to Chat' : 'Download') }}
+        </button>
+
+        @if (inTelegram) {
+          <p class="export__hint">The file will arrive as a message from the bot.</p>
+        }
+      }
+    </div>
+
+    @if (showLocationPicker()) {
+      <app-location-picker
+        [locations]="tree()"
+        [selectedId]="rootNode()?.id"
+        (locationSelected)="onRootSelected($event)"
+        (closed)="showLocationPicker.set(false)"
+      />
+    }
+  `,
+  styles: [`
+    .export {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-xl) + 60px);
+    }
+
+    .export__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .export__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .export__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .export__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .export__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .export__picker-btn {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: var(--spacing-md);
+      width: 100%;
+      min-height: 52px;
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border: none;
+      border-radius: var(--radius-lg);
+      cursor: pointer;
+      text-align: left;
+
+      &:active:not(:disabled) {
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+
+    .export__picker-label {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .export__picker-value {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-link-color);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .export__formats {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      border: none;
+      padding: 0;
+      margin: 0;
+    }
+
+    .export__section-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      margin-bottom: var(--spacing-sm);
+    }
+
+    .export__format {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-md);
+      min-height: 52px;
+      padding: var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-lg);
+      cursor: pointer;
+
+      input {
+        width: 20px;
+        height: 20px;
+        flex-shrink: 0;
+        accent-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .export__format--selected {
+      border-color: var(--tg-theme-button-color);
+    }
+
+    .export__format-text {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+    }
+
+    .export__format-label {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+    }
+
+    .export__format-description {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .export__progress {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .export__progress-track {
+      height: 4px;
+      background-color: var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-full);
+      overflow: hidden;
+    }
+
+    .export__progress-fill {
+      height: 100%;
+      background-color: var(--tg-theme-button-color);
+      transition: width var(--transition-fast);
+    }
+
+    .export__submit {
+      width: 100%;
+      min-height: 52px;
+    }
+
+    .export__hint {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+      text-align: center;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ExportComponent implements OnInit {
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly inventoryExportService = inject(InventoryExportService);
+  private readonly fileDeliveryService = inject(FileDeliveryService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Root location of the subtree to export (from query param) */
+  readonly root = input<string>();
+
+  readonly formatOptions = FORMAT_OPTIONS;
+
+  /** Whether the file goes to the Telegram chat instead of a download */
+  readonly inTelegram = this.telegramService.isInTelegram();
+
+  /** Full location tree */
+  readonly tree = signal<LocationTreeNode[]>([]);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if the tree fails to load */
+  readonly error = signal<string | null>(null);
+
+  /** Chosen subtree root; null exports everything */
+  readonly selectedRootId = signal<string | null>(null);
+
+  /** Chosen format */
+  readonly format = signal<ExportFormat>('xlsx');
+
+  /** Whether the location picker is open */
+  readonly showLocationPicker = signal(false);
+
+  /** Whether an export is running */
+  readonly isExporting = signal(false);
+
+  /** Progress of reading locations */
+  readonly progress = this.inventoryExportService.progress;
+
+  /** Chosen root node */
+  readonly rootNode = computed(() => {
+    const rootId = this.selectedRootId();
+    return rootId ? this.findNode(this.tree(), rootId) : null;
+  });
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.selectedRootId.set(this.root() ?? null);
+    this.loadTree();
+  }
+
+  /**
+   * Load the location tree
+   */
+  loadTree(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.locationApiService
+      .getLocationTree()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (tree) => {
+          this.tree.set(tree);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load locations');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Handle subtree selection from the picker
+   */
+  onRootSelected(node: LocationTreeNode | null): void {
+    this.selectedRootId.set(node?.id ?? null);
+    this.showLocationPicker.set(false);
+  }
+
+  /**
+   * Build the file and hand it to the user
+   */
+  async export(): Promise<void> {
+    this.triggerHapticFeedback();
+    this.isExporting.set(true);
+
+    try {
+      const file = await this.inventoryExportService.export(
+        this.format(),
+        this.tree(),
+        this.rootNode()?.id ?? null
+      );
+      const destination = await this.fileDeliveryService.deliver(
+        file,
+        `StuffTracker export: ${this.rootNode()?.name ?? 'all locations'}`
+      );
+      this.toastService.success(destination === 'chat' ? 'Export sent to the chat' : 'Export downloaded');
+    } catch (err) {
+      console.error('[Export] Export failed', err);
+      this.toastService.error((err as { message?: string }).message || 'Export failed');
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  private findNode(nodes: LocationTreeNode[], id: string): LocationTreeNode | null {
+    for (const node of nodes) {
+      if (node.id === id) {
+        return node;
+      }
+      const found = this.findNode(node.children, id);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
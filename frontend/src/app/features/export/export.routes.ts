@@ -0,0 +1,15 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Export feature routes
+ *
+ * - /export - Export of the whole inventory
+ * - /export?root=<locationId> - Export of a location and its sub-locations
+ */
+export const exportRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./export.component').then(m => m.ExportComponent),
+    title: 'Export - StuffTracker'
+  }
+];
@@ -3,6 +3,7 @@ import {
   ChangeDetectionStrategy,
   inject,
   signal,
+  computed,
   OnInit,
   OnDestroy,
   DestroyRef
@@ -12,9 +13,11 @@ import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { LocationCardComponent } from '../../shared/components/location-card';
 import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
 import { EmptyStateComponent } from '../../shared/components/empty-state';
-import { LocationApiService, LocationListItem } from '../../core/api/location-api.service';
+import { LocationApiService } from '../../core/api/location-api.service';
+import { EntityStoreService } from '../../core/store/entity-store.service';
 import { TelegramService } from '../../telegram/telegram.service';
 import { ErrorToastService } from '../../shared/components/error-toast';
+import { HouseholdService } from '../../core/household/household.service';
 
 /**
  * Home component displaying top-level locations
@@ -24,6 +27,8 @@ import { ErrorToastService } from '../../shared/components/error-toast';
  * - "Add Location" button using Telegram MainButton
  * - Empty state when no locations exist
  * - Loading state during data fetch
+ * - Links to app-wide tools (export, trash)
+ * - Shows the active household and links to the household switcher
  */
 @Component({
   selector: 'app-home',
@@ -35,6 +40,20 @@ import { ErrorToastService } from '../../shared/components/error-toast';
       <header class="home-header">
         <h1 class="home-title">StuffTracker</h1>
         <p class="home-subtitle">Organize and track your belongings</p>
+        <button
+          type="button"
+          class="home-household"
+          aria-label="Switch household"
+          (click)="navigateToHouseholds()"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M10 20v-6h4v6h5v-8h3L12 3 2 12h3v8z"/>
+          </svg>
+          <span>{{ activeHousehold()?.name ?? 'Personal inventory' }}</span>
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M7 10l5 5 5-5z"/>
+          </svg>
+        </button>
       </header>
 
       <!-- Loading state -->
@@ -96,6 +115,122 @@ import { ErrorToastService } from '../../shared/components/error-toast';
           </div>
         </section>
       }
+
+      <!-- Tools -->
+      @if (!isLoading() && !error()) {
+        <nav class="home-tools" aria-label="Tools">
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToExpiring()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z"/>
+            </svg>
+            <span>Expiring</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToShoppingList()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M7 18c-1.1 0-1.99.9-1.99 2S5.9 22 7 22s2-.9 2-2-.9-2-2-2zM1 2v2h2l3.6 7.59-1.35 2.45c-.16.28-.25.61-.25.96 0 1.1.9 2 2 2h12v-2H7.42c-.14 0-.25-.11-.25-.25l.03-.12.9-1.63h7.45c.75 0 1.41-.41 1.75-1.03l3.58-6.49c.08-.14.12-.31.12-.49 0-.55-.45-1-1-1H5.21l-.94-2H1zm16 16c-1.1 0-1.99.9-1.99 2s.89 2 1.99 2 2-.9 2-2-.9-2-2-2z"/>
+            </svg>
+            <span>Shopping List</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToLoans()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5c-1.66 0-3 1.34-3 3s1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5C6.34 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z"/>
+            </svg>
+            <span>On Loan</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToValuation()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M11.8 10.9c-2.27-.59-3-1.2-3-2.15 0-1.09 1.01-1.85 2.7-1.85 1.78 0 2.44.85 2.5 2.1h2.21c-.07-1.72-1.12-3.3-3.21-3.81V3h-3v2.16c-1.94.42-3.5 1.68-3.5 3.61 0 2.31 1.91 3.46 4.7 4.13 2.5.6 3 1.48 3 2.41 0 .69-.49 1.79-2.7 1.79-2.06 0-2.87-.92-2.98-2.1h-2.2c.12 2.19 1.76 3.42 3.68 3.83V21h3v-2.15c1.95-.37 3.5-1.5 3.5-3.55 0-2.84-2.43-3.81-4.7-4.4z"/>
+            </svg>
+            <span>Valuation</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToActivity()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M13 3c-4.97 0-9 4.03-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42C8.27 19.99 10.51 21 13 21c4.97 0 9-4.03 9-9s-4.03-9-9-9zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z"/>
+            </svg>
+            <span>Activity</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToExport()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z"/>
+            </svg>
+            <span>Export</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToImport()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M9 16h6v-6h4l-7-7-7 7h4v6zm-4 2h14v2H5v-2z"/>
+            </svg>
+            <span>Import</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToBackup()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M19.35 10.04C18.67 6.59 15.64 4 12 4 9.11 4 6.6 5.64 5.35 8.04 2.34 8.36 0 10.91 0 14c0 3.31 2.69 6 6 6h13c2.76 0 5-2.24 5-5 0-2.64-2.05-4.78-4.65-4.96zM14 13v4h-4v-4H7l5-5 5 5h-3z"/>
+            </svg>
+            <span>Backup</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToTags()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M21.41 11.58l-9-9C12.05 2.22 11.55 2 11 2H4c-1.1 0-2 .9-2 2v7c0 .55.22 1.05.59 1.42l9 9c.36.36.86.58 1.41.58.55 0 1.05-.22 1.41-.59l7-7c.37-.36.59-.86.59-1.41 0-.55-.23-1.06-.59-1.42zM5.5 7C4.67 7 4 6.33 4 5.5S4.67 4 5.5 4 7 4.67 7 5.5 6.33 7 5.5 7z"/>
+            </svg>
+            <span>Tags</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToCustomFields()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z"/>
+            </svg>
+            <span>Custom Fields</span>
+          </button>
+          <button
+            type="button"
+            class="home-tool"
+            (click)="navigateToTrash()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
+            </svg>
+            <span>Trash</span>
+          </button>
+        </nav>
+      }
     </div>
   `,
   styles: [`
@@ -124,6 +259,35 @@ import { ErrorToastService } from '../../shared/components/error-toast';
       color: var(--tg-theme-hint-color);
     }
 
+    .home-household {
+      display: inline-flex;
+      align-items: center;
+      gap: var(--spacing-xs);
+      max-width: 100%;
+      min-height: 36px;
+      margin-top: var(--spacing-sm);
+      padding: var(--spacing-xs) var(--spacing-sm) var(--spacing-xs) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      color: var(--tg-theme-text-color);
+      border: none;
+      border-radius: var(--radius-full);
+      font-size: 0.875rem;
+      cursor: pointer;
+
+      svg {
+        width: 18px;
+        height: 18px;
+        flex-shrink: 0;
+        color: var(--tg-theme-hint-color);
+      }
+
+      span {
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+    }
+
     /* Error state */
     .home-error {
       display: flex;
@@ -210,6 +374,42 @@ import { ErrorToastService } from '../../shared/components/error-toast';
         transform: scale(0.98);
       }
     }
+
+    /* Tools */
+    .home-tools {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      margin-top: var(--spacing-lg);
+    }
+
+    .home-tool {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      width: 100%;
+      min-height: 48px;
+      padding: var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      color: var(--tg-theme-text-color);
+      border: none;
+      border-radius: var(--radius-md);
+      font-size: 0.9375rem;
+      cursor: pointer;
+      text-align: left;
+      transition: background-color var(--transition-fast);
+
+      svg {
+        width: 20px;
+        height: 20px;
+        flex-shrink: 0;
+        color: var(--tg-theme-hint-color);
+      }
+
+      &:active {
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+    }
   `],
   changeDetection: ChangeDetectionStrategy.OnPush
 })
@@ -218,10 +418,15 @@ export class HomeComponent implements OnInit, OnDestroy {
   private readonly locationApiService = inject(LocationApiService);
   private readonly telegramService = inject(TelegramService);
   private readonly toastService = inject(ErrorToastService);
+  private readonly householdService = inject(HouseholdService);
+  private readonly entityStore = inject(EntityStoreService);
   private readonly destroyRef = inject(DestroyRef);
 
+  /** Household the inventory belongs to; null for the personal inventory */
+  readonly activeHousehold = this.householdService.active;
+
   /** List of top-level locations */
-  readonly locations = signal<LocationListItem[]>([]);
+  readonly locations = computed(() => this.entityStore.topLevelLocations() ?? []);
 
   /** Loading state */
   readonly isLoading = signal(true);
@@ -253,7 +458,6 @@ export class HomeComponent implements OnInit, OnDestroy {
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: (locations) => {
-          this.locations.set(locations);
           this.isLoading.set(false);
           this.updateMainButtonVisibility(locations.length > 0);
         },
@@ -275,6 +479,102 @@ export class HomeComponent implements OnInit, OnDestroy {
     this.router.navigate(['/location/new']);
   }
 
+  /**
+   * Navigate to the expiring items list
+   */
+  navigateToExpiring(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/expiring']);
+  }
+
+  /**
+   * Navigate to the shopping list
+   */
+  navigateToShoppingList(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/shopping-list']);
+  }
+
+  /**
+   * Navigate to the loans overview
+   */
+  navigateToLoans(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/loans']);
+  }
+
+  /**
+   * Navigate to the valuation report
+   */
+  navigateToValuation(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/valuation']);
+  }
+
+  /**
+   * Navigate to the recent activity feed
+   */
+  navigateToActivity(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/activity']);
+  }
+
+  /**
+   * Navigate to the inventory export
+   */
+  navigateToExport(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/export']);
+  }
+
+  /**
+   * Navigate to the inventory import
+   */
+  navigateToImport(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/import']);
+  }
+
+  /**
+   * Navigate to backup and restore
+   */
+  navigateToBackup(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/backup']);
+  }
+
+  /**
+   * Navigate to tag management
+   */
+  navigateToTags(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/tags']);
+  }
+
+  /**
+   * Navigate to custom field settings
+   */
+  navigateToCustomFields(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/custom-fields']);
+  }
+
+  /**
+   * Navigate to the trash
+   */
+  navigateToTrash(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/trash']);
+  }
+
+  /**
+   * Navigate to the household switcher
+   */
+  navigateToHouseholds(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/households']);
+  }
+
   private setupMainButton(): void {
     this.telegramService.setMainButtonText('Add Location');
     this.telegramService.onMainButtonClick(this.mainButtonCallback);
@@ -0,0 +1,284 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  signal,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import {
+  HouseholdApiService,
+  HouseholdInvitePreview
+} from '../../core/api/household-api.service';
+import { HouseholdService } from '../../core/household/household.service';
+import { OfflineSyncService } from '../../core/offline/offline-sync.service';
+import { OutboxService } from '../../core/offline/outbox.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * Join household screen, opened from an invite link
+ *
+ * Features:
+ * - Shows which household the invite leads to and who sent it
+ * - Join and switch to the household
+ * - Switch straight to it if the user is already a member
+ */
+@Component({
+  selector: 'app-household-join',
+  standalone: true,
+  imports: [LoadingSpinnerComponent],
+  template: `
+    <div class="household-join">
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Opening invite..." />
+      }
+
+      @if (error()) {
+        <div class="household-join__error">
+          <svg class="household-join__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="household-join__error-text">{{ error() }}</p>
+          @if (canRetry()) {
+            <button type="button" class="btn btn-secondary" (click)="loadInvite()">
+              Try Again
+            </button>
+          } @else {
+            <button type="button" class="btn btn-secondary" (click)="goHome()">
+              Go to my inventory
+            </button>
+          }
+        </div>
+      }
+
+      @if (preview(); as invite) {
+        <div class="household-join__card">
+          <svg class="household-join__icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5c-1.66 0-3 1.34-3 3s1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5C6.34 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z"/>
+          </svg>
+          <h1 class="household-join__title">{{ invite.householdName }}</h1>
+          <p class="household-join__text">
+            {{ invite.invitedBy }} invited you to share this inventory
+            ({{ invite.memberCount }} {{ invite.memberCount === 1 ? 'member' : 'members' }}).
+          </p>
+
+          @if (invite.isMember) {
+            <p class="household-join__text">You are already a member.</p>
+            <button type="button" class="btn btn-primary household-join__btn" (click)="open(invite)">
+              Switch to {{ invite.householdName }}
+            </button>
+          } @else {
+            <button
+              type="button"
+              class="btn btn-primary household-join__btn"
+              [disabled]="isJoining()"
+              (click)="join(invite)"
+            >
+              {{ isJoining() ? 'Joining...' : 'Join household' }}
+            </button>
+            <button
+              type="button"
+              class="btn btn-secondary household-join__btn"
+              [disabled]="isJoining()"
+              (click)="goHome()"
+            >
+              Not now
+            </button>
+          }
+        </div>
+      }
+    </div>
+  `,
+  styles: [`
+    .household-join {
+      display: flex;
+      flex-direction: column;
+      min-height: 100%;
+      padding: var(--spacing-md);
+    }
+
+    .household-join__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .household-join__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .household-join__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .household-join__card {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      margin-top: var(--spacing-2xl);
+      padding: var(--spacing-xl) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+      text-align: center;
+    }
+
+    .household-join__icon {
+      width: 56px;
+      height: 56px;
+      color: var(--tg-theme-button-color);
+    }
+
+    .household-join__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .household-join__text {
+      font-size: 0.9375rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 320px;
+    }
+
+    .household-join__btn {
+      width: 100%;
+      max-width: 320px;
+      min-height: 44px;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class HouseholdJoinComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly householdApiService = inject(HouseholdApiService);
+  private readonly householdService = inject(HouseholdService);
+  private readonly offlineSyncService = inject(OfflineSyncService);
+  private readonly outboxService = inject(OutboxService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Invite code from the route */
+  readonly code = input.required<string>();
+
+  /** Where the invite leads */
+  readonly preview = signal<HouseholdInvitePreview | null>(null);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if the invite cannot be opened */
+  readonly error = signal<string | null>(null);
+
+  /** False when the invite is unknown or expired, so retrying will not help */
+  readonly canRetry = signal(true);
+
+  /** Whether the user is joining */
+  readonly isJoining = signal(false);
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadInvite();
+  }
+
+  /**
+   * Look up the household the invite leads to
+   */
+  loadInvite(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.householdApiService
+      .getInvite(this.code())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (preview) => {
+          this.preview.set(preview);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          const expired = err.statusCode === 404;
+          this.canRetry.set(!expired);
+          this.error.set(expired
+            ? 'This invite has expired or was already used. Ask for a new one.'
+            : err.message || 'Failed to open invite');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Join the household and switch to it
+   */
+  join(invite: HouseholdInvitePreview): void {
+    if (this.isJoining()) {
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.isJoining.set(true);
+
+    this.householdApiService
+      .acceptInvite(this.code())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (household) => {
+          this.isJoining.set(false);
+          this.activate({ id: household.id, name: household.name });
+          this.toastService.success(`Welcome to ${household.name}`);
+        },
+        error: (err) => {
+          this.isJoining.set(false);
+          this.toastService.error(err.message || `Failed to join ${invite.householdName}`);
+        }
+      });
+  }
+
+  /**
+   * Switch to a household the user already belongs to
+   */
+  open(invite: HouseholdInvitePreview): void {
+    this.triggerHapticFeedback();
+    this.activate({ id: invite.householdId, name: invite.householdName });
+    this.toastService.success(`Switched to ${invite.householdName}`);
+  }
+
+  goHome(): void {
+    this.router.navigate(['/']);
+  }
+
+  /**
+   * Switch households, refresh the offline copy and open the inventory
+   */
+  private activate(household: { id: string; name: string }): void {
+    this.householdService.switchTo(household);
+    this.offlineSyncService.mirror();
+    void this.outboxService.replay();
+    this.router.navigate(['/'], { replaceUrl: true });
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
@@ -0,0 +1,634 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import {
+  Household,
+  HouseholdApiService,
+  HouseholdMember
+} from '../../core/api/household-api.service';
+import { HouseholdService } from '../../core/household/household.service';
+import { DeepLinkService } from '../../core/deep-link.service';
+import { OfflineSyncService } from '../../core/offline/offline-sync.service';
+import { OutboxService } from '../../core/offline/outbox.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/** Maximum length of a household name */
+const MAX_NAME_LENGTH = 60;
+
+/**
+ * Households screen
+ *
+ * Features:
+ * - Switch between the personal inventory and shared households
+ * - Create a household
+ * - Members of the active household
+ * - Invite someone with a Telegram deep link
+ * - Leave the active household
+ */
+@Component({
+  selector: 'app-households',
+  standalone: true,
+  imports: [LoadingSpinnerComponent],
+  template: `
+    <div class="households">
+      <header class="households__header">
+        <h1 class="households__title">Households</h1>
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading households..." />
+      }
+
+      @if (error()) {
+        <div class="households__error">
+          <svg class="households__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="households__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadHouseholds()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        <p class="households__hint">
+          Everyone in a household sees and edits the same locations and items.
+        </p>
+
+        <ul class="households__list">
+          <li>
+            <button
+              type="button"
+              class="households__option"
+              [class.households__option--active]="activeId() === null"
+              (click)="switchTo(null)"
+            >
+              <span class="households__option-name">Personal inventory</span>
+              <span class="households__option-meta">Only you</span>
+              @if (activeId() === null) {
+                <svg class="households__check" viewBox="0 0 24 24" fill="currentColor" aria-label="Active">
+                  <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
+                </svg>
+              }
+            </button>
+          </li>
+          @for (household of households(); track household.id) {
+            <li>
+              <button
+                type="button"
+                class="households__option"
+                [class.households__option--active]="activeId() === household.id"
+                (click)="switchTo(household)"
+              >
+                <span class="households__option-name">{{ household.name }}</span>
+                <span class="households__option-meta">
+                  {{ household.memberCount }} {{ household.memberCount === 1 ? 'member' : 'members' }}
+                </span>
+                @if (activeId() === household.id) {
+                  <svg class="households__check" viewBox="0 0 24 24" fill="currentColor" aria-label="Active">
+                    <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
+                  </svg>
+                }
+              </button>
+            </li>
+          }
+        </ul>
+
+        <!-- Create -->
+        <section class="households__section">
+          <h2 class="households__section-title">New household</h2>
+          <div class="households__create">
+            <input
+              type="text"
+              class="households__input"
+              placeholder="e.g. Family, Flat 4B"
+              [value]="newName()"
+              [attr.maxlength]="maxNameLength"
+              aria-label="Household name"
+              autocomplete="off"
+              (input)="onNameInput($event)"
+              (keydown.enter)="createHousehold()"
+            />
+            <button
+              type="button"
+              class="btn btn-primary"
+              [disabled]="isCreating() || !newName().trim()"
+              (click)="createHousehold()"
+            >
+              {{ isCreating() ? 'Creating...' : 'Create' }}
+            </button>
+          </div>
+        </section>
+
+        <!-- Active household -->
+        @if (activeHousehold(); as household) {
+          <section class="households__section">
+            <h2 class="households__section-title">Members of {{ household.name }}</h2>
+
+            @if (isLoadingMembers()) {
+              <app-loading-spinner size="small" />
+            } @else {
+              <ul class="households__members">
+                @for (member of members(); track member.userId) {
+                  <li class="households__member">
+                    <span class="households__member-name">{{ member.name }}</span>
+                    @if (member.username) {
+                      <span class="households__member-username">&#64;{{ member.username }}</span>
+                    }
+                  </li>
+                }
+              </ul>
+            }
+
+            <button
+              type="button"
+              class="btn btn-primary households__wide-btn"
+              [disabled]="isInviting()"
+              (click)="invite(household)"
+            >
+              {{ isInviting() ? 'Creating invite...' : 'Invite someone' }}
+            </button>
+
+            @if (confirmingLeave()) {
+              <div class="households__leave-confirm">
+                <p class="households__leave-text">
+                  Leave {{ household.name }}? Its items stay with the other members, and you will need a new invite to come back.
+                </p>
+                <div class="households__leave-actions">
+                  <button
+                    type="button"
+                    class="btn btn-secondary"
+                    [disabled]="isLeaving()"
+                    (click)="confirmingLeave.set(false)"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    class="btn households__leave-btn"
+                    [disabled]="isLeaving()"
+                    (click)="leave(household)"
+                  >
+                    {{ isLeaving() ? 'Leaving...' : 'Leave' }}
+                  </button>
+                </div>
+              </div>
+            } @else {
+              <button
+                type="button"
+                class="btn btn-secondary households__wide-btn households__leave-link"
+                (click)="confirmingLeave.set(true)"
+              >
+                Leave household
+              </button>
+            }
+          </section>
+        }
+      }
+    </div>
+  `,
+  styles: [`
+    .households {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: var(--spacing-xl);
+    }
+
+    .households__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .households__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .households__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .households__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .households__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .households__hint {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .households__list,
+    .households__members {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      list-style: none;
+    }
+
+    .households__option {
+      position: relative;
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 2px;
+      width: 100%;
+      min-height: 56px;
+      padding: var(--spacing-sm) calc(var(--spacing-md) + 28px) var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-lg);
+      text-align: left;
+      cursor: pointer;
+      transition: border-color var(--transition-fast);
+    }
+
+    .households__option--active {
+      border-color: var(--tg-theme-button-color);
+    }
+
+    .households__option-name {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .households__option-meta {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .households__check {
+      position: absolute;
+      top: 50%;
+      right: var(--spacing-md);
+      width: 20px;
+      height: 20px;
+      transform: translateY(-50%);
+      color: var(--tg-theme-button-color);
+    }
+
+    .households__section {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      margin-top: var(--spacing-sm);
+    }
+
+    .households__section-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      overflow-wrap: anywhere;
+    }
+
+    .households__create {
+      display: flex;
+      gap: var(--spacing-sm);
+    }
+
+    .households__input {
+      flex: 1;
+      min-width: 0;
+      min-height: 44px;
+      padding: var(--spacing-sm) var(--spacing-md);
+      font-size: 1rem;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-md);
+      outline: none;
+
+      &:focus {
+        border-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .households__member {
+      display: flex;
+      align-items: baseline;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .households__member-name {
+      font-size: 1rem;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .households__member-username {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .households__wide-btn {
+      width: 100%;
+      min-height: 44px;
+    }
+
+    .households__leave-link {
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .households__leave-confirm {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .households__leave-text {
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+    }
+
+    .households__leave-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: var(--spacing-sm);
+    }
+
+    .households__leave-btn {
+      color: #fff;
+      background-color: var(--tg-theme-destructive-text-color);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class HouseholdsComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly householdApiService = inject(HouseholdApiService);
+  private readonly householdService = inject(HouseholdService);
+  private readonly deepLinkService = inject(DeepLinkService);
+  private readonly offlineSyncService = inject(OfflineSyncService);
+  private readonly outboxService = inject(OutboxService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly maxNameLength = MAX_NAME_LENGTH;
+
+  /** Households the user belongs to */
+  readonly households = signal<Household[]>([]);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if households fail to load */
+  readonly error = signal<string | null>(null);
+
+  /** Members of the active household */
+  readonly members = signal<HouseholdMember[]>([]);
+
+  /** Whether members are loading */
+  readonly isLoadingMembers = signal(false);
+
+  /** Name typed for a new household */
+  readonly newName = signal('');
+
+  /** Whether a household is being created */
+  readonly isCreating = signal(false);
+
+  /** Whether an invite is being created */
+  readonly isInviting = signal(false);
+
+  /** Whether the leave confirmation is shown */
+  readonly confirmingLeave = signal(false);
+
+  /** Whether the user is leaving the active household */
+  readonly isLeaving = signal(false);
+
+  /** ID of the active household, or null for the personal inventory */
+  readonly activeId = this.householdService.activeHouseholdId;
+
+  /** The active household as listed by the server */
+  readonly activeHousehold = computed(() =>
+    this.households().find(h => h.id === this.activeId()) ?? null
+  );
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadHouseholds();
+  }
+
+  /**
+   * Load the user's households
+   */
+  loadHouseholds(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.householdApiService
+      .getHouseholds()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (households) => {
+          this.households.set(households);
+          this.isLoading.set(false);
+
+          // The user may have been removed from the active household elsewhere
+          if (this.activeId() && !this.activeHousehold()) {
+            this.householdService.switchTo(null);
+          }
+          this.loadMembers();
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load households');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Make a household the active one and go back to its inventory
+   */
+  switchTo(household: Household | null): void {
+    this.triggerHapticFeedback();
+    if ((household?.id ?? null) === this.activeId()) {
+      return;
+    }
+
+    this.activate(household);
+    this.toastService.success(household ? `Switched to ${household.name}` : 'Switched to your personal inventory');
+    this.router.navigate(['/']);
+  }
+
+  onNameInput(event: Event): void {
+    this.newName.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Create a household and switch to it
+   */
+  createHousehold(): void {
+    const name = this.newName().trim();
+    if (!name || this.isCreating()) {
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.isCreating.set(true);
+
+    this.householdApiService
+      .createHousehold({ name })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (household) => {
+          this.isCreating.set(false);
+          this.newName.set('');
+          this.households.update(households => [...households, household]);
+          this.activate(household);
+          this.loadMembers();
+          this.toastService.success(`${household.name} created. Invite someone to share it.`);
+        },
+        error: (err) => {
+          this.isCreating.set(false);
+          this.toastService.error(err.message || 'Failed to create household');
+        }
+      });
+  }
+
+  /**
+   * Create an invite and send its link to a chat, or copy it outside Telegram
+   */
+  invite(household: Household): void {
+    if (this.isInviting()) {
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.isInviting.set(true);
+
+    this.householdApiService
+      .createInvite(household.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (invite) => {
+          this.isInviting.set(false);
+          const text = `Join "${household.name}" on StuffTracker: ${this.deepLinkService.inviteLink(invite.code)}`;
+          if (this.telegramService.shareText(text)) {
+            return;
+          }
+
+          navigator.clipboard.writeText(text).then(
+            () => this.toastService.success('Invite link copied'),
+            () => this.toastService.error('Could not copy the invite link')
+          );
+        },
+        error: (err) => {
+          this.isInviting.set(false);
+          this.toastService.error(err.message || 'Failed to create invite');
+        }
+      });
+  }
+
+  /**
+   * Leave a household and go back to the personal inventory
+   */
+  leave(household: Household): void {
+    if (this.isLeaving()) {
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.isLeaving.set(true);
+
+    this.householdApiService
+      .leaveHousehold(household.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.isLeaving.set(false);
+          this.confirmingLeave.set(false);
+          this.households.update(households => households.filter(h => h.id !== household.id));
+          this.activate(null);
+          this.toastService.success(`You left ${household.name}`);
+        },
+        error: (err) => {
+          this.isLeaving.set(false);
+          this.toastService.error(err.message || 'Failed to leave household');
+        }
+      });
+  }
+
+  /**
+   * Switch households, then refresh the offline copy and send writes queued in it
+   */
+  private activate(household: Household | null): void {
+    this.householdService.switchTo(household);
+    this.confirmingLeave.set(false);
+    this.members.set([]);
+    this.offlineSyncService.mirror();
+    void this.outboxService.replay();
+  }
+
+  private loadMembers(): void {
+    const householdId = this.activeId();
+    if (!householdId) {
+      this.members.set([]);
+      return;
+    }
+
+    this.isLoadingMembers.set(true);
+
+    this.householdApiService
+      .getMembers(householdId)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (members) => {
+          this.members.set(members);
+          this.isLoadingMembers.set(false);
+        },
+        error: (err) => {
+          this.isLoadingMembers.set(false);
+          console.warn('[Households] Failed to load members', err);
+        }
+      });
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Households feature routes
+ *
+ * - /households - Switch, create and share households
+ * - /households/join/:code - Join a household from an invite link
+ */
+export const householdsRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./households.component').then(m => m.HouseholdsComponent),
+    title: 'Households - StuffTracker'
+  },
+  {
+    path: 'join/:code',
+    loadComponent: () => import('./household-join.component').then(m => m.HouseholdJoinComponent),
+    title: 'Join Household - StuffTracker'
+  }
+];
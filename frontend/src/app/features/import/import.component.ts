@@ -0,0 +1,793 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit
+} from '@angular/core';
+import { Router } from '@angular/router';
+import {
+  ImportMapping,
+  ImportPlan,
+  ImportRowAction,
+  ImportRowOutcome,
+  ImportRowResult,
+  ImportTable,
+  InventoryImportService
+} from '../../core/import/inventory-import.service';
+import { BulkOperationService } from '../../core/bulk-operation.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/** Wizard steps, in order */
+type ImportStep = 'upload' | 'map' | 'preview' | 'report';
+
+/** Single-column fields of the mapping */
+type ColumnField = 'name' | 'description' | 'quantity';
+
+/**
+ * Mapping field shown as a column dropdown
+ */
+interface ColumnFieldOption {
+  field: ColumnField;
+  label: string;
+  required: boolean;
+}
+
+const COLUMN_FIELDS: ColumnFieldOption[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'description', label: 'Description', required: false },
+  { field: 'quantity', label: 'Quantity', required: false }
+];
+
+/** Rows of the file shown under the mapping */
+const SAMPLE_ROWS = 3;
+
+const ACTION_LABELS: Record<ImportRowAction, string> = {
+  create: 'New',
+  merge: 'Add to existing',
+  combine: 'Combined',
+  skip: 'Skipped'
+};
+
+const OUTCOME_LABELS: Record<ImportRowOutcome, string> = {
+  created: 'Created',
+  merged: 'Added to existing',
+  queued: 'Queued offline',
+  failed: 'Failed',
+  skipped: 'Skipped'
+};
+
+/**
+ * Inventory import wizard
+ *
+ * Features:
+ * - CSV (comma, semicolon or tab separated) and JSON files, including our own exports
+ * - Column mapping with suggestions from the header row
+ * - Location paths like "Garage > Shelf A > Bin 3"; missing locations are created
+ * - Dry-run preview of new locations, new items and quantities added to existing items
+ * - Per-row report once the import has run
+ */
+@Component({
+  selector: 'app-import',
+  standalone: true,
+  imports: [LoadingSpinnerComponent],
+  template: `
+    <div class="import">
+      <header class="import__header">
+        <h1 class="import__title">Import</h1>
+        <ol class="import__steps" aria-label="Steps">
+          @for (s of steps; track s.value; let i = $index) {
+            <li
+              class="import__step"
+              [class.import__step--active]="step() === s.value"
+              [attr.aria-current]="step() === s.value ? 'step' : null"
+            >
+              {{ i + 1 }}. {{ s.label }}
+            </li>
+          }
+        </ol>
+      </header>
+
+      <!-- Step 1: choose a file -->
+      @if (step() === 'upload') {
+        <section class="import__section">
+          <p class="import__text">
+            Pick a CSV or JSON file with one item per row. Each row needs a name and a location path
+            such as <strong>Garage &gt; Shelf A &gt; Bin 3</strong>; locations that do not exist yet are created.
+          </p>
+          <p class="import__hint">Files exported from StuffTracker can be imported as they are.</p>
+
+          <button
+            type="button"
+            class="btn btn-primary import__wide-btn"
+            [disabled]="isBusy()"
+            (click)="fileInput.click()"
+          >
+            {{ isBusy() ? 'Reading...' : 'Choose File' }}
+          </button>
+          <input
+            #fileInput
+            type="file"
+            accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+            hidden
+            (change)="onFileSelected($event)"
+          />
+
+          @if (error()) {
+            <p class="import__error" role="alert">{{ error() }}</p>
+          }
+        </section>
+      }
+
+      <!-- Step 2: map columns -->
+      @if (step() === 'map' && table(); as t) {
+        <section class="import__section">
+          <p class="import__text">
+            <strong>{{ fileName() }}</strong>: {{ t.rows.length }} {{ t.rows.length === 1 ? 'row' : 'rows' }}
+          </p>
+
+          @for (option of columnFields; track option.field) {
+            <label class="import__field">
+              <span class="import__field-label">
+                {{ option.label }}@if (option.required) {<span aria-hidden="true"> *</span>}
+              </span>
+              <select
+                class="import__select"
+                (change)="onColumnChange(option.field, $event)"
+              >
+                <option value="" [selected]="mapping()[option.field] === null">Not imported</option>
+                @for (column of t.columns; track $index) {
+                  <option [value]="$index" [selected]="mapping()[option.field] === $index">{{ column || 'Column ' + ($index + 1) }}</option>
+                }
+              </select>
+            </label>
+          }
+
+          <fieldset class="import__columns">
+            <legend class="import__field-label">Location path *</legend>
+            <p class="import__hint">One column with full paths, or one column per level in order.</p>
+            @for (column of t.columns; track $index) {
+              <label class="import__column">
+                <input
+                  type="checkbox"
+                  [checked]="mapping().locationPath.includes($index)"
+                  (change)="toggleLocationColumn($index)"
+                />
+                <span>{{ column || 'Column ' + ($index + 1) }}</span>
+              </label>
+            }
+          </fieldset>
+
+          <div class="import__sample">
+            <h2 class="import__section-title">First rows</h2>
+            @for (row of sampleRows(); track $index) {
+              <div class="import__sample-row">
+                <span class="import__sample-name">{{ row.name || '(no name)' }}</span>
+                <span class="import__sample-meta">× {{ row.quantity || 1 }} · {{ row.path || '(no location)' }}</span>
+              </div>
+            }
+          </div>
+
+          @if (error()) {
+            <p class="import__error" role="alert">{{ error() }}</p>
+          }
+
+          <div class="import__actions">
+            <button type="button" class="btn btn-secondary" [disabled]="isBusy()" (click)="reset()">Back</button>
+            <button
+              type="button"
+              class="btn btn-primary"
+              [disabled]="!canPreview() || isBusy()"
+              (click)="preview()"
+            >
+              {{ isBusy() ? 'Checking...' : 'Preview' }}
+            </button>
+          </div>
+        </section>
+      }
+
+      <!-- Step 3: dry-run preview -->
+      @if (step() === 'preview' && plan(); as p) {
+        <section class="import__section">
+          <div class="import__summary">
+            <div class="import__stat"><strong>{{ planCounts().create }}</strong> new items</div>
+            <div class="import__stat"><strong>{{ planCounts().merge }}</strong> added to existing</div>
+            <div class="import__stat"><strong>{{ p.newLocations.length }}</strong> new locations</div>
+            <div class="import__stat" [class.import__stat--warning]="planCounts().skip > 0">
+              <strong>{{ planCounts().skip }}</strong> skipped
+            </div>
+          </div>
+
+          @if (p.newLocations.length > 0) {
+            <h2 class="import__section-title">Locations to create</h2>
+            <ul class="import__list">
+              @for (path of p.newLocations; track $index) {
+                <li class="import__list-item">{{ path.join(' > ') }}</li>
+              }
+            </ul>
+          }
+
+          <h2 class="import__section-title">Rows</h2>
+          <ul class="import__list">
+            @for (row of p.rows; track row.rowNumber) {
+              <li class="import__list-item import__row">
+                <span class="import__row-number">{{ row.rowNumber }}</span>
+                <span class="import__row-text">
+                  <span class="import__row-name">{{ row.name || '(no name)' }} × {{ row.quantity }}</span>
+                  <span class="import__row-detail">
+                    @if (row.action === 'skip') {
+                      {{ row.error }}
+                    } @else if (row.action === 'combine') {
+                      Added to row {{ row.combinedInto }}
+                    } @else if (row.action === 'merge') {
+                      {{ row.existingItem?.quantity }} → {{ row.existingItem!.quantity + row.quantity }} in {{ row.path.join(' > ') }}
+                    } @else {
+                      {{ row.path.join(' > ') }}
+                    }
+                  </span>
+                </span>
+                <span class="import__badge" [attr.data-kind]="row.action">{{ actionLabels[row.action] }}</span>
+              </li>
+            }
+          </ul>
+
+          @if (progress(); as pr) {
+            <div class="import__progress" role="status">
+              <span>{{ pr.label }}: {{ pr.done }} of {{ pr.total }}</span>
+              <div class="import__progress-track">
+                <div class="import__progress-fill" [style.width.%]="pr.total ? pr.done / pr.total * 100 : 0"></div>
+              </div>
+            </div>
+          }
+
+          <div class="import__actions import__actions--sticky">
+            <button type="button" class="btn btn-secondary" [disabled]="isBusy()" (click)="step.set('map')">Back</button>
+            <button
+              type="button"
+              class="btn btn-primary"
+              [disabled]="isBusy() || planCounts().create + planCounts().merge === 0"
+              (click)="runImport()"
+            >
+              {{ isBusy() ? 'Importing...' : 'Import' }}
+            </button>
+          </div>
+        </section>
+      }
+
+      <!-- Step 4: report -->
+      @if (step() === 'report') {
+        <section class="import__section">
+          <div class="import__summary">
+            <div class="import__stat"><strong>{{ reportCounts().created }}</strong> created</div>
+            <div class="import__stat"><strong>{{ reportCounts().merged }}</strong> added to existing</div>
+            @if (reportCounts().queued > 0) {
+              <div class="import__stat"><strong>{{ reportCounts().queued }}</strong> queued offline</div>
+            }
+            <div class="import__stat" [class.import__stat--warning]="reportCounts().failed + reportCounts().skipped > 0">
+              <strong>{{ reportCounts().failed + reportCounts().skipped }}</strong> not imported
+            </div>
+          </div>
+
+          <h2 class="import__section-title">Rows</h2>
+          <ul class="import__list">
+            @for (result of results(); track result.row.rowNumber) {
+              <li class="import__list-item import__row">
+                <span class="import__row-number">{{ result.row.rowNumber }}</span>
+                <span class="import__row-text">
+                  <span class="import__row-name">{{ result.row.name || '(no name)' }}</span>
+                  @if (result.error) {
+                    <span class="import__row-detail">{{ result.error }}</span>
+                  }
+                </span>
+                <span class="import__badge" [attr.data-kind]="result.outcome">{{ outcomeLabels[result.outcome] }}</span>
+              </li>
+            }
+          </ul>
+
+          <div class="import__actions">
+            <button type="button" class="btn btn-secondary" (click)="reset()">Import Another</button>
+            <button type="button" class="btn btn-primary" (click)="done()">Done</button>
+          </div>
+        </section>
+      }
+
+      @if (isBusy() && step() === 'upload') {
+        <app-loading-spinner size="medium" message="Reading file..." />
+      }
+    </div>
+  `,
+  styles: [`
+    .import {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-xl) + 60px);
+    }
+
+    .import__header {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .import__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .import__steps {
+      display: flex;
+      flex-wrap: wrap;
+      gap: var(--spacing-sm);
+      list-style: none;
+      padding: 0;
+      margin: 0;
+    }
+
+    .import__step {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .import__step--active {
+      font-weight: 600;
+      color: var(--tg-theme-link-color);
+    }
+
+    .import__section {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+    }
+
+    .import__section-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .import__text {
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+      line-height: 1.4;
+    }
+
+    .import__hint {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .import__error {
+      font-size: 0.875rem;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .import__wide-btn {
+      width: 100%;
+      min-height: 52px;
+    }
+
+    .import__field {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+    }
+
+    .import__field-label {
+      font-size: 0.875rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+    }
+
+    .import__select {
+      min-height: 44px;
+      padding: var(--spacing-sm) var(--spacing-md);
+      font-size: 1rem;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-section-bg-color);
+      border: 1px solid var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-md);
+    }
+
+    .import__columns {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      border: none;
+      padding: 0;
+      margin: 0;
+    }
+
+    .import__column {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      min-height: 44px;
+      padding: 0 var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-md);
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+      cursor: pointer;
+
+      input {
+        width: 20px;
+        height: 20px;
+        flex-shrink: 0;
+        accent-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .import__sample {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+    }
+
+    .import__sample-row {
+      display: flex;
+      flex-direction: column;
+      padding: var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-md);
+    }
+
+    .import__sample-name {
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+    }
+
+    .import__sample-meta {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .import__summary {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: var(--spacing-sm);
+    }
+
+    .import__stat {
+      padding: var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-md);
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+
+      strong {
+        display: block;
+        font-size: 1.25rem;
+        color: var(--tg-theme-text-color);
+      }
+    }
+
+    .import__stat--warning strong {
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .import__list {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      list-style: none;
+      padding: 0;
+      margin: 0;
+    }
+
+    .import__list-item {
+      padding: var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-md);
+      font-size: 0.875rem;
+      color: var(--tg-theme-text-color);
+    }
+
+    .import__row {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+    }
+
+    .import__row-number {
+      min-width: 2ch;
+      font-size: 0.75rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .import__row-text {
+      display: flex;
+      flex-direction: column;
+      flex: 1;
+      min-width: 0;
+    }
+
+    .import__row-name {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .import__row-detail {
+      font-size: 0.75rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .import__badge {
+      flex-shrink: 0;
+      padding: 2px var(--spacing-sm);
+      font-size: 0.75rem;
+      font-weight: 500;
+      border-radius: var(--radius-full);
+      background-color: var(--tg-theme-secondary-bg-color);
+      color: var(--tg-theme-hint-color);
+
+      &[data-kind="create"],
+      &[data-kind="created"] {
+        color: var(--tg-theme-button-text-color);
+        background-color: var(--tg-theme-button-color);
+      }
+
+      &[data-kind="merge"],
+      &[data-kind="merged"] {
+        color: var(--tg-theme-link-color);
+      }
+
+      &[data-kind="skip"],
+      &[data-kind="skipped"],
+      &[data-kind="failed"] {
+        color: var(--tg-theme-destructive-text-color);
+      }
+    }
+
+    .import__progress {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .import__progress-track {
+      height: 4px;
+      background-color: var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-full);
+      overflow: hidden;
+    }
+
+    .import__progress-fill {
+      height: 100%;
+      background-color: var(--tg-theme-button-color);
+      transition: width var(--transition-fast);
+    }
+
+    .import__actions {
+      display: flex;
+      gap: var(--spacing-sm);
+
+      .btn {
+        flex: 1;
+        min-height: 48px;
+      }
+    }
+
+    .import__actions--sticky {
+      position: sticky;
+      bottom: var(--spacing-md);
+      z-index: var(--z-sticky);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ImportComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly inventoryImportService = inject(InventoryImportService);
+  private readonly bulkOperationService = inject(BulkOperationService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+
+  readonly steps: { value: ImportStep; label: string }[] = [
+    { value: 'upload', label: 'File' },
+    { value: 'map', label: 'Columns' },
+    { value: 'preview', label: 'Preview' },
+    { value: 'report', label: 'Report' }
+  ];
+
+  readonly columnFields = COLUMN_FIELDS;
+  readonly actionLabels = ACTION_LABELS;
+  readonly outcomeLabels = OUTCOME_LABELS;
+
+  /** Current wizard step */
+  readonly step = signal<ImportStep>('upload');
+
+  /** Name of the chosen file */
+  readonly fileName = signal('');
+
+  /** Parsed file */
+  readonly table = signal<ImportTable | null>(null);
+
+  /** Column mapping */
+  readonly mapping = signal<ImportMapping>({ name: null, description: null, quantity: null, locationPath: [] });
+
+  /** Dry-run result */
+  readonly plan = signal<ImportPlan | null>(null);
+
+  /** Per-row report after the import */
+  readonly results = signal<ImportRowResult[]>([]);
+
+  /** Whether a file is being read, checked or imported */
+  readonly isBusy = signal(false);
+
+  /** Error for the current step */
+  readonly error = signal<string | null>(null);
+
+  /** Progress of the running import */
+  readonly progress = this.bulkOperationService.progress;
+
+  /** Whether the required fields are mapped */
+  readonly canPreview = computed(() => {
+    const mapping = this.mapping();
+    return mapping.name !== null && mapping.locationPath.length > 0;
+  });
+
+  /** First rows of the file as the current mapping reads them */
+  readonly sampleRows = computed(() => {
+    const table = this.table();
+    const mapping = this.mapping();
+    if (!table) return [];
+
+    const cell = (row: string[], index: number | null) => (index === null ? '' : row[index] ?? '');
+    return table.rows.slice(0, SAMPLE_ROWS).map(row => ({
+      name: cell(row, mapping.name),
+      quantity: cell(row, mapping.quantity),
+      path: mapping.locationPath.map(index => cell(row, index)).filter(Boolean).join(' > ')
+    }));
+  });
+
+  /** Rows per planned action */
+  readonly planCounts = computed(() => {
+    const counts: Record<ImportRowAction, number> = { create: 0, merge: 0, combine: 0, skip: 0 };
+    this.plan()?.rows.forEach(row => counts[row.action]++);
+    return counts;
+  });
+
+  /** Rows per outcome */
+  readonly reportCounts = computed(() => {
+    const counts: Record<ImportRowOutcome, number> = { created: 0, merged: 0, queued: 0, failed: 0, skipped: 0 };
+    this.results().forEach(result => counts[result.outcome]++);
+    return counts;
+  });
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+  }
+
+  /**
+   * Read the chosen file and suggest a mapping
+   */
+  async onFileSelected(event: Event): Promise<void> {
+    const fileInput = event.target as HTMLInputElement;
+    const file = fileInput.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    fileInput.value = '';
+
+    if (!file) return;
+
+    this.isBusy.set(true);
+    this.error.set(null);
+    try {
+      const table = await this.inventoryImportService.parse(file);
+      this.fileName.set(file.name);
+      this.table.set(table);
+      this.mapping.set(this.inventoryImportService.suggestMapping(table.columns));
+      this.step.set('map');
+    } catch (err) {
+      this.error.set((err as { message?: string }).message || 'Could not read the file');
+    } finally {
+      this.isBusy.set(false);
+    }
+  }
+
+  /**
+   * Map a single-column field
+   */
+  onColumnChange(field: ColumnField, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.mapping.update(mapping => ({ ...mapping, [field]: value === '' ? null : Number(value) }));
+  }
+
+  /**
+   * Add or remove a location path column, keeping file order
+   */
+  toggleLocationColumn(index: number): void {
+    this.mapping.update(mapping => ({
+      ...mapping,
+      locationPath: mapping.locationPath.includes(index)
+        ? mapping.locationPath.filter(i => i !== index)
+        : [...mapping.locationPath, index].sort((a, b) => a - b)
+    }));
+  }
+
+  /**
+   * Dry-run the import with the current mapping
+   */
+  async preview(): Promise<void> {
+    const table = this.table();
+    if (!table) return;
+
+    this.triggerHapticFeedback();
+    this.isBusy.set(true);
+    this.error.set(null);
+    try {
+      this.plan.set(await this.inventoryImportService.plan(table, this.mapping()));
+      this.step.set('preview');
+    } catch (err) {
+      this.error.set((err as { message?: string }).message || 'Could not check the import');
+    } finally {
+      this.isBusy.set(false);
+    }
+  }
+
+  /**
+   * Run the previewed import
+   */
+  async runImport(): Promise<void> {
+    const plan = this.plan();
+    if (!plan) return;
+
+    this.triggerHapticFeedback();
+    this.isBusy.set(true);
+    try {
+      this.results.set(await this.inventoryImportService.run(plan));
+      this.step.set('report');
+    } catch (err) {
+      console.error('[Import] Import failed', err);
+      this.toastService.error((err as { message?: string }).message || 'Import failed');
+    } finally {
+      this.isBusy.set(false);
+    }
+  }
+
+  /**
+   * Start over with another file
+   */
+  reset(): void {
+    this.table.set(null);
+    this.plan.set(null);
+    this.results.set([]);
+    this.fileName.set('');
+    this.error.set(null);
+    this.step.set('upload');
+  }
+
+  /**
+   * Leave the wizard
+   */
+  done(): void {
+    this.router.navigate(['/']);
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Import feature routes
+ *
+ * - /import - Import items from a CSV or JSON file
+ */
+export const importRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./import.component').then(m => m.ImportComponent),
+    title: 'Import - StuffTracker'
+  }
+];
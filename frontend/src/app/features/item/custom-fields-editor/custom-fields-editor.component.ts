@@ -0,0 +1,170 @@
+import { Component, ChangeDetectionStrategy, input, output } from '@angular/core';
+import {
+  CustomFieldDefinition,
+  CustomFieldValue,
+  CustomFieldValues,
+  MAX_CUSTOM_FIELD_TEXT_LENGTH
+} from '../../../core/api/custom-field-api.service';
+
+/**
+ * Inputs for an item's custom field values
+ *
+ * Features:
+ * - One input per field definition, matched to its type:
+ *   text, number, date, yes/no and a list of options
+ * - Clearing an input removes the value instead of storing an empty one
+ * - Emits the full value map after every change
+ */
+@Component({
+  selector: 'app-custom-fields-editor',
+  standalone: true,
+  template: `
+    @for (field of fields(); track field.id) {
+      <div class="custom-fields__field">
+        <label class="custom-fields__label" [for]="'cf-' + field.id">{{ field.name }}</label>
+        @switch (field.type) {
+          @case ('number') {
+            <input
+              type="number"
+              inputmode="decimal"
+              class="custom-fields__input"
+              [id]="'cf-' + field.id"
+              [value]="inputValue(field)"
+              placeholder="Optional"
+              (input)="onNumberInput(field, $event)"
+            />
+          }
+          @case ('date') {
+            <input
+              type="date"
+              class="custom-fields__input"
+              [id]="'cf-' + field.id"
+              [value]="inputValue(field)"
+              (change)="onTextInput(field, $event)"
+            />
+          }
+          @case ('boolean') {
+            <select class="custom-fields__input" [id]="'cf-' + field.id" (change)="onBooleanChange(field, $event)">
+              <option value="" [selected]="values()[field.id] === undefined">Not set</option>
+              <option value="true" [selected]="values()[field.id] === true">Yes</option>
+              <option value="false" [selected]="values()[field.id] === false">No</option>
+            </select>
+          }
+          @case ('enum') {
+            <select class="custom-fields__input" [id]="'cf-' + field.id" (change)="onTextInput(field, $event)">
+              <option value="" [selected]="values()[field.id] === undefined">Not set</option>
+              @for (option of field.options ?? []; track option) {
+                <option [value]="option" [selected]="values()[field.id] === option">{{ option }}</option>
+              }
+            </select>
+          }
+          @default {
+            <input
+              type="text"
+              class="custom-fields__input"
+              [id]="'cf-' + field.id"
+              [value]="inputValue(field)"
+              [attr.maxlength]="maxTextLength"
+              placeholder="Optional"
+              autocomplete="off"
+              (input)="onTextInput(field, $event)"
+            />
+          }
+        }
+      </div>
+    }
+  `,
+  styles: [`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-lg);
+    }
+
+    .custom-fields__field {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+    }
+
+    .custom-fields__label {
+      font-size: 0.875rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+    }
+
+    .custom-fields__input {
+      width: 100%;
+      min-height: 52px;
+      padding: var(--spacing-md);
+      font-size: 1rem;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-md);
+      transition: border-color var(--transition-fast), background-color var(--transition-fast);
+      font-family: inherit;
+
+      &::placeholder {
+        color: var(--tg-theme-hint-color);
+      }
+
+      &:focus {
+        outline: none;
+        border-color: var(--tg-theme-button-color);
+        background-color: var(--tg-theme-bg-color);
+      }
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CustomFieldsEditorComponent {
+  /** Field definitions to show, in order */
+  readonly fields = input<CustomFieldDefinition[]>([]);
+
+  /** Current values, keyed by field ID */
+  readonly values = input<CustomFieldValues>({});
+
+  /** Emitted with the full value map after every change */
+  readonly valuesChange = output<CustomFieldValues>();
+
+  readonly maxTextLength = MAX_CUSTOM_FIELD_TEXT_LENGTH;
+
+  /**
+   * Current value as input text; empty when not set
+   */
+  inputValue(field: CustomFieldDefinition): string {
+    const value = this.values()[field.id] as CustomFieldValue | undefined;
+    return value === undefined ? '' : String(value);
+  }
+
+  onTextInput(field: CustomFieldDefinition, event: Event): void {
+    const value = (event.target as HTMLInputElement | HTMLSelectElement).value;
+    this.setValue(field, value.trim() === '' ? undefined : value);
+  }
+
+  onNumberInput(field: CustomFieldDefinition, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    // Half-typed numbers ("1.", "-") read as NaN; keep the last valid value until they parse
+    if (input.value === '') {
+      this.setValue(field, undefined);
+    } else if (!isNaN(input.valueAsNumber)) {
+      this.setValue(field, input.valueAsNumber);
+    }
+  }
+
+  onBooleanChange(field: CustomFieldDefinition, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.setValue(field, value === '' ? undefined : value === 'true');
+  }
+
+  private setValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): void {
+    const values = { ...this.values() };
+    if (value === undefined) {
+      delete values[field.id];
+    } else {
+      values[field.id] = value;
+    }
+    this.valuesChange.emit(values);
+  }
+}
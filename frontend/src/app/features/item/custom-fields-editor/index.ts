@@ -0,0 +1 @@
+export * from './custom-fields-editor.component';
@@ -0,0 +1 @@
+export * from './item-attachments.component';
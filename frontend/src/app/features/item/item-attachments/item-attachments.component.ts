@@ -0,0 +1,601 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  output,
+  signal,
+  computed,
+  DestroyRef
+} from '@angular/core';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { firstValueFrom } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import {
+  ATTACHMENT_TYPES,
+  ItemApiService,
+  ItemAttachment,
+  MAX_ATTACHMENT_SIZE
+} from '../../../core/api/item-api.service';
+import { FileDeliveryService } from '../../../core/export/file-delivery.service';
+import { ErrorToastService } from '../../../shared/components/error-toast';
+import {
+  DeleteConfirmationComponent,
+  DeleteConfirmationData
+} from '../../../shared/components/delete-confirmation';
+import { TelegramService } from '../../../telegram/telegram.service';
+
+/**
+ * Display text for a file size, e.g. "1.2 MB"
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const TOO_LARGE_MESSAGE = `Files can be up to ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+const WRONG_TYPE_MESSAGE = 'Only PDF files and images can be attached';
+
+/**
+ * ItemAttachmentsComponent lists and manages the documents attached to an item.
+ *
+ * Features:
+ * - Manuals, receipts and warranties as PDF files or images, with size and upload date
+ * - Upload with size and type checks before anything is sent
+ * - Full-screen preview of images, and of PDFs where the webview can show them;
+ *   elsewhere (e.g. Telegram on Android) PDFs open in the browser
+ * - Download (sent to the chat inside Telegram) and delete with confirmation
+ */
+@Component({
+  selector: 'app-item-attachments',
+  standalone: true,
+  imports: [DeleteConfirmationComponent],
+  host: {
+    '(document:keydown.escape)': 'closePreview()'
+  },
+  template: `
+    @if (attachments().length > 0) {
+      <ul class="item-attachments__list">
+        @for (attachment of attachments(); track attachment.id) {
+          <li class="item-attachments__row">
+            <button
+              type="button"
+              class="item-attachments__open"
+              (click)="openPreview(attachment)"
+              [attr.aria-label]="'Preview ' + attachment.fileName"
+            >
+              <span class="item-attachments__icon" [class.item-attachments__icon--pdf]="isPdf(attachment)" aria-hidden="true">
+                {{ isPdf(attachment) ? 'PDF' : 'IMG' }}
+              </span>
+              <span class="item-attachments__info">
+                <span class="item-attachments__name">{{ attachment.fileName }}</span>
+                <span class="item-attachments__meta">
+                  {{ formatSize(attachment.size) }} · {{ formatDate(attachment.createdAt) }}
+                </span>
+              </span>
+            </button>
+            <button
+              type="button"
+              class="item-attachments__action"
+              [disabled]="downloadingId() === attachment.id"
+              (click)="download(attachment)"
+              [attr.aria-label]="'Download ' + attachment.fileName"
+            >
+              <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                <path d="M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z"/>
+              </svg>
+            </button>
+            @if (editable()) {
+              <button
+                type="button"
+                class="item-attachments__action item-attachments__action--danger"
+                (click)="deleteTarget.set(attachment)"
+                [attr.aria-label]="'Delete ' + attachment.fileName"
+              >
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
+                </svg>
+              </button>
+            }
+          </li>
+        }
+      </ul>
+    }
+
+    @if (editable()) {
+      <label class="item-attachments__upload" [class.item-attachments__upload--busy]="isUploading()">
+        <input
+          type="file"
+          class="item-attachments__file-input"
+          [accept]="accept"
+          [disabled]="isUploading()"
+          (change)="onFileSelected($event)"
+        />
+        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+          <path d="M16.5 6v11.5c0 2.21-1.79 4-4 4s-4-1.79-4-4V5c0-1.38 1.12-2.5 2.5-2.5s2.5 1.12 2.5 2.5v10.5c0 .55-.45 1-1 1s-1-.45-1-1V6H10v9.5c0 1.38 1.12 2.5 2.5 2.5s2.5-1.12 2.5-2.5V5c0-2.21-1.79-4-4-4S7 2.79 7 5v12.5c0 3.04 2.46 5.5 5.5 5.5s5.5-2.46 5.5-5.5V6h-1.5z"/>
+        </svg>
+        {{ isUploading() ? 'Uploading...' : 'Attach a file' }}
+      </label>
+    }
+
+    @if (previewing(); as attachment) {
+      <div class="item-attachments__preview" role="dialog" aria-modal="true" [attr.aria-label]="attachment.fileName">
+        <div class="item-attachments__preview-header">
+          <span class="item-attachments__preview-title">{{ attachment.fileName }}</span>
+          <button
+            type="button"
+            class="item-attachments__preview-btn"
+            [disabled]="downloadingId() === attachment.id"
+            (click)="download(attachment)"
+            aria-label="Download"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z"/>
+            </svg>
+          </button>
+          <button
+            type="button"
+            class="item-attachments__preview-btn"
+            (click)="closePreview()"
+            aria-label="Close preview"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+            </svg>
+          </button>
+        </div>
+        <div class="item-attachments__preview-body">
+          @if (isPdf(attachment)) {
+            <iframe class="item-attachments__preview-frame" [src]="previewUrl()" [title]="attachment.fileName"></iframe>
+          } @else {
+            <img class="item-attachments__preview-image" [src]="attachment.url" [alt]="attachment.fileName" />
+          }
+        </div>
+      </div>
+    }
+
+    @if (deleteData(); as data) {
+      <app-delete-confirmation
+        [data]="data"
+        [title]="'Delete ' + data.name + '?'"
+        [permanent]="true"
+        (confirm)="onDeleteConfirmed()"
+        (cancel)="deleteTarget.set(null)"
+      />
+    }
+  `,
+  styles: [`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      padding-top: var(--spacing-xs);
+    }
+
+    .item-attachments__list {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    .item-attachments__row {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-xs);
+    }
+
+    .item-attachments__open {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      min-height: 44px;
+      padding: 0;
+      background: none;
+      border: none;
+      text-align: left;
+      cursor: pointer;
+
+      &:active {
+        opacity: 0.7;
+      }
+    }
+
+    .item-attachments__icon {
+      flex-shrink: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 40px;
+      height: 40px;
+      font-size: 0.6875rem;
+      font-weight: 700;
+      color: var(--tg-theme-button-text-color);
+      background-color: var(--tg-theme-button-color);
+      border-radius: var(--radius-md);
+    }
+
+    .item-attachments__icon--pdf {
+      background-color: var(--tg-theme-destructive-text-color);
+    }
+
+    .item-attachments__info {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      min-width: 0;
+    }
+
+    .item-attachments__name {
+      font-size: 0.9375rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .item-attachments__meta {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .item-attachments__action {
+      flex-shrink: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 44px;
+      height: 44px;
+      padding: 0;
+      color: var(--tg-theme-link-color);
+      background: none;
+      border: none;
+      border-radius: var(--radius-full);
+      cursor: pointer;
+
+      svg {
+        width: 22px;
+        height: 22px;
+      }
+
+      &:active {
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+      }
+    }
+
+    .item-attachments__action--danger {
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .item-attachments__upload {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      min-height: 44px;
+      font-size: 0.9375rem;
+      font-weight: 500;
+      color: var(--tg-theme-link-color);
+      cursor: pointer;
+
+      svg {
+        width: 20px;
+        height: 20px;
+      }
+
+      &:active {
+        opacity: 0.7;
+      }
+    }
+
+    .item-attachments__upload--busy {
+      opacity: 0.6;
+      cursor: default;
+    }
+
+    .item-attachments__file-input {
+      position: absolute;
+      width: 1px;
+      height: 1px;
+      opacity: 0;
+      pointer-events: none;
+    }
+
+    .item-attachments__preview {
+      position: fixed;
+      inset: 0;
+      z-index: var(--z-modal);
+      display: flex;
+      flex-direction: column;
+      background-color: #000;
+      animation: fadeIn 0.2s ease;
+    }
+
+    @keyframes fadeIn {
+      from { opacity: 0; }
+      to { opacity: 1; }
+    }
+
+    .item-attachments__preview-header {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-xs);
+      padding: var(--spacing-sm) var(--spacing-md);
+      padding-top: calc(var(--spacing-sm) + env(safe-area-inset-top, 0px));
+      color: #fff;
+    }
+
+    .item-attachments__preview-title {
+      flex: 1;
+      min-width: 0;
+      font-size: 0.875rem;
+      font-weight: 500;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .item-attachments__preview-btn {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 44px;
+      height: 44px;
+      background: none;
+      border: none;
+      border-radius: var(--radius-full);
+      color: #fff;
+      cursor: pointer;
+
+      svg {
+        width: 24px;
+        height: 24px;
+      }
+
+      &:active {
+        background-color: rgba(255, 255, 255, 0.15);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+      }
+    }
+
+    .item-attachments__preview-body {
+      flex: 1;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      min-height: 0;
+    }
+
+    .item-attachments__preview-frame {
+      width: 100%;
+      height: 100%;
+      border: none;
+      background-color: #fff;
+    }
+
+    .item-attachments__preview-image {
+      max-width: 100%;
+      max-height: 100%;
+      object-fit: contain;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ItemAttachmentsComponent {
+  private readonly itemApiService = inject(ItemApiService);
+  private readonly fileDeliveryService = inject(FileDeliveryService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly sanitizer = inject(DomSanitizer);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Item the attachments belong to */
+  readonly itemId = input.required<string>();
+
+  /** Attachments to show */
+  readonly attachments = input.required<ItemAttachment[]>();
+
+  /** Whether files can be attached and deleted; viewers can only open them */
+  readonly editable = input(true);
+
+  /** Emits the new list after an upload or delete */
+  readonly attachmentsChange = output<ItemAttachment[]>();
+
+  /** File types offered by the file picker */
+  readonly accept = ATTACHMENT_TYPES.join(',');
+
+  /** Whether a file is being uploaded */
+  readonly isUploading = signal(false);
+
+  /** Attachment open in the preview, or null when closed */
+  readonly previewing = signal<ItemAttachment | null>(null);
+
+  /** ID of the attachment being downloaded */
+  readonly downloadingId = signal<string | null>(null);
+
+  /** Attachment waiting for delete confirmation */
+  readonly deleteTarget = signal<ItemAttachment | null>(null);
+
+  /** PDF address for the preview frame, trusted only when it points at our API */
+  readonly previewUrl = computed<SafeResourceUrl | null>(() => {
+    const attachment = this.previewing();
+    return attachment && this.isApiUrl(attachment.url)
+      ? this.sanitizer.bypassSecurityTrustResourceUrl(attachment.url)
+      : null;
+  });
+
+  readonly deleteData = computed<DeleteConfirmationData | null>(() => {
+    const target = this.deleteTarget();
+    return target ? { name: target.fileName, childCount: 0, itemCount: 0, totalDescendantItems: 0 } : null;
+  });
+
+  isPdf(attachment: ItemAttachment): boolean {
+    return attachment.contentType === 'application/pdf';
+  }
+
+  formatSize(bytes: number): string {
+    return formatFileSize(bytes);
+  }
+
+  formatDate(timestamp: string): string {
+    return new Date(timestamp).toLocaleDateString();
+  }
+
+  /**
+   * Check the picked file and upload it
+   */
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset so picking the same file again fires another change
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    if (!ATTACHMENT_TYPES.includes(file.type)) {
+      this.toastService.error(WRONG_TYPE_MESSAGE);
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      this.toastService.error(`${file.name} is too large. ${TOO_LARGE_MESSAGE}.`);
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.isUploading.set(true);
+
+    this.itemApiService
+      .uploadAttachment(this.itemId(), file)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (attachment) => {
+          this.isUploading.set(false);
+          this.attachmentsChange.emit([...this.attachments(), attachment]);
+          this.toastService.success(`${attachment.fileName} attached`);
+        },
+        error: (err) => {
+          this.isUploading.set(false);
+          if (err.statusCode === 413) {
+            this.toastService.error(`${file.name} is too large. ${TOO_LARGE_MESSAGE}.`);
+          } else if (err.statusCode === 415) {
+            this.toastService.error(WRONG_TYPE_MESSAGE);
+          } else {
+            this.toastService.error(err.message || 'Failed to upload the file');
+          }
+        }
+      });
+  }
+
+  openPreview(attachment: ItemAttachment): void {
+    this.triggerHapticFeedback();
+    if (this.isPdf(attachment) && !this.canEmbedPdf(attachment)) {
+      this.openInBrowser(attachment);
+      return;
+    }
+    this.previewing.set(attachment);
+  }
+
+  closePreview(): void {
+    this.previewing.set(null);
+  }
+
+  /**
+   * Fetch the file and hand it to the user
+   */
+  async download(attachment: ItemAttachment): Promise<void> {
+    this.triggerHapticFeedback();
+    this.downloadingId.set(attachment.id);
+
+    try {
+      const blob = await firstValueFrom(this.itemApiService.downloadAttachment(attachment));
+      const destination = await this.fileDeliveryService.deliver({ blob, fileName: attachment.fileName });
+      if (destination === 'chat') {
+        this.toastService.success(`${attachment.fileName} sent to the chat`);
+      }
+    } catch (err) {
+      this.toastService.error((err as { message?: string }).message || 'Failed to download the file');
+    } finally {
+      this.downloadingId.set(null);
+    }
+  }
+
+  onDeleteConfirmed(): void {
+    const target = this.deleteTarget();
+    this.deleteTarget.set(null);
+    if (!target) {
+      return;
+    }
+
+    this.itemApiService
+      .deleteAttachment(this.itemId(), target.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          if (this.previewing()?.id === target.id) {
+            this.previewing.set(null);
+          }
+          this.attachmentsChange.emit(this.attachments().filter(attachment => attachment.id !== target.id));
+        },
+        error: (err) => this.toastService.error(err.message || 'Failed to delete the file')
+      });
+  }
+
+  /**
+   * Whether a PDF can be shown in the preview frame
+   * Android WebView, which Telegram uses on Android, has no PDF viewer and
+   * shows a blank frame, so inside Telegram PDFs always open in the browser.
+   */
+  private canEmbedPdf(attachment: ItemAttachment): boolean {
+    return !this.telegramService.isInTelegram()
+      && navigator.pdfViewerEnabled !== false
+      && this.isApiUrl(attachment.url);
+  }
+
+  private openInBrowser(attachment: ItemAttachment): void {
+    if (!this.telegramService.openLink(attachment.url)) {
+      window.open(attachment.url, '_blank', 'noopener');
+    }
+  }
+
+  /**
+   * Whether a URL is served by our API, the only origin trusted in a frame
+   */
+  private isApiUrl(url: string): boolean {
+    try {
+      const target = new URL(url, window.location.href);
+      const api = new URL(environment.apiUrl, window.location.href);
+      return target.origin === api.origin && target.pathname.startsWith(api.pathname);
+    } catch {
+      return false;
+    }
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
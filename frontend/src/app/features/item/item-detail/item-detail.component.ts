@@ -3,6 +3,7 @@ import {
   ChangeDetectionStrategy,
   inject,
   signal,
+  computed,
   OnInit,
   OnDestroy,
   DestroyRef,
@@ -11,9 +12,31 @@ import {
 import { Router } from '@angular/router';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { BreadcrumbsComponent } from '../../../shared/components/breadcrumbs';
-import { ItemApiService, ItemDetail } from '../../../core/api/item-api.service';
+import { PhotoGalleryComponent } from '../../../shared/components/photo-gallery';
+import { ErrorToastService } from '../../../shared/components/error-toast';
+import { LoadingSpinnerComponent } from '../../../shared/components/loading-spinner';
+import { DeleteConfirmationComponent } from '../../../shared/components/delete-confirmation';
+import { ItemApiService, ItemAttachment, ItemDetail, ItemPhoto, QuantityLogEntry } from '../../../core/api/item-api.service';
+import {
+  CustomFieldApiService,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  formatCustomFieldValue
+} from '../../../core/api/custom-field-api.service';
+import { formatMoney } from '../../../core/api/valuation-api.service';
+import { Loan, LoanApiService, describeLoanDue, isLoanOverdue } from '../../../core/api/loan-api.service';
+import { ACTIVITY_PREVIEW_LIMIT, ActivityApiService, ActivityEntry } from '../../../core/api/activity-api.service';
+import { canEdit, canManage } from '../../../core/auth/permissions';
+import { ChangeEvent, RealtimeService } from '../../../core/realtime/realtime.service';
+import { EntityStoreService } from '../../../core/store/entity-store.service';
 import { TelegramService } from '../../../telegram/telegram.service';
+import { ExpiryBadgeComponent } from '../../../shared/components/expiry-badge';
+import { QuantityStepperComponent } from '../../../shared/components/quantity-stepper';
+import { ActivityTimelineComponent } from '../../../shared/components/activity-timeline';
 import { MoveItemModalComponent } from '../move-item-modal';
+import { UsageChartComponent } from '../usage-chart';
+import { ItemAttachmentsComponent } from '../item-attachments';
+import { LendItemModalComponent } from '../lend-item-modal';
 
 /**
  * Component for displaying item details
@@ -21,24 +44,45 @@ import { MoveItemModalComponent } from '../move-item-modal';
  * Features:
  * - Load item by route param id
  * - Display breadcrumbs (location path)
- * - Display item properties (name, description, quantity)
+ * - Display item properties (name, description, quantity, expiry date, purchase details, barcode, tags)
+ * - −/+ buttons that change the quantity right away
+ * - Low-stock threshold under the quantity, flagged when the item is on the shopping list
+ * - Usage chart and recent changes from the consumption log
+ * - Tag chips open search filtered by that tag
+ * - Custom field values; tapping one finds other items with the same value
+ * - Photo thumbnails opening a swipeable full-screen gallery
+ * - Attached documents (manuals, receipts, warranties) with upload and preview
  * - Edit/Delete actions in header
  * - Move item to different location with modal picker
+ * - Lend units to someone with an optional due date, and mark them returned
+ * - Undo for move and delete from the confirmation toast
+ * - History of changes: who created, renamed, moved it or changed the quantity, and when
+ * - Actions limited by the user's role on a shared location (viewers browse only)
+ * - Live updates when household members change or move the item
  * - Loading/error states
  * - Haptic feedback for Telegram Mini App
  */
 @Component({
   selector: 'app-item-detail',
   standalone: true,
-  imports: [BreadcrumbsComponent, MoveItemModalComponent],
+  imports: [
+    BreadcrumbsComponent,
+    MoveItemModalComponent,
+    PhotoGalleryComponent,
+    DeleteConfirmationComponent,
+    ExpiryBadgeComponent,
+    QuantityStepperComponent,
+    UsageChartComponent,
+    ItemAttachmentsComponent,
+    LendItemModalComponent,
+    ActivityTimelineComponent,
+    LoadingSpinnerComponent
+  ],
   template: `
     <div class="item-detail">
       <!-- Loading state -->
       @if (isLoading()) {
-        <div class="item-detail__loading">
-          <div class="item-detail__spinner"></div>
-          <p class="item-detail__loading-text">Loading item...</p>
-        </div>
+        <app-loading-spinner size="medium" message="Loading item..." />
       }
 
       <!-- Error state -->
@@ -77,29 +121,55 @@ import { MoveItemModalComponent } from '../move-item-modal';
             <h1 class="item-detail__title">{{ item()!.name }}</h1>
           </div>
           <div class="item-detail__actions">
-            <button
-              type="button"
-              class="item-detail__action-btn"
-              (click)="navigateToEdit()"
-              aria-label="Edit item"
-            >
-              <svg viewBox="0 0 24 24" fill="currentColor">
-                <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/>
-              </svg>
-            </button>
-            <button
-              type="button"
-              class="item-detail__action-btn item-detail__action-btn--danger"
-              (click)="confirmDelete()"
-              aria-label="Delete item"
-            >
-              <svg viewBox="0 0 24 24" fill="currentColor">
-                <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
-              </svg>
-            </button>
+            @if (canEditItem()) {
+              <button
+                type="button"
+                class="item-detail__action-btn"
+                (click)="navigateToEdit()"
+                aria-label="Edit item"
+              >
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/>
+                </svg>
+              </button>
+            }
+            @if (canDeleteItem()) {
+              <button
+                type="button"
+                class="item-detail__action-btn item-detail__action-btn--danger"
+                (click)="confirmDelete()"
+                aria-label="Delete item"
+              >
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
+                </svg>
+              </button>
+            }
           </div>
         </header>
 
+        @if (!canEditItem()) {
+          <p class="item-detail__role-note">
+            You can view this item. Ask an owner of {{ item()!.locationName }} for editor access to change it.
+          </p>
+        }
+
+        <!-- Photos -->
+        @if (photos().length > 0) {
+          <div class="item-detail__photos">
+            @for (photo of photos(); track photo.id; let i = $index) {
+              <button
+                type="button"
+                class="item-detail__photo"
+                (click)="openGallery(i)"
+                [attr.aria-label]="'Open photo ' + (i + 1)"
+              >
+                <img [src]="photo.thumbnailUrl" alt="" loading="lazy" />
+              </button>
+            }
+          </div>
+        }
+
         <!-- Item properties -->
         <div class="item-detail__properties">
           <!-- Quantity -->
@@ -111,10 +181,107 @@ import { MoveItemModalComponent } from '../move-item-modal';
             </div>
             <div class="item-detail__property-content">
               <span class="item-detail__property-label">Quantity</span>
-              <span class="item-detail__property-value">{{ item()!.quantity }}</span>
+              @if (canEditItem()) {
+                <app-quantity-stepper
+                  class="item-detail__stepper"
+                  [itemId]="item()!.id"
+                  [itemName]="item()!.name"
+                  [quantity]="item()!.quantity"
+                  (quantityChange)="onQuantityChange($event)"
+                />
+              } @else {
+                <span class="item-detail__property-value">{{ item()!.quantity }}</span>
+              }
+              @if (item()!.minQuantity !== undefined) {
+                <span
+                  class="item-detail__stock-hint"
+                  [class.item-detail__stock-hint--low]="item()!.quantity <= item()!.minQuantity!"
+                >
+                  {{ item()!.quantity <= item()!.minQuantity! ? 'Low stock, on the shopping list' : 'Low stock at ' + item()!.minQuantity }}
+                </span>
+              }
             </div>
           </div>
 
+          <!-- Loans (if lent out) -->
+          @if (loans().length > 0) {
+            <div class="item-detail__property">
+              <div class="item-detail__property-icon">
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5c-1.66 0-3 1.34-3 3s1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5C6.34 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z"/>
+                </svg>
+              </div>
+              <div class="item-detail__property-content">
+                <span class="item-detail__property-label">On loan</span>
+                <ul class="item-detail__loans">
+                  @for (loan of loans(); track loan.id) {
+                    <li class="item-detail__loan">
+                      <div class="item-detail__loan-info">
+                        <span class="item-detail__loan-borrower">
+                          {{ loan.borrowerName }}@if (loan.quantity > 1) { × {{ loan.quantity }}}
+                        </span>
+                        @if (loan.borrowerUsername) {
+                          <a
+                            class="item-detail__loan-username"
+                            [href]="'https://t.me/' + loan.borrowerUsername"
+                            target="_blank"
+                            rel="noopener"
+                          >
+                            &#64;{{ loan.borrowerUsername }}
+                          </a>
+                        }
+                        <span class="item-detail__loan-due" [class.item-detail__loan-due--overdue]="isOverdue(loan)">
+                          {{ describeDue(loan) }}
+                        </span>
+                      </div>
+                      @if (canEditItem()) {
+                        <button
+                          type="button"
+                          class="item-detail__loan-return"
+                          [disabled]="returningLoanId() !== null"
+                          (click)="returnLoan(loan)"
+                        >
+                          {{ returningLoanId() === loan.id ? 'Saving...' : 'Returned' }}
+                        </button>
+                      }
+                    </li>
+                  }
+                </ul>
+              </div>
+            </div>
+          }
+
+          <!-- Usage -->
+          @if (quantityLog().length > 0) {
+            <div class="item-detail__property">
+              <div class="item-detail__property-icon">
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M3.5 18.49l6-6.01 4 4L22 6.92l-1.41-1.41-7.09 7.97-4-4L2 16.99z"/>
+                </svg>
+              </div>
+              <div class="item-detail__property-content">
+                <span class="item-detail__property-label">Usage</span>
+                <app-usage-chart [entries]="quantityLog()" />
+              </div>
+            </div>
+          }
+
+          <!-- Expiry date (if present) -->
+          @if (item()!.expiresAt) {
+            <div class="item-detail__property">
+              <div class="item-detail__property-icon">
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M19 3h-1V1h-2v2H8V1H6v2H5c-1.11 0-1.99.9-1.99 2L3 19c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H5V8h14v11zM7 10h5v5H7z"/>
+                </svg>
+              </div>
+              <div class="item-detail__property-content">
+                <span class="item-detail__property-label">Expires</span>
+                <span class="item-detail__property-value">{{ formatCalendarDate(item()!.expiresAt!) }}</span>
+                <app-expiry-badge [expiresAt]="item()!.expiresAt" />
+              </div>
+            </div>
+          }
+
           <!-- Location -->
           <div class="item-detail__property">
             <div class="item-detail__property-icon">
@@ -134,9 +301,123 @@ import { MoveItemModalComponent } from '../move-item-modal';
             </div>
           </div>
 
+          <!-- Barcode (if present) -->
+          @if (item()!.barcode) {
+            <div class="item-detail__property">
+              <div class="item-detail__property-icon">
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M4 6h2v12H4zm3 0h1v12H7zm2 0h3v12H9zm4 0h1v12h-1zm3 0h2v12h-2zm3 0h1v12h-1z"/>
+                </svg>
+              </div>
+              <div class="item-detail__property-content">
+                <span class="item-detail__property-label">Barcode</span>
+                <span class="item-detail__property-value">{{ item()!.barcode }}</span>
+              </div>
+            </div>
+          }
+
+          <!-- Tags (if present) -->
+          @if (item()!.tags?.length) {
+            <div class="item-detail__property">
+              <div class="item-detail__property-icon">
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M21.41 11.58l-9-9C12.05 2.22 11.55 2 11 2H4c-1.1 0-2 .9-2 2v7c0 .55.22 1.05.59 1.42l9 9c.36.36.86.58 1.41.58.55 0 1.05-.22 1.41-.59l7-7c.37-.36.59-.86.59-1.41 0-.55-.23-1.06-.59-1.42zM5.5 7C4.67 7 4 6.33 4 5.5S4.67 4 5.5 4 7 4.67 7 5.5 6.33 7 5.5 7z"/>
+                </svg>
+              </div>
+              <div class="item-detail__property-content">
+                <span class="item-detail__property-label">Tags</span>
+                <div class="item-detail__tags">
+                  @for (tag of item()!.tags; track tag) {
+                    <button
+                      type="button"
+                      class="item-detail__tag"
+                      (click)="searchByTag(tag)"
+                      [attr.aria-label]="'Find items tagged ' + tag"
+                    >
+                      {{ tag }}
+                    </button>
+                  }
+                </div>
+              </div>
+            </div>
+          }
+
+          <!-- Purchase details (if any are filled in) -->
+          @if (purchaseEntries().length > 0) {
+            <div class="item-detail__property">
+              <div class="item-detail__property-icon">
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M21.41 11.58l-9-9C12.05 2.22 11.55 2 11 2H4c-1.1 0-2 .9-2 2v7c0 .55.22 1.05.59 1.42l9 9c.36.36.86.58 1.41.58.55 0 1.05-.22 1.41-.59l7-7c.37-.36.59-.86.59-1.41 0-.55-.23-1.06-.59-1.42zM5.5 7C4.67 7 4 6.33 4 5.5S4.67 4 5.5 4 7 4.67 7 5.5 6.33 7 5.5 7z"/>
+                </svg>
+              </div>
+              <div class="item-detail__property-content">
+                <span class="item-detail__property-label">Purchase</span>
+                <dl class="item-detail__fields">
+                  @for (entry of purchaseEntries(); track entry.label) {
+                    <div class="item-detail__field">
+                      <dt>{{ entry.label }}</dt>
+                      <dd class="item-detail__field-text">{{ entry.value }}</dd>
+                    </div>
+                  }
+                </dl>
+              </div>
+            </div>
+          }
+
+          <!-- Attachments (viewers only see existing ones) -->
+          @if (canEditItem() || item()!.attachments?.length) {
+            <div class="item-detail__property">
+              <div class="item-detail__property-icon">
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M14 2H6c-1.1 0-1.99.9-1.99 2L4 20c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z"/>
+                </svg>
+              </div>
+              <div class="item-detail__property-content">
+                <span class="item-detail__property-label">Documents</span>
+                <app-item-attachments
+                  [itemId]="item()!.id"
+                  [attachments]="item()!.attachments ?? []"
+                [editable]="canEditItem()"
+                  (attachmentsChange)="onAttachmentsChange($event)"
+                />
+              </div>
+            </div>
+          }
+
+          <!-- Custom fields (if any are filled in) -->
+          @if (customFieldEntries().length > 0) {
+            <div class="item-detail__property">
+              <div class="item-detail__property-icon">
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z"/>
+                </svg>
+              </div>
+              <div class="item-detail__property-content">
+                <span class="item-detail__property-label">Details</span>
+                <dl class="item-detail__fields">
+                  @for (entry of customFieldEntries(); track entry.field.id) {
+                    <div class="item-detail__field">
+                      <dt>{{ entry.field.name }}</dt>
+                      <dd>
+                        <button
+                          type="button"
+                          class="item-detail__field-value"
+                          (click)="searchByField(entry.field, entry.value)"
+                          [attr.aria-label]="'Find items where ' + entry.field.name + ' is ' + entry.label"
+                        >
+                          {{ entry.label }}
+                        </button>
+                      </dd>
+                    </div>
+                  }
+                </dl>
+              </div>
+            </div>
+          }
+
           <!-- Description (if present) -->
           @if (item()!.description) {
-            <div class="item-detail__property item-detail__property--description">
+            <div class="item-detail__property">
               <div class="item-detail__property-icon">
                 <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
                   <path d="M14 2H6c-1.1 0-1.99.9-1.99 2L4 20c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z"/>
@@ -150,20 +431,35 @@ import { MoveItemModalComponent } from '../move-item-modal';
           }
         </div>
 
-        <!-- Quick actions -->
-        <div class="item-detail__quick-actions">
-          <button
-            type="button"
-            class="item-detail__quick-action"
-            (click)="openMoveModal()"
-          >
-            <!-- folder-move icon -->
-            <svg viewBox="0 0 24 24" fill="currentColor">
-              <path d="M14 8V6c0-1.1-.9-2-2-2H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V10c0-1.1-.9-2-2-2h-6zm-2 6l-3 3v-2H6v-2h3V11l3 3zm8 4H4V6h8v4h8v8z"/>
-            </svg>
-            <span>Move Item</span>
-          </button>
-        </div>
+        <!-- Quick actions (editors and owners) -->
+        @if (canEditItem()) {
+          <div class="item-detail__quick-actions">
+            <button
+              type="button"
+              class="item-detail__quick-action"
+              (click)="openMoveModal()"
+            >
+              <!-- folder-move icon -->
+              <svg viewBox="0 0 24 24" fill="currentColor">
+                <path d="M14 8V6c0-1.1-.9-2-2-2H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V10c0-1.1-.9-2-2-2h-6zm-2 6l-3 3v-2H6v-2h3V11l3 3zm8 4H4V6h8v4h8v8z"/>
+              </svg>
+              <span>Move Item</span>
+            </button>
+            <button
+              type="button"
+              class="item-detail__quick-action"
+              [disabled]="item()!.quantity < 2"
+              [attr.title]="item()!.quantity < 2 ? 'One unit has to stay at hand' : null"
+              (click)="openLendModal()"
+            >
+              <!-- hand-over icon -->
+              <svg viewBox="0 0 24 24" fill="currentColor">
+                <path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z"/>
+              </svg>
+              <span>Lend</span>
+            </button>
+          </div>
+        }
 
         <!-- Move item modal -->
         @if (showMoveModal()) {
@@ -171,11 +467,51 @@ import { MoveItemModalComponent } from '../move-item-modal';
             [itemId]="item()!.id"
             [currentLocationId]="item()!.locationId"
             [itemName]="item()!.name"
+            [itemUpdatedAt]="item()!.updatedAt"
             (moved)="onItemMoved()"
             (closed)="closeMoveModal()"
           />
         }
 
+        <!-- Lend item modal -->
+        @if (showLendModal()) {
+          <app-lend-item-modal
+            [itemId]="item()!.id"
+            [itemName]="item()!.name"
+            [available]="item()!.quantity - 1"
+            (lent)="onItemLent($event)"
+            (closed)="showLendModal.set(false)"
+          />
+        }
+
+        @if (showDeleteConfirmation()) {
+          <app-delete-confirmation
+            [data]="{ name: item()!.name, childCount: 0, itemCount: 0, totalDescendantItems: 0 }"
+            (confirm)="onDeleteConfirmed()"
+            (cancel)="showDeleteConfirmation.set(false)"
+          />
+        }
+
+        <!-- Photo gallery -->
+        @if (galleryIndex() !== null) {
+          <app-photo-gallery
+            [photos]="photos()"
+            [startIndex]="galleryIndex()!"
+            (closed)="closeGallery()"
+          />
+        }
+
+        <!-- History -->
+        @if (activity().length > 0) {
+          <app-activity-timeline
+            class="item-detail__history"
+            heading="History"
+            [entries]="activity()"
+            [hasMore]="hasMoreActivity()"
+            (showMore)="navigateToHistory()"
+          />
+        }
+
         <!-- Metadata footer -->
         <footer class="item-detail__footer">
           <p class="item-detail__meta">
@@ -199,35 +535,6 @@ import { MoveItemModalComponent } from '../move-item-modal';
       padding-bottom: calc(var(--spacing-xl) + 60px);
     }
 
-    /* Loading state */
-    .item-detail__loading {
-      display: flex;
-      flex-direction: column;
-      align-items: center;
-      justify-content: center;
-      padding: var(--spacing-2xl) var(--spacing-md);
-      gap: var(--spacing-md);
-      flex: 1;
-    }
-
-    .item-detail__spinner {
-      width: 40px;
-      height: 40px;
-      border: 3px solid var(--tg-theme-secondary-bg-color);
-      border-top-color: var(--tg-theme-button-color);
-      border-radius: 50%;
-      animation: spin 1s linear infinite;
-    }
-
-    @keyframes spin {
-      to { transform: rotate(360deg); }
-    }
-
-    .item-detail__loading-text {
-      font-size: 0.875rem;
-      color: var(--tg-theme-hint-color);
-    }
-
     /* Error state */
     .item-detail__error {
       display: flex;
@@ -332,6 +639,42 @@ import { MoveItemModalComponent } from '../move-item-modal';
       }
     }
 
+    /* Photos */
+    .item-detail__photos {
+      display: flex;
+      gap: var(--spacing-sm);
+      padding-top: var(--spacing-md);
+      overflow-x: auto;
+      scrollbar-width: none;
+
+      &::-webkit-scrollbar {
+        display: none;
+      }
+    }
+
+    .item-detail__photo {
+      flex-shrink: 0;
+      width: 88px;
+      height: 88px;
+      padding: 0;
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: none;
+      border-radius: var(--radius-md);
+      overflow: hidden;
+      cursor: pointer;
+      transition: transform var(--transition-fast);
+
+      img {
+        width: 100%;
+        height: 100%;
+        object-fit: cover;
+      }
+
+      &:active {
+        transform: scale(0.95);
+      }
+    }
+
     /* Properties */
     .item-detail__properties {
       display: flex;
@@ -349,10 +692,6 @@ import { MoveItemModalComponent } from '../move-item-modal';
       border-radius: var(--radius-lg);
     }
 
-    .item-detail__property--description {
-      align-items: flex-start;
-    }
-
     .item-detail__property-icon {
       display: flex;
       align-items: center;
@@ -386,12 +725,174 @@ import { MoveItemModalComponent } from '../move-item-modal';
       letter-spacing: 0.5px;
     }
 
+    .item-detail__role-note {
+      margin-bottom: var(--spacing-md);
+      padding: var(--spacing-sm) var(--spacing-md);
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-md);
+    }
+
     .item-detail__property-value {
       font-size: 1rem;
       font-weight: 500;
       color: var(--tg-theme-text-color);
     }
 
+    .item-detail__stepper {
+      padding: var(--spacing-xs) 0;
+    }
+
+    .item-detail__stock-hint {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .item-detail__stock-hint--low {
+      color: var(--tg-theme-destructive-text-color);
+      font-weight: 500;
+    }
+
+    .item-detail__loans {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      margin: 0;
+      padding: var(--spacing-xs) 0 0;
+      list-style: none;
+    }
+
+    .item-detail__loan {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: var(--spacing-sm);
+    }
+
+    .item-detail__loan-info {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      min-width: 0;
+    }
+
+    .item-detail__loan-borrower {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .item-detail__loan-username {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-link-color);
+      text-decoration: none;
+    }
+
+    .item-detail__loan-due {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .item-detail__loan-due--overdue {
+      color: var(--tg-theme-destructive-text-color);
+      font-weight: 500;
+    }
+
+    .item-detail__loan-return {
+      flex-shrink: 0;
+      min-height: 36px;
+      padding: 0 var(--spacing-md);
+      font-size: 0.875rem;
+      font-weight: 500;
+      color: var(--tg-theme-button-color);
+      background-color: color-mix(in srgb, var(--tg-theme-button-color) 12%, transparent);
+      border: none;
+      border-radius: var(--radius-full);
+      cursor: pointer;
+
+      &:active:not(:disabled) {
+        opacity: 0.7;
+      }
+
+      &:disabled {
+        opacity: 0.5;
+      }
+    }
+
+    .item-detail__tags {
+      display: flex;
+      flex-wrap: wrap;
+      gap: var(--spacing-xs);
+      padding-top: var(--spacing-xs);
+    }
+
+    .item-detail__tag {
+      min-height: 32px;
+      padding: 0 var(--spacing-sm);
+      font-size: 0.875rem;
+      border: none;
+      border-radius: var(--radius-full);
+      background-color: color-mix(in srgb, var(--tg-theme-link-color) 15%, transparent);
+      color: var(--tg-theme-link-color);
+      cursor: pointer;
+
+      &:active {
+        opacity: 0.7;
+      }
+    }
+
+    .item-detail__fields {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      margin: 0;
+      padding-top: var(--spacing-xs);
+    }
+
+    .item-detail__field {
+      display: flex;
+      align-items: baseline;
+      justify-content: space-between;
+      gap: var(--spacing-md);
+
+      dt {
+        font-size: 0.9375rem;
+        color: var(--tg-theme-hint-color);
+      }
+
+      dd {
+        margin: 0;
+        min-width: 0;
+      }
+    }
+
+    .item-detail__field-text {
+      font-size: 0.9375rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      text-align: right;
+      word-break: break-word;
+    }
+
+    .item-detail__field-value {
+      min-height: 32px;
+      padding: 0;
+      font-size: 0.9375rem;
+      font-weight: 500;
+      color: var(--tg-theme-link-color);
+      background: none;
+      border: none;
+      text-align: right;
+      word-break: break-word;
+      cursor: pointer;
+
+      &:active {
+        opacity: 0.7;
+      }
+    }
+
     .item-detail__property-link {
       font-size: 1rem;
       font-weight: 500;
@@ -456,10 +957,19 @@ import { MoveItemModalComponent } from '../move-item-modal';
         text-overflow: ellipsis;
       }
 
-      &:active {
+      &:active:not(:disabled) {
         opacity: 0.9;
         transform: scale(0.98);
       }
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+
+    .item-detail__history {
+      margin-top: var(--spacing-lg);
     }
 
     /* Footer */
@@ -482,14 +992,26 @@ import { MoveItemModalComponent } from '../move-item-modal';
 export class ItemDetailComponent implements OnInit, OnDestroy {
   private readonly router = inject(Router);
   private readonly itemApiService = inject(ItemApiService);
+  private readonly customFieldApiService = inject(CustomFieldApiService);
+  private readonly loanApiService = inject(LoanApiService);
+  private readonly activityApiService = inject(ActivityApiService);
+  private readonly realtimeService = inject(RealtimeService);
+  private readonly entityStore = inject(EntityStoreService);
   private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
   private readonly destroyRef = inject(DestroyRef);
 
   /** Item ID from route param */
   readonly id = input.required<string>();
 
-  /** Item data */
-  readonly item = signal<ItemDetail | null>(null);
+  /** Item data, kept current by every write to it or its location */
+  readonly item = computed(() => this.entityStore.itemDetail(this.id()));
+
+  /** Whether the user may change, move and lend the item */
+  readonly canEditItem = computed(() => canEdit(this.item()?.role));
+
+  /** Whether the user may delete the item */
+  readonly canDeleteItem = computed(() => canManage(this.item()?.role));
 
   /** Loading state */
   readonly isLoading = signal(true);
@@ -500,8 +1022,85 @@ export class ItemDetailComponent implements OnInit, OnDestroy {
   /** Whether to show the move item modal */
   readonly showMoveModal = signal(false);
 
+  /** Whether to show the delete confirmation */
+  readonly showDeleteConfirmation = signal(false);
+
+  /** Item photos */
+  readonly photos = signal<ItemPhoto[]>([]);
+
+  /** Index of the photo open in the gallery, or null when closed */
+  readonly galleryIndex = signal<number | null>(null);
+
+  /** Consumption log of the item */
+  readonly quantityLog = signal<QuantityLogEntry[]>([]);
+
+  /** Latest changes to the item, newest first */
+  readonly activity = signal<ActivityEntry[]>([]);
+
+  /** Whether older changes exist beyond the ones shown */
+  readonly hasMoreActivity = signal(false);
+
+  /** Open loans of the item */
+  readonly loans = signal<Loan[]>([]);
+
+  /** Whether to show the lend item modal */
+  readonly showLendModal = signal(false);
+
+  /** ID of the loan being marked as returned */
+  readonly returningLoanId = signal<string | null>(null);
+
+  /** Custom fields defined in settings */
+  readonly fieldDefinitions = signal<CustomFieldDefinition[]>([]);
+
+  /** Filled-in custom fields of the item, in definition order */
+  readonly customFieldEntries = computed(() => {
+    const values = this.item()?.customFields ?? {};
+    return this.fieldDefinitions()
+      .filter(field => values[field.id] !== undefined)
+      .map(field => ({
+        field,
+        value: values[field.id],
+        label: formatCustomFieldValue(field, values[field.id])
+      }));
+  });
+
+  /** Filled-in purchase details of the item */
+  readonly purchaseEntries = computed(() => {
+    const item = this.item();
+    if (!item) {
+      return [];
+    }
+    const entries: { label: string; value: string }[] = [];
+    if (item.purchasePrice !== undefined && item.currency) {
+      entries.push({ label: 'Price', value: formatMoney([{ currency: item.currency, amount: item.purchasePrice }]) });
+      if (item.quantity > 1) {
+        entries.push({
+          label: 'Value',
+          value: formatMoney([{ currency: item.currency, amount: item.purchasePrice * item.quantity }])
+        });
+      }
+    }
+    if (item.purchaseDate) {
+      entries.push({ label: 'Bought on', value: this.formatCalendarDate(item.purchaseDate) });
+    }
+    if (item.store) {
+      entries.push({ label: 'Store', value: item.store });
+    }
+    if (item.warrantyExpiresAt) {
+      entries.push({ label: 'Warranty until', value: this.formatCalendarDate(item.warrantyExpiresAt) });
+    }
+    return entries;
+  });
+
   ngOnInit(): void {
     this.loadItem();
+    this.loadFieldDefinitions();
+
+    // Pick up changes other household members make while the page is open
+    this.realtimeService
+      .watch(event => this.isAffectedBy(event))
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.refreshLive());
   }
 
   ngOnDestroy(): void {
@@ -519,9 +1118,12 @@ export class ItemDetailComponent implements OnInit, OnDestroy {
       .getItem(this.id())
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
-        next: (item) => {
-          this.item.set(item);
+        next: () => {
           this.isLoading.set(false);
+          this.loadPhotos();
+          this.loadQuantityLog();
+          this.loadLoans();
+          this.loadActivity();
         },
         error: (err) => {
           this.error.set(err.message || 'Failed to load item');
@@ -530,6 +1132,163 @@ export class ItemDetailComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Whether a change elsewhere touches the item or the location it is in
+   */
+  private isAffectedBy(event: ChangeEvent): boolean {
+    return event.entityType === 'item'
+      ? event.id === this.id()
+      : event.id === this.item()?.locationId;
+  }
+
+  /**
+   * Reload in place after a change made elsewhere. Skipped while loading;
+   * failures keep the data on screen.
+   */
+  private refreshLive(): void {
+    if (this.isLoading()) {
+      return;
+    }
+
+    this.itemApiService
+      .getItem(this.id())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.loadPhotos();
+          this.loadQuantityLog();
+          this.loadLoans();
+          this.loadActivity();
+        },
+        error: (err) => {
+          if (err.statusCode === 404) {
+            this.leaveDeletedItem();
+          } else {
+            console.warn('[ItemDetail] Live refresh failed', err);
+          }
+        }
+      });
+  }
+
+  /**
+   * Someone else deleted the item: go back to where it was
+   */
+  private leaveDeletedItem(): void {
+    const currentItem = this.item();
+    this.toastService.info(`"${currentItem?.name ?? 'This item'}" was deleted`);
+    this.router.navigate(
+      currentItem ? ['/location', currentItem.locationId] : ['/'],
+      { replaceUrl: true }
+    );
+  }
+
+  /**
+   * Load item photos; the page stays usable without them
+   */
+  private loadPhotos(): void {
+    this.itemApiService
+      .getPhotos(this.id())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (photos) => this.photos.set(photos),
+        error: (err) => console.warn('[ItemDetail] Failed to load photos', err)
+      });
+  }
+
+  /**
+   * Load the consumption log; the page stays usable without it
+   */
+  private loadQuantityLog(): void {
+    this.itemApiService
+      .getQuantityLog(this.id())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (entries) => this.quantityLog.set(entries),
+        error: (err) => console.warn('[ItemDetail] Failed to load quantity log', err)
+      });
+  }
+
+  /**
+   * Load the latest changes; the page stays usable without them
+   */
+  private loadActivity(): void {
+    this.activityApiService
+      .getActivity({ itemId: this.id(), limit: ACTIVITY_PREVIEW_LIMIT })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (page) => {
+          this.activity.set(page.entries);
+          this.hasMoreActivity.set(page.hasMore);
+        },
+        error: (err) => console.warn('[ItemDetail] Failed to load activity', err)
+      });
+  }
+
+  /**
+   * Open the full change history of the item
+   */
+  navigateToHistory(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/activity'], { queryParams: { item: this.id() } });
+  }
+
+  /**
+   * Load the open loans; the page stays usable without them
+   */
+  private loadLoans(): void {
+    this.loanApiService
+      .getItemLoans(this.id())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (loans) => this.loans.set(loans),
+        error: (err) => console.warn('[ItemDetail] Failed to load loans', err)
+      });
+  }
+
+  /**
+   * Take a quick quantity change from the stepper
+   */
+  onQuantityChange(quantity: number): void {
+    this.entityStore.patchItem(this.id(), { quantity });
+    this.loadQuantityLog();
+    this.loadActivity();
+  }
+
+  /**
+   * Keep the attachment list after an upload or delete
+   */
+  onAttachmentsChange(attachments: ItemAttachment[]): void {
+    this.entityStore.patchItem(this.id(), { attachments });
+  }
+
+  /**
+   * Load custom field definitions; without them the values are not shown
+   */
+  private loadFieldDefinitions(): void {
+    this.customFieldApiService
+      .getFields()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (fields) => this.fieldDefinitions.set(fields),
+        error: (err) => console.warn('[ItemDetail] Failed to load custom fields', err)
+      });
+  }
+
+  /**
+   * Open the full-screen gallery at a photo
+   */
+  openGallery(index: number): void {
+    this.triggerHapticFeedback();
+    this.galleryIndex.set(index);
+  }
+
+  /**
+   * Close the full-screen gallery
+   */
+  closeGallery(): void {
+    this.galleryIndex.set(null);
+  }
+
   /**
    * Get breadcrumbs array for display
    */
@@ -541,6 +1300,13 @@ export class ItemDetailComponent implements OnInit, OnDestroy {
     return [...currentItem.locationPath, currentItem.name];
   }
 
+  /**
+   * Display text for a calendar date such as the expiry date, read in local time
+   */
+  formatCalendarDate(date: string): string {
+    return new Date(`${date}T00:00:00`).toLocaleDateString();
+  }
+
   /**
    * Navigate to edit item form
    */
@@ -560,6 +1326,91 @@ export class ItemDetailComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Open search filtered by a tag
+   */
+  searchByTag(tag: string): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/search'], { queryParams: { tags: tag } });
+  }
+
+  /**
+   * Open search filtered by a custom field value
+   */
+  searchByField(field: CustomFieldDefinition, value: CustomFieldValue): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/search'], { queryParams: { field: field.id, value: String(value) } });
+  }
+
+  isOverdue(loan: Loan): boolean {
+    return isLoanOverdue(loan);
+  }
+
+  describeDue(loan: Loan): string {
+    return describeLoanDue(loan);
+  }
+
+  /**
+   * Open the lend item modal
+   */
+  openLendModal(): void {
+    this.triggerHapticFeedback();
+    this.showLendModal.set(true);
+  }
+
+  /**
+   * Show a new loan; its units are no longer at hand
+   */
+  onItemLent(loan: Loan): void {
+    this.showLendModal.set(false);
+    this.loans.update(loans => [...loans, loan]);
+    this.adjustAtHand(-loan.quantity);
+    this.loadQuantityLog();
+  }
+
+  /**
+   * Move units between the shelf and the lent-out count
+   * @param delta - Units put back; negative when lent out
+   */
+  private adjustAtHand(delta: number): void {
+    const [item] = this.entityStore.items([this.id()]);
+    if (item) {
+      this.entityStore.patchItem(item.id, {
+        quantity: item.quantity + delta,
+        lentQuantity: Math.max(0, (item.lentQuantity ?? 0) - delta) || undefined
+      });
+    }
+  }
+
+  /**
+   * Mark a loan as returned, putting its units back
+   */
+  returnLoan(loan: Loan): void {
+    if (this.returningLoanId() !== null) {
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.returningLoanId.set(loan.id);
+
+    this.loanApiService
+      .returnLoan(loan.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.returningLoanId.set(null);
+          this.loans.update(loans => loans.filter(l => l.id !== loan.id));
+          this.adjustAtHand(loan.quantity);
+          this.loadQuantityLog();
+          this.toastService.success(`Returned by ${loan.borrowerName}`);
+        },
+        error: (err) => {
+          this.returningLoanId.set(null);
+          this.toastService.error(err.message || 'Failed to mark as returned');
+        }
+      });
+  }
+
   /**
    * Open the move item modal
    */
@@ -579,10 +1430,39 @@ export class ItemDetailComponent implements OnInit, OnDestroy {
    * Handle successful item move
    */
   onItemMoved(): void {
+    const previous = this.item();
     this.showMoveModal.set(false);
     this.triggerHapticFeedback('success');
-    // Refresh item data to show new location
-    this.loadItem();
+    // The store already has the new location; only the history needs the move
+    this.loadActivity();
+
+    if (previous) {
+      this.toastService.undoable(`Moved "${previous.name}"`, () => this.undoMove(previous));
+    }
+  }
+
+  /**
+   * Move the item back to where it was before the last move
+   */
+  private undoMove(previous: ItemDetail): void {
+    // Not bound to this page: the Undo toast can outlive it
+    this.itemApiService
+      .moveItem(previous.id, previous.locationId, { name: previous.name })
+      .subscribe({
+        next: () => {
+          this.toastService.info(`Moved "${previous.name}" back to ${previous.locationName}`);
+          if (!this.destroyRef.destroyed) {
+            this.loadActivity();
+          }
+        },
+        error: (err) => {
+          if (err.queued) {
+            this.toastService.info(err.message, 5000);
+            return;
+          }
+          this.toastService.error(err.message || 'Failed to undo move');
+        }
+      });
   }
 
   /**
@@ -591,27 +1471,34 @@ export class ItemDetailComponent implements OnInit, OnDestroy {
   confirmDelete(): void {
     this.triggerHapticFeedback('warning');
 
-    const currentItem = this.item();
-    if (!currentItem) return;
+    if (!this.item()) return;
+    this.showDeleteConfirmation.set(true);
+  }
 
-    if (confirm(`Delete "${currentItem.name}"?`)) {
-      this.deleteItem();
-    }
+  /**
+   * Delete the item once the user confirmed
+   */
+  onDeleteConfirmed(): void {
+    this.showDeleteConfirmation.set(false);
+    this.deleteItem();
   }
 
   /**
    * Delete the item
    */
   private deleteItem(): void {
+    // Read before the store drops the deleted item
+    const currentItem = this.item();
+
     this.itemApiService
       .deleteItem(this.id())
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: () => {
           this.triggerHapticFeedback('success');
-          const currentItem = this.item();
           if (currentItem) {
             this.router.navigate(['/location', currentItem.locationId]);
+            this.toastService.undoable(`Deleted "${currentItem.name}"`, () => this.undoDelete(currentItem));
           } else {
             this.router.navigate(['/']);
           }
@@ -623,6 +1510,24 @@ export class ItemDetailComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Restore a deleted item and open it again
+   */
+  private undoDelete(deleted: ItemDetail): void {
+    // Not bound to this page: it is destroyed once the delete navigates away
+    this.itemApiService
+      .restoreItem(deleted.id)
+      .subscribe({
+        next: () => {
+          this.toastService.info(`Restored "${deleted.name}"`);
+          this.router.navigate(['/item', deleted.id]);
+        },
+        error: (err) => {
+          this.toastService.error(err.message || 'Failed to restore item');
+        }
+      });
+  }
+
   /**
    * Format date for display
    */
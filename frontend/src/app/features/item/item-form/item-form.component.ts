@@ -12,14 +12,40 @@ import {
 import { Router } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, forkJoin, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
 import {
   ItemApiService,
   ItemResponse,
+  ItemPhoto,
   CreateItemRequest,
   UpdateItemRequest
 } from '../../../core/api/item-api.service';
 import { LocationApiService } from '../../../core/api/location-api.service';
+import { TagApiService } from '../../../core/api/tag-api.service';
+import {
+  CustomFieldApiService,
+  CustomFieldDefinition,
+  CustomFieldValues
+} from '../../../core/api/custom-field-api.service';
+import { ImageResizeService } from '../../../core/media/image-resize.service';
 import { TelegramService } from '../../../telegram/telegram.service';
+import { ErrorToastService } from '../../../shared/components/error-toast';
+import { BarcodeScannerComponent } from '../../../shared/components/barcode-scanner';
+import { TagInputComponent } from '../../../shared/components/tag-input';
+import { CustomFieldsEditorComponent } from '../custom-fields-editor';
+
+/**
+ * A photo picked in the form that has not been uploaded yet
+ */
+interface PendingPhoto {
+  /** Local key for list tracking */
+  key: number;
+  /** Resized image data */
+  blob: Blob;
+  /** Object URL for the preview */
+  previewUrl: string;
+}
 
 /**
  * Form component for creating and editing items
@@ -28,14 +54,23 @@ import { TelegramService } from '../../../telegram/telegram.service';
  * - Create mode: new item with locationId from route param
  * - Edit mode: update existing item by id
  * - Input fields: name (required), description (optional), quantity (number, min 1)
+ * - Barcode field filled by scanning (Telegram QR popup or camera) or typing;
+ *   prefilled from the `barcode` query param after an unmatched scan
+ * - Optional low-stock threshold that puts the item on the shopping list
+ * - Optional expiry date for consumables
+ * - Tags with autocomplete from the tags already in use
+ * - Custom field values, one input per field defined in settings
+ * - Photos: take with the camera or pick from the gallery; resized on the device
+ *   and uploaded after the item is saved
  * - Save using Telegram MainButton
  * - Validation: name required (max 200 chars), quantity >= 1
  * - Loading and error states
+ * - Offline saves are queued in the outbox and synced later
  */
 @Component({
   selector: 'app-item-form',
   standalone: true,
-  imports: [FormsModule],
+  imports: [FormsModule, BarcodeScannerComponent, TagInputComponent, CustomFieldsEditorComponent],
   template: `
     <div class="item-form">
       <!-- Loading state for edit mode -->
@@ -184,6 +219,241 @@ import { TelegramService } from '../../../telegram/telegram.service';
             }
           </div>
 
+          <!-- Low-stock threshold field -->
+          <div class="item-form__field">
+            <label for="minQuantity" class="item-form__label">Low stock level</label>
+            <input
+              type="number"
+              id="minQuantity"
+              name="minQuantity"
+              class="item-form__input"
+              [class.item-form__input--error]="minQuantityError()"
+              [(ngModel)]="minQuantity"
+              (ngModelChange)="validateMinQuantity()"
+              min="0"
+              max="999999"
+              inputmode="numeric"
+              placeholder="Shopping list at this quantity (optional)"
+              [attr.aria-describedby]="minQuantityError() ? 'min-quantity-error' : null"
+              [attr.aria-invalid]="!!minQuantityError()"
+            />
+            @if (minQuantityError()) {
+              <span id="min-quantity-error" class="item-form__error-message" role="alert">
+                {{ minQuantityError() }}
+              </span>
+            }
+          </div>
+
+          <!-- Expiry date field -->
+          <div class="item-form__field">
+            <label for="expiresAt" class="item-form__label">Expires on</label>
+            <input
+              type="date"
+              id="expiresAt"
+              name="expiresAt"
+              class="item-form__input"
+              [(ngModel)]="expiresAt"
+            />
+          </div>
+
+          <!-- Purchase price field -->
+          <div class="item-form__field">
+            <label for="purchasePrice" class="item-form__label">Purchase price (per unit)</label>
+            <div class="item-form__price-wrapper">
+              <input
+                type="number"
+                id="purchasePrice"
+                name="purchasePrice"
+                class="item-form__input"
+                [class.item-form__input--error]="purchaseError()"
+                [(ngModel)]="purchasePrice"
+                (ngModelChange)="validatePurchase()"
+                min="0"
+                step="0.01"
+                inputmode="decimal"
+                placeholder="Optional"
+                [attr.aria-describedby]="purchaseError() ? 'purchase-error' : null"
+                [attr.aria-invalid]="!!purchaseError()"
+              />
+              <input
+                type="text"
+                id="currency"
+                name="currency"
+                class="item-form__input item-form__currency"
+                [class.item-form__input--error]="purchaseError()"
+                [(ngModel)]="currency"
+                (ngModelChange)="validatePurchase()"
+                maxlength="3"
+                placeholder="EUR"
+                autocomplete="off"
+                aria-label="Currency code"
+              />
+            </div>
+            @if (purchaseError()) {
+              <span id="purchase-error" class="item-form__error-message" role="alert">
+                {{ purchaseError() }}
+              </span>
+            }
+          </div>
+
+          <!-- Purchase date field -->
+          <div class="item-form__field">
+            <label for="purchaseDate" class="item-form__label">Purchased on</label>
+            <input
+              type="date"
+              id="purchaseDate"
+              name="purchaseDate"
+              class="item-form__input"
+              [(ngModel)]="purchaseDate"
+            />
+          </div>
+
+          <!-- Store field -->
+          <div class="item-form__field">
+            <label for="store" class="item-form__label">Store</label>
+            <input
+              type="text"
+              id="store"
+              name="store"
+              class="item-form__input"
+              [(ngModel)]="store"
+              placeholder="Where it was bought (optional)"
+              maxlength="200"
+            />
+          </div>
+
+          <!-- Warranty field -->
+          <div class="item-form__field">
+            <label for="warrantyExpiresAt" class="item-form__label">Warranty until</label>
+            <input
+              type="date"
+              id="warrantyExpiresAt"
+              name="warrantyExpiresAt"
+              class="item-form__input"
+              [(ngModel)]="warrantyExpiresAt"
+            />
+          </div>
+
+          <!-- Barcode field -->
+          <div class="item-form__field">
+            <label for="barcode" class="item-form__label">Barcode</label>
+            <div class="item-form__barcode-wrapper">
+              <input
+                type="text"
+                id="barcode"
+                name="barcode"
+                class="item-form__input"
+                [(ngModel)]="barcodeText"
+                placeholder="Scan or enter a code (optional)"
+                maxlength="200"
+                autocomplete="off"
+              />
+              <button
+                type="button"
+                class="item-form__quantity-btn"
+                (click)="scanBarcode()"
+                aria-label="Scan barcode"
+              >
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M4 6h2v12H4zm3 0h1v12H7zm2 0h3v12H9zm4 0h1v12h-1zm3 0h2v12h-2zm3 0h1v12h-1z"/>
+                </svg>
+              </button>
+            </div>
+          </div>
+
+          <!-- Tags field -->
+          <div class="item-form__field">
+            <label for="tags" class="item-form__label">Tags</label>
+            <app-tag-input
+              inputId="tags"
+              [tags]="tags()"
+              [suggestions]="tagSuggestions()"
+              (tagsChange)="tags.set($event)"
+            />
+          </div>
+
+          <!-- Custom fields -->
+          @if (fieldDefinitions().length > 0) {
+            <app-custom-fields-editor
+              [fields]="fieldDefinitions()"
+              [values]="customFields()"
+              (valuesChange)="customFields.set($event)"
+            />
+          }
+
+          <!-- Photos -->
+          <div class="item-form__field">
+            <span class="item-form__label">Photos</span>
+            @if (photos().length > 0 || pendingPhotos().length > 0) {
+              <div class="item-form__photos">
+                @for (photo of photos(); track photo.id) {
+                  <div class="item-form__photo">
+                    <img [src]="photo.thumbnailUrl" alt="" />
+                    <button
+                      type="button"
+                      class="item-form__photo-remove"
+                      (click)="removePhoto(photo)"
+                      aria-label="Remove photo"
+                    >
+                      <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                        <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+                      </svg>
+                    </button>
+                  </div>
+                }
+                @for (photo of pendingPhotos(); track photo.key) {
+                  <div class="item-form__photo">
+                    <img [src]="photo.previewUrl" alt="" />
+                    <button
+                      type="button"
+                      class="item-form__photo-remove"
+                      (click)="removePendingPhoto(photo)"
+                      aria-label="Remove photo"
+                    >
+                      <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                        <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+                      </svg>
+                    </button>
+                  </div>
+                }
+              </div>
+            }
+            <div class="item-form__photo-actions">
+              <button
+                type="button"
+                class="btn btn-secondary"
+                (click)="cameraInput.click()"
+                [disabled]="isProcessingPhoto()"
+              >
+                Take Photo
+              </button>
+              <button
+                type="button"
+                class="btn btn-secondary"
+                (click)="galleryInput.click()"
+                [disabled]="isProcessingPhoto()"
+              >
+                {{ isProcessingPhoto() ? 'Processing...' : 'From Gallery' }}
+              </button>
+            </div>
+            <input
+              #cameraInput
+              type="file"
+              accept="image/*"
+              capture="environment"
+              hidden
+              (change)="onPhotosSelected($event)"
+            />
+            <input
+              #galleryInput
+              type="file"
+              accept="image/*"
+              multiple
+              hidden
+              (change)="onPhotosSelected($event)"
+            />
+          </div>
+
           <!-- Submit error -->
           @if (submitError()) {
             <div class="item-form__submit-error" role="alert">
@@ -212,6 +482,13 @@ import { TelegramService } from '../../../telegram/telegram.service';
         </form>
       }
     </div>
+
+    @if (showScanner()) {
+      <app-barcode-scanner
+        (scanned)="onBarcodeScanned($event)"
+        (closed)="showScanner.set(false)"
+      />
+    }
   `,
   styles: [`
     .item-form {
@@ -471,6 +748,83 @@ import { TelegramService } from '../../../telegram/telegram.service';
       }
     }
 
+    /* Barcode field */
+    .item-form__barcode-wrapper {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+    }
+
+    .item-form__price-wrapper {
+      display: flex;
+      gap: var(--spacing-sm);
+
+      .item-form__input {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .item-form__currency {
+        flex: 0 0 88px;
+        text-transform: uppercase;
+      }
+    }
+
+    /* Photos */
+    .item-form__photos {
+      display: flex;
+      flex-wrap: wrap;
+      gap: var(--spacing-sm);
+    }
+
+    .item-form__photo {
+      position: relative;
+      width: 80px;
+      height: 80px;
+      border-radius: var(--radius-md);
+      overflow: hidden;
+      background-color: var(--tg-theme-secondary-bg-color);
+
+      img {
+        width: 100%;
+        height: 100%;
+        object-fit: cover;
+      }
+    }
+
+    .item-form__photo-remove {
+      position: absolute;
+      top: 4px;
+      right: 4px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 28px;
+      height: 28px;
+      padding: 0;
+      background-color: rgba(0, 0, 0, 0.55);
+      color: #fff;
+      border: none;
+      border-radius: var(--radius-full);
+      cursor: pointer;
+
+      svg {
+        width: 16px;
+        height: 16px;
+      }
+    }
+
+    .item-form__photo-actions {
+      display: flex;
+      gap: var(--spacing-sm);
+
+      .btn {
+        flex: 1;
+        font-size: 0.875rem;
+        min-height: 44px;
+      }
+    }
+
     /* Submit error */
     .item-form__submit-error {
       display: flex;
@@ -516,7 +870,11 @@ export class ItemFormComponent implements OnInit, OnDestroy {
   private readonly router = inject(Router);
   private readonly itemApiService = inject(ItemApiService);
   private readonly locationApiService = inject(LocationApiService);
+  private readonly tagApiService = inject(TagApiService);
+  private readonly customFieldApiService = inject(CustomFieldApiService);
+  private readonly imageResizeService = inject(ImageResizeService);
   private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
   private readonly destroyRef = inject(DestroyRef);
 
   /** Item ID for edit mode (from route param) */
@@ -525,6 +883,9 @@ export class ItemFormComponent implements OnInit, OnDestroy {
   /** Location ID for create mode (from route param) */
   readonly locationId = input<string>();
 
+  /** Barcode to prefill in create mode (from query param) */
+  readonly barcode = input<string>();
+
   /** Form field: item name */
   readonly name = signal('');
 
@@ -534,12 +895,57 @@ export class ItemFormComponent implements OnInit, OnDestroy {
   /** Form field: item quantity */
   readonly quantity = signal(1);
 
+  /** Form field: item barcode */
+  readonly barcodeText = signal('');
+
+  /** Form field: low-stock threshold, null when none */
+  readonly minQuantity = signal<number | null>(null);
+
+  /** Form field: expiry date as an ISO calendar date, empty when none */
+  readonly expiresAt = signal('');
+
+  /** Form field: price paid per unit, null when unknown */
+  readonly purchasePrice = signal<number | null>(null);
+
+  /** Form field: ISO 4217 code of the purchase price */
+  readonly currency = signal('');
+
+  /** Form field: purchase date as an ISO calendar date, empty when unknown */
+  readonly purchaseDate = signal('');
+
+  /** Form field: where the item was bought */
+  readonly store = signal('');
+
+  /** Form field: warranty end as an ISO calendar date, empty when none */
+  readonly warrantyExpiresAt = signal('');
+
+  /** Form field: item tags */
+  readonly tags = signal<string[]>([]);
+
+  /** Tags already in use, offered while typing */
+  readonly tagSuggestions = signal<string[]>([]);
+
+  /** Form field: custom field values, keyed by field ID */
+  readonly customFields = signal<CustomFieldValues>({});
+
+  /** Custom fields defined in settings */
+  readonly fieldDefinitions = signal<CustomFieldDefinition[]>([]);
+
+  /** Whether the camera barcode scanner is open */
+  readonly showScanner = signal(false);
+
   /** Name validation error */
   readonly nameError = signal<string | null>(null);
 
   /** Quantity validation error */
   readonly quantityError = signal<string | null>(null);
 
+  /** Low-stock threshold validation error */
+  readonly minQuantityError = signal<string | null>(null);
+
+  /** Purchase price or currency validation error */
+  readonly purchaseError = signal<string | null>(null);
+
   /** Loading state for fetching existing item */
   readonly isLoadingItem = signal(false);
 
@@ -555,6 +961,20 @@ export class ItemFormComponent implements OnInit, OnDestroy {
   /** Location name for display */
   readonly locationName = signal<string | null>(null);
 
+  /** Photos already stored for the item (edit mode) */
+  readonly photos = signal<ItemPhoto[]>([]);
+
+  /** Photos picked in this form, uploaded after save */
+  readonly pendingPhotos = signal<PendingPhoto[]>([]);
+
+  /** Whether a picked photo is being resized */
+  readonly isProcessingPhoto = signal(false);
+
+  /** Stored photos the user removed, deleted after save */
+  private removedPhotoIds: string[] = [];
+
+  private nextPendingPhotoKey = 0;
+
   /** Existing item data for edit mode */
   private existingItem: ItemResponse | null = null;
 
@@ -576,7 +996,8 @@ export class ItemFormComponent implements OnInit, OnDestroy {
   readonly isValid = computed(() => {
     const n = this.name().trim();
     const q = this.quantity();
-    return n.length > 0 && n.length <= 200 && !this.nameError() && q >= 1 && !this.quantityError();
+    return n.length > 0 && n.length <= 200 && !this.nameError() && q >= 1 && !this.quantityError() &&
+      !this.minQuantityError() && !this.purchaseError();
   });
 
   /** Check if running in Telegram */
@@ -589,17 +1010,21 @@ export class ItemFormComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.setupMainButton();
+    this.loadTagSuggestions();
+    this.loadFieldDefinitions();
 
     if (this.isEditMode()) {
       this.loadItem();
     } else if (this.locationId()) {
       this.resolvedLocationId = this.locationId()!;
+      this.barcodeText.set(this.barcode() ?? '');
       this.loadLocationInfo();
     }
   }
 
   ngOnDestroy(): void {
     this.cleanupMainButton();
+    this.pendingPhotos().forEach(photo => URL.revokeObjectURL(photo.previewUrl));
   }
 
   /**
@@ -621,6 +1046,16 @@ export class ItemFormComponent implements OnInit, OnDestroy {
           this.name.set(item.name);
           this.description.set(item.description || '');
           this.quantity.set(item.quantity);
+          this.barcodeText.set(item.barcode || '');
+          this.minQuantity.set(item.minQuantity ?? null);
+          this.expiresAt.set(item.expiresAt ?? '');
+          this.purchasePrice.set(item.purchasePrice ?? null);
+          this.currency.set(item.currency ?? '');
+          this.purchaseDate.set(item.purchaseDate ?? '');
+          this.store.set(item.store ?? '');
+          this.warrantyExpiresAt.set(item.warrantyExpiresAt ?? '');
+          this.tags.set(item.tags ?? []);
+          this.customFields.set(item.customFields ?? {});
           this.locationName.set(item.locationName);
           this.resolvedLocationId = item.locationId;
           this.isLoadingItem.set(false);
@@ -631,6 +1066,14 @@ export class ItemFormComponent implements OnInit, OnDestroy {
           this.isLoadingItem.set(false);
         }
       });
+
+    this.itemApiService
+      .getPhotos(itemId)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (photos) => this.photos.set(photos),
+        error: (err) => console.warn('[ItemForm] Failed to load photos', err)
+      });
   }
 
   /**
@@ -653,6 +1096,36 @@ export class ItemFormComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Load existing tags for autocomplete
+   */
+  private loadTagSuggestions(): void {
+    this.tagApiService
+      .getTags()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (tags) => this.tagSuggestions.set(tags.map(tag => tag.name)),
+        error: () => {
+          // Silently ignore - tags can still be typed without suggestions
+        }
+      });
+  }
+
+  /**
+   * Load custom field definitions
+   */
+  private loadFieldDefinitions(): void {
+    this.customFieldApiService
+      .getFields()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (fields) => this.fieldDefinitions.set(fields),
+        error: () => {
+          // Silently ignore - the item saves fine without custom fields
+        }
+      });
+  }
+
   /**
    * Validate name field
    */
@@ -689,6 +1162,48 @@ export class ItemFormComponent implements OnInit, OnDestroy {
     this.updateMainButton();
   }
 
+  /**
+   * Validate the low-stock threshold; empty means none
+   */
+  validateMinQuantity(): void {
+    const min = this.minQuantity();
+
+    if (min === null) {
+      this.minQuantityError.set(null);
+    } else if (min < 0) {
+      this.minQuantityError.set('Low stock level cannot be negative');
+    } else if (min > 999999) {
+      this.minQuantityError.set('Low stock level must be 999999 or less');
+    } else if (!Number.isInteger(min)) {
+      this.minQuantityError.set('Low stock level must be a whole number');
+    } else {
+      this.minQuantityError.set(null);
+    }
+
+    this.updateMainButton();
+  }
+
+  /**
+   * Validate the purchase price; a price needs a currency code
+   */
+  validatePurchase(): void {
+    const price = this.purchasePrice();
+    const currency = this.currency().trim();
+
+    if (price === null) {
+      this.purchaseError.set(null);
+    } else if (price < 0) {
+      this.purchaseError.set('Purchase price cannot be negative');
+    } else if (!/^[A-Za-z]{3}$/.test(currency)) {
+      this.purchaseError.set('Enter a 3-letter currency code, e.g. EUR');
+    } else {
+      this.purchaseError.set(null);
+    }
+
+    this.updateMainButton();
+  }
+
+
   /**
    * Increment quantity
    */
@@ -711,6 +1226,77 @@ export class ItemFormComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Scan a barcode with the Telegram QR popup, or the camera outside Telegram
+   */
+  async scanBarcode(): Promise<void> {
+    this.triggerHapticFeedback();
+
+    if (!this.telegramService.canScanQr()) {
+      this.showScanner.set(true);
+      return;
+    }
+
+    const code = await this.telegramService.scanQr('Scan the item barcode');
+    if (code) {
+      this.onBarcodeScanned(code);
+    }
+  }
+
+  /**
+   * Fill the barcode field with a scanned code
+   */
+  onBarcodeScanned(code: string): void {
+    this.showScanner.set(false);
+    this.barcodeText.set(code.trim());
+    this.triggerHapticFeedback('success');
+  }
+
+  /**
+   * Resize picked photos and add them to the upload list
+   */
+  async onPhotosSelected(event: Event): Promise<void> {
+    const fileInput = event.target as HTMLInputElement;
+    const files = Array.from(fileInput.files ?? []);
+    // Reset so picking the same file again still fires a change event
+    fileInput.value = '';
+
+    if (files.length === 0) return;
+
+    this.isProcessingPhoto.set(true);
+    for (const file of files) {
+      try {
+        const blob = await this.imageResizeService.resize(file);
+        this.pendingPhotos.update(photos => [
+          ...photos,
+          { key: this.nextPendingPhotoKey++, blob, previewUrl: URL.createObjectURL(blob) }
+        ]);
+      } catch (err) {
+        console.warn('[ItemForm] Failed to process photo', file.name, err);
+        this.toastService.error(`Could not read "${file.name}"`);
+      }
+    }
+    this.isProcessingPhoto.set(false);
+  }
+
+  /**
+   * Remove a stored photo (deleted when the item is saved)
+   */
+  removePhoto(photo: ItemPhoto): void {
+    this.triggerHapticFeedback();
+    this.removedPhotoIds.push(photo.id);
+    this.photos.update(photos => photos.filter(p => p.id !== photo.id));
+  }
+
+  /**
+   * Remove a photo that has not been uploaded yet
+   */
+  removePendingPhoto(photo: PendingPhoto): void {
+    this.triggerHapticFeedback();
+    URL.revokeObjectURL(photo.previewUrl);
+    this.pendingPhotos.update(photos => photos.filter(p => p.key !== photo.key));
+  }
+
   /**
    * Handle back button click - navigate to location without saving
    */
@@ -732,8 +1318,10 @@ export class ItemFormComponent implements OnInit, OnDestroy {
     // Trigger validation
     this.validateName();
     this.validateQuantity();
+    this.validateMinQuantity();
+    this.validatePurchase();
 
-    if (!this.isValid() || this.isSaving()) {
+    if (!this.isValid() || this.isSaving() || this.isProcessingPhoto()) {
       return;
     }
 
@@ -761,7 +1349,17 @@ export class ItemFormComponent implements OnInit, OnDestroy {
       name: this.name().trim(),
       description: this.description().trim() || undefined,
       quantity: this.quantity(),
-      locationId: this.resolvedLocationId
+      locationId: this.resolvedLocationId,
+      barcode: this.barcodeText().trim() || undefined,
+      minQuantity: this.minQuantity() ?? undefined,
+      expiresAt: this.expiresAt() || undefined,
+      purchasePrice: this.purchasePrice() ?? undefined,
+      currency: this.purchasePrice() !== null ? this.currency().trim().toUpperCase() : undefined,
+      purchaseDate: this.purchaseDate() || undefined,
+      store: this.store().trim() || undefined,
+      warrantyExpiresAt: this.warrantyExpiresAt() || undefined,
+      tags: this.tags(),
+      customFields: this.customFields()
     };
 
     this.itemApiService
@@ -769,11 +1367,21 @@ export class ItemFormComponent implements OnInit, OnDestroy {
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: (item) => {
-          this.triggerHapticFeedback('success');
-          this.isSaving.set(false);
-          this.router.navigate(['/item', item.id]);
+          this.savePhotoChanges(item.id).subscribe(() => {
+            this.triggerHapticFeedback('success');
+            this.isSaving.set(false);
+            this.router.navigate(['/item', item.id]);
+          });
         },
         error: (err) => {
+          if (err.queued) {
+            // Saved to the offline outbox; it will be created once the connection returns
+            this.isSaving.set(false);
+            this.toastService.info(err.message, 5000);
+            this.warnPhotosNotQueued();
+            this.router.navigate(['/location', this.resolvedLocationId]);
+            return;
+          }
           this.triggerHapticFeedback('error');
           this.submitError.set(err.message || 'Failed to create item');
           this.isSaving.set(false);
@@ -789,19 +1397,39 @@ export class ItemFormComponent implements OnInit, OnDestroy {
     const request: UpdateItemRequest = {
       name: this.name().trim(),
       description: this.description().trim() || undefined,
-      quantity: this.quantity()
+      quantity: this.quantity(),
+      barcode: this.barcodeText().trim() || undefined,
+      minQuantity: this.minQuantity(),
+      expiresAt: this.expiresAt() || null,
+      purchasePrice: this.purchasePrice(),
+      currency: this.purchasePrice() !== null ? this.currency().trim().toUpperCase() : null,
+      purchaseDate: this.purchaseDate() || null,
+      store: this.store().trim() || null,
+      warrantyExpiresAt: this.warrantyExpiresAt() || null,
+      tags: this.tags(),
+      customFields: this.customFields()
     };
 
     this.itemApiService
-      .updateItem(itemId, request)
+      .updateItem(itemId, request, this.existingItem ?? undefined)
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: () => {
-          this.triggerHapticFeedback('success');
-          this.isSaving.set(false);
-          this.router.navigate(['/item', itemId]);
+          this.savePhotoChanges(itemId).subscribe(() => {
+            this.triggerHapticFeedback('success');
+            this.isSaving.set(false);
+            this.router.navigate(['/item', itemId]);
+          });
         },
         error: (err) => {
+          if (err.queued) {
+            // Saved to the offline outbox; it will be applied once the connection returns
+            this.isSaving.set(false);
+            this.toastService.info(err.message, 5000);
+            this.warnPhotosNotQueued();
+            this.router.navigate(['/item', itemId]);
+            return;
+          }
           this.triggerHapticFeedback('error');
           this.submitError.set(err.message || 'Failed to update item');
           this.isSaving.set(false);
@@ -810,6 +1438,46 @@ export class ItemFormComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Upload picked photos and delete removed ones.
+   * Failures do not block navigation; the user is told how many failed.
+   */
+  private savePhotoChanges(itemId: string): Observable<void> {
+    const requests: Observable<unknown>[] = [
+      ...this.removedPhotoIds.map(photoId => this.itemApiService.deletePhoto(itemId, photoId)),
+      ...this.pendingPhotos().map(photo => this.itemApiService.uploadPhoto(itemId, photo.blob))
+    ];
+
+    if (requests.length === 0) {
+      return of(undefined);
+    }
+
+    return forkJoin(requests.map(request => request.pipe(
+      map(() => true),
+      catchError(() => of(false))
+    ))).pipe(
+      map(results => {
+        const failedCount = results.filter(ok => !ok).length;
+        if (failedCount > 0) {
+          this.toastService.warning(
+            `${failedCount} photo change${failedCount === 1 ? '' : 's'} could not be saved`,
+            5000
+          );
+        }
+      }),
+      takeUntilDestroyed(this.destroyRef)
+    );
+  }
+
+  /**
+   * Photos are not kept in the offline outbox; tell the user they were dropped
+   */
+  private warnPhotosNotQueued(): void {
+    if (this.pendingPhotos().length > 0 || this.removedPhotoIds.length > 0) {
+      this.toastService.warning('Photo changes need a connection and were not saved', 5000);
+    }
+  }
+
   private setupMainButton(): void {
     this.updateMainButton();
     this.telegramService.onMainButtonClick(this.mainButtonCallback);
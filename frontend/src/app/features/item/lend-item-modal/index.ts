@@ -0,0 +1 @@
+export * from './lend-item-modal.component';
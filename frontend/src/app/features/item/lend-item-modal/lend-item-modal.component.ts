@@ -0,0 +1,517 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  signal,
+  inject,
+  DestroyRef,
+  computed
+} from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Loan, LoanApiService } from '../../../core/api/loan-api.service';
+import { TelegramService } from '../../../telegram/telegram.service';
+import { ErrorToastService } from '../../../shared/components/error-toast';
+
+/** Longest allowed borrower name */
+const MAX_BORROWER_NAME_LENGTH = 100;
+
+/** Telegram usernames: 5-32 letters, digits and underscores, optional leading "@" */
+const TELEGRAM_USERNAME = /^@?[A-Za-z0-9_]{5,32}$/;
+
+/**
+ * LendItemModalComponent records units of an item lent to someone.
+ *
+ * Features:
+ * - Borrower name, optionally with their Telegram username
+ * - How many units to lend (when there is more than one)
+ * - Optional due date; the bot reminds the user once it has passed
+ * - Mobile-first bottom sheet style
+ */
+@Component({
+  selector: 'app-lend-item-modal',
+  standalone: true,
+  imports: [FormsModule],
+  template: `
+    <!-- Backdrop -->
+    <div
+      class="lend-item-modal__backdrop"
+      (click)="onClose()"
+      role="presentation"
+    ></div>
+
+    <!-- Bottom sheet / Modal -->
+    <div
+      class="lend-item-modal__sheet"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="lend-item-title"
+    >
+      <!-- Header -->
+      <div class="lend-item-modal__header">
+        <div class="lend-item-modal__header-content">
+          <h2 id="lend-item-title" class="lend-item-modal__title">Lend Item</h2>
+          @if (itemName()) {
+            <p class="lend-item-modal__subtitle">{{ itemName() }}</p>
+          }
+        </div>
+        <button
+          type="button"
+          class="lend-item-modal__close"
+          (click)="onClose()"
+          aria-label="Close lend dialog"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+          </svg>
+        </button>
+      </div>
+
+      <form class="lend-item-modal__content" (ngSubmit)="confirmLend()">
+        <div class="lend-item-modal__field">
+          <label for="borrowerName" class="lend-item-modal__label">Lent to</label>
+          <input
+            type="text"
+            id="borrowerName"
+            name="borrowerName"
+            class="lend-item-modal__input"
+            [(ngModel)]="borrowerName"
+            [maxlength]="maxNameLength"
+            placeholder="Borrower's name"
+            autocomplete="off"
+          />
+        </div>
+
+        <div class="lend-item-modal__field">
+          <label for="borrowerUsername" class="lend-item-modal__label">Telegram username</label>
+          <input
+            type="text"
+            id="borrowerUsername"
+            name="borrowerUsername"
+            class="lend-item-modal__input"
+            [class.lend-item-modal__input--error]="usernameError()"
+            [(ngModel)]="borrowerUsername"
+            placeholder="@username (optional)"
+            maxlength="33"
+            autocomplete="off"
+            autocapitalize="off"
+            [attr.aria-describedby]="usernameError() ? 'username-error' : null"
+            [attr.aria-invalid]="!!usernameError()"
+          />
+          @if (usernameError()) {
+            <span id="username-error" class="lend-item-modal__error-message" role="alert">
+              {{ usernameError() }}
+            </span>
+          }
+        </div>
+
+        @if (available() > 1) {
+          <div class="lend-item-modal__field">
+            <label for="lendQuantity" class="lend-item-modal__label">How many (of {{ available() }})</label>
+            <input
+              type="number"
+              id="lendQuantity"
+              name="lendQuantity"
+              class="lend-item-modal__input"
+              [class.lend-item-modal__input--error]="quantityError()"
+              [(ngModel)]="quantity"
+              min="1"
+              [max]="available()"
+              inputmode="numeric"
+              [attr.aria-describedby]="quantityError() ? 'lend-quantity-error' : null"
+              [attr.aria-invalid]="!!quantityError()"
+            />
+            @if (quantityError()) {
+              <span id="lend-quantity-error" class="lend-item-modal__error-message" role="alert">
+                {{ quantityError() }}
+              </span>
+            }
+          </div>
+        }
+
+        <div class="lend-item-modal__field">
+          <label for="dueAt" class="lend-item-modal__label">Due back</label>
+          <input
+            type="date"
+            id="dueAt"
+            name="dueAt"
+            class="lend-item-modal__input"
+            [(ngModel)]="dueAt"
+          />
+        </div>
+
+        <!-- Actions -->
+        <div class="lend-item-modal__actions">
+          <button
+            type="button"
+            class="lend-item-modal__btn lend-item-modal__btn--cancel"
+            (click)="onClose()"
+            [disabled]="isSaving()"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            class="lend-item-modal__btn lend-item-modal__btn--confirm"
+            [disabled]="!isValid() || isSaving()"
+          >
+            @if (isSaving()) {
+              <div class="lend-item-modal__btn-spinner"></div>
+              Saving...
+            } @else {
+              Lend
+            }
+          </button>
+        </div>
+      </form>
+    </div>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+
+    .lend-item-modal__backdrop {
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.5);
+      z-index: var(--z-modal-backdrop);
+      animation: fadeIn 0.2s ease;
+    }
+
+    @keyframes fadeIn {
+      from { opacity: 0; }
+      to { opacity: 1; }
+    }
+
+    .lend-item-modal__sheet {
+      position: fixed;
+      bottom: 0;
+      left: 0;
+      right: 0;
+      background-color: var(--tg-theme-bg-color);
+      border-radius: var(--radius-xl) var(--radius-xl) 0 0;
+      z-index: var(--z-modal);
+      animation: slideUp 0.3s ease;
+      max-height: 85vh;
+      display: flex;
+      flex-direction: column;
+    }
+
+    @keyframes slideUp {
+      from {
+        transform: translateY(100%);
+        opacity: 0;
+      }
+      to {
+        transform: translateY(0);
+        opacity: 1;
+      }
+    }
+
+    /* Tablet and desktop: center the dialog */
+    @media (min-width: 600px) {
+      .lend-item-modal__sheet {
+        top: 50%;
+        left: 50%;
+        right: auto;
+        bottom: auto;
+        transform: translate(-50%, -50%);
+        border-radius: var(--radius-xl);
+        max-width: 480px;
+        width: 90%;
+        max-height: 70vh;
+        animation: scaleIn 0.2s ease;
+      }
+
+      @keyframes scaleIn {
+        from {
+          opacity: 0;
+          transform: translate(-50%, -50%) scale(0.95);
+        }
+        to {
+          opacity: 1;
+          transform: translate(-50%, -50%) scale(1);
+        }
+      }
+    }
+
+    .lend-item-modal__header {
+      display: flex;
+      align-items: flex-start;
+      justify-content: space-between;
+      padding: var(--spacing-md) var(--spacing-md) var(--spacing-sm);
+      border-bottom: 1px solid var(--tg-theme-secondary-bg-color);
+      flex-shrink: 0;
+    }
+
+    .lend-item-modal__header-content {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .lend-item-modal__title {
+      font-size: 1.125rem;
+      font-weight: 600;
+      color: var(--tg-theme-text-color);
+      margin: 0;
+    }
+
+    .lend-item-modal__subtitle {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      margin: 4px 0 0 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .lend-item-modal__close {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 40px;
+      height: 40px;
+      border-radius: var(--radius-full);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: none;
+      cursor: pointer;
+      transition: opacity var(--transition-fast);
+      flex-shrink: 0;
+
+      &:active {
+        opacity: 0.7;
+      }
+
+      svg {
+        width: 20px;
+        height: 20px;
+        color: var(--tg-theme-text-color);
+      }
+    }
+
+    .lend-item-modal__content {
+      flex: 1;
+      overflow-y: auto;
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-md) + env(safe-area-inset-bottom, 0px));
+    }
+
+    .lend-item-modal__field {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+    }
+
+    .lend-item-modal__label {
+      font-size: 0.875rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+    }
+
+    .lend-item-modal__input {
+      width: 100%;
+      min-height: 52px;
+      padding: var(--spacing-md);
+      font-size: 1rem;
+      font-family: inherit;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-md);
+      transition: border-color var(--transition-fast), background-color var(--transition-fast);
+
+      &::placeholder {
+        color: var(--tg-theme-hint-color);
+      }
+
+      &:focus {
+        outline: none;
+        border-color: var(--tg-theme-button-color);
+        background-color: var(--tg-theme-bg-color);
+      }
+    }
+
+    .lend-item-modal__input--error {
+      border-color: var(--tg-theme-destructive-text-color);
+
+      &:focus {
+        border-color: var(--tg-theme-destructive-text-color);
+      }
+    }
+
+    .lend-item-modal__error-message {
+      font-size: 0.75rem;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .lend-item-modal__actions {
+      display: flex;
+      gap: var(--spacing-sm);
+      padding-top: var(--spacing-sm);
+    }
+
+    .lend-item-modal__btn {
+      flex: 1;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-md);
+      font-size: 1rem;
+      font-weight: 500;
+      border: none;
+      border-radius: var(--radius-md);
+      cursor: pointer;
+      transition: opacity var(--transition-fast), transform var(--transition-fast);
+      min-height: 52px;
+
+      &:active:not(:disabled) {
+        transform: scale(0.98);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+
+    .lend-item-modal__btn--cancel {
+      background-color: var(--tg-theme-secondary-bg-color);
+      color: var(--tg-theme-text-color);
+    }
+
+    .lend-item-modal__btn--confirm {
+      background-color: var(--tg-theme-button-color);
+      color: var(--tg-theme-button-text-color);
+    }
+
+    .lend-item-modal__btn-spinner {
+      width: 18px;
+      height: 18px;
+      border: 2px solid rgba(255, 255, 255, 0.3);
+      border-top-color: currentColor;
+      border-radius: 50%;
+      animation: spin 0.8s linear infinite;
+    }
+
+    @keyframes spin {
+      to { transform: rotate(360deg); }
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class LendItemModalComponent {
+  private readonly loanApiService = inject(LoanApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** ID of the item to lend */
+  readonly itemId = input.required<string>();
+
+  /** Name of the item (for display in header) */
+  readonly itemName = input<string>('');
+
+  /** Units that can be lent; one stays at hand, as an item's quantity is at least 1 */
+  readonly available = input.required<number>();
+
+  /** Emitted with the new loan once it is saved */
+  readonly lent = output<Loan>();
+
+  /** Emitted when modal is closed without lending */
+  readonly closed = output<void>();
+
+  readonly maxNameLength = MAX_BORROWER_NAME_LENGTH;
+
+  /** Form field: who the item is lent to */
+  readonly borrowerName = signal('');
+
+  /** Form field: borrower's Telegram username, with or without "@" */
+  readonly borrowerUsername = signal('');
+
+  /** Form field: units to lend */
+  readonly quantity = signal(1);
+
+  /** Form field: due date as an ISO calendar date, empty when none */
+  readonly dueAt = signal('');
+
+  /** Saving state */
+  readonly isSaving = signal(false);
+
+  readonly usernameError = computed(() => {
+    const username = this.borrowerUsername().trim();
+    return username && !TELEGRAM_USERNAME.test(username)
+      ? 'Usernames are 5-32 letters, digits or underscores'
+      : null;
+  });
+
+  readonly quantityError = computed(() => {
+    const quantity = this.quantity();
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return 'Lend at least one';
+    }
+    return quantity > this.available() ? `Only ${this.available()} at hand` : null;
+  });
+
+  readonly isValid = computed(() =>
+    this.borrowerName().trim().length > 0 && !this.usernameError() && !this.quantityError()
+  );
+
+  /**
+   * Save the loan
+   */
+  confirmLend(): void {
+    if (!this.isValid() || this.isSaving()) {
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.isSaving.set(true);
+
+    this.loanApiService
+      .lendItem(this.itemId(), {
+        borrowerName: this.borrowerName().trim(),
+        borrowerUsername: this.borrowerUsername().trim().replace(/^@/, '') || undefined,
+        quantity: this.quantity(),
+        dueAt: this.dueAt() || undefined
+      })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (loan) => {
+          this.isSaving.set(false);
+          this.toastService.success(`Lent to ${loan.borrowerName}`);
+          this.lent.emit(loan);
+        },
+        error: (err) => {
+          this.isSaving.set(false);
+          this.toastService.error(err.message || 'Failed to lend the item');
+        }
+      });
+  }
+
+  /**
+   * Close the modal
+   */
+  onClose(): void {
+    if (this.isSaving()) {
+      return;
+    }
+    this.closed.emit();
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
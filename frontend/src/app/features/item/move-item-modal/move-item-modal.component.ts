@@ -12,7 +12,9 @@ import {
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { LocationApiService, LocationTreeNode } from '../../../core/api/location-api.service';
 import { ItemApiService } from '../../../core/api/item-api.service';
+import { canEdit } from '../../../core/auth/permissions';
 import { TelegramService } from '../../../telegram/telegram.service';
+import { ErrorToastService } from '../../../shared/components/error-toast';
 
 /**
  * MoveItemModalComponent displays a modal for moving an item to a different location.
@@ -102,10 +104,10 @@ import { TelegramService } from '../../../telegram/telegram.service';
               type="button"
               class="move-item-modal__item"
               [class.move-item-modal__item--selected]="selectedLocationId() === flatNode.node.id"
-              [class.move-item-modal__item--disabled]="flatNode.node.id === currentLocationId()"
+              [class.move-item-modal__item--disabled]="isUnavailable(flatNode.node)"
               [style.padding-left.px]="16 + (flatNode.depth * 24)"
               (click)="selectLocation(flatNode.node)"
-              [disabled]="flatNode.node.id === currentLocationId()"
+              [disabled]="isUnavailable(flatNode.node)"
             >
               <!-- Expand/collapse toggle -->
               @if (flatNode.hasChildren) {
@@ -137,6 +139,8 @@ import { TelegramService } from '../../../telegram/telegram.service';
                 {{ flatNode.node.name }}
                 @if (flatNode.node.id === currentLocationId()) {
                   <span class="move-item-modal__current-badge">(current)</span>
+                } @else if (isReadOnly(flatNode.node)) {
+                  <span class="move-item-modal__current-badge">(view only)</span>
                 }
               </span>
 
@@ -568,6 +572,7 @@ export class MoveItemModalComponent implements OnInit {
   private readonly locationApiService = inject(LocationApiService);
   private readonly itemApiService = inject(ItemApiService);
   private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
   private readonly destroyRef = inject(DestroyRef);
 
   /** ID of the item to move */
@@ -579,6 +584,9 @@ export class MoveItemModalComponent implements OnInit {
   /** Name of the item (for display in header) */
   readonly itemName = input<string>('');
 
+  /** updatedAt of the item being moved (for offline conflict detection) */
+  readonly itemUpdatedAt = input<string>();
+
   /** Emitted when item is successfully moved */
   readonly moved = output<void>();
 
@@ -733,11 +741,25 @@ export class MoveItemModalComponent implements OnInit {
     });
   }
 
+  /**
+   * Whether the user may only view a location, so items cannot be moved there
+   */
+  isReadOnly(node: LocationTreeNode): boolean {
+    return !canEdit(node.role);
+  }
+
+  /**
+   * Whether a location cannot be picked: the current one, or one the user may only view
+   */
+  isUnavailable(node: LocationTreeNode): boolean {
+    return node.id === this.currentLocationId() || this.isReadOnly(node);
+  }
+
   /**
    * Select a location
    */
   selectLocation(node: LocationTreeNode): void {
-    if (node.id === this.currentLocationId()) {
+    if (this.isUnavailable(node)) {
       return;
     }
 
@@ -759,7 +781,7 @@ export class MoveItemModalComponent implements OnInit {
     this.error.set(null);
 
     this.itemApiService
-      .moveItem(this.itemId(), selectedId)
+      .moveItem(this.itemId(), selectedId, this.buildMoveBase())
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: () => {
@@ -767,6 +789,13 @@ export class MoveItemModalComponent implements OnInit {
           this.moved.emit();
         },
         error: (err) => {
+          if (err.queued) {
+            // Move was saved to the offline outbox
+            this.isMoving.set(false);
+            this.toastService.info(err.message, 5000);
+            this.closed.emit();
+            return;
+          }
           this.error.set(err.message || 'Failed to move item');
           this.isMoving.set(false);
           this.triggerHapticFeedback('error');
@@ -774,6 +803,11 @@ export class MoveItemModalComponent implements OnInit {
       });
   }
 
+  private buildMoveBase(): { name: string; updatedAt: string } | undefined {
+    const updatedAt = this.itemUpdatedAt();
+    return updatedAt ? { name: this.itemName(), updatedAt } : undefined;
+  }
+
   /**
    * Close the modal
    */
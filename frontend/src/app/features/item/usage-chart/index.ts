@@ -0,0 +1 @@
+export * from './usage-chart.component';
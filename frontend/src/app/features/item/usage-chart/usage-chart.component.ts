@@ -0,0 +1,225 @@
+import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
+import { QuantityLogEntry } from '../../../core/api/item-api.service';
+
+/** Days the usage summary looks back */
+const SUMMARY_DAYS = 30;
+
+/** Log entries listed under the chart */
+const RECENT_ENTRIES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Chart drawing area, in SVG units */
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+/**
+ * UsageChartComponent shows how an item's quantity changed over time.
+ *
+ * Features:
+ * - Step chart of the quantity from the first logged change until now
+ * - Amount used in the last 30 days and the weekly rate
+ * - The most recent changes with their time
+ */
+@Component({
+  selector: 'app-usage-chart',
+  standalone: true,
+  template: `
+    @if (points().length < 2) {
+      <p class="usage-chart__empty">Quantity changes show up here as a usage history.</p>
+    } @else {
+      <svg
+        class="usage-chart__svg"
+        [attr.viewBox]="'0 0 ' + width + ' ' + height"
+        preserveAspectRatio="none"
+        role="img"
+        [attr.aria-label]="summary()"
+      >
+        <path class="usage-chart__area" [attr.d]="areaPath()" />
+        <path class="usage-chart__line" [attr.d]="linePath()" vector-effect="non-scaling-stroke" />
+      </svg>
+      <div class="usage-chart__axis" aria-hidden="true">
+        <span>{{ startLabel() }}</span>
+        <span>Now</span>
+      </div>
+      <p class="usage-chart__summary">{{ summary() }}</p>
+    }
+
+    @if (recent().length > 0) {
+      <ul class="usage-chart__log" aria-label="Recent changes">
+        @for (entry of recent(); track entry.id) {
+          <li class="usage-chart__log-entry">
+            <span
+              class="usage-chart__delta"
+              [class.usage-chart__delta--used]="entry.delta < 0"
+            >
+              {{ entry.delta > 0 ? '+' + entry.delta : '−' + -entry.delta }}
+            </span>
+            <span class="usage-chart__log-quantity">→ {{ entry.quantity }}</span>
+            <time class="usage-chart__log-time" [attr.datetime]="entry.createdAt">{{ formatTime(entry.createdAt) }}</time>
+          </li>
+        }
+      </ul>
+    }
+  `,
+  styles: [`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      padding-top: var(--spacing-xs);
+    }
+
+    .usage-chart__empty,
+    .usage-chart__summary {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+      margin: 0;
+    }
+
+    .usage-chart__svg {
+      width: 100%;
+      height: 96px;
+      display: block;
+    }
+
+    .usage-chart__area {
+      fill: color-mix(in srgb, var(--tg-theme-button-color) 15%, transparent);
+    }
+
+    .usage-chart__line {
+      fill: none;
+      stroke: var(--tg-theme-button-color);
+      stroke-width: 2;
+    }
+
+    .usage-chart__axis {
+      display: flex;
+      justify-content: space-between;
+      font-size: 0.6875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .usage-chart__log {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .usage-chart__log-entry {
+      display: flex;
+      align-items: baseline;
+      gap: var(--spacing-sm);
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .usage-chart__delta {
+      min-width: 3ch;
+      font-weight: 600;
+      color: var(--tg-theme-button-color);
+      font-variant-numeric: tabular-nums;
+    }
+
+    .usage-chart__delta--used {
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .usage-chart__log-time {
+      margin-left: auto;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class UsageChartComponent {
+  /** The item's consumption log, in any order */
+  readonly entries = input<QuantityLogEntry[]>([]);
+
+  readonly width = CHART_WIDTH;
+  readonly height = CHART_HEIGHT;
+
+  /** Log entries oldest first */
+  private readonly sorted = computed(() =>
+    [...this.entries()].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  );
+
+  /** Quantity over time, ending with the current quantity now */
+  readonly points = computed(() => {
+    const points = this.sorted().map(entry => ({ time: new Date(entry.createdAt).getTime(), quantity: entry.quantity }));
+    if (points.length > 0) {
+      points.push({ time: Date.now(), quantity: points[points.length - 1].quantity });
+    }
+    return points;
+  });
+
+  /** Quantity line; holds each value until the next change */
+  readonly linePath = computed(() => {
+    const coords = this.stepCoords();
+    return coords.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+  });
+
+  /** Area under the quantity line */
+  readonly areaPath = computed(() => {
+    const coords = this.stepCoords();
+    if (coords.length === 0) return '';
+    const first = coords[0][0].toFixed(1);
+    const last = coords[coords.length - 1][0].toFixed(1);
+    return `${this.linePath()} L${last},${CHART_HEIGHT} L${first},${CHART_HEIGHT} Z`;
+  });
+
+  readonly startLabel = computed(() => {
+    const first = this.points()[0];
+    return first ? new Date(first.time).toLocaleDateString() : '';
+  });
+
+  /** Amount used recently and the weekly rate, e.g. "Used 6 in the last 30 days, about 1.4 a week" */
+  readonly summary = computed(() => {
+    const now = Date.now();
+    const since = now - SUMMARY_DAYS * DAY_MS;
+    const entries = this.sorted();
+    const used = entries
+      .filter(entry => entry.delta < 0 && new Date(entry.createdAt).getTime() >= since)
+      .reduce((total, entry) => total - entry.delta, 0);
+    if (used === 0) {
+      return `Nothing used in the last ${SUMMARY_DAYS} days`;
+    }
+
+    // A log younger than the window would understate the rate over the full window
+    const firstTime = entries.length > 0 ? new Date(entries[0].createdAt).getTime() : now;
+    const days = Math.max(1, (now - Math.max(since, firstTime)) / DAY_MS);
+    const perWeek = Math.round((used / days) * 7 * 10) / 10;
+    return `Used ${used} in the last ${SUMMARY_DAYS} days, about ${perWeek} a week`;
+  });
+
+  /** Most recent changes, newest first */
+  readonly recent = computed(() => this.sorted().slice(-RECENT_ENTRIES).reverse());
+
+  formatTime(date: string): string {
+    return new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  }
+
+  /**
+   * Chart coordinates of the step line
+   */
+  private stepCoords(): [number, number][] {
+    const points = this.points();
+    if (points.length < 2) return [];
+
+    const start = points[0].time;
+    const span = Math.max(1, points[points.length - 1].time - start);
+    const max = Math.max(1, ...points.map(point => point.quantity));
+    const x = (time: number) => ((time - start) / span) * CHART_WIDTH;
+    // Leave a little room above the highest value
+    const y = (quantity: number) => CHART_HEIGHT - (quantity / max) * CHART_HEIGHT * 0.9;
+
+    const coords: [number, number][] = [[x(points[0].time), y(points[0].quantity)]];
+    for (let i = 1; i < points.length; i++) {
+      coords.push([x(points[i].time), y(points[i - 1].quantity)]);
+      coords.push([x(points[i].time), y(points[i].quantity)]);
+    }
+    return coords;
+  }
+}
@@ -0,0 +1,484 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  input,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { LocationApiService, LocationTreeNode } from '../../core/api/location-api.service';
+import { DeepLinkService } from '../../core/deep-link.service';
+import { HouseholdService } from '../../core/household/household.service';
+import { FileDeliveryService } from '../../core/export/file-delivery.service';
+import { LABELS_PER_PAGE, LabelSheetService, QrLabel } from '../../core/labels/label-sheet.service';
+import { QrCodeComponent } from '../../shared/components/qr-code';
+import { LocationPickerComponent } from '../../shared/components/location-picker';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * QR label sheet generator
+ *
+ * Features:
+ * - Labels for a chosen subtree of the location tree (or all locations)
+ * - Each label encodes a deep link that opens the location in the Mini App
+ * - A4 layout with 21 labels per page, previewed on screen and printed as is
+ * - Inside Telegram, where webviews cannot print, the sheets are sent to the chat as a PDF
+ * - Option to print only the chosen location without its sub-locations
+ */
+@Component({
+  selector: 'app-labels',
+  standalone: true,
+  imports: [QrCodeComponent, LocationPickerComponent, LoadingSpinnerComponent, EmptyStateComponent],
+  template: `
+    <div class="labels">
+      <div class="labels__controls no-print">
+        <header class="labels__header">
+          <h1 class="labels__title">QR Labels</h1>
+        </header>
+
+        @if (isLoading()) {
+          <app-loading-spinner size="medium" message="Loading locations..." />
+        }
+
+        @if (error()) {
+          <div class="labels__error">
+            <svg class="labels__error-icon" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+            </svg>
+            <p class="labels__error-text">{{ error() }}</p>
+            <button type="button" class="btn btn-secondary" (click)="loadTree()">
+              Try Again
+            </button>
+          </div>
+        }
+
+        @if (!isLoading() && !error()) {
+          <button
+            type="button"
+            class="labels__picker-btn"
+            (click)="showLocationPicker.set(true)"
+          >
+            <span class="labels__picker-label">Locations</span>
+            <span class="labels__picker-value">{{ rootNode()?.name ?? 'All locations' }}</span>
+          </button>
+
+          @if (rootNode()) {
+            <label class="labels__option">
+              <input
+                type="checkbox"
+                [checked]="includeSublocations()"
+                (change)="includeSublocations.set(!includeSublocations())"
+              />
+              Include sub-locations
+            </label>
+          }
+
+          <p class="labels__summary">
+            {{ labels().length }} {{ labels().length === 1 ? 'label' : 'labels' }}
+            on {{ pages().length }} A4 {{ pages().length === 1 ? 'page' : 'pages' }}
+          </p>
+
+          <button
+            type="button"
+            class="btn btn-primary labels__print-btn"
+            [disabled]="labels().length === 0 || isExporting()"
+            (click)="print()"
+          >
+            @if (inTelegram) {
+              {{ isExporting() ? 'Creating PDF...' : 'Send PDF to Chat' }}
+            } @else {
+              Print
+            }
+          </button>
+        }
+      </div>
+
+      @if (!isLoading() && !error() && labels().length === 0) {
+        <app-empty-state
+          icon="empty-locations"
+          title="No locations"
+          message="Create a location to print labels for it."
+        />
+      }
+
+      <!-- Sheets -->
+      @for (page of pages(); track $index) {
+        <div class="labels__page">
+          @for (label of page; track label.id) {
+            <div class="labels__label">
+              <app-qr-code
+                class="labels__qr"
+                [value]="label.link"
+                [label]="'Open ' + label.name + ' in StuffTracker'"
+              />
+              <div class="labels__text">
+                <span class="labels__name">{{ label.name }}</span>
+                @if (label.path.length > 0) {
+                  <span class="labels__path">{{ label.path.join(' / ') }}</span>
+                }
+              </div>
+            </div>
+          }
+        </div>
+      }
+    </div>
+
+    @if (showLocationPicker()) {
+      <app-location-picker
+        class="no-print"
+        [locations]="tree()"
+        [selectedId]="rootNode()?.id"
+        (locationSelected)="onRootSelected($event)"
+        (closed)="showLocationPicker.set(false)"
+      />
+    }
+  `,
+  styles: [`
+    .labels {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-xl) + 60px);
+    }
+
+    .labels__controls {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+    }
+
+    .labels__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .labels__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .labels__picker-btn {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: var(--spacing-md);
+      width: 100%;
+      min-height: 52px;
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border: none;
+      border-radius: var(--radius-lg);
+      cursor: pointer;
+      text-align: left;
+
+      &:active {
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+    }
+
+    .labels__picker-label {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .labels__picker-value {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-link-color);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .labels__option {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      min-height: 44px;
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+
+      input {
+        width: 20px;
+        height: 20px;
+        accent-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .labels__summary {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .labels__print-btn {
+      width: 100%;
+      min-height: 52px;
+    }
+
+    .labels__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .labels__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .labels__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    /* A4 sheet; sizes inside use container units so the preview scales with the screen */
+    .labels__page {
+      container-type: inline-size;
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      grid-template-rows: repeat(7, 1fr);
+      width: 100%;
+      max-width: 210mm;
+      aspect-ratio: 210 / 297;
+      margin: 0 auto;
+      background-color: #fff;
+      color: #000;
+      box-shadow: var(--shadow-md);
+    }
+
+    .labels__label {
+      display: flex;
+      align-items: center;
+      gap: 1.5cqw;
+      padding: 2cqw;
+      min-width: 0;
+      overflow: hidden;
+      outline: 1px dashed #ddd;
+    }
+
+    .labels__qr {
+      width: 14cqw;
+      height: 14cqw;
+      flex-shrink: 0;
+    }
+
+    .labels__text {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5cqw;
+      min-width: 0;
+    }
+
+    .labels__name {
+      font-size: 2.6cqw;
+      font-weight: 700;
+      line-height: 1.2;
+      word-break: break-word;
+    }
+
+    .labels__path {
+      font-size: 1.6cqw;
+      line-height: 1.2;
+      color: #555;
+      word-break: break-word;
+    }
+
+    @media print {
+      .labels {
+        padding: 0;
+        gap: 0;
+      }
+
+      .labels__page {
+        width: 210mm;
+        max-width: none;
+        height: 297mm;
+        box-shadow: none;
+        break-after: page;
+      }
+
+      .labels__label {
+        outline: none;
+      }
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class LabelsComponent implements OnInit {
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly deepLinkService = inject(DeepLinkService);
+  private readonly householdService = inject(HouseholdService);
+  private readonly labelSheetService = inject(LabelSheetService);
+  private readonly fileDeliveryService = inject(FileDeliveryService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Root location of the subtree to print (from query param) */
+  readonly root = input<string>();
+
+  /** Full location tree */
+  readonly tree = signal<LocationTreeNode[]>([]);
+
+  /** Whether sheets go to the Telegram chat as a PDF instead of the print dialog */
+  readonly inTelegram = this.telegramService.isInTelegram();
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Whether the PDF is being created and sent */
+  readonly isExporting = signal(false);
+
+  /** Error message if the tree fails to load */
+  readonly error = signal<string | null>(null);
+
+  /** Chosen subtree root; null prints all locations */
+  readonly selectedRootId = signal<string | null>(null);
+
+  /** Whether sub-locations of the chosen root get labels too */
+  readonly includeSublocations = signal(true);
+
+  /** Whether the location picker is open */
+  readonly showLocationPicker = signal(false);
+
+  /** Chosen root node */
+  readonly rootNode = computed(() => {
+    const rootId = this.selectedRootId();
+    return rootId ? this.findNode(this.tree(), rootId) : null;
+  });
+
+  /** Labels for the chosen subtree, in tree order */
+  readonly labels = computed(() => {
+    const rootNode = this.rootNode();
+    if (!rootNode) {
+      return this.flatten(this.tree(), []);
+    }
+    if (!this.includeSublocations()) {
+      return [this.toLabel(rootNode, [])];
+    }
+    return this.flatten([rootNode], []);
+  });
+
+  /** Labels split into A4 pages */
+  readonly pages = computed(() => {
+    const labels = this.labels();
+    const pages: QrLabel[][] = [];
+    for (let i = 0; i < labels.length; i += LABELS_PER_PAGE) {
+      pages.push(labels.slice(i, i + LABELS_PER_PAGE));
+    }
+    return pages;
+  });
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.selectedRootId.set(this.root() ?? null);
+    this.loadTree();
+  }
+
+  /**
+   * Load the location tree
+   */
+  loadTree(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.locationApiService
+      .getLocationTree()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (tree) => {
+          this.tree.set(tree);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load locations');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Handle subtree selection from the picker
+   */
+  onRootSelected(node: LocationTreeNode | null): void {
+    this.selectedRootId.set(node?.id ?? null);
+    this.showLocationPicker.set(false);
+  }
+
+  /**
+   * Open the browser print dialog, or send the sheets as a PDF inside Telegram
+   */
+  async print(): Promise<void> {
+    this.triggerHapticFeedback();
+    if (!this.inTelegram) {
+      window.print();
+      return;
+    }
+
+    this.isExporting.set(true);
+    try {
+      const file = await this.labelSheetService.toPdf(this.pages());
+      await this.fileDeliveryService.deliver(file, 'StuffTracker QR labels');
+      this.toastService.success('Labels sent to the chat');
+    } catch (err) {
+      console.error('[Labels] PDF export failed', err);
+      this.toastService.error((err as { message?: string }).message || 'Could not create the labels');
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  private flatten(nodes: LocationTreeNode[], path: string[]): QrLabel[] {
+    return nodes.flatMap(node => [
+      this.toLabel(node, path),
+      ...this.flatten(node.children, [...path, node.name])
+    ]);
+  }
+
+  private toLabel(node: LocationTreeNode, path: string[]): QrLabel {
+    return {
+      id: node.id,
+      name: node.name,
+      path,
+      link: this.deepLinkService.locationLink(node.id, this.householdService.activeHouseholdId())
+    };
+  }
+
+  private findNode(nodes: LocationTreeNode[], id: string): LocationTreeNode | null {
+    for (const node of nodes) {
+      if (node.id === id) {
+        return node;
+      }
+      const found = this.findNode(node.children, id);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
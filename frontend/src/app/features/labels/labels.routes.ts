@@ -0,0 +1,15 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Label sheet routes
+ *
+ * - /labels - Labels for all locations
+ * - /labels?root=<locationId> - Labels for a location and its sub-locations
+ */
+export const labelsRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./labels.component').then(m => m.LabelsComponent),
+    title: 'QR Labels - StuffTracker'
+  }
+];
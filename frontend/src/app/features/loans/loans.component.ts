@@ -0,0 +1,421 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import {
+  Loan,
+  LoanApiService,
+  LoanReminderSettings,
+  describeLoanDue,
+  isLoanOverdue
+} from '../../core/api/loan-api.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * On loan screen
+ *
+ * Features:
+ * - Every open loan across all items, overdue ones first
+ * - Who has the item, how many and when it is due back
+ * - Mark a loan as returned, putting its units back on the item
+ * - Reminder setting for the messages the bot sends about overdue loans
+ */
+@Component({
+  selector: 'app-loans',
+  standalone: true,
+  imports: [LoadingSpinnerComponent, EmptyStateComponent],
+  template: `
+    <div class="loans">
+      <header class="loans__header">
+        <h1 class="loans__title">On Loan</h1>
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading loans..." />
+      }
+
+      @if (error()) {
+        <div class="loans__error">
+          <svg class="loans__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="loans__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadLoans()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        @if (loans().length === 0) {
+          <app-empty-state
+            icon="empty-search"
+            title="Nothing on loan"
+            message="Use Lend on an item to keep track of who has it"
+          />
+        }
+
+        @for (section of sections(); track section.title) {
+          <section class="loans__section">
+            <h2 class="loans__section-title">{{ section.title }}</h2>
+            @for (loan of section.loans; track loan.id) {
+              <article class="loans__loan">
+                <button type="button" class="loans__loan-info" (click)="openItem(loan)">
+                  <span class="loans__loan-name">
+                    {{ loan.itemName }}
+                    @if (loan.quantity > 1) {
+                      <span class="loans__loan-quantity">×{{ loan.quantity }}</span>
+                    }
+                  </span>
+                  <span class="loans__loan-borrower">
+                    {{ loan.borrowerName }}@if (loan.borrowerUsername) { · &#64;{{ loan.borrowerUsername }}}
+                  </span>
+                  <span class="loans__loan-due" [class.loans__loan-due--overdue]="isOverdue(loan)">
+                    {{ describeDue(loan) }}
+                  </span>
+                  <span class="loans__loan-path">{{ loan.locationPath.join(' / ') }}</span>
+                </button>
+                <button
+                  type="button"
+                  class="btn btn-secondary loans__return-btn"
+                  [disabled]="returningId() !== null"
+                  (click)="returnLoan(loan)"
+                >
+                  {{ returningId() === loan.id ? 'Saving...' : 'Returned' }}
+                </button>
+              </article>
+            }
+          </section>
+        }
+      }
+
+      <!-- Reminders -->
+      @if (reminders(); as settings) {
+        <section class="loans__section">
+          <h2 class="loans__section-title">Reminders</h2>
+          <div class="loans__reminders">
+            <label class="loans__toggle">
+              <input
+                type="checkbox"
+                [checked]="settings.enabled"
+                [disabled]="isSavingReminders()"
+                (change)="onRemindersToggle($event)"
+              />
+              <span>Remind me in the chat when a loan is overdue</span>
+            </label>
+          </div>
+        </section>
+      }
+    </div>
+  `,
+  styles: [`
+    .loans {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: var(--spacing-xl);
+    }
+
+    .loans__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .loans__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .loans__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .loans__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .loans__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .loans__section {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      margin-top: var(--spacing-sm);
+    }
+
+    .loans__section-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .loans__loan {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-sm) var(--spacing-sm) var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .loans__loan-info {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 2px;
+      padding: var(--spacing-xs) 0;
+      border: none;
+      background: none;
+      text-align: left;
+      cursor: pointer;
+    }
+
+    .loans__loan-name {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .loans__loan-quantity {
+      font-size: 0.875rem;
+      font-weight: 400;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .loans__loan-borrower {
+      font-size: 0.875rem;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .loans__loan-due {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .loans__loan-due--overdue {
+      color: var(--tg-theme-destructive-text-color);
+      font-weight: 500;
+    }
+
+    .loans__loan-path {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+      overflow-wrap: anywhere;
+    }
+
+    .loans__return-btn {
+      min-height: 44px;
+    }
+
+    .loans__reminders {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .loans__toggle {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      min-height: 44px;
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+      cursor: pointer;
+
+      input {
+        width: 20px;
+        height: 20px;
+        accent-color: var(--tg-theme-button-color);
+      }
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class LoansComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly loanApiService = inject(LoanApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Open loans */
+  readonly loans = signal<Loan[]>([]);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if loans fail to load */
+  readonly error = signal<string | null>(null);
+
+  /** ID of the loan being marked as returned */
+  readonly returningId = signal<string | null>(null);
+
+  /** Reminder settings; null until loaded, or if they failed to load */
+  readonly reminders = signal<LoanReminderSettings | null>(null);
+
+  /** Whether a reminder settings change is being saved */
+  readonly isSavingReminders = signal(false);
+
+  /** Loans split into overdue and the rest, soonest due first; empty sections left out */
+  readonly sections = computed(() => {
+    const loans = [...this.loans()].sort((a, b) =>
+      (a.dueAt ?? '9999-12-31').localeCompare(b.dueAt ?? '9999-12-31') || a.lentAt.localeCompare(b.lentAt)
+    );
+    return [
+      { title: 'Overdue', loans: loans.filter(loan => isLoanOverdue(loan)) },
+      { title: 'Lent out', loans: loans.filter(loan => !isLoanOverdue(loan)) }
+    ].filter(section => section.loans.length > 0);
+  });
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadLoans();
+    this.loadReminders();
+  }
+
+  /**
+   * Load every open loan
+   */
+  loadLoans(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.loanApiService
+      .getLoans()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (loans) => {
+          this.loans.set(loans);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load loans');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  isOverdue(loan: Loan): boolean {
+    return isLoanOverdue(loan);
+  }
+
+  describeDue(loan: Loan): string {
+    return describeLoanDue(loan);
+  }
+
+  /**
+   * Mark a loan as returned, putting its units back on the item
+   */
+  returnLoan(loan: Loan): void {
+    if (this.returningId() !== null) {
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.returningId.set(loan.id);
+
+    this.loanApiService
+      .returnLoan(loan.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.returningId.set(null);
+          this.loans.update(loans => loans.filter(l => l.id !== loan.id));
+          this.toastService.success(`${loan.itemName} returned by ${loan.borrowerName}`);
+        },
+        error: (err) => {
+          this.returningId.set(null);
+          this.toastService.error(err.message || 'Failed to mark as returned');
+        }
+      });
+  }
+
+  openItem(loan: Loan): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/item', loan.itemId]);
+  }
+
+  onRemindersToggle(event: Event): void {
+    const enabled = (event.target as HTMLInputElement).checked;
+    this.saveReminders({ enabled });
+  }
+
+  private loadReminders(): void {
+    this.loanApiService
+      .getReminderSettings()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (settings) => this.reminders.set(settings),
+        error: (err) => console.warn('[Loans] Failed to load reminder settings', err)
+      });
+  }
+
+  /**
+   * Save reminder settings, showing them right away and rolling back on failure
+   */
+  private saveReminders(settings: LoanReminderSettings): void {
+    const previous = this.reminders();
+    this.triggerHapticFeedback();
+    this.reminders.set(settings);
+    this.isSavingReminders.set(true);
+
+    this.loanApiService
+      .updateReminderSettings(settings)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (saved) => {
+          this.reminders.set(saved);
+          this.isSavingReminders.set(false);
+        },
+        error: (err) => {
+          this.reminders.set(previous);
+          this.isSavingReminders.set(false);
+          this.toastService.error(err.message || 'Failed to save reminder settings');
+        }
+      });
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
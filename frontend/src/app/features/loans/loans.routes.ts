@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Loans feature routes
+ *
+ * - /loans - Items lent out across all locations, with overdue reminders
+ */
+export const loansRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./loans.component').then(m => m.LoansComponent),
+    title: 'On Loan - StuffTracker'
+  }
+];
@@ -0,0 +1,485 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  signal,
+  computed,
+  inject
+} from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { TelegramService } from '../../../telegram/telegram.service';
+
+/**
+ * Quantity change applied to every selected item
+ * - set: every item gets `value`
+ * - adjust: `value` is added to each item's quantity (negative to subtract)
+ */
+export interface BulkQuantityChange {
+  mode: 'set' | 'adjust';
+  value: number;
+}
+
+/**
+ * BulkQuantityModalComponent asks how to change the quantity of several items.
+ *
+ * Features:
+ * - "Set to" or "Add / remove" mode
+ * - Stepper buttons and numeric input
+ * - Mobile-first bottom sheet style
+ * - Haptic feedback for Telegram Mini App
+ */
+@Component({
+  selector: 'app-bulk-quantity-modal',
+  standalone: true,
+  imports: [FormsModule],
+  template: `
+    <!-- Backdrop -->
+    <div
+      class="bulk-quantity-modal__backdrop"
+      (click)="onClose()"
+      role="presentation"
+    ></div>
+
+    <!-- Bottom sheet / Modal -->
+    <div
+      class="bulk-quantity-modal__sheet"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="bulk-quantity-title"
+    >
+      <!-- Header -->
+      <div class="bulk-quantity-modal__header">
+        <div class="bulk-quantity-modal__header-content">
+          <h2 id="bulk-quantity-title" class="bulk-quantity-modal__title">Change Quantity</h2>
+          <p class="bulk-quantity-modal__subtitle">
+            {{ itemCount() }} {{ itemCount() === 1 ? 'item' : 'items' }} selected
+          </p>
+        </div>
+        <button
+          type="button"
+          class="bulk-quantity-modal__close"
+          (click)="onClose()"
+          aria-label="Close quantity dialog"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+          </svg>
+        </button>
+      </div>
+
+      <div class="bulk-quantity-modal__content">
+        <!-- Mode switch -->
+        <div class="bulk-quantity-modal__modes" role="radiogroup" aria-label="Quantity change mode">
+          <button
+            type="button"
+            role="radio"
+            class="bulk-quantity-modal__mode"
+            [class.bulk-quantity-modal__mode--active]="mode() === 'set'"
+            [attr.aria-checked]="mode() === 'set'"
+            (click)="setMode('set')"
+          >
+            Set to
+          </button>
+          <button
+            type="button"
+            role="radio"
+            class="bulk-quantity-modal__mode"
+            [class.bulk-quantity-modal__mode--active]="mode() === 'adjust'"
+            [attr.aria-checked]="mode() === 'adjust'"
+            (click)="setMode('adjust')"
+          >
+            Add / remove
+          </button>
+        </div>
+
+        <!-- Value stepper -->
+        <div class="bulk-quantity-modal__stepper">
+          <button
+            type="button"
+            class="bulk-quantity-modal__step-btn"
+            (click)="step(-1)"
+            [disabled]="value() <= minValue()"
+            aria-label="Decrease"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M19 13H5v-2h14v2z"/>
+            </svg>
+          </button>
+          <input
+            type="number"
+            class="bulk-quantity-modal__input"
+            [ngModel]="value()"
+            (ngModelChange)="value.set($event)"
+            [min]="minValue()"
+            max="999999"
+            aria-label="Quantity"
+          />
+          <button
+            type="button"
+            class="bulk-quantity-modal__step-btn"
+            (click)="step(1)"
+            [disabled]="value() >= 999999"
+            aria-label="Increase"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z"/>
+            </svg>
+          </button>
+        </div>
+
+        <p class="bulk-quantity-modal__hint">{{ hint() }}</p>
+      </div>
+
+      <!-- Actions -->
+      <div class="bulk-quantity-modal__actions">
+        <button
+          type="button"
+          class="bulk-quantity-modal__btn bulk-quantity-modal__btn--cancel"
+          (click)="onClose()"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          class="bulk-quantity-modal__btn bulk-quantity-modal__btn--confirm"
+          (click)="onConfirm()"
+          [disabled]="!isValid()"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+
+    .bulk-quantity-modal__backdrop {
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.5);
+      z-index: var(--z-modal-backdrop);
+      animation: fadeIn 0.2s ease;
+    }
+
+    @keyframes fadeIn {
+      from { opacity: 0; }
+      to { opacity: 1; }
+    }
+
+    .bulk-quantity-modal__sheet {
+      position: fixed;
+      bottom: 0;
+      left: 0;
+      right: 0;
+      background-color: var(--tg-theme-bg-color);
+      border-radius: var(--radius-xl) var(--radius-xl) 0 0;
+      z-index: var(--z-modal);
+      animation: slideUp 0.3s ease;
+      display: flex;
+      flex-direction: column;
+    }
+
+    @keyframes slideUp {
+      from {
+        transform: translateY(100%);
+        opacity: 0;
+      }
+      to {
+        transform: translateY(0);
+        opacity: 1;
+      }
+    }
+
+    /* Tablet and desktop: center the dialog */
+    @media (min-width: 600px) {
+      .bulk-quantity-modal__sheet {
+        top: 50%;
+        left: 50%;
+        right: auto;
+        bottom: auto;
+        transform: translate(-50%, -50%);
+        border-radius: var(--radius-xl);
+        max-width: 420px;
+        width: 90%;
+        animation: none;
+      }
+    }
+
+    .bulk-quantity-modal__header {
+      display: flex;
+      align-items: flex-start;
+      justify-content: space-between;
+      padding: var(--spacing-md) var(--spacing-md) var(--spacing-sm);
+      border-bottom: 1px solid var(--tg-theme-secondary-bg-color);
+    }
+
+    .bulk-quantity-modal__header-content {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .bulk-quantity-modal__title {
+      font-size: 1.125rem;
+      font-weight: 600;
+      color: var(--tg-theme-text-color);
+      margin: 0;
+    }
+
+    .bulk-quantity-modal__subtitle {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      margin: 4px 0 0 0;
+    }
+
+    .bulk-quantity-modal__close {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 40px;
+      height: 40px;
+      border-radius: var(--radius-full);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: none;
+      cursor: pointer;
+      flex-shrink: 0;
+
+      &:active {
+        opacity: 0.7;
+      }
+
+      svg {
+        width: 20px;
+        height: 20px;
+        color: var(--tg-theme-text-color);
+      }
+    }
+
+    .bulk-quantity-modal__content {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      padding: var(--spacing-md);
+    }
+
+    .bulk-quantity-modal__modes {
+      display: flex;
+      padding: 4px;
+      background-color: var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-md);
+    }
+
+    .bulk-quantity-modal__mode {
+      flex: 1;
+      min-height: 40px;
+      background: none;
+      border: none;
+      border-radius: var(--radius-sm);
+      font-size: 0.875rem;
+      font-weight: 500;
+      color: var(--tg-theme-hint-color);
+      cursor: pointer;
+    }
+
+    .bulk-quantity-modal__mode--active {
+      background-color: var(--tg-theme-bg-color);
+      color: var(--tg-theme-text-color);
+      box-shadow: var(--shadow-sm);
+    }
+
+    .bulk-quantity-modal__stepper {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+    }
+
+    .bulk-quantity-modal__step-btn {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 52px;
+      height: 52px;
+      background-color: var(--tg-theme-button-color);
+      color: var(--tg-theme-button-text-color);
+      border: none;
+      border-radius: var(--radius-md);
+      cursor: pointer;
+      flex-shrink: 0;
+
+      svg {
+        width: 24px;
+        height: 24px;
+      }
+
+      &:active {
+        transform: scale(0.95);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+
+    .bulk-quantity-modal__input {
+      flex: 1;
+      min-width: 80px;
+      min-height: 52px;
+      text-align: center;
+      font-size: 1.125rem;
+      font-weight: 600;
+      font-family: inherit;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-md);
+      -moz-appearance: textfield;
+
+      &::-webkit-outer-spin-button,
+      &::-webkit-inner-spin-button {
+        -webkit-appearance: none;
+        margin: 0;
+      }
+
+      &:focus {
+        outline: none;
+        border-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .bulk-quantity-modal__hint {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+      text-align: center;
+    }
+
+    .bulk-quantity-modal__actions {
+      display: flex;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-md) + env(safe-area-inset-bottom, 0px));
+      border-top: 1px solid var(--tg-theme-secondary-bg-color);
+    }
+
+    .bulk-quantity-modal__btn {
+      flex: 1;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: var(--spacing-md);
+      font-size: 1rem;
+      font-weight: 500;
+      border: none;
+      border-radius: var(--radius-md);
+      cursor: pointer;
+      min-height: 52px;
+
+      &:active:not(:disabled) {
+        transform: scale(0.98);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+
+    .bulk-quantity-modal__btn--cancel {
+      background-color: var(--tg-theme-secondary-bg-color);
+      color: var(--tg-theme-text-color);
+    }
+
+    .bulk-quantity-modal__btn--confirm {
+      background-color: var(--tg-theme-button-color);
+      color: var(--tg-theme-button-text-color);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class BulkQuantityModalComponent {
+  private readonly telegramService = inject(TelegramService);
+
+  /** Number of selected items (for the subtitle) */
+  readonly itemCount = input.required<number>();
+
+  /** Emitted with the chosen change */
+  readonly confirmed = output<BulkQuantityChange>();
+
+  /** Emitted when the dialog is dismissed */
+  readonly closed = output<void>();
+
+  /** Selected mode */
+  readonly mode = signal<BulkQuantityChange['mode']>('set');
+
+  /** Entered value */
+  readonly value = signal(1);
+
+  /** Lowest allowed value for the current mode */
+  readonly minValue = computed(() => this.mode() === 'set' ? 1 : -999999);
+
+  /** Whether the value can be applied */
+  readonly isValid = computed(() => {
+    const value = this.value();
+    if (!Number.isInteger(value) || value > 999999) {
+      return false;
+    }
+    return this.mode() === 'set' ? value >= 1 : value !== 0 && value >= -999999;
+  });
+
+  /** Explanation of what Apply will do */
+  readonly hint = computed(() => {
+    const value = this.value();
+    if (this.mode() === 'set') {
+      return `Every selected item will have quantity ${value}.`;
+    }
+    return value >= 0
+      ? `Adds ${value} to each selected item.`
+      : `Removes ${-value} from each selected item (down to 1).`;
+  });
+
+  /**
+   * Switch between set and adjust mode
+   */
+  setMode(mode: BulkQuantityChange['mode']): void {
+    this.triggerHapticFeedback();
+    this.mode.set(mode);
+    this.value.set(1);
+  }
+
+  /**
+   * Increment or decrement the value
+   */
+  step(delta: number): void {
+    this.triggerHapticFeedback();
+    this.value.update(v => v + delta);
+  }
+
+  /**
+   * Apply the change
+   */
+  onConfirm(): void {
+    if (!this.isValid()) return;
+    this.triggerHapticFeedback();
+    this.confirmed.emit({ mode: this.mode(), value: this.value() });
+  }
+
+  /**
+   * Dismiss the dialog
+   */
+  onClose(): void {
+    this.closed.emit();
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
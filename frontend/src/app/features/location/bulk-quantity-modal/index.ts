@@ -0,0 +1 @@
+export * from './bulk-quantity-modal.component';
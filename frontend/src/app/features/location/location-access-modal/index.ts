@@ -0,0 +1 @@
+export * from './location-access-modal.component';
@@ -0,0 +1,512 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  input,
+  output,
+  signal,
+  inject,
+  DestroyRef,
+  OnInit
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable } from 'rxjs';
+import { LocationAccess, LocationApiService } from '../../../core/api/location-api.service';
+import { HouseholdService } from '../../../core/household/household.service';
+import {
+  LOCATION_ROLES,
+  LOCATION_ROLE_DESCRIPTIONS,
+  LOCATION_ROLE_LABELS,
+  LocationRole
+} from '../../../core/auth/permissions';
+import { TelegramService } from '../../../telegram/telegram.service';
+import { ErrorToastService } from '../../../shared/components/error-toast';
+
+/**
+ * LocationAccessModalComponent lets owners decide who can do what in a location.
+ *
+ * Features:
+ * - Every member of the active household with their role on the location
+ * - Shows where an inherited role comes from
+ * - Change a member's role for the location and everything below it
+ * - Reset a role set here back to the inherited one
+ * - Points to households when the personal inventory is active
+ * - Mobile-first bottom sheet style
+ */
+@Component({
+  selector: 'app-location-access-modal',
+  standalone: true,
+  template: `
+    <!-- Backdrop -->
+    <div
+      class="location-access-modal__backdrop"
+      (click)="onClose()"
+      role="presentation"
+    ></div>
+
+    <!-- Bottom sheet / Modal -->
+    <div
+      class="location-access-modal__sheet"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="location-access-title"
+    >
+      <!-- Header -->
+      <div class="location-access-modal__header">
+        <div class="location-access-modal__header-content">
+          <h2 id="location-access-title" class="location-access-modal__title">Share Location</h2>
+          @if (locationName()) {
+            <p class="location-access-modal__subtitle">{{ locationName() }}</p>
+          }
+        </div>
+        <button
+          type="button"
+          class="location-access-modal__close"
+          (click)="onClose()"
+          aria-label="Close sharing dialog"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+          </svg>
+        </button>
+      </div>
+
+      <div class="location-access-modal__content">
+        @if (!householdService.active()) {
+          <p class="location-access-modal__hint">
+            Locations are shared with the members of a household. Create one or switch to it to share this location.
+          </p>
+          <button type="button" class="btn btn-primary" (click)="openHouseholds()">
+            Households
+          </button>
+        } @else if (isLoading()) {
+          <div class="location-access-modal__loading">
+            <div class="location-access-modal__spinner"></div>
+            <p>Loading members...</p>
+          </div>
+        } @else if (error()) {
+          <div class="location-access-modal__error">
+            <p>{{ error() }}</p>
+            <button type="button" class="btn btn-secondary" (click)="loadAccess()">
+              Try Again
+            </button>
+          </div>
+        } @else {
+          <p class="location-access-modal__hint">
+            A role applies to this location and everything inside it.
+          </p>
+
+          <ul class="location-access-modal__list">
+            @for (member of members(); track member.userId) {
+              <li class="location-access-modal__member">
+                <div class="location-access-modal__member-info">
+                  <span class="location-access-modal__member-name">
+                    {{ member.name }}
+                    @if (isSelf(member)) {
+                      <span class="location-access-modal__you">(you)</span>
+                    }
+                  </span>
+                  <span class="location-access-modal__member-meta">
+                    @if (member.role === null) {
+                      No access
+                    } @else {
+                      {{ roleDescriptions[member.role] }}@if (member.inheritedFrom) { · from {{ member.inheritedFrom }}}
+                    }
+                  </span>
+                </div>
+                <select
+                  class="location-access-modal__select"
+                  [value]="member.role ?? ''"
+                  [disabled]="isSelf(member) || savingUserId() !== null"
+                  [attr.aria-label]="'Role of ' + member.name"
+                  (change)="onRoleChange(member, $event)"
+                >
+                  @if (member.role === null) {
+                    <option value="" disabled>No access</option>
+                  }
+                  @for (role of roles; track role) {
+                    <option [value]="role">{{ roleLabels[role] }}</option>
+                  }
+                </select>
+                @if (member.role !== null && !member.inheritedFrom && !isSelf(member)) {
+                  <button
+                    type="button"
+                    class="location-access-modal__reset"
+                    [disabled]="savingUserId() !== null"
+                    (click)="resetRole(member)"
+                    [attr.aria-label]="'Reset role of ' + member.name"
+                  >
+                    Reset
+                  </button>
+                }
+              </li>
+            }
+          </ul>
+        }
+      </div>
+    </div>
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+
+    .location-access-modal__backdrop {
+      position: fixed;
+      inset: 0;
+      background-color: rgba(0, 0, 0, 0.5);
+      z-index: var(--z-modal-backdrop);
+      animation: fadeIn 0.2s ease;
+    }
+
+    @keyframes fadeIn {
+      from { opacity: 0; }
+      to { opacity: 1; }
+    }
+
+    .location-access-modal__sheet {
+      position: fixed;
+      bottom: 0;
+      left: 0;
+      right: 0;
+      background-color: var(--tg-theme-bg-color);
+      border-radius: var(--radius-xl) var(--radius-xl) 0 0;
+      z-index: var(--z-modal);
+      animation: slideUp 0.3s ease;
+      max-height: 85vh;
+      display: flex;
+      flex-direction: column;
+    }
+
+    @keyframes slideUp {
+      from {
+        transform: translateY(100%);
+        opacity: 0;
+      }
+      to {
+        transform: translateY(0);
+        opacity: 1;
+      }
+    }
+
+    /* Tablet and desktop: center the dialog */
+    @media (min-width: 600px) {
+      .location-access-modal__sheet {
+        top: 50%;
+        left: 50%;
+        right: auto;
+        bottom: auto;
+        transform: translate(-50%, -50%);
+        border-radius: var(--radius-xl);
+        max-width: 480px;
+        width: 90%;
+        max-height: 70vh;
+        animation: scaleIn 0.2s ease;
+      }
+
+      @keyframes scaleIn {
+        from {
+          opacity: 0;
+          transform: translate(-50%, -50%) scale(0.95);
+        }
+        to {
+          opacity: 1;
+          transform: translate(-50%, -50%) scale(1);
+        }
+      }
+    }
+
+    .location-access-modal__header {
+      display: flex;
+      align-items: flex-start;
+      justify-content: space-between;
+      padding: var(--spacing-md) var(--spacing-md) var(--spacing-sm);
+      border-bottom: 1px solid var(--tg-theme-secondary-bg-color);
+      flex-shrink: 0;
+    }
+
+    .location-access-modal__header-content {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .location-access-modal__title {
+      font-size: 1.125rem;
+      font-weight: 600;
+      color: var(--tg-theme-text-color);
+      margin: 0;
+    }
+
+    .location-access-modal__subtitle {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      margin: 4px 0 0 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .location-access-modal__close {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 40px;
+      height: 40px;
+      border-radius: var(--radius-full);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: none;
+      cursor: pointer;
+      transition: opacity var(--transition-fast);
+      flex-shrink: 0;
+
+      &:active {
+        opacity: 0.7;
+      }
+
+      svg {
+        width: 20px;
+        height: 20px;
+        color: var(--tg-theme-text-color);
+      }
+    }
+
+    .location-access-modal__content {
+      flex: 1;
+      overflow-y: auto;
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-md) + env(safe-area-inset-bottom, 0px));
+    }
+
+    .location-access-modal__hint {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .location-access-modal__loading,
+    .location-access-modal__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-xl) var(--spacing-md);
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      text-align: center;
+    }
+
+    .location-access-modal__spinner {
+      width: 32px;
+      height: 32px;
+      border: 3px solid var(--tg-theme-secondary-bg-color);
+      border-top-color: var(--tg-theme-button-color);
+      border-radius: 50%;
+      animation: spin 0.8s linear infinite;
+    }
+
+    @keyframes spin {
+      to { transform: rotate(360deg); }
+    }
+
+    .location-access-modal__list {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      list-style: none;
+    }
+
+    .location-access-modal__member {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-md);
+    }
+
+    .location-access-modal__member-info {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+    }
+
+    .location-access-modal__member-name {
+      font-size: 1rem;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .location-access-modal__you,
+    .location-access-modal__member-meta {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .location-access-modal__select {
+      min-height: 44px;
+      padding: 0 var(--spacing-sm);
+      font-size: 0.9375rem;
+      font-family: inherit;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: none;
+      border-radius: var(--radius-md);
+
+      &:disabled {
+        opacity: 0.6;
+      }
+    }
+
+    .location-access-modal__reset {
+      min-height: 44px;
+      padding: 0 var(--spacing-xs);
+      border: none;
+      background: none;
+      color: var(--tg-theme-link-color);
+      font-size: 0.875rem;
+      cursor: pointer;
+
+      &:disabled {
+        opacity: 0.5;
+      }
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class LocationAccessModalComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+  protected readonly householdService = inject(HouseholdService);
+
+  readonly roles = LOCATION_ROLES;
+  readonly roleLabels = LOCATION_ROLE_LABELS;
+  readonly roleDescriptions = LOCATION_ROLE_DESCRIPTIONS;
+
+  /** Location being shared */
+  readonly locationId = input.required<string>();
+
+  /** Location name, shown in the header */
+  readonly locationName = input('');
+
+  /** Emits when the dialog is dismissed */
+  readonly closed = output<void>();
+
+  /** Household members and their roles here */
+  readonly members = signal<LocationAccess[]>([]);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if members fail to load */
+  readonly error = signal<string | null>(null);
+
+  /** Member whose role is being saved */
+  readonly savingUserId = signal<string | null>(null);
+
+  /** Telegram ID of the current user; they cannot change their own role */
+  private readonly selfId = String(this.telegramService.getUserInfo()?.id ?? '');
+
+  ngOnInit(): void {
+    if (this.householdService.active()) {
+      this.loadAccess();
+    }
+  }
+
+  /**
+   * Load the household members with their roles on the location
+   */
+  loadAccess(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.locationApiService
+      .getAccess(this.locationId())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (members) => {
+          this.members.set(members);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load members');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  isSelf(member: LocationAccess): boolean {
+    return member.userId === this.selfId;
+  }
+
+  onRoleChange(member: LocationAccess, event: Event): void {
+    const select = event.target as HTMLSelectElement;
+    const role = select.value as LocationRole;
+    if (!role || role === member.role) {
+      return;
+    }
+
+    this.save(member, this.locationApiService.setAccess(this.locationId(), member.userId, role), () => {
+      // Show the unchanged role again
+      select.value = member.role ?? '';
+    });
+  }
+
+  /**
+   * Drop the role set here so the member falls back to the inherited one
+   */
+  resetRole(member: LocationAccess): void {
+    this.save(member, this.locationApiService.removeAccess(this.locationId(), member.userId));
+  }
+
+  openHouseholds(): void {
+    this.closed.emit();
+    this.router.navigate(['/households']);
+  }
+
+  onClose(): void {
+    if (this.savingUserId() === null) {
+      this.closed.emit();
+    }
+  }
+
+  private save(
+    member: LocationAccess,
+    request: Observable<LocationAccess>,
+    rollback?: () => void
+  ): void {
+    this.triggerHapticFeedback();
+    this.savingUserId.set(member.userId);
+
+    request
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (updated) => {
+          this.savingUserId.set(null);
+          this.members.update(members => members.map(m => m.userId === updated.userId ? updated : m));
+        },
+        error: (err) => {
+          this.savingUserId.set(null);
+          rollback?.();
+          this.toastService.error(err.message || `Failed to change the role of ${member.name}`);
+        }
+      });
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
@@ -12,19 +12,38 @@ import {
 import { Router } from '@angular/router';
 import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
 import { switchMap, catchError } from 'rxjs/operators';
-import { EMPTY } from 'rxjs';
+import { EMPTY, Observable, of } from 'rxjs';
 import { BreadcrumbsComponent } from '../../../shared/components/breadcrumbs';
 import { LocationCardComponent } from '../../../shared/components/location-card';
 import { ItemListComponent } from '../../../shared/components/item-list';
 import { LoadingSpinnerComponent } from '../../../shared/components/loading-spinner';
 import { EmptyStateComponent } from '../../../shared/components/empty-state';
 import { ErrorToastService } from '../../../shared/components/error-toast';
+import { LocationPickerComponent } from '../../../shared/components/location-picker';
+import { ActivityTimelineComponent } from '../../../shared/components/activity-timeline';
+import {
+  DeleteConfirmationComponent,
+  DeleteConfirmationData
+} from '../../../shared/components/delete-confirmation';
 import {
   LocationApiService,
-  LocationDetail
+  LocationDetail,
+  LocationTreeNode
 } from '../../../core/api/location-api.service';
+import { ItemApiService, ItemListItem } from '../../../core/api/item-api.service';
+import {
+  ACTIVITY_PREVIEW_LIMIT,
+  ActivityApiService,
+  ActivityEntry
+} from '../../../core/api/activity-api.service';
+import { BulkOperationService, BulkResult } from '../../../core/bulk-operation.service';
+import { EntityStoreService } from '../../../core/store/entity-store.service';
+import { ChangeEvent, RealtimeService } from '../../../core/realtime/realtime.service';
 import { TelegramService } from '../../../telegram/telegram.service';
+import { canEdit, canManage } from '../../../core/auth/permissions';
 import { MoveLocationModalComponent } from '../move-location-modal';
+import { LocationAccessModalComponent } from '../location-access-modal';
+import { BulkQuantityModalComponent, BulkQuantityChange } from '../bulk-quantity-modal';
 
 /**
  * Component for displaying location details
@@ -36,13 +55,33 @@ import { MoveLocationModalComponent } from '../move-location-modal';
  * - List items (placeholder for now)
  * - "Add Sub-location" and "Add Item" actions
  * - Edit/Delete/Move actions in header
+ * - Delete confirmation dialog counting everything in the subtree
  * - Move location to different parent with modal picker
+ * - Print QR labels for the location and its sub-locations
+ * - Multi-select items (long press or "Select") to move, delete or change quantity in bulk
+ * - Undo for location move/delete and bulk item move/delete from the confirmation toast
+ * - Share the location with household members as owner, editor or viewer
+ * - Recent changes to the location and everything in it, with who made them
+ * - Live updates when household members change the location or its contents
+ * - Actions limited by the user's role: viewers browse, editors add and move, owners delete and share
  * - Haptic feedback for Telegram Mini App
  */
 @Component({
   selector: 'app-location-detail',
   standalone: true,
-  imports: [BreadcrumbsComponent, LocationCardComponent, ItemListComponent, MoveLocationModalComponent, LoadingSpinnerComponent, EmptyStateComponent],
+  imports: [
+    BreadcrumbsComponent,
+    LocationCardComponent,
+    ItemListComponent,
+    MoveLocationModalComponent,
+    LocationAccessModalComponent,
+    BulkQuantityModalComponent,
+    LocationPickerComponent,
+    DeleteConfirmationComponent,
+    LoadingSpinnerComponent,
+    EmptyStateComponent,
+    ActivityTimelineComponent
+  ],
   template: `
     <div class="location-detail">
       <!-- Loading state -->
@@ -82,60 +121,96 @@ import { MoveLocationModalComponent } from '../move-location-modal';
             <button
               type="button"
               class="location-detail__action-btn"
-              (click)="openMoveModal()"
-              aria-label="Move location"
+              (click)="navigateToLabels()"
+              aria-label="Print QR labels"
             >
-              <!-- folder-move icon -->
+              <!-- qr-code icon -->
               <svg viewBox="0 0 24 24" fill="currentColor">
-                <path d="M14 8V6c0-1.1-.9-2-2-2H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V10c0-1.1-.9-2-2-2h-6zm-2 6l-3 3v-2H6v-2h3V11l3 3zm8 4H4V6h8v4h8v8z"/>
+                <path d="M3 11h8V3H3v8zm2-6h4v4H5V5zM3 21h8v-8H3v8zm2-6h4v4H5v-4zM13 3v8h8V3h-8zm6 6h-4V5h4v4zM13 13h2v2h-2zM15 15h2v2h-2zM13 17h2v2h-2zM17 17h2v2h-2zM19 19h2v2h-2zM15 19h2v2h-2zM17 13h2v2h-2zM19 15h2v2h-2z"/>
               </svg>
             </button>
+            @if (canManageHere()) {
+              <button
+                type="button"
+                class="location-detail__action-btn"
+                (click)="openAccessModal()"
+                aria-label="Share location"
+              >
+                <!-- people icon -->
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5c-1.66 0-3 1.34-3 3s1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5C6.34 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z"/>
+                </svg>
+              </button>
+              <button
+                type="button"
+                class="location-detail__action-btn"
+                (click)="openMoveModal()"
+                aria-label="Move location"
+              >
+                <!-- folder-move icon -->
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M14 8V6c0-1.1-.9-2-2-2H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V10c0-1.1-.9-2-2-2h-6zm-2 6l-3 3v-2H6v-2h3V11l3 3zm8 4H4V6h8v4h8v8z"/>
+                </svg>
+              </button>
+            }
+            @if (canEditHere()) {
+              <button
+                type="button"
+                class="location-detail__action-btn"
+                (click)="navigateToEdit()"
+                aria-label="Edit location"
+              >
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/>
+                </svg>
+              </button>
+            }
+            @if (canManageHere()) {
+              <button
+                type="button"
+                class="location-detail__action-btn location-detail__action-btn--danger"
+                (click)="confirmDelete()"
+                aria-label="Delete location"
+              >
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
+                </svg>
+              </button>
+            }
+          </div>
+        </header>
+
+        @if (!canEditHere()) {
+          <p class="location-detail__role-note">
+            You can view this location. Ask one of its owners for editor access to add or change things.
+          </p>
+        }
+
+        <!-- Quick actions -->
+        @if (canEditHere()) {
+          <div class="location-detail__quick-actions">
             <button
               type="button"
-              class="location-detail__action-btn"
-              (click)="navigateToEdit()"
-              aria-label="Edit location"
+              class="location-detail__quick-action"
+              (click)="navigateToAddSublocation()"
             >
               <svg viewBox="0 0 24 24" fill="currentColor">
-                <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/>
+                <path d="M10 4H4c-1.1 0-1.99.9-1.99 2L2 18c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V8c0-1.1-.9-2-2-2h-8l-2-2z"/>
               </svg>
+              <span>Add Sub-location</span>
             </button>
             <button
               type="button"
-              class="location-detail__action-btn location-detail__action-btn--danger"
-              (click)="confirmDelete()"
-              aria-label="Delete location"
+              class="location-detail__quick-action"
+              (click)="navigateToAddItem()"
             >
               <svg viewBox="0 0 24 24" fill="currentColor">
-                <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
+                <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-2 10h-4v4h-2v-4H7v-2h4V7h2v4h4v2z"/>
               </svg>
+              <span>Add Item</span>
             </button>
           </div>
-        </header>
-
-        <!-- Quick actions -->
-        <div class="location-detail__quick-actions">
-          <button
-            type="button"
-            class="location-detail__quick-action"
-            (click)="navigateToAddSublocation()"
-          >
-            <svg viewBox="0 0 24 24" fill="currentColor">
-              <path d="M10 4H4c-1.1 0-1.99.9-1.99 2L2 18c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V8c0-1.1-.9-2-2-2h-8l-2-2z"/>
-            </svg>
-            <span>Add Sub-location</span>
-          </button>
-          <button
-            type="button"
-            class="location-detail__quick-action"
-            (click)="navigateToAddItem()"
-          >
-            <svg viewBox="0 0 24 24" fill="currentColor">
-              <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-2 10h-4v4h-2v-4H7v-2h4V7h2v4h4v2z"/>
-            </svg>
-            <span>Add Item</span>
-          </button>
-        </div>
+        }
 
         <!-- Child locations section -->
         @if (location()!.children.length > 0) {
@@ -151,10 +226,38 @@ import { MoveLocationModalComponent } from '../move-location-modal';
 
         <!-- Items section -->
         <section class="location-detail__section">
-          <h2 class="location-detail__section-title">Items</h2>
+          <div class="location-detail__section-header">
+            <h2 class="location-detail__section-title">Items</h2>
+            @if (location()!.items.length > 0 && canEditHere()) {
+              <div class="location-detail__section-actions">
+                @if (selectionMode()) {
+                  <button
+                    type="button"
+                    class="location-detail__text-btn"
+                    (click)="toggleSelectAll()"
+                  >
+                    {{ allSelected() ? 'Clear' : 'Select All' }}
+                  </button>
+                }
+                <button
+                  type="button"
+                  class="location-detail__text-btn"
+                  [disabled]="bulkProgress() !== null"
+                  (click)="selectionMode() ? exitSelectionMode() : enterSelectionMode()"
+                >
+                  {{ selectionMode() ? 'Done' : 'Select' }}
+                </button>
+              </div>
+            }
+          </div>
           <app-item-list
             [items]="location()!.items"
             [locationId]="id()"
+            [selectionMode]="selectionMode()"
+            [selectedIds]="selectedIds()"
+            [editable]="canEditHere()"
+            (selectionToggle)="toggleSelection($event)"
+            (itemLongPress)="onItemLongPress($event)"
           />
         </section>
 
@@ -163,20 +266,125 @@ import { MoveLocationModalComponent } from '../move-location-modal';
           <app-empty-state
             icon="empty-items"
             title="This location is empty"
-            message="Add sub-locations or items to organize your stuff."
+            [message]="canEditHere() ? 'Add sub-locations or items to organize your stuff.' : 'Nothing has been added here yet.'"
           />
         }
 
+        <!-- History -->
+        @if (activity().length > 0) {
+          <section class="location-detail__section">
+            <h2 class="location-detail__section-title">Recent Activity</h2>
+            <app-activity-timeline [entries]="activity()" [showSubject]="true" />
+            @if (hasMoreActivity()) {
+              <button type="button" class="location-detail__text-btn" (click)="navigateToHistory()">
+                See full history
+              </button>
+            }
+          </section>
+        }
+
         <!-- Move location modal -->
         @if (showMoveModal()) {
           <app-move-location-modal
             [locationId]="location()!.id"
             [currentParentId]="location()!.parentId ?? null"
             [locationName]="location()!.name"
+            [locationUpdatedAt]="location()!.updatedAt"
             (moved)="onLocationMoved()"
             (closed)="closeMoveModal()"
           />
         }
+
+        <!-- Sharing -->
+        @if (showAccessModal()) {
+          <app-location-access-modal
+            [locationId]="location()!.id"
+            [locationName]="location()!.name"
+            (closed)="showAccessModal.set(false)"
+          />
+        }
+
+        <!-- Bulk action bar -->
+        @if (selectionMode()) {
+          <div class="location-detail__bulk-bar" role="toolbar" aria-label="Selected items">
+            @if (bulkProgress(); as progress) {
+              <div class="location-detail__bulk-progress" role="status">
+                <span>{{ progress.label }} {{ progress.done }} of {{ progress.total }}...</span>
+                <div class="location-detail__bulk-progress-track">
+                  <div
+                    class="location-detail__bulk-progress-fill"
+                    [style.width.%]="progress.done / progress.total * 100"
+                  ></div>
+                </div>
+              </div>
+            } @else {
+              <span class="location-detail__bulk-count">{{ selectedIds().size }} selected</span>
+              <div class="location-detail__bulk-actions">
+                <button
+                  type="button"
+                  class="location-detail__bulk-btn"
+                  [disabled]="selectedIds().size === 0"
+                  (click)="openBulkMove()"
+                >
+                  Move
+                </button>
+                <button
+                  type="button"
+                  class="location-detail__bulk-btn"
+                  [disabled]="selectedIds().size === 0"
+                  (click)="showBulkQuantityModal.set(true)"
+                >
+                  Quantity
+                </button>
+                @if (canManageHere()) {
+                  <button
+                    type="button"
+                    class="location-detail__bulk-btn location-detail__bulk-btn--danger"
+                    [disabled]="selectedIds().size === 0"
+                    (click)="confirmBulkDelete()"
+                  >
+                    Delete
+                  </button>
+                }
+              </div>
+            }
+          </div>
+        }
+
+        @if (showBulkMovePicker()) {
+          <app-location-picker
+            [locations]="locationTree()"
+            [selectedId]="id()"
+            [writableOnly]="true"
+            (locationSelected)="onBulkMoveTargetSelected($event)"
+            (closed)="showBulkMovePicker.set(false)"
+          />
+        }
+
+        @if (deleteConfirmation(); as deleteData) {
+          <app-delete-confirmation
+            [data]="deleteData"
+            (confirm)="onDeleteConfirmed()"
+            (cancel)="deleteConfirmation.set(null)"
+          />
+        }
+
+        @if (showBulkDeleteConfirmation()) {
+          <app-delete-confirmation
+            [data]="bulkDeleteData()"
+            [title]="bulkDeleteTitle()"
+            (confirm)="onBulkDeleteConfirmed()"
+            (cancel)="showBulkDeleteConfirmation.set(false)"
+          />
+        }
+
+        @if (showBulkQuantityModal()) {
+          <app-bulk-quantity-modal
+            [itemCount]="selectedIds().size"
+            (confirmed)="onBulkQuantityConfirmed($event)"
+            (closed)="showBulkQuantityModal.set(false)"
+          />
+        }
       }
     </div>
   `,
@@ -222,6 +430,15 @@ import { MoveLocationModalComponent } from '../move-location-modal';
       padding: var(--spacing-sm) 0;
     }
 
+    .location-detail__role-note {
+      margin-bottom: var(--spacing-md);
+      padding: var(--spacing-sm) var(--spacing-md);
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-md);
+    }
+
     .location-detail__title {
       font-size: 1.5rem;
       font-weight: 700;
@@ -324,6 +541,118 @@ import { MoveLocationModalComponent } from '../move-location-modal';
       margin-bottom: var(--spacing-sm);
     }
 
+    .location-detail__section-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: var(--spacing-sm);
+      margin-bottom: var(--spacing-sm);
+
+      .location-detail__section-title {
+        margin-bottom: 0;
+      }
+    }
+
+    .location-detail__section-actions {
+      display: flex;
+      gap: var(--spacing-xs);
+    }
+
+    .location-detail__text-btn {
+      min-height: 32px;
+      padding: 0 var(--spacing-sm);
+      background: none;
+      border: none;
+      font-size: 0.875rem;
+      font-weight: 500;
+      color: var(--tg-theme-link-color);
+      cursor: pointer;
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+
+    /* Bulk action bar */
+    .location-detail__bulk-bar {
+      position: fixed;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-sm) var(--spacing-md);
+      padding-bottom: calc(var(--spacing-sm) + env(safe-area-inset-bottom, 0px));
+      background-color: var(--tg-theme-bg-color);
+      border-top: 1px solid var(--tg-theme-secondary-bg-color);
+      box-shadow: var(--shadow-md);
+      z-index: var(--z-sticky);
+    }
+
+    .location-detail__bulk-count {
+      font-size: 0.875rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      white-space: nowrap;
+    }
+
+    .location-detail__bulk-actions {
+      display: flex;
+      gap: var(--spacing-xs);
+    }
+
+    .location-detail__bulk-btn {
+      min-height: 44px;
+      padding: 0 var(--spacing-md);
+      background-color: var(--tg-theme-secondary-bg-color);
+      color: var(--tg-theme-text-color);
+      border: none;
+      border-radius: var(--radius-md);
+      font-size: 0.875rem;
+      font-weight: 500;
+      cursor: pointer;
+
+      &:active:not(:disabled) {
+        transform: scale(0.95);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    }
+
+    .location-detail__bulk-btn--danger {
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .location-detail__bulk-progress {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      width: 100%;
+      min-height: 44px;
+      justify-content: center;
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .location-detail__bulk-progress-track {
+      height: 4px;
+      background-color: var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-full);
+      overflow: hidden;
+    }
+
+    .location-detail__bulk-progress-fill {
+      height: 100%;
+      background-color: var(--tg-theme-button-color);
+      transition: width var(--transition-fast);
+    }
+
     .location-detail__list {
       display: flex;
       flex-direction: column;
@@ -335,6 +664,11 @@ import { MoveLocationModalComponent } from '../move-location-modal';
 export class LocationDetailComponent implements OnInit, OnDestroy {
   private readonly router = inject(Router);
   private readonly locationApiService = inject(LocationApiService);
+  private readonly itemApiService = inject(ItemApiService);
+  private readonly activityApiService = inject(ActivityApiService);
+  private readonly bulkOperationService = inject(BulkOperationService);
+  private readonly realtimeService = inject(RealtimeService);
+  private readonly entityStore = inject(EntityStoreService);
   private readonly telegramService = inject(TelegramService);
   private readonly toastService = inject(ErrorToastService);
   private readonly destroyRef = inject(DestroyRef);
@@ -342,8 +676,8 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
   /** Location ID from route param */
   readonly id = input.required<string>();
 
-  /** Location data */
-  readonly location = signal<LocationDetail | null>(null);
+  /** Location data, kept current by every write to it or its contents */
+  readonly location = computed(() => this.entityStore.locationDetail(this.id()));
 
   /** Loading state */
   readonly isLoading = signal(true);
@@ -351,12 +685,72 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
   /** Error message if load fails */
   readonly error = signal<string | null>(null);
 
-  /** Signal to trigger delete confirmation */
-  readonly showDeleteConfirmation = signal(false);
+  /** What the open delete confirmation describes, or null when it is closed */
+  readonly deleteConfirmation = signal<DeleteConfirmationData | null>(null);
+
+  /** Whether the bulk delete confirmation is open */
+  readonly showBulkDeleteConfirmation = signal(false);
 
   /** Whether to show the move location modal */
   readonly showMoveModal = signal(false);
 
+  /** Latest changes to the location and everything in it, newest first */
+  readonly activity = signal<ActivityEntry[]>([]);
+
+  /** Whether older changes exist beyond the ones shown */
+  readonly hasMoreActivity = signal(false);
+
+  /** Whether to show the sharing dialog */
+  readonly showAccessModal = signal(false);
+
+  /** Whether the user may add, edit and move things here */
+  readonly canEditHere = computed(() => canEdit(this.location()?.role));
+
+  /** Whether the user may delete and share this location */
+  readonly canManageHere = computed(() => canManage(this.location()?.role));
+
+  /** Whether item cards are in multi-select mode */
+  readonly selectionMode = signal(false);
+
+  /** IDs of the selected items */
+  readonly selectedIds = signal<ReadonlySet<string>>(new Set());
+
+  /** Whether the location picker for bulk move is open */
+  readonly showBulkMovePicker = signal(false);
+
+  /** Whether the bulk quantity dialog is open */
+  readonly showBulkQuantityModal = signal(false);
+
+  /** Location tree for the bulk move picker (loaded on first use) */
+  readonly locationTree = signal<LocationTreeNode[]>([]);
+
+  /** Progress of the running bulk operation */
+  readonly bulkProgress = this.bulkOperationService.progress;
+
+  /** Selected items, in list order */
+  readonly selectedItems = computed(() => {
+    const ids = this.selectedIds();
+    return (this.location()?.items ?? []).filter(item => ids.has(item.id));
+  });
+
+  /** Delete confirmation contents for the selected items */
+  readonly bulkDeleteData = computed<DeleteConfirmationData>(() => {
+    const count = this.selectedIds().size;
+    return { name: '', childCount: 0, itemCount: count, totalDescendantItems: count };
+  });
+
+  /** Delete confirmation title for the selected items */
+  readonly bulkDeleteTitle = computed(() => {
+    const items = this.selectedItems();
+    return items.length === 1 ? `Delete "${items[0].name}"?` : `Delete ${items.length} items?`;
+  });
+
+  /** Whether every item in the location is selected */
+  readonly allSelected = computed(() => {
+    const items = this.location()?.items ?? [];
+    return items.length > 0 && this.selectedIds().size === items.length;
+  });
+
   /**
    * Compute location IDs for breadcrumb navigation
    * Each breadcrumb should link to its parent location
@@ -380,6 +774,8 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
       .pipe(
         switchMap(id => {
           console.debug('[LocationDetail] Loading location id=%s', id);
+          this.resetSelection();
+          this.activity.set([]);
           this.isLoading.set(true);
           this.error.set(null);
           return this.locationApiService.getLocation(id).pipe(
@@ -397,9 +793,16 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
       )
       .subscribe(location => {
         console.debug('[LocationDetail] Location loaded: %o', location);
-        this.location.set(location);
         this.isLoading.set(false);
+        this.updateMainButtonVisibility();
+        this.loadActivity();
       });
+
+    // Pick up changes other household members make while the page is open
+    this.realtimeService
+      .watch(event => this.isAffectedBy(event))
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.refreshLive());
   }
 
   ngOnInit(): void {
@@ -412,13 +815,25 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
 
   /**
    * Setup MainButton for "Add Item" action
+   * Starts hidden; shown once the location's role is known to allow editing.
    */
   private setupMainButton(): void {
     this.telegramService.setMainButtonText('Add Item');
-    this.telegramService.showMainButton();
+    this.telegramService.hideMainButton();
     this.telegramService.onMainButtonClick(this.mainButtonCallback);
   }
 
+  /**
+   * Show "Add Item" only to editors and owners, and not while selecting
+   */
+  private updateMainButtonVisibility(): void {
+    if (this.canEditHere() && !this.selectionMode()) {
+      this.telegramService.showMainButton();
+    } else {
+      this.telegramService.hideMainButton();
+    }
+  }
+
   /**
    * Cleanup MainButton handlers
    */
@@ -428,7 +843,7 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Manually reload location data (used for "Try Again" and after move).
+   * Manually reload location data (used for "Try Again").
    * For route-param-driven loading, see the toObservable pipeline in the constructor.
    */
   loadLocation(): void {
@@ -442,8 +857,9 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
       .subscribe({
         next: (location) => {
           console.debug('[LocationDetail] Location reloaded: %o', location);
-          this.location.set(location);
           this.isLoading.set(false);
+          this.updateMainButtonVisibility();
+          this.loadActivity();
         },
         error: (err) => {
           const errorMessage = err.message || 'Failed to load location';
@@ -455,6 +871,89 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Whether a change elsewhere touches this location, its sub-locations or its items
+   */
+  private isAffectedBy(event: ChangeEvent): boolean {
+    const location = this.location();
+    if (!location) {
+      return false;
+    }
+    if (
+      event.id === location.id ||
+      event.locationId === location.id ||
+      event.previousLocationId === location.id
+    ) {
+      return true;
+    }
+    const shown: { id: string }[] = event.entityType === 'item' ? location.items : location.children;
+    return shown.some(entry => entry.id === event.id);
+  }
+
+  /**
+   * Reload in place after a change made elsewhere, keeping the current
+   * selection where the items are still here. Skipped while loading or
+   * while a bulk operation is running; failures keep the data on screen.
+   */
+  private refreshLive(): void {
+    if (this.isLoading() || this.bulkProgress()) {
+      return;
+    }
+
+    this.locationApiService
+      .getLocation(this.id())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (location) => {
+          const itemIds = new Set(location.items.map(item => item.id));
+          this.selectedIds.update(ids => new Set([...ids].filter(id => itemIds.has(id))));
+          this.updateMainButtonVisibility();
+          this.loadActivity();
+        },
+        error: (err) => {
+          if (err.statusCode === 404) {
+            this.leaveDeletedLocation();
+          } else {
+            console.warn('[LocationDetail] Live refresh failed', err);
+          }
+        }
+      });
+  }
+
+  /**
+   * Someone else deleted the location: go up to its parent
+   */
+  private leaveDeletedLocation(): void {
+    const location = this.location();
+    this.toastService.info(`"${location?.name ?? 'This location'}" was deleted`);
+    const parentId = location?.breadcrumbIds?.at(-2);
+    this.router.navigate(parentId ? ['/location', parentId] : ['/'], { replaceUrl: true });
+  }
+
+  /**
+   * Load the latest changes; the page stays usable without them
+   */
+  private loadActivity(): void {
+    this.activityApiService
+      .getActivity({ locationId: this.id(), limit: ACTIVITY_PREVIEW_LIMIT })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (page) => {
+          this.activity.set(page.entries);
+          this.hasMoreActivity.set(page.hasMore);
+        },
+        error: (err) => console.warn('[LocationDetail] Failed to load activity', err)
+      });
+  }
+
+  /**
+   * Open the full change history of the location
+   */
+  navigateToHistory(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/activity'], { queryParams: { location: this.id() } });
+  }
+
   /**
    * Navigate to edit location form
    */
@@ -487,6 +986,14 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
     this.router.navigate(['/item', itemId]);
   }
 
+  /**
+   * Open the QR label sheet for this location's subtree
+   */
+  navigateToLabels(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/labels'], { queryParams: { root: this.id() } });
+  }
+
   /**
    * Open the move location modal
    */
@@ -495,6 +1002,14 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
     this.showMoveModal.set(true);
   }
 
+  /**
+   * Open the sharing dialog
+   */
+  openAccessModal(): void {
+    this.triggerHapticFeedback();
+    this.showAccessModal.set(true);
+  }
+
   /**
    * Close the move location modal
    */
@@ -506,10 +1021,261 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
    * Handle successful location move
    */
   onLocationMoved(): void {
+    const previous = this.location();
     this.showMoveModal.set(false);
     this.triggerHapticFeedback('success');
-    // Refresh location data to show updated parent info
-    this.loadLocation();
+    // The store already has the new path; only the history needs the move
+    this.loadActivity();
+
+    if (previous) {
+      this.toastService.undoable(`Moved "${previous.name}"`, () => this.undoMove(previous));
+    }
+  }
+
+  /**
+   * Move the location back under its previous parent
+   */
+  private undoMove(previous: LocationDetail): void {
+    // Not bound to this page: the Undo toast can outlive it
+    this.locationApiService
+      .moveLocation(previous.id, previous.parentId ?? null, { name: previous.name })
+      .subscribe({
+        next: () => {
+          this.toastService.info(`Moved "${previous.name}" back`);
+          if (!this.destroyRef.destroyed && this.id() === previous.id) {
+            this.loadActivity();
+          }
+        },
+        error: (err) => {
+          if (err.queued) {
+            this.toastService.info(err.message, 5000);
+            return;
+          }
+          this.toastService.error(err.message || 'Failed to undo move');
+        }
+      });
+  }
+
+  /**
+   * Enter multi-select mode, optionally with an item preselected
+   */
+  enterSelectionMode(itemId?: string): void {
+    this.triggerHapticFeedback();
+    this.selectionMode.set(true);
+    this.selectedIds.set(new Set(itemId ? [itemId] : []));
+    // The bulk action bar takes the MainButton's place
+    this.telegramService.hideMainButton();
+  }
+
+  /**
+   * Leave multi-select mode and clear the selection
+   */
+  exitSelectionMode(): void {
+    this.resetSelection();
+    this.updateMainButtonVisibility();
+  }
+
+  /**
+   * Toggle an item's selection
+   */
+  toggleSelection(itemId: string): void {
+    this.selectedIds.update(ids => {
+      const next = new Set(ids);
+      if (!next.delete(itemId)) {
+        next.add(itemId);
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Long press on an item starts selection mode with that item selected
+   */
+  onItemLongPress(itemId: string): void {
+    if (!this.canEditHere()) {
+      return;
+    }
+    if (this.selectionMode()) {
+      this.toggleSelection(itemId);
+    } else {
+      this.enterSelectionMode(itemId);
+    }
+  }
+
+  /**
+   * Select every item, or clear the selection if all are selected
+   */
+  toggleSelectAll(): void {
+    this.triggerHapticFeedback();
+    const items = this.location()?.items ?? [];
+    this.selectedIds.set(this.allSelected() ? new Set() : new Set(items.map(item => item.id)));
+  }
+
+  /**
+   * Open the location picker for moving the selected items
+   */
+  openBulkMove(): void {
+    this.triggerHapticFeedback();
+    this.showBulkMovePicker.set(true);
+
+    if (this.locationTree().length === 0) {
+      this.locationApiService
+        .getLocationTree()
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe({
+          next: (tree) => this.locationTree.set(tree),
+          error: (err) => {
+            this.showBulkMovePicker.set(false);
+            this.toastService.error(err.message || 'Failed to load locations');
+          }
+        });
+    }
+  }
+
+  /**
+   * Move the selected items to the picked location
+   */
+  async onBulkMoveTargetSelected(target: LocationTreeNode | null): Promise<void> {
+    this.showBulkMovePicker.set(false);
+    if (!target || target.id === this.id()) return;
+
+    const sourceId = this.id();
+    const result = await this.bulkOperationService.run('Moving', this.selectedItems(), item =>
+      this.itemApiService.moveItem(item.id, target.id, { name: item.name })
+    );
+    this.finishBulkOperation(result, 'Moved', 'move', `to ${target.name}`, moved =>
+      this.undoBulk('Moving back', 'Moved back', 'move back', moved, item =>
+        this.itemApiService.moveItem(item.id, sourceId, { name: item.name })
+      )
+    );
+  }
+
+  /**
+   * Change the quantity of the selected items
+   */
+  async onBulkQuantityConfirmed(change: BulkQuantityChange): Promise<void> {
+    this.showBulkQuantityModal.set(false);
+
+    const result = await this.bulkOperationService.run('Updating', this.selectedItems(), item => {
+      if (change.mode === 'set') {
+        return this.itemApiService.updateItem(item.id, { quantity: change.value }, { name: item.name });
+      }
+      // Relative, so changes others made meanwhile are kept; only keep the listed quantity from dropping below 1
+      const delta = Math.max(change.value, 1 - item.quantity);
+      return this.itemApiService.adjustQuantity(item.id, delta, item.name);
+    });
+    this.finishBulkOperation(result, 'Updated', 'update');
+  }
+
+  /**
+   * Ask once before deleting all selected items
+   */
+  confirmBulkDelete(): void {
+    this.triggerHapticFeedback('warning');
+    this.showBulkDeleteConfirmation.set(true);
+  }
+
+  /**
+   * Delete all selected items
+   */
+  async onBulkDeleteConfirmed(): Promise<void> {
+    this.showBulkDeleteConfirmation.set(false);
+
+    const items = this.selectedItems();
+    const result = await this.bulkOperationService.run('Deleting', items, item =>
+      this.itemApiService.deleteItem(item.id)
+    );
+    this.finishBulkOperation(result, 'Deleted', 'delete', '', deleted =>
+      this.undoBulk('Restoring', 'Restored', 'restore', deleted, item =>
+        this.itemApiService.restoreItem(item.id)
+      )
+    );
+  }
+
+  /**
+   * Report the outcome of a bulk operation; the list already reflects it
+   * @param pastTense - Verb for the success message, e.g. "Moved"
+   * @param verb - Verb for the failure message, e.g. "move"
+   * @param suffix - Optional text appended to the success message
+   * @param undo - Optional revert for the items that succeeded, offered as "Undo"
+   */
+  private finishBulkOperation(
+    result: BulkResult<ItemListItem>,
+    pastTense: string,
+    verb: string,
+    suffix = '',
+    undo?: (items: ItemListItem[]) => void
+  ): void {
+    const { succeeded, queued, failed } = result;
+
+    this.triggerHapticFeedback(failed.length > 0 ? 'error' : 'success');
+
+    if (succeeded.length > 0) {
+      const message = [`${pastTense} ${this.countLabel(succeeded.length)}`, suffix].filter(Boolean).join(' ');
+      if (undo) {
+        this.toastService.undoable(message, () => undo(succeeded));
+      } else {
+        this.toastService.success(message);
+      }
+    }
+
+    if (failed.length > 0) {
+      const names = failed.map(f => f.target.name).join(', ');
+      const total = succeeded.length + queued.length + failed.length;
+      this.toastService.warning(`Couldn't ${verb} ${failed.length} of ${total}: ${names}`, 5000);
+    }
+
+    if (queued.length > 0) {
+      this.toastService.info(`${this.countLabel(queued.length)} will be saved when you're back online`, 4000);
+    }
+
+    if (!this.destroyRef.destroyed) {
+      this.exitSelectionMode();
+      this.loadActivity();
+    }
+  }
+
+  /**
+   * Revert a bulk operation for the items it succeeded for
+   * @param label - Verb shown with the progress, e.g. "Restoring"
+   * @param pastTense - Verb for the success message, e.g. "Restored"
+   * @param verb - Verb for the failure message, e.g. "restore"
+   */
+  private async undoBulk(
+    label: string,
+    pastTense: string,
+    verb: string,
+    items: ItemListItem[],
+    action: (item: ItemListItem) => Observable<unknown>
+  ): Promise<void> {
+    const { succeeded, queued, failed } = await this.bulkOperationService.run(label, items, action);
+
+    if (succeeded.length > 0) {
+      this.toastService.info(`${pastTense} ${this.countLabel(succeeded.length)}`);
+    }
+    if (failed.length > 0) {
+      const names = failed.map(f => f.target.name).join(', ');
+      this.toastService.warning(`Couldn't ${verb} ${failed.length} of ${items.length}: ${names}`, 5000);
+    }
+    if (queued.length > 0) {
+      this.toastService.info(`${this.countLabel(queued.length)} will be saved when you're back online`, 4000);
+    }
+
+    if (!this.destroyRef.destroyed) {
+      this.loadActivity();
+    }
+  }
+
+  private countLabel(count: number): string {
+    return `${count} ${count === 1 ? 'item' : 'items'}`;
+  }
+
+  private resetSelection(): void {
+    this.selectionMode.set(false);
+    this.selectedIds.set(new Set());
+    this.showBulkMovePicker.set(false);
+    this.showBulkQuantityModal.set(false);
+    this.showBulkDeleteConfirmation.set(false);
   }
 
   /**
@@ -521,32 +1287,55 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
     const loc = this.location();
     if (!loc) return;
 
-    // Calculate total counts for confirmation
     const childCount = loc.children.length;
     const itemCount = loc.items.length;
 
-    // Navigate to delete confirmation or show modal
-    // For now, we'll use a simple confirm (will be replaced with DeleteConfirmationComponent)
-    if (childCount > 0 || itemCount > 0) {
-      const message = `This will delete ${loc.name} and all its contents:\n` +
-        `- ${childCount} sub-location(s)\n` +
-        `- ${itemCount} item(s)\n\n` +
-        `Are you sure?`;
-
-      if (confirm(message)) {
-        this.deleteLocation(true);
-      }
-    } else {
-      if (confirm(`Delete "${loc.name}"?`)) {
-        this.deleteLocation(false);
-      }
+    if (childCount === 0) {
+      // Without sub-locations the direct counts are the whole subtree
+      this.deleteConfirmation.set({ name: loc.name, childCount, itemCount, totalDescendantItems: itemCount });
+      return;
     }
+
+    // Direct counts miss what is in nested locations; ask the server for the whole subtree
+    this.locationApiService
+      .getSubtreeCounts(loc.id)
+      .pipe(
+        catchError(err => {
+          console.error('[LocationDetail] Failed to count subtree', err);
+          return of(null);
+        }),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(counts => {
+        this.deleteConfirmation.set({
+          name: loc.name,
+          childCount,
+          itemCount,
+          totalDescendantItems: counts?.itemCount ?? itemCount,
+          totalDescendantLocations: counts?.locationCount ?? childCount,
+          countsUnknown: !counts
+        });
+      });
+  }
+
+  /**
+   * Delete the location once the user confirmed
+   */
+  onDeleteConfirmed(): void {
+    const data = this.deleteConfirmation();
+    if (!data) return;
+
+    this.deleteConfirmation.set(null);
+    this.deleteLocation(data.childCount > 0 || data.itemCount > 0);
   }
 
   /**
    * Delete the location
    */
   private deleteLocation(force: boolean): void {
+    // Read before the store drops the deleted location
+    const deleted = this.location();
+
     this.locationApiService
       .deleteLocation(this.id(), force)
       .pipe(takeUntilDestroyed(this.destroyRef))
@@ -554,6 +1343,12 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
         next: () => {
           this.triggerHapticFeedback('success');
           this.router.navigate(['/']);
+          if (deleted) {
+            const message = force
+              ? `Deleted "${deleted.name}" and its contents`
+              : `Deleted "${deleted.name}"`;
+            this.toastService.undoable(message, () => this.undoDelete(deleted));
+          }
         },
         error: (err) => {
           this.triggerHapticFeedback('error');
@@ -564,6 +1359,24 @@ export class LocationDetailComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Restore a deleted location (with its subtree) and open it again
+   */
+  private undoDelete(deleted: LocationDetail): void {
+    // Not bound to this page: it is destroyed once the delete navigates away
+    this.locationApiService
+      .restoreLocation(deleted.id)
+      .subscribe({
+        next: () => {
+          this.toastService.info(`Restored "${deleted.name}"`);
+          this.router.navigate(['/location', deleted.id]);
+        },
+        error: (err) => {
+          this.toastService.error(err.message || 'Failed to restore location');
+        }
+      });
+  }
+
   private triggerHapticFeedback(type: 'light' | 'warning' | 'success' | 'error' = 'light'): void {
     if (this.telegramService.isInTelegram()) {
       try {
@@ -15,7 +15,9 @@ import {
   LocationTreeNode,
   LocationResponse
 } from '../../../core/api/location-api.service';
+import { canEdit } from '../../../core/auth/permissions';
 import { TelegramService } from '../../../telegram/telegram.service';
+import { ErrorToastService } from '../../../shared/components/error-toast';
 
 /**
  * Flattened node for rendering the tree as a list
@@ -634,6 +636,7 @@ interface FlatTreeNode {
 export class MoveLocationModalComponent implements OnInit {
   private readonly locationApiService = inject(LocationApiService);
   private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
   private readonly destroyRef = inject(DestroyRef);
 
   /** ID of the location to move */
@@ -645,6 +648,9 @@ export class MoveLocationModalComponent implements OnInit {
   /** Name of the location (for display in header) */
   readonly locationName = input<string>('');
 
+  /** updatedAt of the location being moved (for offline conflict detection) */
+  readonly locationUpdatedAt = input<string>();
+
   /** Emitted when location is successfully moved */
   readonly moved = output<LocationResponse>();
 
@@ -687,7 +693,8 @@ export class MoveLocationModalComponent implements OnInit {
       for (const node of nodes) {
         const hasChildren = node.children && node.children.length > 0;
         const isExpanded = expanded.has(node.id);
-        const isDisabled = disabled.has(node.id);
+        // Self, descendants, and locations the user may only view
+        const isDisabled = disabled.has(node.id) || !canEdit(node.role);
         const isCurrent = node.id === currentParent;
 
         result.push({
@@ -878,7 +885,7 @@ export class MoveLocationModalComponent implements OnInit {
    */
   selectLocation(node: LocationTreeNode): void {
     const disabled = this.disabledIds();
-    if (disabled.has(node.id)) {
+    if (disabled.has(node.id) || !canEdit(node.role)) {
       return;
     }
 
@@ -904,7 +911,7 @@ export class MoveLocationModalComponent implements OnInit {
     this.error.set(null);
 
     this.locationApiService
-      .moveLocation(this.locationId(), selectedId)
+      .moveLocation(this.locationId(), selectedId, this.buildMoveBase())
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: (response) => {
@@ -912,6 +919,13 @@ export class MoveLocationModalComponent implements OnInit {
           this.moved.emit(response);
         },
         error: (err) => {
+          if (err.queued) {
+            // Move was saved to the offline outbox
+            this.isMoving.set(false);
+            this.toastService.info(err.message, 5000);
+            this.closed.emit();
+            return;
+          }
           this.error.set(err.message || 'Failed to move location');
           this.isMoving.set(false);
           this.triggerHapticFeedback('error');
@@ -919,6 +933,11 @@ export class MoveLocationModalComponent implements OnInit {
       });
   }
 
+  private buildMoveBase(): { name: string; updatedAt: string } | undefined {
+    const updatedAt = this.locationUpdatedAt();
+    return updatedAt ? { name: this.locationName(), updatedAt } : undefined;
+  }
+
   /**
    * Close the modal
    */
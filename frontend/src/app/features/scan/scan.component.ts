@@ -0,0 +1,278 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { SearchApiService } from '../../core/api/search-api.service';
+import { LocationApiService, LocationTreeNode } from '../../core/api/location-api.service';
+import { BarcodeScannerComponent } from '../../shared/components/barcode-scanner';
+import { LocationPickerComponent } from '../../shared/components/location-picker';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * Scan screen: find an item by barcode or QR label
+ *
+ * Features:
+ * - Telegram's native QR popup when available, camera scanner otherwise
+ * - Exact barcode lookup; a match opens the item detail page
+ * - No match: pick a location and open the item form with the barcode prefilled
+ * - Loading, not found and error states
+ */
+@Component({
+  selector: 'app-scan',
+  standalone: true,
+  imports: [BarcodeScannerComponent, LocationPickerComponent, LoadingSpinnerComponent, EmptyStateComponent],
+  template: `
+    <div class="scan">
+      <header class="scan__header">
+        <h1 class="scan__title">Scan</h1>
+      </header>
+
+      @if (isLookingUp()) {
+        <app-loading-spinner size="medium" message="Looking up code..." />
+      }
+
+      @if (error()) {
+        <div class="scan__error">
+          <svg class="scan__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="scan__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="lookUp(scannedCode()!)">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLookingUp() && !error()) {
+        @if (notFound()) {
+          <app-empty-state
+            icon="no-results"
+            title="No matching item"
+            [message]="'Nothing is labelled ' + scannedCode() + ' yet. Add it as a new item?'"
+            actionLabel="Add Item"
+            (action)="openLocationPicker()"
+          />
+        } @else {
+          <app-empty-state
+            icon="📷"
+            title="Scan a barcode or QR label"
+            message="Find an item by its product barcode or label, or add a new one."
+          />
+        }
+
+        <button type="button" class="btn btn-primary scan__button" (click)="startScan()">
+          {{ notFound() ? 'Scan Another' : 'Start Scanning' }}
+        </button>
+      }
+    </div>
+
+    @if (showScanner()) {
+      <app-barcode-scanner
+        (scanned)="onScanned($event)"
+        (closed)="showScanner.set(false)"
+      />
+    }
+
+    @if (showLocationPicker()) {
+      <app-location-picker
+        [locations]="locationTree()"
+        (locationSelected)="onLocationSelected($event)"
+        (closed)="showLocationPicker.set(false)"
+      />
+    }
+  `,
+  styles: [`
+    .scan {
+      display: flex;
+      flex-direction: column;
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-xl) + 60px);
+    }
+
+    .scan__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .scan__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .scan__button {
+      width: 100%;
+      min-height: 52px;
+      margin-top: var(--spacing-md);
+    }
+
+    .scan__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      padding: var(--spacing-2xl) var(--spacing-md);
+      gap: var(--spacing-md);
+      text-align: center;
+    }
+
+    .scan__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .scan__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ScanComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly searchApiService = inject(SearchApiService);
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Last scanned code */
+  readonly scannedCode = signal<string | null>(null);
+
+  /** Whether the lookup is in progress */
+  readonly isLookingUp = signal(false);
+
+  /** Whether the last lookup found nothing */
+  readonly notFound = signal(false);
+
+  /** Lookup error message */
+  readonly error = signal<string | null>(null);
+
+  /** Whether the camera scanner is open */
+  readonly showScanner = signal(false);
+
+  /** Whether the location picker for a new item is open */
+  readonly showLocationPicker = signal(false);
+
+  /** Location tree for the picker */
+  readonly locationTree = signal<LocationTreeNode[]>([]);
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.startScan();
+  }
+
+  /**
+   * Open the Telegram QR popup, or the camera scanner outside Telegram
+   */
+  async startScan(): Promise<void> {
+    this.triggerHapticFeedback();
+
+    if (!this.telegramService.canScanQr()) {
+      this.showScanner.set(true);
+      return;
+    }
+
+    const code = await this.telegramService.scanQr('Scan a barcode or QR label');
+    if (code) {
+      this.onScanned(code);
+    }
+  }
+
+  /**
+   * Handle a scanned code
+   */
+  onScanned(code: string): void {
+    this.showScanner.set(false);
+    this.triggerHapticFeedback('success');
+    this.lookUp(code.trim());
+  }
+
+  /**
+   * Look up the item with this barcode
+   */
+  lookUp(code: string): void {
+    this.scannedCode.set(code);
+    this.isLookingUp.set(true);
+    this.notFound.set(false);
+    this.error.set(null);
+
+    this.searchApiService
+      .findByBarcode(code)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (item) => {
+          this.isLookingUp.set(false);
+          if (item) {
+            console.debug('[Scan] Found item %s for code %s', item.id, code);
+            this.router.navigate(['/item', item.id], { replaceUrl: true });
+          } else {
+            this.notFound.set(true);
+          }
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to look up code');
+          this.isLookingUp.set(false);
+        }
+      });
+  }
+
+  /**
+   * Choose where to add a new item with the scanned barcode
+   */
+  openLocationPicker(): void {
+    this.triggerHapticFeedback();
+    this.showLocationPicker.set(true);
+
+    if (this.locationTree().length === 0) {
+      this.locationApiService
+        .getLocationTree()
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe({
+          next: (tree) => this.locationTree.set(tree),
+          error: (err) => {
+            this.showLocationPicker.set(false);
+            this.error.set(err.message || 'Failed to load locations');
+          }
+        });
+    }
+  }
+
+  /**
+   * Open the item form in the chosen location with the barcode prefilled
+   */
+  onLocationSelected(location: LocationTreeNode | null): void {
+    this.showLocationPicker.set(false);
+    if (!location) return;
+
+    this.router.navigate(['/location', location.id, 'add-item'], {
+      queryParams: { barcode: this.scannedCode() }
+    });
+  }
+
+  private triggerHapticFeedback(type: 'light' | 'success' = 'light'): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        if (type === 'success') {
+          // @ts-expect-error - HapticFeedback may not be typed in SDK
+          window.Telegram?.WebApp?.HapticFeedback?.notificationOccurred('success');
+        } else {
+          // @ts-expect-error - HapticFeedback may not be typed in SDK
+          window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+        }
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Scan feature routes
+ *
+ * - /scan - Opens the scanner and looks up the scanned barcode
+ */
+export const scanRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./scan.component').then(m => m.ScanComponent),
+    title: 'Scan - StuffTracker'
+  }
+];
@@ -3,6 +3,7 @@ import {
   ChangeDetectionStrategy,
   inject,
   signal,
+  computed,
   OnInit,
   DestroyRef
 } from '@angular/core';
@@ -13,12 +14,19 @@ import { debounceTime, distinctUntilChanged, tap } from 'rxjs/operators';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { SearchApiService, SearchResultItem, SearchResults } from '../../core/api/search-api.service';
 import { LocationApiService, LocationTreeNode } from '../../core/api/location-api.service';
+import { TagApiService, TagSummary } from '../../core/api/tag-api.service';
+import {
+  CustomFieldApiService,
+  CustomFieldDefinition,
+  formatCustomFieldValue
+} from '../../core/api/custom-field-api.service';
 import { SearchResultItemComponent } from '../../shared/components/search-result-item';
 import { LocationPickerComponent } from '../../shared/components/location-picker';
 import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
 import { EmptyStateComponent } from '../../shared/components/empty-state';
 import { ErrorToastService } from '../../shared/components/error-toast';
 import { TelegramService } from '../../telegram/telegram.service';
+import { EntityStoreService, ItemEntity } from '../../core/store/entity-store.service';
 
 /**
  * Search component with debounced search input, results list,
@@ -29,6 +37,9 @@ import { TelegramService } from '../../telegram/telegram.service';
  * - Pagination with "Load more" button
  * - Location filter with tree picker (T068)
  * - Filter chip/badge display for active location filter (T069)
+ * - Multi-tag filter: results carry every selected tag; works without a query
+ * - Custom field filter from the `field`/`value` query params (set from item details)
+ * - Scan button opening the barcode/QR scanner
  * - Multiple states: initial, loading, results, empty, error
  */
 @Component({
@@ -71,6 +82,35 @@ import { TelegramService } from '../../telegram/telegram.service';
             </button>
           }
 
+          <!-- Scan button -->
+          <button
+            type="button"
+            class="search-input__filter"
+            (click)="navigateToScan()"
+            aria-label="Scan barcode or QR code"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M4 6h2v12H4zm3 0h1v12H7zm2 0h3v12H9zm4 0h1v12h-1zm3 0h2v12h-2zm3 0h1v12h-1z"/>
+            </svg>
+          </button>
+
+          <!-- Tag filter button -->
+          <button
+            type="button"
+            class="search-input__filter"
+            [class.search-input__filter--active]="selectedTags().length > 0"
+            (click)="toggleTagFilter()"
+            [attr.aria-expanded]="showTagFilter()"
+            [attr.aria-label]="selectedTags().length ? 'Tags: ' + selectedTags().join(', ') : 'Filter by tags'"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M21.41 11.58l-9-9C12.05 2.22 11.55 2 11 2H4c-1.1 0-2 .9-2 2v7c0 .55.22 1.05.59 1.42l9 9c.36.36.86.58 1.41.58.55 0 1.05-.22 1.41-.59l7-7c.37-.36.59-.86.59-1.41 0-.55-.23-1.06-.59-1.42zM5.5 7C4.67 7 4 6.33 4 5.5S4.67 4 5.5 4 7 4.67 7 5.5 6.33 7 5.5 7z"/>
+            </svg>
+            @if (selectedTags().length > 0) {
+              <span class="search-input__filter-dot"></span>
+            }
+          </button>
+
           <!-- Filter button -->
           <button
             type="button"
@@ -118,6 +158,61 @@ import { TelegramService } from '../../telegram/telegram.service';
         }
       </div>
 
+      <!-- Tag filter -->
+      @if (showTagFilter()) {
+        <div class="search-tags" role="group" aria-label="Filter by tags">
+          @for (tag of tagOptions(); track tag.name) {
+            <button
+              type="button"
+              class="search-tags__tag"
+              [class.search-tags__tag--selected]="selectedTags().includes(tag.name)"
+              [attr.aria-pressed]="selectedTags().includes(tag.name)"
+              (click)="toggleTag(tag.name)"
+            >
+              {{ tag.name }}
+              <span class="search-tags__count">{{ tag.itemCount }}</span>
+            </button>
+          } @empty {
+            <span class="search-tags__empty">
+              {{ isLoadingTags() ? 'Loading tags...' : 'No tags yet. Add them when editing an item.' }}
+            </span>
+          }
+        </div>
+      } @else if (selectedTags().length > 0) {
+        <div class="search-tags">
+          @for (tag of selectedTags(); track tag) {
+            <button
+              type="button"
+              class="search-tags__tag search-tags__tag--selected"
+              (click)="toggleTag(tag)"
+              [attr.aria-label]="'Remove tag filter ' + tag"
+            >
+              {{ tag }}
+              <svg class="search-tags__remove" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+              </svg>
+            </button>
+          }
+        </div>
+      }
+
+      <!-- Custom field filter -->
+      @if (fieldFilter()) {
+        <div class="search-tags">
+          <button
+            type="button"
+            class="search-tags__tag search-tags__tag--selected"
+            (click)="clearFieldFilter()"
+            [attr.aria-label]="'Remove filter ' + fieldFilterLabel()"
+          >
+            {{ fieldFilterLabel() }}
+            <svg class="search-tags__remove" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+            </svg>
+          </button>
+        </div>
+      }
+
       <!-- Results count -->
       @if (!isLoading() && !error() && hasSearched() && totalCount() > 0) {
         <div class="search-results-count">
@@ -155,7 +250,7 @@ import { TelegramService } from '../../telegram/telegram.service';
         <app-empty-state
           icon="empty-search"
           title="Search your items"
-          [message]="selectedLocation() ? 'Type to search for items in ' + selectedLocation()!.name : 'Type to search for items across all your locations'"
+          [message]="selectedLocation() ? 'Type to search for items in ' + selectedLocation()!.name : 'Type to search for items across all your locations, or pick tags'"
         />
       }
 
@@ -164,7 +259,7 @@ import { TelegramService } from '../../telegram/telegram.service';
         <app-empty-state
           icon="no-results"
           title="No results found"
-          [message]="selectedLocation() ? 'Try a different search term or clear the location filter' : 'Try a different search term or check your spelling'"
+          [message]="selectedLocation() || selectedTags().length || fieldFilter() ? 'Try a different search term or clear the filters' : 'Try a different search term or check your spelling'"
         />
       }
 
@@ -389,6 +484,51 @@ import { TelegramService } from '../../telegram/telegram.service';
       }
     }
 
+    /* Tag filter */
+    .search-tags {
+      display: flex;
+      flex-wrap: wrap;
+      gap: var(--spacing-xs);
+      padding-bottom: var(--spacing-md);
+    }
+
+    .search-tags__tag {
+      display: inline-flex;
+      align-items: center;
+      gap: var(--spacing-xs);
+      min-height: 36px;
+      padding: 0 var(--spacing-sm);
+      font-size: 0.875rem;
+      border: 1px solid var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-full);
+      background-color: var(--tg-theme-section-bg-color);
+      color: var(--tg-theme-text-color);
+      cursor: pointer;
+      transition: background-color var(--transition-fast);
+    }
+
+    .search-tags__tag--selected {
+      background-color: color-mix(in srgb, var(--tg-theme-button-color) 15%, transparent);
+      border-color: color-mix(in srgb, var(--tg-theme-button-color) 30%, transparent);
+      color: var(--tg-theme-button-color);
+      font-weight: 500;
+    }
+
+    .search-tags__count {
+      font-size: 0.75rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .search-tags__remove {
+      width: 14px;
+      height: 14px;
+    }
+
+    .search-tags__empty {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
     /* Results count */
     .search-results-count {
       font-size: 0.875rem;
@@ -468,6 +608,9 @@ import { TelegramService } from '../../telegram/telegram.service';
 export class SearchComponent implements OnInit {
   private readonly searchApiService = inject(SearchApiService);
   private readonly locationApiService = inject(LocationApiService);
+  private readonly tagApiService = inject(TagApiService);
+  private readonly customFieldApiService = inject(CustomFieldApiService);
+  private readonly entityStore = inject(EntityStoreService);
   private readonly telegramService = inject(TelegramService);
   private readonly toastService = inject(ErrorToastService);
   private readonly route = inject(ActivatedRoute);
@@ -477,8 +620,15 @@ export class SearchComponent implements OnInit {
   /** Current search query */
   readonly searchQuery = signal('');
 
-  /** Search results */
-  readonly results = signal<SearchResultItem[]>([]);
+  /** IDs of the search results, in result order */
+  private readonly resultIds = signal<string[]>([]);
+
+  /** Search results as the store has them now; edits show and deleted items drop out */
+  readonly results = computed(() =>
+    this.entityStore.items(this.resultIds()).filter(
+      (item): item is ItemEntity & SearchResultItem => !!item.locationId && !!item.locationPath
+    )
+  );
 
   /** Total count of results */
   readonly totalCount = signal(0);
@@ -510,6 +660,43 @@ export class SearchComponent implements OnInit {
   /** Whether location tree is being loaded */
   readonly isLoadingLocations = signal(false);
 
+  /** Tag filter - results must carry all of these */
+  readonly selectedTags = signal<string[]>([]);
+
+  /** Tags in use, for the tag filter */
+  readonly availableTags = signal<TagSummary[]>([]);
+
+  /** Whether the tag filter panel is open */
+  readonly showTagFilter = signal(false);
+
+  /** Whether tags are being loaded */
+  readonly isLoadingTags = signal(false);
+
+  /** Tags offered in the filter; selected ones stay listed even if no longer in use */
+  readonly tagOptions = computed(() => {
+    const available = this.availableTags();
+    const missing = this.selectedTags()
+      .filter(tag => !available.some(t => t.name === tag))
+      .map(name => ({ name, itemCount: 0 }));
+    return [...missing, ...available];
+  });
+
+  /** Custom field filter - results must have this value in this field */
+  readonly fieldFilter = signal<{ fieldId: string; value: string } | null>(null);
+
+  /** Custom fields defined in settings, for naming the field filter */
+  readonly fieldDefinitions = signal<CustomFieldDefinition[]>([]);
+
+  /** Chip text for the field filter, e.g. "Voltage: 12" */
+  readonly fieldFilterLabel = computed(() => {
+    const filter = this.fieldFilter();
+    if (!filter) return '';
+    const field = this.fieldDefinitions().find(f => f.id === filter.fieldId);
+    if (!field) return filter.value;
+    const value = field.type === 'boolean' ? filter.value === 'true' : filter.value;
+    return `${field.name}: ${formatCustomFieldValue(field, value)}`;
+  });
+
   /** Search input subject for debouncing */
   private readonly searchSubject = new Subject<string>();
 
@@ -522,6 +709,12 @@ export class SearchComponent implements OnInit {
   /** Flag to track if location tree has been loaded */
   private locationTreeLoaded = false;
 
+  /** Flag to track if tags have been loaded */
+  private tagsLoaded = false;
+
+  /** Flag to track if custom field definitions have been loaded */
+  private fieldDefinitionsLoaded = false;
+
   ngOnInit(): void {
     this.setupSearchDebounce();
     this.handleQueryParams();
@@ -541,7 +734,7 @@ export class SearchComponent implements OnInit {
    */
   clearSearch(): void {
     this.searchQuery.set('');
-    this.results.set([]);
+    this.resultIds.set([]);
     this.totalCount.set(0);
     this.hasMore.set(false);
     this.hasSearched.set(false);
@@ -549,15 +742,19 @@ export class SearchComponent implements OnInit {
     this.currentOffset = 0;
     this.updateQueryParam('');
     this.triggerHapticFeedback();
+
+    // Filters alone are still a search
+    if (this.hasFilters()) {
+      this.performSearch('');
+    }
   }
 
   /**
    * Retry the last search
    */
   retrySearch(): void {
-    const query = this.searchQuery();
-    if (query) {
-      this.performSearch(query);
+    if (this.hasCriteria()) {
+      this.performSearch(this.searchQuery());
     }
   }
 
@@ -566,7 +763,7 @@ export class SearchComponent implements OnInit {
    */
   loadMore(): void {
     const query = this.searchQuery();
-    if (!query || this.isLoadingMore() || !this.hasMore()) {
+    if (!this.hasCriteria() || this.isLoadingMore() || !this.hasMore()) {
       return;
     }
 
@@ -579,13 +776,16 @@ export class SearchComponent implements OnInit {
       .searchItems({
         q: query,
         locationId,
+        tags: this.selectedTags(),
+        fieldId: this.fieldFilter()?.fieldId,
+        fieldValue: this.fieldFilter()?.value,
         limit: this.pageSize,
         offset: this.currentOffset
       })
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: (response: SearchResults) => {
-          this.results.update(current => [...current, ...response.items]);
+          this.resultIds.update(ids => [...ids, ...response.items.map(item => item.id)]);
           this.hasMore.set(response.hasMore);
           this.isLoadingMore.set(false);
         },
@@ -599,6 +799,14 @@ export class SearchComponent implements OnInit {
       });
   }
 
+  /**
+   * Open the barcode/QR scanner
+   */
+  navigateToScan(): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/scan']);
+  }
+
   /**
    * Open the location picker modal
    */
@@ -627,9 +835,8 @@ export class SearchComponent implements OnInit {
     this.showLocationPicker.set(false);
 
     // Re-run search with new filter if there's a query
-    const query = this.searchQuery();
-    if (query.trim()) {
-      this.performSearch(query);
+    if (this.hasCriteria()) {
+      this.performSearch(this.searchQuery());
     }
   }
 
@@ -642,9 +849,56 @@ export class SearchComponent implements OnInit {
     this.selectedLocation.set(null);
 
     // Re-run search without filter if there's a query
-    const query = this.searchQuery();
-    if (query.trim()) {
-      this.performSearch(query);
+    if (this.hasCriteria()) {
+      this.performSearch(this.searchQuery());
+    }
+  }
+
+  /**
+   * Open or close the tag filter panel
+   */
+  toggleTagFilter(): void {
+    this.triggerHapticFeedback();
+    this.showTagFilter.update(show => !show);
+
+    // Lazy load tags if not already loaded
+    if (!this.tagsLoaded) {
+      this.loadTags();
+    }
+  }
+
+  /**
+   * Add or remove a tag from the filter and search again
+   */
+  toggleTag(tag: string): void {
+    this.triggerHapticFeedback();
+    this.selectedTags.update(tags => tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag]);
+    this.updateTagsParam();
+
+    if (this.hasCriteria()) {
+      this.performSearch(this.searchQuery());
+    } else {
+      this.resetResults();
+    }
+  }
+
+  /**
+   * Remove the custom field filter and search again
+   */
+  clearFieldFilter(): void {
+    this.triggerHapticFeedback();
+    this.fieldFilter.set(null);
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { field: null, value: null },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+
+    if (this.hasCriteria()) {
+      this.performSearch(this.searchQuery());
+    } else {
+      this.resetResults();
     }
   }
 
@@ -656,19 +910,14 @@ export class SearchComponent implements OnInit {
         distinctUntilChanged(),
         tap((query: string) => {
           console.debug('[Search] Query changed: %s', query);
-          if (!query.trim()) {
-            this.results.set([]);
-            this.totalCount.set(0);
-            this.hasMore.set(false);
-            this.hasSearched.set(false);
-            this.error.set(null);
-            this.currentOffset = 0;
+          if (!query.trim() && !this.hasFilters()) {
+            this.resetResults();
           }
         }),
         takeUntilDestroyed(this.destroyRef)
       )
       .subscribe((query: string) => {
-        if (query.trim()) {
+        if (query.trim() || this.hasFilters()) {
           this.performSearch(query);
         }
       });
@@ -679,7 +928,23 @@ export class SearchComponent implements OnInit {
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe(params => {
         const query = params['q'] || '';
-        if (query && query !== this.searchQuery()) {
+        const tags: string[] = params['tags'] ? String(params['tags']).split(',').filter(Boolean) : [];
+        const tagsChanged = tags.join(',') !== this.selectedTags().join(',');
+        if (tagsChanged) {
+          this.selectedTags.set(tags);
+        }
+        const field = params['field'] && params['value'] !== undefined
+          ? { fieldId: String(params['field']), value: String(params['value']) }
+          : null;
+        const current = this.fieldFilter();
+        const fieldChanged = field?.fieldId !== current?.fieldId || field?.value !== current?.value;
+        if (fieldChanged) {
+          this.fieldFilter.set(field);
+          if (field && !this.fieldDefinitionsLoaded) {
+            this.loadFieldDefinitions();
+          }
+        }
+        if ((query && query !== this.searchQuery()) || (tagsChanged && tags.length > 0) || (fieldChanged && field)) {
           this.searchQuery.set(query);
           this.performSearch(query);
         }
@@ -697,13 +962,16 @@ export class SearchComponent implements OnInit {
       .searchItems({
         q: query,
         locationId,
+        tags: this.selectedTags(),
+        fieldId: this.fieldFilter()?.fieldId,
+        fieldValue: this.fieldFilter()?.value,
         limit: this.pageSize,
         offset: 0
       })
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: (response: SearchResults) => {
-          this.results.set(response.items);
+          this.resultIds.set(response.items.map(item => item.id));
           this.totalCount.set(response.total);
           this.hasMore.set(response.hasMore);
           this.hasSearched.set(true);
@@ -719,6 +987,63 @@ export class SearchComponent implements OnInit {
       });
   }
 
+  /**
+   * Whether there is anything to search for
+   */
+  private hasCriteria(): boolean {
+    return !!this.searchQuery().trim() || this.hasFilters();
+  }
+
+  /**
+   * Whether a tag or custom field filter is set
+   */
+  private hasFilters(): boolean {
+    return this.selectedTags().length > 0 || this.fieldFilter() !== null;
+  }
+
+  private resetResults(): void {
+    this.resultIds.set([]);
+    this.totalCount.set(0);
+    this.hasMore.set(false);
+    this.hasSearched.set(false);
+    this.error.set(null);
+    this.currentOffset = 0;
+  }
+
+  private loadTags(): void {
+    this.isLoadingTags.set(true);
+
+    this.tagApiService
+      .getTags()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (tags: TagSummary[]) => {
+          this.availableTags.set(tags);
+          this.tagsLoaded = true;
+          this.isLoadingTags.set(false);
+        },
+        error: () => {
+          // Silently fail - panel will show empty state
+          this.isLoadingTags.set(false);
+        }
+      });
+  }
+
+  private loadFieldDefinitions(): void {
+    this.customFieldApiService
+      .getFields()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (fields: CustomFieldDefinition[]) => {
+          this.fieldDefinitions.set(fields);
+          this.fieldDefinitionsLoaded = true;
+        },
+        error: () => {
+          // Silently fail - the chip shows the bare value
+        }
+      });
+  }
+
   private loadLocationTree(): void {
     this.isLoadingLocations.set(true);
 
@@ -748,6 +1073,16 @@ export class SearchComponent implements OnInit {
     });
   }
 
+  private updateTagsParam(): void {
+    const tags = this.selectedTags();
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { tags: tags.length ? tags.join(',') : null },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
   private triggerHapticFeedback(): void {
     if (this.telegramService.isInTelegram()) {
       try {
@@ -0,0 +1,434 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ItemApiService, LowStockItem } from '../../core/api/item-api.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * Items of one location on the shopping list
+ */
+interface ShoppingListGroup {
+  locationId: string;
+  /** Location path joined for display */
+  label: string;
+  items: LowStockItem[];
+}
+
+/**
+ * How many to buy so the item is back above its low-stock level
+ */
+function suggestedAmount(item: LowStockItem): number {
+  return Math.max(1, item.minQuantity - item.quantity + 1);
+}
+
+/**
+ * Shopping list screen
+ *
+ * Features:
+ * - Every item at or below its low-stock level, grouped by location
+ * - Check an item off as bought: its quantity goes up by the bought amount
+ *   and the restock is logged (offline, the change is queued like any other edit)
+ * - Share the items still to buy into a Telegram chat as text,
+ *   or copy it outside Telegram
+ */
+@Component({
+  selector: 'app-shopping-list',
+  standalone: true,
+  imports: [LoadingSpinnerComponent, EmptyStateComponent],
+  template: `
+    <div class="shopping-list">
+      <header class="shopping-list__header">
+        <h1 class="shopping-list__title">Shopping List</h1>
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading shopping list..." />
+      }
+
+      @if (error()) {
+        <div class="shopping-list__error">
+          <svg class="shopping-list__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="shopping-list__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadItems()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        @if (groups().length === 0) {
+          <app-empty-state
+            icon="empty-search"
+            title="Nothing to buy"
+            message="Set a low stock level when editing an item and it shows up here when it runs low"
+          />
+        } @else {
+          @for (group of groups(); track group.locationId) {
+            <section class="shopping-list__section">
+              <h2 class="shopping-list__section-title">{{ group.label }}</h2>
+              @for (item of group.items; track item.id) {
+                <article class="shopping-list__item" [class.shopping-list__item--bought]="bought().has(item.id)">
+                  <button type="button" class="shopping-list__item-info" (click)="openItem(item)">
+                    <span class="shopping-list__item-name">{{ item.name }}</span>
+                    <span class="shopping-list__item-meta">
+                      @if (bought().has(item.id)) {
+                        Bought {{ bought().get(item.id) }}
+                      } @else {
+                        Have {{ item.quantity }} · low at {{ item.minQuantity }}
+                      }
+                    </span>
+                  </button>
+                  @if (!bought().has(item.id)) {
+                    <input
+                      type="number"
+                      class="shopping-list__amount"
+                      min="1"
+                      max="999999"
+                      inputmode="numeric"
+                      [value]="amountFor(item)"
+                      [disabled]="busyId() !== null"
+                      [attr.aria-label]="'Amount of ' + item.name + ' bought'"
+                      (input)="onAmountInput(item, $event)"
+                    />
+                    <button
+                      type="button"
+                      class="btn btn-primary shopping-list__buy-btn"
+                      [disabled]="busyId() !== null || amountFor(item) < 1"
+                      (click)="markBought(item)"
+                    >
+                      {{ busyId() === item.id ? 'Saving...' : 'Bought' }}
+                    </button>
+                  }
+                </article>
+              }
+            </section>
+          }
+
+          @if (remainingCount() > 0) {
+            <button type="button" class="btn btn-secondary shopping-list__share" (click)="share()">
+              <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                <path d="M18 16.08c-.76 0-1.44.3-1.96.77L8.91 12.7c.05-.23.09-.46.09-.7s-.04-.47-.09-.7l7.05-4.11c.54.5 1.25.81 2.04.81 1.66 0 3-1.34 3-3s-1.34-3-3-3-3 1.34-3 3c0 .24.04.47.09.7L8.04 9.81C7.5 9.31 6.79 9 6 9c-1.66 0-3 1.34-3 3s1.34 3 3 3c.79 0 1.5-.31 2.04-.81l7.12 4.16c-.05.21-.08.43-.08.65 0 1.61 1.31 2.92 2.92 2.92 1.61 0 2.92-1.31 2.92-2.92s-1.31-2.92-2.92-2.92z"/>
+              </svg>
+              {{ isInTelegram ? 'Share to a Chat' : 'Copy List' }}
+            </button>
+          }
+        }
+      }
+    </div>
+  `,
+  styles: [`
+    .shopping-list {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: var(--spacing-xl);
+    }
+
+    .shopping-list__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .shopping-list__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .shopping-list__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .shopping-list__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .shopping-list__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .shopping-list__section {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+    }
+
+    .shopping-list__section-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      overflow-wrap: anywhere;
+    }
+
+    .shopping-list__item {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-sm) var(--spacing-sm) var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .shopping-list__item--bought {
+      opacity: 0.6;
+
+      .shopping-list__item-name {
+        text-decoration: line-through;
+      }
+    }
+
+    .shopping-list__item-info {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 2px;
+      min-height: 44px;
+      justify-content: center;
+      padding: 0;
+      border: none;
+      background: none;
+      text-align: left;
+      cursor: pointer;
+    }
+
+    .shopping-list__item-name {
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .shopping-list__item-meta {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .shopping-list__amount {
+      width: 64px;
+      min-height: 44px;
+      padding: 0 var(--spacing-sm);
+      font-size: 1rem;
+      text-align: center;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-md);
+
+      &:focus {
+        outline: none;
+        border-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .shopping-list__buy-btn {
+      min-height: 44px;
+    }
+
+    .shopping-list__share {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: var(--spacing-sm);
+      margin-top: var(--spacing-sm);
+
+      svg {
+        width: 20px;
+        height: 20px;
+      }
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ShoppingListComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly itemApiService = inject(ItemApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly isInTelegram = this.telegramService.isInTelegram();
+
+  /** Items at or below their low-stock level */
+  readonly items = signal<LowStockItem[]>([]);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if the list fails to load */
+  readonly error = signal<string | null>(null);
+
+  /** ID of the item being checked off */
+  readonly busyId = signal<string | null>(null);
+
+  /** Amounts typed per item; items without one use the suggested amount */
+  readonly amounts = signal<Record<string, number>>({});
+
+  /** Items checked off in this visit, with the amount bought */
+  readonly bought = signal<Map<string, number>>(new Map());
+
+  /** Items grouped by location, locations and items sorted by name */
+  readonly groups = computed<ShoppingListGroup[]>(() => {
+    const groups = new Map<string, ShoppingListGroup>();
+    for (const item of this.items()) {
+      let group = groups.get(item.locationId);
+      if (!group) {
+        group = { locationId: item.locationId, label: item.locationPath.join(' / '), items: [] };
+        groups.set(item.locationId, group);
+      }
+      group.items.push(item);
+    }
+    return [...groups.values()]
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .map(group => ({ ...group, items: group.items.sort((a, b) => a.name.localeCompare(b.name)) }));
+  });
+
+  /** Items still to buy */
+  readonly remainingCount = computed(() => this.items().length - this.bought().size);
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadItems();
+  }
+
+  /**
+   * Load the items that are low on stock
+   */
+  loadItems(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.itemApiService
+      .getLowStockItems()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (items) => {
+          this.items.set(items);
+          this.bought.set(new Map());
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load shopping list');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  amountFor(item: LowStockItem): number {
+    return this.amounts()[item.id] ?? suggestedAmount(item);
+  }
+
+  onAmountInput(item: LowStockItem, event: Event): void {
+    const amount = (event.target as HTMLInputElement).valueAsNumber;
+    this.amounts.update(amounts => ({ ...amounts, [item.id]: Number.isInteger(amount) ? amount : 0 }));
+  }
+
+  /**
+   * Check an item off: add the bought amount to its quantity
+   */
+  markBought(item: LowStockItem): void {
+    const amount = this.amountFor(item);
+    if (amount < 1 || this.busyId() !== null) {
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.busyId.set(item.id);
+
+    this.itemApiService
+      .adjustQuantity(item.id, amount, item.name)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => this.onBought(item, amount),
+        error: (err) => {
+          if (err.queued) {
+            // Saved to the offline outbox; the quantity goes up once the connection returns
+            this.toastService.info(err.message, 5000);
+            this.onBought(item, amount);
+            return;
+          }
+          this.busyId.set(null);
+          this.toastService.error(err.message || 'Failed to update quantity');
+        }
+      });
+  }
+
+  /**
+   * Send the items still to buy to a chat, or copy them outside Telegram
+   */
+  share(): void {
+    this.triggerHapticFeedback();
+    const text = this.formatList();
+    if (this.telegramService.shareText(text)) {
+      return;
+    }
+
+    navigator.clipboard.writeText(text).then(
+      () => this.toastService.success('Shopping list copied'),
+      () => this.toastService.error('Could not copy the shopping list')
+    );
+  }
+
+  openItem(item: LowStockItem): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/item', item.id]);
+  }
+
+  private onBought(item: LowStockItem, amount: number): void {
+    this.busyId.set(null);
+    this.bought.update(bought => new Map(bought).set(item.id, amount));
+  }
+
+  /**
+   * Plain-text list of the items still to buy, one block per location
+   */
+  private formatList(): string {
+    const bought = this.bought();
+    const blocks = this.groups()
+      .map(group => ({ ...group, items: group.items.filter(item => !bought.has(item.id)) }))
+      .filter(group => group.items.length > 0)
+      .map(group => [
+        `${group.label}:`,
+        ...group.items.map(item => `• ${item.name} × ${this.amountFor(item)}`)
+      ].join('\n'));
+    return ['Shopping list', '', blocks.join('\n\n')].join('\n');
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
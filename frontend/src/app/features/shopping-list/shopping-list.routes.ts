@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Shopping list feature routes
+ *
+ * - /shopping-list - Items at or below their low-stock level, by location
+ */
+export const shoppingListRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./shopping-list.component').then(m => m.ShoppingListComponent),
+    title: 'Shopping List - StuffTracker'
+  }
+];
@@ -0,0 +1,418 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { takeUntilDestroyed, toObservable } from '@angular/core/rxjs-interop';
+import { forkJoin, of } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { OutboxEntry, OutboxService } from '../../core/offline/outbox.service';
+import { ConnectivityService } from '../../core/offline/connectivity.service';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * One field of a conflicting edit, compared with the server copy
+ */
+interface FieldDiff {
+  label: string;
+  mine: string;
+  server: string;
+}
+
+/** Display labels for fields that can be part of a queued write */
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  quantity: 'Quantity',
+  barcode: 'Barcode',
+  locationId: 'Location',
+  parentId: 'Parent location'
+};
+
+/**
+ * Sync screen for changes made while offline
+ *
+ * Features:
+ * - Lists queued writes waiting to be sent
+ * - Conflict resolution when the server copy changed after the offline edit
+ *   ("Keep mine" overwrites, "Use server version" drops the local edit)
+ * - Retry or discard for writes the server rejected
+ * - Manual "Sync now" trigger
+ */
+@Component({
+  selector: 'app-sync',
+  standalone: true,
+  imports: [EmptyStateComponent],
+  template: `
+    <div class="sync">
+      <header class="sync__header">
+        <h1 class="sync__title">Offline changes</h1>
+        <button
+          type="button"
+          class="btn btn-primary sync__sync-btn"
+          [disabled]="outbox.isReplaying() || !hasPending()"
+          (click)="syncNow()"
+        >
+          {{ outbox.isReplaying() ? 'Syncing...' : 'Sync now' }}
+        </button>
+      </header>
+
+      @if (outbox.entries().length === 0) {
+        <app-empty-state
+          icon="✓"
+          title="Everything is synced"
+          message="Changes you make while offline will appear here until they reach the server."
+        />
+      }
+
+      <!-- Conflicts -->
+      @if (conflicts().length > 0) {
+        <section class="sync__section">
+          <h2 class="sync__section-title">Needs your decision</h2>
+          @for (entry of conflicts(); track entry.id) {
+            <article class="sync__card sync__card--conflict">
+              <h3 class="sync__card-title">{{ entry.label }}</h3>
+              <p class="sync__card-text">
+                This was changed on the server ({{ formatDate(entry.serverUpdatedAt) }})
+                after you edited it offline.
+              </p>
+
+              @if (diffs()[entry.id!]; as entryDiffs) {
+                <table class="sync__diff">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      <th>Yours</th>
+                      <th>Server</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    @for (diff of entryDiffs; track diff.label) {
+                      <tr [class.sync__diff-row--changed]="diff.mine !== diff.server">
+                        <th scope="row">{{ diff.label }}</th>
+                        <td>{{ diff.mine }}</td>
+                        <td>{{ diff.server }}</td>
+                      </tr>
+                    }
+                  </tbody>
+                </table>
+              }
+
+              <div class="sync__card-actions">
+                <button type="button" class="btn btn-secondary" (click)="resolve(entry, 'server')">
+                  Use server version
+                </button>
+                <button type="button" class="btn btn-primary" (click)="resolve(entry, 'mine')">
+                  Keep mine
+                </button>
+              </div>
+            </article>
+          }
+        </section>
+      }
+
+      <!-- Failed -->
+      @if (failed().length > 0) {
+        <section class="sync__section">
+          <h2 class="sync__section-title">Rejected by the server</h2>
+          @for (entry of failed(); track entry.id) {
+            <article class="sync__card sync__card--failed">
+              <h3 class="sync__card-title">{{ entry.label }}</h3>
+              <p class="sync__card-text">{{ entry.error }}</p>
+              <div class="sync__card-actions">
+                <button type="button" class="btn btn-secondary" (click)="discard(entry)">
+                  Discard
+                </button>
+                <button type="button" class="btn btn-primary" (click)="retry(entry)">
+                  Retry
+                </button>
+              </div>
+            </article>
+          }
+        </section>
+      }
+
+      <!-- Pending -->
+      @if (pending().length > 0) {
+        <section class="sync__section">
+          <h2 class="sync__section-title">Waiting to sync</h2>
+          @for (entry of pending(); track entry.id) {
+            <article class="sync__card">
+              <h3 class="sync__card-title">{{ entry.label }}</h3>
+              <p class="sync__card-text">Saved {{ formatDate(entry.queuedAt) }}</p>
+            </article>
+          }
+          @if (connectivity.isOffline()) {
+            <p class="sync__hint">These will be sent automatically when you are back online.</p>
+          }
+        </section>
+      }
+    </div>
+  `,
+  styles: [`
+    .sync {
+      display: flex;
+      flex-direction: column;
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-xl) + 60px);
+    }
+
+    .sync__header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: var(--spacing-md);
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .sync__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .sync__sync-btn {
+      font-size: 0.875rem;
+      min-height: 40px;
+      flex-shrink: 0;
+    }
+
+    .sync__section {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      margin-top: var(--spacing-lg);
+    }
+
+    .sync__section-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .sync__card {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .sync__card--conflict {
+      border-left: 4px solid #f59e0b;
+    }
+
+    .sync__card--failed {
+      border-left: 4px solid var(--tg-theme-destructive-text-color);
+    }
+
+    .sync__card-title {
+      font-size: 1rem;
+      font-weight: 600;
+      color: var(--tg-theme-text-color);
+    }
+
+    .sync__card-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .sync__card-actions {
+      display: flex;
+      gap: var(--spacing-sm);
+      margin-top: var(--spacing-sm);
+
+      .btn {
+        flex: 1;
+        font-size: 0.875rem;
+        min-height: 44px;
+      }
+    }
+
+    .sync__diff {
+      width: 100%;
+      margin-top: var(--spacing-sm);
+      border-collapse: collapse;
+      font-size: 0.8125rem;
+      color: var(--tg-theme-text-color);
+
+      th,
+      td {
+        padding: var(--spacing-xs);
+        text-align: left;
+        vertical-align: top;
+        word-break: break-word;
+      }
+
+      thead th,
+      tbody th {
+        font-weight: 500;
+        color: var(--tg-theme-hint-color);
+      }
+    }
+
+    .sync__diff-row--changed td {
+      font-weight: 600;
+    }
+
+    .sync__hint {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+      text-align: center;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class SyncComponent implements OnInit {
+  protected readonly outbox = inject(OutboxService);
+  protected readonly connectivity = inject(ConnectivityService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Entries with a conflict */
+  readonly conflicts = this.outbox.conflicts;
+
+  /** Entries rejected by the server */
+  readonly failed = computed(() => this.outbox.entries().filter(e => e.status === 'failed'));
+
+  /** Entries waiting to be sent */
+  readonly pending = computed(() => this.outbox.entries().filter(e => e.status === 'pending'));
+
+  /** Whether there is anything to send */
+  readonly hasPending = computed(() => this.pending().length > 0);
+
+  /** Field comparisons for conflicting entries, keyed by entry id */
+  readonly diffs = signal<Record<number, FieldDiff[]>>({});
+
+  constructor() {
+    // Load the server copy of each conflicting entity whenever the conflict list changes
+    toObservable(this.conflicts)
+      .pipe(
+        switchMap(conflicts => {
+          if (conflicts.length === 0) {
+            return of({});
+          }
+          return forkJoin(conflicts.map(entry =>
+            this.outbox.getServerCopy(entry).pipe(
+              map(server => [entry.id!, this.buildDiffs(entry, server)] as const),
+              catchError(() => of([entry.id!, []] as const))
+            )
+          )).pipe(map(pairs => Object.fromEntries(pairs)));
+        }),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(diffs => this.diffs.set(diffs));
+  }
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+  }
+
+  /**
+   * Replay queued changes now
+   */
+  syncNow(): void {
+    this.triggerHapticFeedback();
+    void this.outbox.replay(true);
+  }
+
+  /**
+   * Resolve a conflict by keeping the local edit or the server copy
+   */
+  async resolve(entry: OutboxEntry, resolution: 'mine' | 'server'): Promise<void> {
+    this.triggerHapticFeedback();
+    await this.outbox.resolveConflict(entry.id!, resolution);
+    this.toastService.success(resolution === 'mine' ? 'Your change was kept' : 'Server version kept');
+  }
+
+  /**
+   * Send a rejected change again
+   */
+  retry(entry: OutboxEntry): void {
+    this.triggerHapticFeedback();
+    void this.outbox.retry(entry.id!);
+  }
+
+  /**
+   * Drop a rejected change
+   */
+  discard(entry: OutboxEntry): void {
+    this.triggerHapticFeedback();
+    void this.outbox.discard(entry.id!);
+  }
+
+  /**
+   * Format date for display
+   */
+  formatDate(dateString?: string): string {
+    if (!dateString) return '';
+    try {
+      return new Date(dateString).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      });
+    } catch {
+      return dateString;
+    }
+  }
+
+  private buildDiffs(entry: OutboxEntry, server: Record<string, unknown>): FieldDiff[] {
+    const body = (entry.body ?? {}) as Record<string, unknown>;
+
+    return Object.keys(body)
+      .filter(key => key in FIELD_LABELS)
+      .map(key => ({
+        label: FIELD_LABELS[key],
+        mine: this.formatMine(key, body[key]),
+        server: this.formatServer(key, server)
+      }));
+  }
+
+  private formatMine(key: string, value: unknown): string {
+    if (key === 'parentId' && value === null) {
+      return 'Root level';
+    }
+    if (key === 'locationId' || key === 'parentId') {
+      return 'New location';
+    }
+    return value === undefined || value === null || value === '' ? '—' : String(value);
+  }
+
+  private formatServer(key: string, server: Record<string, unknown>): string {
+    if (key === 'locationId') {
+      return String(server['locationName'] ?? '—');
+    }
+    if (key === 'parentId') {
+      // Breadcrumbs end with the location itself; the parent is the one before it
+      const breadcrumbs = (server['breadcrumbs'] as string[] | undefined) ?? [];
+      return breadcrumbs.length > 1 ? breadcrumbs[breadcrumbs.length - 2] : 'Root level';
+    }
+    const value = server[key];
+    return value === undefined || value === null || value === '' ? '—' : String(value);
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
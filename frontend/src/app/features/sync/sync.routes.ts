@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Sync feature routes
+ *
+ * - /sync - Offline changes waiting to sync, conflicts and rejected writes
+ */
+export const syncRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./sync.component').then(m => m.SyncComponent),
+    title: 'Sync - StuffTracker'
+  }
+];
@@ -0,0 +1,566 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable } from 'rxjs';
+import { MAX_TAG_LENGTH, TagApiService, TagSummary, normalizeTag } from '../../core/api/tag-api.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * Tag management screen
+ *
+ * Features:
+ * - All tags in use with their item counts
+ * - Rename a tag on every item; renaming onto an existing tag merges them
+ * - Select several tags and merge them into one
+ * - Tap a tag name to see its items in search
+ */
+@Component({
+  selector: 'app-tags',
+  standalone: true,
+  imports: [LoadingSpinnerComponent, EmptyStateComponent],
+  template: `
+    <div class="tags">
+      <header class="tags__header">
+        <h1 class="tags__title">Tags</h1>
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading tags..." />
+      }
+
+      @if (error()) {
+        <div class="tags__error">
+          <svg class="tags__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="tags__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadTags()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        @if (tags().length === 0) {
+          <app-empty-state
+            icon="empty-search"
+            title="No tags yet"
+            message="Add tags such as electronics or winter when editing an item"
+          />
+        } @else {
+          <p class="tags__hint">Select tags to merge them, or rename one to tidy up spelling.</p>
+
+          <ul class="tags__list">
+            @for (tag of tags(); track tag.name) {
+              <li class="tags__row" [class.tags__row--selected]="selected().has(tag.name)">
+                @if (editing() === tag.name) {
+                  <input
+                    type="text"
+                    class="tags__rename-input"
+                    [value]="renameText()"
+                    [attr.maxlength]="maxTagLength"
+                    [attr.aria-label]="'New name for ' + tag.name"
+                    autocomplete="off"
+                    autocapitalize="off"
+                    (input)="onRenameInput($event)"
+                    (keydown.enter)="saveRename(tag)"
+                    (keydown.escape)="cancelRename()"
+                  />
+                  <div class="tags__rename-actions">
+                    @if (renameTarget(); as target) {
+                      <span class="tags__rename-hint">
+                        {{ target === tag.name ? 'Unchanged' : (isExistingTag(target) ? 'Merges into "' + target + '"' : '') }}
+                      </span>
+                    }
+                    <button type="button" class="btn btn-secondary" [disabled]="isSaving()" (click)="cancelRename()">Cancel</button>
+                    <button
+                      type="button"
+                      class="btn btn-primary"
+                      [disabled]="isSaving() || !renameTarget() || renameTarget() === tag.name"
+                      (click)="saveRename(tag)"
+                    >
+                      {{ renameTarget() && isExistingTag(renameTarget()) && renameTarget() !== tag.name ? 'Merge' : 'Save' }}
+                    </button>
+                  </div>
+                } @else {
+                  <label class="tags__select">
+                    <input
+                      type="checkbox"
+                      [checked]="selected().has(tag.name)"
+                      [disabled]="isSaving()"
+                      (change)="toggleSelected(tag.name)"
+                      [attr.aria-label]="'Select ' + tag.name"
+                    />
+                  </label>
+                  <button type="button" class="tags__name" (click)="searchTag(tag.name)">
+                    {{ tag.name }}
+                    <span class="tags__count">{{ tag.itemCount }} {{ tag.itemCount === 1 ? 'item' : 'items' }}</span>
+                  </button>
+                  <button
+                    type="button"
+                    class="tags__icon-btn"
+                    [disabled]="isSaving()"
+                    (click)="startRename(tag)"
+                    [attr.aria-label]="'Rename ' + tag.name"
+                  >
+                    <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                      <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/>
+                    </svg>
+                  </button>
+                }
+              </li>
+            }
+          </ul>
+        }
+      }
+
+      <!-- Merge bar -->
+      @if (selected().size >= 2) {
+        <div class="tags__merge-bar">
+          <label class="tags__merge-label" for="merge-target">Merge {{ selected().size }} tags into</label>
+          <div class="tags__merge-row">
+            <input
+              id="merge-target"
+              type="text"
+              class="tags__rename-input"
+              [value]="mergeText()"
+              [attr.maxlength]="maxTagLength"
+              autocomplete="off"
+              autocapitalize="off"
+              (input)="onMergeInput($event)"
+              (keydown.enter)="merge()"
+            />
+            <button
+              type="button"
+              class="btn btn-primary"
+              [disabled]="isSaving() || !mergeTarget()"
+              (click)="merge()"
+            >
+              {{ isSaving() ? 'Merging...' : 'Merge' }}
+            </button>
+          </div>
+          <button type="button" class="tags__clear-selection" [disabled]="isSaving()" (click)="clearSelection()">
+            Clear selection
+          </button>
+        </div>
+      }
+    </div>
+  `,
+  styles: [`
+    .tags {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-xl) + 140px);
+    }
+
+    .tags__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .tags__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .tags__hint {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .tags__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .tags__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .tags__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .tags__list {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      list-style: none;
+      padding: 0;
+      margin: 0;
+    }
+
+    .tags__row {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: var(--spacing-sm);
+      min-height: 56px;
+      padding: var(--spacing-xs) var(--spacing-sm);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .tags__row--selected {
+      box-shadow: inset 0 0 0 2px var(--tg-theme-button-color);
+    }
+
+    .tags__select {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 44px;
+      height: 44px;
+      cursor: pointer;
+
+      input {
+        width: 20px;
+        height: 20px;
+        accent-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .tags__name {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      gap: 2px;
+      min-height: 44px;
+      justify-content: center;
+      padding: 0;
+      border: none;
+      background: none;
+      font-size: 1rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+      text-align: left;
+      cursor: pointer;
+      overflow-wrap: anywhere;
+    }
+
+    .tags__count {
+      font-size: 0.75rem;
+      font-weight: 400;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .tags__icon-btn {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 44px;
+      height: 44px;
+      padding: 0;
+      border: none;
+      background: none;
+      border-radius: var(--radius-md);
+      color: var(--tg-theme-hint-color);
+      cursor: pointer;
+
+      svg {
+        width: 20px;
+        height: 20px;
+      }
+
+      &:active:not(:disabled) {
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+
+      &:disabled {
+        opacity: 0.5;
+      }
+    }
+
+    .tags__rename-input {
+      flex: 1;
+      min-width: 0;
+      width: 100%;
+      min-height: 44px;
+      padding: var(--spacing-sm) var(--spacing-md);
+      font-size: 1rem;
+      color: var(--tg-theme-text-color);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: 2px solid var(--tg-theme-button-color);
+      border-radius: var(--radius-md);
+      outline: none;
+    }
+
+    .tags__rename-actions {
+      display: flex;
+      align-items: center;
+      justify-content: flex-end;
+      gap: var(--spacing-sm);
+      width: 100%;
+
+      .btn {
+        min-height: 40px;
+      }
+    }
+
+    .tags__rename-hint {
+      flex: 1;
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .tags__merge-bar {
+      position: fixed;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      z-index: var(--z-sticky);
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-md) + env(safe-area-inset-bottom, 0px));
+      background-color: var(--tg-theme-section-bg-color);
+      box-shadow: 0 -2px 12px rgba(0, 0, 0, 0.1);
+    }
+
+    .tags__merge-label {
+      font-size: 0.875rem;
+      font-weight: 500;
+      color: var(--tg-theme-text-color);
+    }
+
+    .tags__merge-row {
+      display: flex;
+      gap: var(--spacing-sm);
+
+      .btn {
+        min-height: 44px;
+      }
+    }
+
+    .tags__clear-selection {
+      align-self: flex-start;
+      padding: 0;
+      border: none;
+      background: none;
+      font-size: 0.875rem;
+      color: var(--tg-theme-link-color);
+      cursor: pointer;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TagsComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly tagApiService = inject(TagApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly maxTagLength = MAX_TAG_LENGTH;
+
+  /** Tags in use */
+  readonly tags = signal<TagSummary[]>([]);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if tags fail to load */
+  readonly error = signal<string | null>(null);
+
+  /** Whether a rename or merge is running */
+  readonly isSaving = signal(false);
+
+  /** Tag being renamed */
+  readonly editing = signal<string | null>(null);
+
+  /** New name typed for the tag being renamed */
+  readonly renameText = signal('');
+
+  /** Tags selected for merging */
+  readonly selected = signal<Set<string>>(new Set());
+
+  /** Target name typed for the merge */
+  readonly mergeText = signal('');
+
+  /** Rename target in stored form */
+  readonly renameTarget = computed(() => normalizeTag(this.renameText()));
+
+  /** Merge target in stored form */
+  readonly mergeTarget = computed(() => normalizeTag(this.mergeText()));
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadTags();
+  }
+
+  /**
+   * Load all tags
+   */
+  loadTags(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.tagApiService
+      .getTags()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (tags) => {
+          this.tags.set(tags);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load tags');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Whether a tag with this name is already in use
+   */
+  isExistingTag(name: string): boolean {
+    return this.tags().some(tag => tag.name === name);
+  }
+
+  /**
+   * Open the rename field for a tag
+   */
+  startRename(tag: TagSummary): void {
+    this.triggerHapticFeedback();
+    this.editing.set(tag.name);
+    this.renameText.set(tag.name);
+  }
+
+  onRenameInput(event: Event): void {
+    this.renameText.set((event.target as HTMLInputElement).value);
+  }
+
+  cancelRename(): void {
+    this.editing.set(null);
+    this.renameText.set('');
+  }
+
+  /**
+   * Rename a tag; onto an existing name this merges the two
+   */
+  saveRename(tag: TagSummary): void {
+    const target = this.renameTarget();
+    if (!target || target === tag.name || this.isSaving()) {
+      return;
+    }
+
+    const merging = this.isExistingTag(target);
+    this.runChange(
+      this.tagApiService.renameTag(tag.name, target),
+      merging ? `Merged "${tag.name}" into "${target}"` : `Renamed to "${target}"`,
+      'Failed to rename tag'
+    );
+  }
+
+  /**
+   * Add or remove a tag from the merge selection
+   */
+  toggleSelected(name: string): void {
+    this.triggerHapticFeedback();
+    const selected = new Set(this.selected());
+    if (selected.has(name)) {
+      selected.delete(name);
+    } else {
+      selected.add(name);
+    }
+    this.selected.set(selected);
+
+    // Suggest the most used selected tag as the merge target
+    const mostUsed = this.tags()
+      .filter(tag => selected.has(tag.name))
+      .sort((a, b) => b.itemCount - a.itemCount)[0];
+    this.mergeText.set(mostUsed?.name ?? '');
+  }
+
+  onMergeInput(event: Event): void {
+    this.mergeText.set((event.target as HTMLInputElement).value);
+  }
+
+  clearSelection(): void {
+    this.selected.set(new Set());
+    this.mergeText.set('');
+  }
+
+  /**
+   * Merge the selected tags into the typed target
+   */
+  merge(): void {
+    const target = this.mergeTarget();
+    const sources = [...this.selected()];
+    if (!target || sources.length < 2 || this.isSaving()) {
+      return;
+    }
+
+    this.runChange(
+      this.tagApiService.mergeTags(sources, target),
+      `Merged ${sources.length} tags into "${target}"`,
+      'Failed to merge tags'
+    );
+  }
+
+  /**
+   * Open search filtered by a tag
+   */
+  searchTag(name: string): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/search'], { queryParams: { tags: name } });
+  }
+
+  private runChange(request: Observable<TagSummary>, successMessage: string, fallbackError: string): void {
+    this.triggerHapticFeedback();
+    this.isSaving.set(true);
+
+    request
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.isSaving.set(false);
+          this.cancelRename();
+          this.clearSelection();
+          this.toastService.success(successMessage);
+          this.loadTags();
+        },
+        error: (err) => {
+          this.isSaving.set(false);
+          this.toastService.error(err.message || fallbackError);
+        }
+      });
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Tags feature routes
+ *
+ * - /tags - Rename and merge tags
+ */
+export const tagsRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./tags.component').then(m => m.TagsComponent),
+    title: 'Tags - StuffTracker'
+  }
+];
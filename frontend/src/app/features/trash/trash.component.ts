@@ -0,0 +1,591 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { forkJoin } from 'rxjs';
+import { DeletedItem, ItemApiService } from '../../core/api/item-api.service';
+import {
+  DeletedLocation,
+  LocationApiService,
+  LocationTreeNode
+} from '../../core/api/location-api.service';
+import { LocationPickerComponent } from '../../shared/components/location-picker';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import {
+  DeleteConfirmationComponent,
+  DeleteConfirmationData
+} from '../../shared/components/delete-confirmation';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * A deleted location or item
+ */
+type TrashEntry =
+  | { kind: 'location'; entry: DeletedLocation }
+  | { kind: 'item'; entry: DeletedItem };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Trash screen for deleted locations and items
+ *
+ * Features:
+ * - Lists soft-deleted locations and items with deletion date and original path
+ * - Restore to the original place, or to a newly picked one if that place is gone
+ * - Purge single entries for good
+ * - Shows how long each entry is kept before the server purges it
+ */
+@Component({
+  selector: 'app-trash',
+  standalone: true,
+  imports: [LocationPickerComponent, DeleteConfirmationComponent, LoadingSpinnerComponent, EmptyStateComponent],
+  template: `
+    <div class="trash">
+      <header class="trash__header">
+        <h1 class="trash__title">Trash</h1>
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading trash..." />
+      }
+
+      @if (error()) {
+        <div class="trash__error">
+          <svg class="trash__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="trash__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadTrash()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error()) {
+        @if (locations().length === 0 && items().length === 0) {
+          <app-empty-state
+            icon="🗑️"
+            title="Trash is empty"
+            message="Deleted locations and items are kept here for a while so you can restore them."
+          />
+        }
+
+        <!-- Locations -->
+        @if (locations().length > 0) {
+          <section class="trash__section">
+            <h2 class="trash__section-title">Locations</h2>
+            @for (location of locations(); track location.id) {
+              <article class="trash__card">
+                <h3 class="trash__card-title">{{ location.name }}</h3>
+                <p class="trash__card-text">
+                  Was in {{ location.locationPath.length > 0 ? location.locationPath.join(' / ') : 'top level' }}
+                </p>
+                @if (location.childCount > 0 || location.itemCount > 0) {
+                  <p class="trash__card-text">
+                    With {{ location.childCount }} sub-location(s) and {{ location.itemCount }} item(s)
+                  </p>
+                }
+                <p class="trash__card-meta">
+                  Deleted {{ formatDate(location.deletedAt) }} · {{ expiryLabel(location.expiresAt) }}
+                </p>
+                @if (!location.parentExists) {
+                  <p class="trash__card-notice">The original parent no longer exists.</p>
+                }
+                <div class="trash__card-actions">
+                  <button
+                    type="button"
+                    class="btn btn-secondary trash__purge-btn"
+                    [disabled]="busyId() !== null"
+                    (click)="purgeLocation(location)"
+                  >
+                    Delete Forever
+                  </button>
+                  <button
+                    type="button"
+                    class="btn btn-primary"
+                    [disabled]="busyId() !== null"
+                    (click)="restoreLocation(location)"
+                  >
+                    {{ location.parentExists ? 'Restore' : 'Restore to...' }}
+                  </button>
+                </div>
+              </article>
+            }
+          </section>
+        }
+
+        <!-- Items -->
+        @if (items().length > 0) {
+          <section class="trash__section">
+            <h2 class="trash__section-title">Items</h2>
+            @for (item of items(); track item.id) {
+              <article class="trash__card">
+                <h3 class="trash__card-title">
+                  {{ item.name }}
+                  @if (item.quantity > 1) {
+                    <span class="trash__card-quantity">×{{ item.quantity }}</span>
+                  }
+                </h3>
+                <p class="trash__card-text">Was in {{ item.locationPath.join(' / ') }}</p>
+                <p class="trash__card-meta">
+                  Deleted {{ formatDate(item.deletedAt) }} · {{ expiryLabel(item.expiresAt) }}
+                </p>
+                @if (!item.locationExists) {
+                  <p class="trash__card-notice">The original location no longer exists.</p>
+                }
+                <div class="trash__card-actions">
+                  <button
+                    type="button"
+                    class="btn btn-secondary trash__purge-btn"
+                    [disabled]="busyId() !== null"
+                    (click)="purgeItem(item)"
+                  >
+                    Delete Forever
+                  </button>
+                  <button
+                    type="button"
+                    class="btn btn-primary"
+                    [disabled]="busyId() !== null"
+                    (click)="restoreItem(item)"
+                  >
+                    {{ item.locationExists ? 'Restore' : 'Restore to...' }}
+                  </button>
+                </div>
+              </article>
+            }
+          </section>
+        }
+      }
+    </div>
+
+    @if (restoreTarget()) {
+      <app-location-picker
+        [locations]="locationTree()"
+        (locationSelected)="onRestoreLocationSelected($event)"
+        (closed)="restoreTarget.set(null)"
+      />
+    }
+
+    @if (purgeData(); as data) {
+      <app-delete-confirmation
+        [data]="data"
+        [title]="purgeTitle()"
+        [permanent]="true"
+        (confirm)="onPurgeConfirmed()"
+        (cancel)="purgeTarget.set(null)"
+      />
+    }
+  `,
+  styles: [`
+    .trash {
+      display: flex;
+      flex-direction: column;
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-xl) + 60px);
+    }
+
+    .trash__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .trash__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .trash__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      padding: var(--spacing-2xl) var(--spacing-md);
+      gap: var(--spacing-md);
+      text-align: center;
+    }
+
+    .trash__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .trash__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .trash__section {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      margin-top: var(--spacing-lg);
+    }
+
+    .trash__section-title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .trash__card {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .trash__card-title {
+      font-size: 1rem;
+      font-weight: 600;
+      color: var(--tg-theme-text-color);
+      word-break: break-word;
+    }
+
+    .trash__card-quantity {
+      font-weight: 500;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .trash__card-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      word-break: break-word;
+    }
+
+    .trash__card-meta {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .trash__card-notice {
+      font-size: 0.8125rem;
+      color: #f59e0b;
+    }
+
+    .trash__card-actions {
+      display: flex;
+      gap: var(--spacing-sm);
+      margin-top: var(--spacing-sm);
+
+      .btn {
+        flex: 1;
+        font-size: 0.875rem;
+        min-height: 44px;
+      }
+    }
+
+    .trash__purge-btn {
+      color: var(--tg-theme-destructive-text-color);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TrashComponent implements OnInit {
+  private readonly itemApiService = inject(ItemApiService);
+  private readonly locationApiService = inject(LocationApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Deleted locations as returned by the server */
+  private readonly deletedLocations = signal<DeletedLocation[]>([]);
+
+  /** Deleted items as returned by the server */
+  private readonly deletedItems = signal<DeletedItem[]>([]);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if the trash fails to load */
+  readonly error = signal<string | null>(null);
+
+  /** ID of the entry being restored or purged */
+  readonly busyId = signal<string | null>(null);
+
+  /** Entry whose new location is being picked */
+  readonly restoreTarget = signal<TrashEntry | null>(null);
+
+  /** Entry awaiting confirmation to be purged */
+  readonly purgeTarget = signal<TrashEntry | null>(null);
+
+  /** What purging the pending entry removes */
+  readonly purgeData = computed<DeleteConfirmationData | null>(() => {
+    const target = this.purgeTarget();
+    if (!target) return null;
+    if (target.kind === 'item') {
+      return { name: target.entry.name, childCount: 0, itemCount: 0, totalDescendantItems: 0 };
+    }
+    const { name, childCount, itemCount } = target.entry;
+    return { name, childCount, itemCount, totalDescendantItems: itemCount };
+  });
+
+  /** Title of the purge confirmation */
+  readonly purgeTitle = computed(() => `Delete "${this.purgeTarget()?.entry.name}" forever?`);
+
+  /** Location tree for the picker (loaded on first use) */
+  readonly locationTree = signal<LocationTreeNode[]>([]);
+
+  /** Deleted locations, without any the server is about to purge */
+  readonly locations = computed(() => this.deletedLocations().filter(l => !this.isExpired(l.expiresAt)));
+
+  /** Deleted items, without any the server is about to purge */
+  readonly items = computed(() => this.deletedItems().filter(i => !this.isExpired(i.expiresAt)));
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadTrash();
+  }
+
+  /**
+   * Load deleted locations and items
+   */
+  loadTrash(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    forkJoin({
+      locations: this.locationApiService.getDeletedLocations(),
+      items: this.itemApiService.getDeletedItems()
+    })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: ({ locations, items }) => {
+          this.deletedLocations.set(locations);
+          this.deletedItems.set(items);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load trash');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Restore a location, asking for a new parent if the old one is gone
+   */
+  restoreLocation(location: DeletedLocation): void {
+    this.triggerHapticFeedback();
+    if (location.parentExists) {
+      this.doRestoreLocation(location);
+    } else {
+      this.openPicker({ kind: 'location', entry: location });
+    }
+  }
+
+  /**
+   * Restore an item, asking for a new location if the old one is gone
+   */
+  restoreItem(item: DeletedItem): void {
+    this.triggerHapticFeedback();
+    if (item.locationExists) {
+      this.doRestoreItem(item);
+    } else {
+      this.openPicker({ kind: 'item', entry: item });
+    }
+  }
+
+  /**
+   * Restore the pending entry into the picked location
+   */
+  onRestoreLocationSelected(node: LocationTreeNode | null): void {
+    const target = this.restoreTarget();
+    if (!target) return;
+
+    if (target.kind === 'item') {
+      if (!node) {
+        this.toastService.warning('Pick a location for the item');
+        return;
+      }
+      this.restoreTarget.set(null);
+      this.doRestoreItem(target.entry, node.id);
+    } else {
+      // "All locations" restores the location at the top level
+      this.restoreTarget.set(null);
+      this.doRestoreLocation(target.entry, node?.id ?? null);
+    }
+  }
+
+  /**
+   * Ask before permanently deleting a location and everything deleted with it
+   */
+  purgeLocation(location: DeletedLocation): void {
+    this.triggerHapticFeedback('warning');
+    this.purgeTarget.set({ kind: 'location', entry: location });
+  }
+
+  /**
+   * Ask before permanently deleting an item
+   */
+  purgeItem(item: DeletedItem): void {
+    this.triggerHapticFeedback('warning');
+    this.purgeTarget.set({ kind: 'item', entry: item });
+  }
+
+  /**
+   * Purge the entry the user confirmed
+   */
+  onPurgeConfirmed(): void {
+    const target = this.purgeTarget();
+    if (!target) return;
+
+    this.purgeTarget.set(null);
+    if (target.kind === 'location') {
+      this.doPurgeLocation(target.entry);
+    } else {
+      this.doPurgeItem(target.entry);
+    }
+  }
+
+  private doPurgeLocation(location: DeletedLocation): void {
+    this.busyId.set(location.id);
+    this.locationApiService
+      .purgeLocation(location.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.busyId.set(null);
+          this.toastService.success(`"${location.name}" deleted for good`);
+          this.loadTrash();
+        },
+        error: (err) => {
+          this.busyId.set(null);
+          this.toastService.error(err.message || 'Failed to delete location');
+        }
+      });
+  }
+
+  private doPurgeItem(item: DeletedItem): void {
+    this.busyId.set(item.id);
+    this.itemApiService
+      .purgeItem(item.id)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.busyId.set(null);
+          this.deletedItems.update(items => items.filter(i => i.id !== item.id));
+          this.toastService.success(`"${item.name}" deleted for good`);
+        },
+        error: (err) => {
+          this.busyId.set(null);
+          this.toastService.error(err.message || 'Failed to delete item');
+        }
+      });
+  }
+
+  /**
+   * Format date for display
+   */
+  formatDate(dateString: string): string {
+    try {
+      return new Date(dateString).toLocaleDateString(undefined, {
+        month: 'short',
+        day: 'numeric'
+      });
+    } catch {
+      return dateString;
+    }
+  }
+
+  /**
+   * Describe how long an entry stays in the trash
+   */
+  expiryLabel(expiresAt: string): string {
+    const days = Math.ceil((new Date(expiresAt).getTime() - Date.now()) / DAY_MS);
+    if (days <= 1) {
+      return 'removed within a day';
+    }
+    return `removed in ${days} days`;
+  }
+
+  private doRestoreLocation(location: DeletedLocation, parentId?: string | null): void {
+    this.busyId.set(location.id);
+    this.locationApiService
+      .restoreLocation(location.id, parentId)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.busyId.set(null);
+          this.toastService.success(`Restored "${location.name}"`);
+          // Restoring a location can make other entries restorable in place
+          this.locationTree.set([]);
+          this.loadTrash();
+        },
+        error: (err) => {
+          this.busyId.set(null);
+          this.toastService.error(err.message || 'Failed to restore location');
+        }
+      });
+  }
+
+  private doRestoreItem(item: DeletedItem, locationId?: string): void {
+    this.busyId.set(item.id);
+    this.itemApiService
+      .restoreItem(item.id, locationId)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: () => {
+          this.busyId.set(null);
+          this.deletedItems.update(items => items.filter(i => i.id !== item.id));
+          this.toastService.success(`Restored "${item.name}"`);
+        },
+        error: (err) => {
+          this.busyId.set(null);
+          this.toastService.error(err.message || 'Failed to restore item');
+        }
+      });
+  }
+
+  private openPicker(target: TrashEntry): void {
+    this.restoreTarget.set(target);
+
+    if (this.locationTree().length === 0) {
+      this.locationApiService
+        .getLocationTree()
+        .pipe(takeUntilDestroyed(this.destroyRef))
+        .subscribe({
+          next: (tree) => this.locationTree.set(tree),
+          error: (err) => {
+            this.restoreTarget.set(null);
+            this.toastService.error(err.message || 'Failed to load locations');
+          }
+        });
+    }
+  }
+
+  private isExpired(expiresAt: string): boolean {
+    return new Date(expiresAt).getTime() <= Date.now();
+  }
+
+  private triggerHapticFeedback(type: 'light' | 'warning' = 'light'): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        if (type === 'warning') {
+          // @ts-expect-error - HapticFeedback may not be typed in SDK
+          window.Telegram?.WebApp?.HapticFeedback?.notificationOccurred('warning');
+        } else {
+          // @ts-expect-error - HapticFeedback may not be typed in SDK
+          window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+        }
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
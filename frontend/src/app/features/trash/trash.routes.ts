@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Trash feature routes
+ *
+ * - /trash - Deleted locations and items that can still be restored
+ */
+export const trashRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./trash.component').then(m => m.TrashComponent),
+    title: 'Trash - StuffTracker'
+  }
+];
@@ -0,0 +1,367 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  signal,
+  computed,
+  OnInit,
+  DestroyRef
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ValuedItem, formatMoney } from '../../core/api/valuation-api.service';
+import { ValuationNode, ValuationReport, ValuationService, itemValue } from '../../core/valuation/valuation.service';
+import { FileDeliveryService } from '../../core/export/file-delivery.service';
+import { LoadingSpinnerComponent } from '../../shared/components/loading-spinner';
+import { EmptyStateComponent } from '../../shared/components/empty-state';
+import { ErrorToastService } from '../../shared/components/error-toast';
+import { TelegramService } from '../../telegram/telegram.service';
+
+/**
+ * A line of the report: a location with its subtotal, or a valued item
+ */
+type ValuationRow =
+  | { kind: 'location'; id: string; depth: number; name: string; value: string }
+  | { kind: 'item'; id: string; depth: number; item: ValuedItem; value: string; unitPrice: string | null };
+
+/**
+ * Valuation report screen
+ *
+ * Features:
+ * - Total purchase value of the inventory, per currency
+ * - Subtotals for every location, including what is inside its sub-locations
+ * - Every item with a purchase price, under its location
+ * - Export as a PDF for an insurer (sent to the chat inside Telegram)
+ */
+@Component({
+  selector: 'app-valuation',
+  standalone: true,
+  imports: [LoadingSpinnerComponent, EmptyStateComponent],
+  template: `
+    <div class="valuation">
+      <header class="valuation__header">
+        <h1 class="valuation__title">Valuation</h1>
+      </header>
+
+      @if (isLoading()) {
+        <app-loading-spinner size="medium" message="Loading valuation..." />
+      }
+
+      @if (error()) {
+        <div class="valuation__error">
+          <svg class="valuation__error-icon" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <p class="valuation__error-text">{{ error() }}</p>
+          <button type="button" class="btn btn-secondary" (click)="loadReport()">
+            Try Again
+          </button>
+        </div>
+      }
+
+      @if (!isLoading() && !error() && report(); as report) {
+        @if (report.itemCount === 0) {
+          <app-empty-state
+            icon="empty-search"
+            title="No purchase prices yet"
+            message="Add a purchase price when editing an item to see what your inventory is worth"
+          />
+        } @else {
+          <section class="valuation__summary">
+            <span class="valuation__summary-label">
+              Total of {{ report.itemCount }} {{ report.itemCount === 1 ? 'item' : 'items' }}
+            </span>
+            <span class="valuation__summary-value">{{ total() }}</span>
+          </section>
+
+          <section class="valuation__list">
+            @for (row of rows(); track row.kind + row.id) {
+              @if (row.kind === 'location') {
+                <div class="valuation__location" [style.padding-left.px]="16 + row.depth * 16">
+                  <span class="valuation__location-name">{{ row.name }}</span>
+                  <span class="valuation__location-value">{{ row.value }}</span>
+                </div>
+              } @else {
+                <button
+                  type="button"
+                  class="valuation__item"
+                  [style.padding-left.px]="16 + row.depth * 16"
+                  (click)="openItem(row.item)"
+                >
+                  <span class="valuation__item-info">
+                    <span class="valuation__item-name">{{ row.item.name }}</span>
+                    @if (row.unitPrice) {
+                      <span class="valuation__item-meta">{{ row.item.quantity }} × {{ row.unitPrice }}</span>
+                    }
+                  </span>
+                  <span class="valuation__item-value">{{ row.value }}</span>
+                </button>
+              }
+            }
+          </section>
+
+          <button
+            type="button"
+            class="btn btn-primary valuation__export"
+            [disabled]="isExporting()"
+            (click)="exportPdf(report)"
+          >
+            {{ isExporting() ? 'Exporting...' : (isInTelegram ? 'Send PDF to Chat' : 'Download PDF') }}
+          </button>
+        }
+      }
+    </div>
+  `,
+  styles: [`
+    .valuation {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-md);
+      min-height: 100%;
+      padding: var(--spacing-md);
+      padding-bottom: var(--spacing-xl);
+    }
+
+    .valuation__header {
+      padding: var(--spacing-sm) 0;
+      padding-right: calc(44px + var(--spacing-sm)); /* Keep clear of the header search button */
+    }
+
+    .valuation__title {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+    }
+
+    .valuation__error {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: var(--spacing-md);
+      padding: var(--spacing-2xl) var(--spacing-md);
+      text-align: center;
+    }
+
+    .valuation__error-icon {
+      width: 48px;
+      height: 48px;
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .valuation__error-text {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+      max-width: 280px;
+    }
+
+    .valuation__summary {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      padding: var(--spacing-md);
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+    }
+
+    .valuation__summary-label {
+      font-size: 0.875rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .valuation__summary-value {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .valuation__list {
+      display: flex;
+      flex-direction: column;
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-lg);
+      overflow: hidden;
+    }
+
+    .valuation__location,
+    .valuation__item {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: var(--spacing-md);
+      min-height: 44px;
+      padding: var(--spacing-sm) var(--spacing-md);
+      border-bottom: 1px solid var(--tg-theme-secondary-bg-color);
+
+      &:last-child {
+        border-bottom: none;
+      }
+    }
+
+    .valuation__location-name {
+      font-size: 0.9375rem;
+      font-weight: 600;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .valuation__location-value {
+      flex-shrink: 0;
+      font-size: 0.9375rem;
+      font-weight: 600;
+      color: var(--tg-theme-text-color);
+    }
+
+    .valuation__item {
+      width: 100%;
+      border-top: none;
+      border-left: none;
+      border-right: none;
+      background: none;
+      text-align: left;
+      cursor: pointer;
+      transition: background-color var(--transition-fast);
+
+      &:active {
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+    }
+
+    .valuation__item-info {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      min-width: 0;
+    }
+
+    .valuation__item-name {
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .valuation__item-meta {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .valuation__item-value {
+      flex-shrink: 0;
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+    }
+
+    .valuation__export {
+      margin-top: var(--spacing-sm);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ValuationComponent implements OnInit {
+  private readonly router = inject(Router);
+  private readonly valuationService = inject(ValuationService);
+  private readonly fileDeliveryService = inject(FileDeliveryService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly isInTelegram = this.telegramService.isInTelegram();
+
+  /** The loaded report */
+  readonly report = signal<ValuationReport | null>(null);
+
+  /** Loading state */
+  readonly isLoading = signal(true);
+
+  /** Error message if the report fails to load */
+  readonly error = signal<string | null>(null);
+
+  /** Whether the PDF is being built or sent */
+  readonly isExporting = signal(false);
+
+  /** Grand total for display */
+  readonly total = computed(() => formatMoney(this.report()?.totals ?? []));
+
+  /** The location tree flattened into display rows, items under their location */
+  readonly rows = computed<ValuationRow[]>(() => {
+    const rows: ValuationRow[] = [];
+    const visit = (node: ValuationNode, depth: number) => {
+      rows.push({ kind: 'location', id: node.id, depth, name: node.name, value: formatMoney(node.totals) });
+      for (const item of node.items) {
+        rows.push({
+          kind: 'item',
+          id: item.id,
+          depth: depth + 1,
+          item,
+          value: formatMoney([itemValue(item)]),
+          unitPrice: item.quantity > 1 ? formatMoney([{ currency: item.currency, amount: item.purchasePrice }]) : null
+        });
+      }
+      node.children.forEach(child => visit(child, depth + 1));
+    };
+    this.report()?.locations.forEach(node => visit(node, 0));
+    return rows;
+  });
+
+  ngOnInit(): void {
+    this.telegramService.hideMainButton();
+    this.loadReport();
+  }
+
+  /**
+   * Load the valuation of the whole inventory
+   */
+  loadReport(): void {
+    this.isLoading.set(true);
+    this.error.set(null);
+
+    this.valuationService
+      .load()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (report) => {
+          this.report.set(report);
+          this.isLoading.set(false);
+        },
+        error: (err) => {
+          this.error.set(err.message || 'Failed to load valuation');
+          this.isLoading.set(false);
+        }
+      });
+  }
+
+  /**
+   * Build the PDF report and hand it to the user
+   */
+  async exportPdf(report: ValuationReport): Promise<void> {
+    this.triggerHapticFeedback();
+    this.isExporting.set(true);
+
+    try {
+      const file = await this.valuationService.toPdf(report);
+      const destination = await this.fileDeliveryService.deliver(file, 'StuffTracker inventory valuation');
+      this.toastService.success(destination === 'chat' ? 'Report sent to the chat' : 'Report downloaded');
+    } catch (err) {
+      console.error('[Valuation] PDF export failed', err);
+      this.toastService.error((err as { message?: string }).message || 'Export failed');
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  openItem(item: ValuedItem): void {
+    this.triggerHapticFeedback();
+    this.router.navigate(['/item', item.id]);
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
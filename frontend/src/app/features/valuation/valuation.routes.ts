@@ -0,0 +1,14 @@
+import { Routes } from '@angular/router';
+
+/**
+ * Valuation feature routes
+ *
+ * - /valuation - Value of the inventory by location, with PDF export
+ */
+export const valuationRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./valuation.component').then(m => m.ValuationComponent),
+    title: 'Valuation - StuffTracker'
+  }
+];
@@ -0,0 +1,203 @@
+import { Component, ChangeDetectionStrategy, input, output, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import {
+  ActivityEntry,
+  describeActivity,
+  describeActivityTime
+} from '../../../core/api/activity-api.service';
+import { TelegramService } from '../../../telegram/telegram.service';
+
+/**
+ * Vertical timeline of changes to items and locations, newest first
+ *
+ * Each entry says what changed, who changed it and when. With `showSubject`,
+ * entries also name the item or location and link to it; used by the
+ * location history and the recent activity feed, where entries mix subjects.
+ * With a `heading` and `hasMore`, it is a self-contained section that links to
+ * the full history through `showMore`.
+ */
+@Component({
+  selector: 'app-activity-timeline',
+  standalone: true,
+  template: `
+    @if (heading(); as heading) {
+      <h2 class="activity-timeline__title">{{ heading }}</h2>
+    }
+    <ol class="activity-timeline">
+      @for (entry of entries(); track entry.id) {
+        <li class="activity-timeline__entry" [class.activity-timeline__entry--deleted]="entry.action === 'deleted'">
+          <span class="activity-timeline__dot" aria-hidden="true"></span>
+          <div class="activity-timeline__body">
+            @if (showSubject()) {
+              <button
+                type="button"
+                class="activity-timeline__subject"
+                (click)="openSubject(entry)"
+              >
+                {{ entry.entityName }}
+                <span class="activity-timeline__kind">{{ entry.entityType === 'item' ? 'item' : 'location' }}</span>
+              </button>
+            }
+            <span class="activity-timeline__text">{{ describe(entry) }}</span>
+            <span class="activity-timeline__meta">
+              {{ entry.actorName }} · <time [attr.datetime]="entry.at">{{ describeTime(entry) }}</time>
+            </span>
+          </div>
+        </li>
+      }
+    </ol>
+    @if (hasMore()) {
+      <button type="button" class="activity-timeline__more" (click)="showMore.emit()">
+        See full history
+      </button>
+    }
+  `,
+  styles: [`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+    }
+
+    .activity-timeline__title {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-section-header-text-color);
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+
+    .activity-timeline__more {
+      align-self: flex-start;
+      min-height: 44px;
+      padding: 0;
+      border: none;
+      background: none;
+      font-size: 0.9375rem;
+      color: var(--tg-theme-link-color);
+      cursor: pointer;
+    }
+
+    .activity-timeline {
+      display: flex;
+      flex-direction: column;
+      list-style: none;
+    }
+
+    .activity-timeline__entry {
+      position: relative;
+      display: flex;
+      gap: var(--spacing-sm);
+      padding-bottom: var(--spacing-md);
+
+      /* Line connecting the dots */
+      &:not(:last-child)::before {
+        content: '';
+        position: absolute;
+        top: 14px;
+        bottom: 0;
+        left: 5px;
+        width: 2px;
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+    }
+
+    .activity-timeline__dot {
+      flex-shrink: 0;
+      width: 12px;
+      height: 12px;
+      margin-top: 4px;
+      border-radius: 50%;
+      background-color: var(--tg-theme-button-color);
+    }
+
+    .activity-timeline__entry--deleted .activity-timeline__dot {
+      background-color: var(--tg-theme-destructive-text-color);
+    }
+
+    .activity-timeline__body {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+    }
+
+    .activity-timeline__subject {
+      align-self: flex-start;
+      padding: 0;
+      border: none;
+      background: none;
+      font-size: 0.9375rem;
+      font-weight: 500;
+      color: var(--tg-theme-link-color);
+      text-align: left;
+      overflow-wrap: anywhere;
+      cursor: pointer;
+    }
+
+    .activity-timeline__kind {
+      font-size: 0.75rem;
+      font-weight: 400;
+      color: var(--tg-theme-hint-color);
+    }
+
+    .activity-timeline__text {
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+      overflow-wrap: anywhere;
+    }
+
+    .activity-timeline__meta {
+      font-size: 0.8125rem;
+      color: var(--tg-theme-hint-color);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ActivityTimelineComponent {
+  private readonly router = inject(Router);
+  private readonly telegramService = inject(TelegramService);
+
+  /** Entries to show, newest first */
+  readonly entries = input.required<ActivityEntry[]>();
+
+  /** Whether to name the item or location each entry is about */
+  readonly showSubject = input(false);
+
+  /** Heading shown above the entries */
+  readonly heading = input<string>();
+
+  /** Whether to offer a link to older entries */
+  readonly hasMore = input(false);
+
+  /** Emitted when the user asks for the full history */
+  readonly showMore = output<void>();
+
+  describe(entry: ActivityEntry): string {
+    return describeActivity(entry);
+  }
+
+  describeTime(entry: ActivityEntry): string {
+    return describeActivityTime(entry.at);
+  }
+
+  /**
+   * Open the item or location an entry is about
+   */
+  openSubject(entry: ActivityEntry): void {
+    this.triggerHapticFeedback();
+    this.router.navigate([entry.entityType === 'item' ? '/item' : '/location', entry.entityId]);
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
@@ -0,0 +1 @@
+export { ActivityTimelineComponent } from './activity-timeline.component';
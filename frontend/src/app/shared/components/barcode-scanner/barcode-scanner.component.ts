@@ -0,0 +1,370 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  ElementRef,
+  OnDestroy,
+  afterNextRender,
+  input,
+  output,
+  signal,
+  viewChild
+} from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+/**
+ * Barcode found by the Shape Detection API
+ */
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+/**
+ * Minimal typing for the browser BarcodeDetector (not in lib.dom yet)
+ */
+interface BarcodeDetectorInstance {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new () => BarcodeDetectorInstance;
+
+/** Delay between detection attempts */
+const DETECT_INTERVAL_MS = 250;
+
+/**
+ * Camera-based barcode and QR scanner
+ *
+ * Browser fallback for when Telegram's native QR popup is not available.
+ *
+ * Features:
+ * - Rear camera preview with a viewfinder frame
+ * - Decodes barcodes and QR codes with the browser BarcodeDetector
+ * - Manual code entry when the detector or the camera is unavailable
+ * - Emits the first decoded value and stops the camera
+ */
+@Component({
+  selector: 'app-barcode-scanner',
+  standalone: true,
+  imports: [FormsModule],
+  host: {
+    '(document:keydown.escape)': 'onClose()'
+  },
+  template: `
+    <div
+      class="barcode-scanner"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Scan barcode"
+    >
+      <div class="barcode-scanner__header">
+        <span class="barcode-scanner__title">Scan</span>
+        <button
+          type="button"
+          class="barcode-scanner__close"
+          (click)="onClose()"
+          aria-label="Close scanner"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+          </svg>
+        </button>
+      </div>
+
+      @if (!cameraError()) {
+        <div class="barcode-scanner__viewport">
+          <video
+            #video
+            class="barcode-scanner__video"
+            autoplay
+            muted
+            playsinline
+          ></video>
+          <div class="barcode-scanner__frame" aria-hidden="true"></div>
+        </div>
+        <p class="barcode-scanner__hint">{{ hint() }}</p>
+      } @else {
+        <div class="barcode-scanner__fallback">
+          <p class="barcode-scanner__hint">{{ cameraError() }}</p>
+        </div>
+      }
+
+      <!-- Manual entry -->
+      <form class="barcode-scanner__manual" (ngSubmit)="submitManualCode()">
+        <input
+          type="text"
+          name="manualCode"
+          class="barcode-scanner__input"
+          [(ngModel)]="manualCode"
+          placeholder="Or type the code"
+          autocomplete="off"
+          inputmode="text"
+        />
+        <button
+          type="submit"
+          class="btn btn-primary barcode-scanner__submit"
+          [disabled]="!manualCode().trim()"
+        >
+          Use
+        </button>
+      </form>
+    </div>
+  `,
+  styles: [`
+    .barcode-scanner {
+      position: fixed;
+      inset: 0;
+      z-index: var(--z-modal);
+      display: flex;
+      flex-direction: column;
+      background-color: #000;
+      color: #fff;
+      animation: fadeIn 0.2s ease;
+    }
+
+    @keyframes fadeIn {
+      from { opacity: 0; }
+      to { opacity: 1; }
+    }
+
+    .barcode-scanner__header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: var(--spacing-sm) var(--spacing-md);
+      padding-top: calc(var(--spacing-sm) + env(safe-area-inset-top, 0px));
+    }
+
+    .barcode-scanner__title {
+      font-size: 1rem;
+      font-weight: 600;
+    }
+
+    .barcode-scanner__close {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 44px;
+      height: 44px;
+      background: none;
+      border: none;
+      border-radius: var(--radius-full);
+      color: #fff;
+      cursor: pointer;
+
+      svg {
+        width: 24px;
+        height: 24px;
+      }
+
+      &:active {
+        background-color: rgba(255, 255, 255, 0.15);
+      }
+    }
+
+    .barcode-scanner__viewport {
+      position: relative;
+      flex: 1;
+      min-height: 0;
+      overflow: hidden;
+    }
+
+    .barcode-scanner__video {
+      width: 100%;
+      height: 100%;
+      object-fit: cover;
+    }
+
+    .barcode-scanner__frame {
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      width: 70%;
+      max-width: 320px;
+      aspect-ratio: 3 / 2;
+      transform: translate(-50%, -50%);
+      border: 3px solid rgba(255, 255, 255, 0.85);
+      border-radius: var(--radius-lg);
+      box-shadow: 0 0 0 100vmax rgba(0, 0, 0, 0.45);
+    }
+
+    .barcode-scanner__fallback {
+      flex: 1;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: var(--spacing-lg);
+    }
+
+    .barcode-scanner__hint {
+      padding: var(--spacing-md);
+      font-size: 0.875rem;
+      text-align: center;
+      color: rgba(255, 255, 255, 0.8);
+    }
+
+    .barcode-scanner__manual {
+      display: flex;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-md);
+      padding-bottom: calc(var(--spacing-md) + env(safe-area-inset-bottom, 0px));
+    }
+
+    .barcode-scanner__input {
+      flex: 1;
+      min-width: 0;
+      min-height: 48px;
+      padding: 0 var(--spacing-md);
+      font-size: 1rem;
+      font-family: inherit;
+      color: #fff;
+      background-color: rgba(255, 255, 255, 0.12);
+      border: 2px solid transparent;
+      border-radius: var(--radius-md);
+
+      &::placeholder {
+        color: rgba(255, 255, 255, 0.5);
+      }
+
+      &:focus {
+        outline: none;
+        border-color: var(--tg-theme-button-color);
+      }
+    }
+
+    .barcode-scanner__submit {
+      min-height: 48px;
+      flex-shrink: 0;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class BarcodeScannerComponent implements OnDestroy {
+  /** Instruction shown under the camera preview */
+  readonly hint = input('Point the camera at a barcode or QR code');
+
+  /** Emitted with the decoded text */
+  readonly scanned = output<string>();
+
+  /** Emitted when the user closes the scanner */
+  readonly closed = output<void>();
+
+  /** Reason the camera cannot be used, if any */
+  readonly cameraError = signal<string | null>(null);
+
+  /** Manually entered code */
+  readonly manualCode = signal('');
+
+  private readonly video = viewChild<ElementRef<HTMLVideoElement>>('video');
+
+  private stream: MediaStream | null = null;
+  private detectTimer: ReturnType<typeof setTimeout> | null = null;
+  private isStopped = false;
+
+  constructor() {
+    afterNextRender(() => {
+      void this.start();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Use the manually entered code
+   */
+  submitManualCode(): void {
+    const code = this.manualCode().trim();
+    if (code) {
+      this.emitResult(code);
+    }
+  }
+
+  /**
+   * Close the scanner without a result
+   */
+  onClose(): void {
+    this.stop();
+    this.closed.emit();
+  }
+
+  private async start(): Promise<void> {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) {
+      this.cameraError.set('Scanning is not supported in this browser. Enter the code instead.');
+      return;
+    }
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      this.cameraError.set('Camera is not available. Enter the code instead.');
+      return;
+    }
+
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' },
+        audio: false
+      });
+    } catch (err) {
+      console.warn('[BarcodeScanner] Camera access failed', err);
+      this.cameraError.set('Camera access was denied. Enter the code instead.');
+      return;
+    }
+
+    // The scanner may have been closed while the permission prompt was open
+    if (this.isStopped) {
+      this.stopStream();
+      return;
+    }
+
+    const videoElement = this.video()?.nativeElement;
+    if (!videoElement) {
+      this.stopStream();
+      return;
+    }
+
+    videoElement.srcObject = this.stream;
+    this.detectLoop(new Detector(), videoElement);
+  }
+
+  private detectLoop(detector: BarcodeDetectorInstance, videoElement: HTMLVideoElement): void {
+    this.detectTimer = setTimeout(async () => {
+      if (this.isStopped) return;
+
+      try {
+        if (videoElement.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+          const barcodes = await detector.detect(videoElement);
+          const value = barcodes[0]?.rawValue?.trim();
+          if (value) {
+            this.emitResult(value);
+            return;
+          }
+        }
+      } catch (err) {
+        console.debug('[BarcodeScanner] Detection failed', err);
+      }
+
+      if (!this.isStopped) {
+        this.detectLoop(detector, videoElement);
+      }
+    }, DETECT_INTERVAL_MS);
+  }
+
+  private emitResult(value: string): void {
+    this.stop();
+    this.scanned.emit(value);
+  }
+
+  private stop(): void {
+    this.isStopped = true;
+    if (this.detectTimer) {
+      clearTimeout(this.detectTimer);
+      this.detectTimer = null;
+    }
+    this.stopStream();
+  }
+
+  private stopStream(): void {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+}
@@ -0,0 +1 @@
+export { BarcodeScannerComponent } from './barcode-scanner.component';
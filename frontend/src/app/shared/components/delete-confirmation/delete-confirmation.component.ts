@@ -19,6 +19,10 @@ export interface DeleteConfirmationData {
   itemCount: number;
   /** Total items in all descendants (including nested) */
   totalDescendantItems: number;
+  /** Total locations below, at any depth; defaults to the direct children */
+  totalDescendantLocations?: number;
+  /** Set when nested contents could not be counted, so the totals only cover direct contents */
+  countsUnknown?: boolean;
 }
 
 /**
@@ -27,6 +31,7 @@ export interface DeleteConfirmationData {
  * Features:
  * - Warning message about cascade delete
  * - Shows counts of affected children and items
+ * - Says whether the deletion goes to the trash or is permanent
  * - Confirm/Cancel buttons
  * - Can be used as modal overlay or bottom sheet
  * - Telegram theme styling
@@ -59,14 +64,18 @@ export interface DeleteConfirmationData {
 
       <!-- Title -->
       <h2 id="delete-title" class="delete-confirmation__title">
-        Delete "{{ data().name }}"?
+        {{ title() || 'Delete "' + data().name + '"?' }}
       </h2>
 
       <!-- Description -->
       <div id="delete-description" class="delete-confirmation__description">
         @if (hasContent()) {
           <p class="delete-confirmation__warning">
-            This action cannot be undone. The following will be permanently deleted:
+            @if (permanent()) {
+              This action cannot be undone. The following will be permanently deleted:
+            } @else {
+              The following will be moved to the trash:
+            }
           </p>
           <ul class="delete-confirmation__list">
             @if (data().childCount > 0) {
@@ -77,6 +86,14 @@ export interface DeleteConfirmationData {
                 {{ data().childCount }} sub-location{{ data().childCount > 1 ? 's' : '' }}
               </li>
             }
+            @if ((data().totalDescendantLocations ?? 0) > data().childCount) {
+              <li class="delete-confirmation__nested">
+                <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                  <path d="M10 4H4c-1.1 0-1.99.9-1.99 2L2 18c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V8c0-1.1-.9-2-2-2h-8l-2-2z"/>
+                </svg>
+                {{ data().totalDescendantLocations! - data().childCount }} more nested location{{ (data().totalDescendantLocations! - data().childCount) > 1 ? 's' : '' }}
+              </li>
+            }
             @if (data().itemCount > 0) {
               <li>
                 <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
@@ -94,9 +111,14 @@ export interface DeleteConfirmationData {
               </li>
             }
           </ul>
+          @if (data().countsUnknown) {
+            <p class="delete-confirmation__warning delete-confirmation__unknown">
+              Nested locations could not be counted, so there may be more. Everything inside them goes too.
+            </p>
+          }
         } @else {
           <p class="delete-confirmation__simple">
-            This action cannot be undone.
+            {{ permanent() ? 'This action cannot be undone.' : 'You can restore it from the trash.' }}
           </p>
         }
       </div>
@@ -115,7 +137,7 @@ export interface DeleteConfirmationData {
           class="delete-confirmation__btn delete-confirmation__btn--confirm"
           (click)="onConfirm()"
         >
-          Delete
+          {{ permanent() ? 'Delete Forever' : 'Delete' }}
         </button>
       </div>
     </div>
@@ -223,6 +245,10 @@ export interface DeleteConfirmationData {
       margin-bottom: var(--spacing-md);
     }
 
+    .delete-confirmation__unknown {
+      margin-top: var(--spacing-md);
+    }
+
     .delete-confirmation__list {
       display: flex;
       flex-direction: column;
@@ -291,6 +317,12 @@ export class DeleteConfirmationComponent {
   /** Data about what is being deleted */
   readonly data = input.required<DeleteConfirmationData>();
 
+  /** Replaces the default `Delete "<name>"?` title */
+  readonly title = input('');
+
+  /** Whether the deletion skips the trash and cannot be undone */
+  readonly permanent = input(false);
+
   /** Emitted when user confirms deletion */
   readonly confirm = output<void>();
 
@@ -11,6 +11,7 @@ import { ErrorToastService, Toast } from './error-toast.service';
  * Features:
  * - Stacked vertical layout for multiple toasts
  * - Color-coded by type (error, success, warning, info)
+ * - Optional action button (e.g. "Undo")
  * - Manual dismiss button
  * - Slide-in animation
  *
@@ -62,6 +63,17 @@ import { ErrorToastService, Toast } from './error-toast.service';
           <!-- Message -->
           <span class="toast__message">{{ toast.message }}</span>
 
+          <!-- Action button -->
+          @if (toast.action) {
+            <button
+              type="button"
+              class="toast__action"
+              (click)="runAction(toast)"
+            >
+              {{ toast.action.label }}
+            </button>
+          }
+
           <!-- Dismiss button -->
           <button
             type="button"
@@ -178,6 +190,24 @@ import { ErrorToastService, Toast } from './error-toast.service';
       line-height: 1.4;
     }
 
+    .toast__action {
+      min-height: 32px;
+      padding: 0 var(--spacing-sm);
+      border: none;
+      background: transparent;
+      border-radius: var(--radius-sm);
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--tg-theme-link-color);
+      cursor: pointer;
+      flex-shrink: 0;
+      transition: background-color var(--transition-fast);
+
+      &:active {
+        background-color: rgba(0, 0, 0, 0.1);
+      }
+    }
+
     .toast__dismiss {
       display: flex;
       align-items: center;
@@ -226,4 +256,12 @@ export class ErrorToastComponent {
   dismiss(toast: Toast): void {
     this.toastService.dismiss(toast.id);
   }
+
+  /**
+   * Run a toast's action and dismiss it
+   */
+  runAction(toast: Toast): void {
+    this.toastService.dismiss(toast.id);
+    toast.action?.run();
+  }
 }
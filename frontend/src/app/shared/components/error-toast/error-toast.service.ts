@@ -6,6 +6,15 @@ import { isPlatformBrowser } from '@angular/common';
  */
 export type ToastType = 'error' | 'success' | 'warning' | 'info';
 
+/**
+ * Button shown inside a toast
+ */
+export interface ToastAction {
+  label: string;
+  /** Called when the button is tapped; the toast is dismissed afterwards */
+  run: () => void;
+}
+
 /**
  * Individual toast message configuration
  */
@@ -14,6 +23,7 @@ export interface Toast {
   type: ToastType;
   message: string;
   duration: number;
+  action?: ToastAction;
 }
 
 /**
@@ -28,6 +38,7 @@ export interface Toast {
  * this.toastService.success('Item saved successfully');
  * this.toastService.warning('Network connection unstable');
  * this.toastService.info('Syncing data...');
+ * this.toastService.undoable('Item deleted', () => this.restoreItem());
  * ```
  */
 @Injectable({
@@ -48,16 +59,20 @@ export class ErrorToastService {
   /** Default duration for auto-dismiss in milliseconds */
   private readonly DEFAULT_DURATION = 3000;
 
+  /** How long an Undo button stays available in milliseconds */
+  private readonly UNDO_DURATION = 6000;
+
   /**
    * Show an error toast notification
    * Triggers haptic feedback on Telegram devices
    *
    * @param message - The error message to display
    * @param duration - Optional auto-dismiss duration in ms (default: 3000)
+   * @param action - Optional button shown in the toast
    */
-  error(message: string, duration = this.DEFAULT_DURATION): void {
+  error(message: string, duration = this.DEFAULT_DURATION, action?: ToastAction): void {
     this.triggerErrorHapticFeedback();
-    this.addToast('error', message, duration);
+    this.addToast('error', message, duration, action);
   }
 
   /**
@@ -65,10 +80,11 @@ export class ErrorToastService {
    *
    * @param message - The success message to display
    * @param duration - Optional auto-dismiss duration in ms (default: 3000)
+   * @param action - Optional button shown in the toast
    */
-  success(message: string, duration = this.DEFAULT_DURATION): void {
+  success(message: string, duration = this.DEFAULT_DURATION, action?: ToastAction): void {
     this.triggerSuccessHapticFeedback();
-    this.addToast('success', message, duration);
+    this.addToast('success', message, duration, action);
   }
 
   /**
@@ -76,10 +92,11 @@ export class ErrorToastService {
    *
    * @param message - The warning message to display
    * @param duration - Optional auto-dismiss duration in ms (default: 3000)
+   * @param action - Optional button shown in the toast
    */
-  warning(message: string, duration = this.DEFAULT_DURATION): void {
+  warning(message: string, duration = this.DEFAULT_DURATION, action?: ToastAction): void {
     this.triggerWarningHapticFeedback();
-    this.addToast('warning', message, duration);
+    this.addToast('warning', message, duration, action);
   }
 
   /**
@@ -87,9 +104,22 @@ export class ErrorToastService {
    *
    * @param message - The info message to display
    * @param duration - Optional auto-dismiss duration in ms (default: 3000)
+   * @param action - Optional button shown in the toast
+   */
+  info(message: string, duration = this.DEFAULT_DURATION, action?: ToastAction): void {
+    this.addToast('info', message, duration, action);
+  }
+
+  /**
+   * Show a success toast with an "Undo" button
+   * The button disappears with the toast once the grace window ends.
+   *
+   * @param message - Description of what was done, e.g. "Item deleted"
+   * @param undo - Reverts the operation
+   * @param duration - Optional grace window in ms (default: 6000)
    */
-  info(message: string, duration = this.DEFAULT_DURATION): void {
-    this.addToast('info', message, duration);
+  undoable(message: string, undo: () => void, duration = this.UNDO_DURATION): void {
+    this.success(message, duration, { label: 'Undo', run: undo });
   }
 
   /**
@@ -111,14 +141,15 @@ export class ErrorToastService {
   /**
    * Add a new toast to the stack
    */
-  private addToast(type: ToastType, message: string, duration: number): void {
+  private addToast(type: ToastType, message: string, duration: number, action?: ToastAction): void {
     const id = ++this.idCounter;
 
     const toast: Toast = {
       id,
       type,
       message,
-      duration
+      duration,
+      action
     };
 
     this.toastsSignal.update(toasts => [...toasts, toast]);
@@ -1,2 +1,2 @@
 export { ErrorToastComponent } from './error-toast.component';
-export { ErrorToastService, type Toast, type ToastType } from './error-toast.service';
+export { ErrorToastService, type Toast, type ToastAction, type ToastType } from './error-toast.service';
@@ -0,0 +1,71 @@
+import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
+import { describeExpiry, getExpiryStatus } from '../../../core/api/expiry-api.service';
+
+/**
+ * Small badge flagging an expired or soon-expiring item
+ *
+ * Renders nothing for items without an expiry date, or, unless `always` is set,
+ * for items that are not expiring soon.
+ * Used inside item cards, item details and the expiring items list.
+ */
+@Component({
+  selector: 'app-expiry-badge',
+  standalone: true,
+  template: `
+    @if (status(); as s) {
+      @if (s !== 'fresh' || always()) {
+        <span
+          class="expiry-badge"
+          [class.expiry-badge--expired]="s === 'expired'"
+          [class.expiry-badge--expiring]="s === 'expiring'"
+        >
+          {{ label() }}
+        </span>
+      }
+    }
+  `,
+  styles: [`
+    :host {
+      display: contents;
+    }
+
+    .expiry-badge {
+      display: inline-flex;
+      align-items: center;
+      width: fit-content;
+      padding: 1px 8px;
+      font-size: 0.6875rem;
+      font-weight: 600;
+      line-height: 1.4;
+      border-radius: var(--radius-full);
+      background-color: var(--tg-theme-secondary-bg-color);
+      color: var(--tg-theme-hint-color);
+      white-space: nowrap;
+    }
+
+    .expiry-badge--expired {
+      background-color: color-mix(in srgb, var(--tg-theme-destructive-text-color) 15%, transparent);
+      color: var(--tg-theme-destructive-text-color);
+    }
+
+    .expiry-badge--expiring {
+      background-color: color-mix(in srgb, #f59e0b 15%, transparent);
+      color: #d97706;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ExpiryBadgeComponent {
+  /** Expiry date as an ISO calendar date */
+  readonly expiresAt = input<string | undefined>(undefined);
+
+  /** Also show a badge for dates further out */
+  readonly always = input(false);
+
+  readonly status = computed(() => getExpiryStatus(this.expiresAt()));
+
+  readonly label = computed(() => {
+    const expiresAt = this.expiresAt();
+    return expiresAt ? describeExpiry(expiresAt) : '';
+  });
+}
@@ -0,0 +1 @@
+export { ExpiryBadgeComponent } from './expiry-badge.component';
@@ -1,74 +1,163 @@
-import { Component, ChangeDetectionStrategy, input, inject } from '@angular/core';
+import { Component, ChangeDetectionStrategy, input, output, inject, linkedSignal, OnDestroy } from '@angular/core';
 import { Router } from '@angular/router';
 import { ItemListItem } from '../../../core/api/item-api.service';
 import { TelegramService } from '../../../telegram/telegram.service';
+import { TagChipsComponent } from '../tag-chips';
+import { ExpiryBadgeComponent } from '../expiry-badge';
+import { QuantityStepperComponent } from '../quantity-stepper';
+
+/** Hold duration that counts as a long press */
+const LONG_PRESS_MS = 500;
 
 /**
  * Card component for displaying an item in a list
  *
- * Shows item name with box icon and quantity badge (if quantity > 1).
- * Clicking navigates to the item detail page.
+ * Shows item name with photo thumbnail (or box icon), an expiry badge when
+ * expired or expiring soon, a badge while units are lent out, tag chips and
+ * −/+ buttons that change the quantity right away.
+ * Clicking navigates to the item detail page. In selection mode the card shows
+ * a checkbox and a quantity badge (if quantity > 1) instead of the buttons, and
+ * clicking toggles selection; a long press emits `longPress` so the parent list
+ * can enter selection mode.
  * Styled for Telegram Mini App with touch-friendly tap targets (min 44px).
  */
 @Component({
   selector: 'app-item-card',
   standalone: true,
+  imports: [TagChipsComponent, ExpiryBadgeComponent, QuantityStepperComponent],
   template: `
-    <button
-      type="button"
-      class="item-card"
-      (click)="navigateToItem()"
-      [attr.aria-label]="'View item: ' + item().name"
-    >
-      <!-- Box/item icon -->
-      <div class="item-card__icon">
-        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
-          <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H5V5h14v14zm-7-2h2v-4h4v-2h-4V7h-2v4H8v2h4v4z"/>
-        </svg>
-      </div>
-
-      <!-- Item info -->
-      <div class="item-card__content">
-        <span class="item-card__name">{{ item().name }}</span>
-        @if (item().quantity > 1) {
-          <span class="item-card__quantity">
+    <div class="item-card" [class.item-card--selected]="selectable() && selected()">
+      <button
+        type="button"
+        class="item-card__main"
+        (click)="onClick()"
+        (pointerdown)="startLongPress()"
+        (pointerup)="cancelLongPress()"
+        (pointerleave)="cancelLongPress()"
+        (pointercancel)="cancelLongPress()"
+        (contextmenu)="$event.preventDefault()"
+        [attr.aria-label]="selectable() ? 'Select item: ' + item().name : 'View item: ' + item().name"
+        [attr.aria-pressed]="selectable() ? selected() : null"
+      >
+        @if (selectable()) {
+          <span class="item-card__checkbox" [class.item-card__checkbox--checked]="selected()" aria-hidden="true">
+            @if (selected()) {
+              <svg viewBox="0 0 24 24" fill="currentColor">
+                <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
+              </svg>
+            }
+          </span>
+        }
+
+        <!-- Photo thumbnail or box icon -->
+        @if (item().thumbnailUrl) {
+          <img
+            class="item-card__thumbnail"
+            [src]="item().thumbnailUrl"
+            alt=""
+            loading="lazy"
+          />
+        } @else {
+          <div class="item-card__icon">
             <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
-              <path d="M7 18c-1.1 0-1.99.9-1.99 2S5.9 22 7 22s2-.9 2-2-.9-2-2-2zM1 2v2h2l3.6 7.59-1.35 2.45c-.16.28-.25.61-.25.96 0 1.1.9 2 2 2h12v-2H7.42c-.14 0-.25-.11-.25-.25l.03-.12.9-1.63h7.45c.75 0 1.41-.41 1.75-1.03l3.58-6.49c.08-.14.12-.31.12-.49 0-.55-.45-1-1-1H5.21l-.94-2H1zm16 16c-1.1 0-1.99.9-1.99 2s.89 2 1.99 2 2-.9 2-2-.9-2-2-2z"/>
+              <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H5V5h14v14zm-7-2h2v-4h4v-2h-4V7h-2v4H8v2h4v4z"/>
             </svg>
-            {{ item().quantity }}
-          </span>
+          </div>
         }
-      </div>
-
-      <!-- Chevron right -->
-      <div class="item-card__arrow">
-        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
-          <path d="M8.59 16.59L13.17 12 8.59 7.41 10 6l6 6-6 6z"/>
-        </svg>
-      </div>
-    </button>
+
+        <!-- Item info -->
+        <div class="item-card__content">
+          <span class="item-card__name">{{ item().name }}</span>
+          @if ((selectable() || !editable()) && quantity() > 1) {
+            <span class="item-card__quantity">
+              <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+                <path d="M7 18c-1.1 0-1.99.9-1.99 2S5.9 22 7 22s2-.9 2-2-.9-2-2-2zM1 2v2h2l3.6 7.59-1.35 2.45c-.16.28-.25.61-.25.96 0 1.1.9 2 2 2h12v-2H7.42c-.14 0-.25-.11-.25-.25l.03-.12.9-1.63h7.45c.75 0 1.41-.41 1.75-1.03l3.58-6.49c.08-.14.12-.31.12-.49 0-.55-.45-1-1-1H5.21l-.94-2H1zm16 16c-1.1 0-1.99.9-1.99 2s.89 2 1.99 2 2-.9 2-2-.9-2-2-2z"/>
+              </svg>
+              {{ quantity() }}
+            </span>
+          }
+          <app-expiry-badge [expiresAt]="item().expiresAt" />
+          @if (item().lentQuantity) {
+            <span class="item-card__loan-badge">{{ item().lentQuantity }} on loan</span>
+          }
+          <app-tag-chips [tags]="item().tags ?? []" />
+        </div>
+      </button>
+
+      <!-- Quick quantity change -->
+      @if (!selectable() && editable()) {
+        <app-quantity-stepper
+          class="item-card__stepper"
+          [itemId]="item().id"
+          [itemName]="item().name"
+          [quantity]="quantity()"
+          [compact]="true"
+          (quantityChange)="quantity.set($event)"
+        />
+      }
+    </div>
   `,
   styles: [`
     .item-card {
       display: flex;
       align-items: center;
-      gap: var(--spacing-md);
       width: 100%;
-      padding: var(--spacing-md);
       background-color: var(--tg-theme-section-bg-color);
-      border: none;
       border-radius: var(--radius-lg);
-      cursor: pointer;
-      transition: background-color var(--transition-fast), transform var(--transition-fast);
+      overflow: hidden;
       min-height: 64px;
+    }
+
+    .item-card__main {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-md);
+      align-self: stretch;
+      padding: var(--spacing-md);
+      background: none;
+      border: none;
+      cursor: pointer;
+      transition: background-color var(--transition-fast);
       text-align: left;
 
       &:active {
         background-color: var(--tg-theme-secondary-bg-color);
-        transform: scale(0.98);
       }
     }
 
+    .item-card__stepper {
+      flex-shrink: 0;
+      padding-right: var(--spacing-sm);
+    }
+
+    .item-card--selected {
+      box-shadow: inset 0 0 0 2px var(--tg-theme-button-color);
+    }
+
+    .item-card__checkbox {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 24px;
+      height: 24px;
+      border: 2px solid var(--tg-theme-hint-color);
+      border-radius: var(--radius-full);
+      flex-shrink: 0;
+
+      svg {
+        width: 16px;
+        height: 16px;
+      }
+    }
+
+    .item-card__checkbox--checked {
+      background-color: var(--tg-theme-button-color);
+      border-color: var(--tg-theme-button-color);
+      color: var(--tg-theme-button-text-color);
+    }
+
     .item-card__icon {
       display: flex;
       align-items: center;
@@ -86,6 +175,15 @@ import { TelegramService } from '../../../telegram/telegram.service';
       }
     }
 
+    .item-card__thumbnail {
+      width: 44px;
+      height: 44px;
+      object-fit: cover;
+      border-radius: var(--radius-md);
+      background-color: var(--tg-theme-secondary-bg-color);
+      flex-shrink: 0;
+    }
+
     .item-card__content {
       flex: 1;
       min-width: 0;
@@ -103,6 +201,20 @@ import { TelegramService } from '../../../telegram/telegram.service';
       white-space: nowrap;
     }
 
+    .item-card__loan-badge {
+      display: inline-flex;
+      align-items: center;
+      width: fit-content;
+      padding: 1px 8px;
+      font-size: 0.6875rem;
+      font-weight: 600;
+      line-height: 1.4;
+      border-radius: var(--radius-full);
+      background-color: color-mix(in srgb, var(--tg-theme-button-color) 15%, transparent);
+      color: var(--tg-theme-button-color);
+      white-space: nowrap;
+    }
+
     .item-card__quantity {
       display: inline-flex;
       align-items: center;
@@ -121,29 +233,61 @@ import { TelegramService } from '../../../telegram/telegram.service';
         color: var(--tg-theme-accent-text-color);
       }
     }
-
-    .item-card__arrow {
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      flex-shrink: 0;
-
-      svg {
-        width: 20px;
-        height: 20px;
-        color: var(--tg-theme-hint-color);
-      }
-    }
   `],
   changeDetection: ChangeDetectionStrategy.OnPush
 })
-export class ItemCardComponent {
+export class ItemCardComponent implements OnDestroy {
   private readonly router = inject(Router);
   private readonly telegramService = inject(TelegramService);
 
   /** Item data to display */
   readonly item = input.required<ItemListItem>();
 
+  /** Whether the card is in selection mode */
+  readonly selectable = input(false);
+
+  /** Whether the item is selected (selection mode only) */
+  readonly selected = input(false);
+
+  /** Whether the quantity can be changed from the card; off for viewers of a shared location */
+  readonly editable = input(true);
+
+  /** Emitted when the card is tapped in selection mode */
+  readonly selectionToggle = output<void>();
+
+  /** Emitted when the card is pressed and held */
+  readonly longPress = output<void>();
+
+  /** Quantity shown; follows the item and takes quick changes made on the card */
+  readonly quantity = linkedSignal(() => this.item().quantity);
+
+  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Set when a long press fired, so the click that follows it is ignored */
+  private longPressFired = false;
+
+  ngOnDestroy(): void {
+    this.cancelLongPress();
+  }
+
+  /**
+   * Navigate to the item, or toggle selection in selection mode
+   */
+  onClick(): void {
+    if (this.longPressFired) {
+      this.longPressFired = false;
+      return;
+    }
+
+    if (this.selectable()) {
+      this.triggerHapticFeedback();
+      this.selectionToggle.emit();
+      return;
+    }
+
+    this.navigateToItem();
+  }
+
   /**
    * Navigate to the item detail page
    */
@@ -152,6 +296,30 @@ export class ItemCardComponent {
     this.router.navigate(['/item', this.item().id]);
   }
 
+  /**
+   * Start timing a press-and-hold
+   */
+  startLongPress(): void {
+    this.cancelLongPress();
+    this.longPressFired = false;
+    this.longPressTimer = setTimeout(() => {
+      this.longPressTimer = null;
+      this.longPressFired = true;
+      this.triggerHapticFeedback();
+      this.longPress.emit();
+    }, LONG_PRESS_MS);
+  }
+
+  /**
+   * Stop timing a press-and-hold
+   */
+  cancelLongPress(): void {
+    if (this.longPressTimer) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+  }
+
   private triggerHapticFeedback(): void {
     if (this.telegramService.isInTelegram()) {
       try {
@@ -1,4 +1,4 @@
-import { Component, ChangeDetectionStrategy, input, inject } from '@angular/core';
+import { Component, ChangeDetectionStrategy, input, output, inject } from '@angular/core';
 import { Router } from '@angular/router';
 import { ItemListItem } from '../../../core/api/item-api.service';
 import { ItemCardComponent } from '../item-card';
@@ -10,6 +10,8 @@ import { TelegramService } from '../../../telegram/telegram.service';
  * Shows a list of ItemCardComponent instances with an empty state
  * when no items exist. Includes an "Add Item" button for creating
  * new items in the context of a specific location.
+ * Selection state is owned by the parent: the list reports long presses
+ * and taps in selection mode through outputs.
  */
 @Component({
   selector: 'app-item-list',
@@ -20,7 +22,14 @@ import { TelegramService } from '../../../telegram/telegram.service';
       <!-- Items list -->
       <div class="item-list">
         @for (item of items(); track item.id) {
-          <app-item-card [item]="item" />
+          <app-item-card
+            [item]="item"
+            [selectable]="selectionMode()"
+            [selected]="selectedIds().has(item.id)"
+            [editable]="editable()"
+            (selectionToggle)="selectionToggle.emit(item.id)"
+            (longPress)="itemLongPress.emit(item.id)"
+          />
         }
       </div>
     } @else {
@@ -32,17 +41,19 @@ import { TelegramService } from '../../../telegram/telegram.service';
           </svg>
         </div>
         <p class="item-list__empty-title">No items yet</p>
-        <p class="item-list__empty-text">Add items to keep track of your stuff in this location.</p>
-        <button
-          type="button"
-          class="item-list__add-btn"
-          (click)="navigateToAddItem()"
-        >
-          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
-            <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z"/>
-          </svg>
-          <span>Add Item</span>
-        </button>
+        @if (editable()) {
+          <p class="item-list__empty-text">Add items to keep track of your stuff in this location.</p>
+          <button
+            type="button"
+            class="item-list__add-btn"
+            (click)="navigateToAddItem()"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z"/>
+            </svg>
+            <span>Add Item</span>
+          </button>
+        }
       </div>
     }
   `,
@@ -137,6 +148,21 @@ export class ItemListComponent {
   /** Location ID for "Add Item" context */
   readonly locationId = input.required<string>();
 
+  /** Whether cards show checkboxes instead of navigating */
+  readonly selectionMode = input(false);
+
+  /** IDs of selected items */
+  readonly selectedIds = input<ReadonlySet<string>>(new Set());
+
+  /** Whether items can be added and changed here; off for viewers of a shared location */
+  readonly editable = input(true);
+
+  /** Emitted with the item ID when a card is tapped in selection mode */
+  readonly selectionToggle = output<string>();
+
+  /** Emitted with the item ID when a card is pressed and held */
+  readonly itemLongPress = output<string>();
+
   /**
    * Navigate to add item form with location context
    */
@@ -1,12 +1,14 @@
-import { Component, ChangeDetectionStrategy, input, inject } from '@angular/core';
+import { Component, ChangeDetectionStrategy, input, inject, computed } from '@angular/core';
 import { Router } from '@angular/router';
 import { LocationListItem } from '../../../core/api/location-api.service';
+import { formatMoney } from '../../../core/api/valuation-api.service';
 import { TelegramService } from '../../../telegram/telegram.service';
 
 /**
  * Card component for displaying a location in a list
  *
- * Shows location name with folder icon, child count badge, and item count badge.
+ * Shows location name with folder icon, child count badge, item count badge and,
+ * when any items inside have a price, the total purchase value.
  * Clicking navigates to the location detail page.
  */
 @Component({
@@ -46,6 +48,11 @@ import { TelegramService } from '../../../telegram/telegram.service';
               {{ location().itemCount }}
             </span>
           }
+          @if (value()) {
+            <span class="location-card__badge location-card__badge--value" [attr.aria-label]="'Value: ' + value()">
+              {{ value() }}
+            </span>
+          }
         </div>
       </div>
 
@@ -162,6 +169,10 @@ import { TelegramService } from '../../../telegram/telegram.service';
       }
     }
 
+    .location-card__badge--value {
+      color: var(--tg-theme-text-color);
+    }
+
     .location-card__arrow {
       display: flex;
       align-items: center;
@@ -184,6 +195,9 @@ export class LocationCardComponent {
   /** Location data to display */
   readonly location = input.required<LocationListItem>();
 
+  /** Total purchase value, empty when nothing inside has a price */
+  readonly value = computed(() => formatMoney(this.location().value ?? []));
+
   /**
    * Navigate to the location detail page
    */
@@ -9,6 +9,7 @@ import {
 } from '@angular/core';
 import { TelegramService } from '../../../telegram/telegram.service';
 import { LocationTreeNode } from '../../../core/api/location-api.service';
+import { canEdit } from '../../../core/auth/permissions';
 
 /**
  * Flattened node for rendering the tree as a list
@@ -96,7 +97,9 @@ interface FlatTreeNode {
             type="button"
             class="location-picker__item"
             [class.location-picker__item--selected]="selectedId() === flatNode.node.id"
+            [class.location-picker__item--disabled]="isReadOnly(flatNode.node)"
             [style.padding-left.px]="16 + (flatNode.depth * 24)"
+            [attr.aria-disabled]="isReadOnly(flatNode.node) || null"
             (click)="selectLocation(flatNode.node)"
           >
             <!-- Expand/collapse toggle -->
@@ -282,6 +285,11 @@ interface FlatTreeNode {
       background-color: color-mix(in srgb, var(--tg-theme-button-color) 10%, transparent);
     }
 
+    .location-picker__item--disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
     .location-picker__item--all {
       padding-left: var(--spacing-md);
       border-bottom: 1px solid var(--tg-theme-secondary-bg-color);
@@ -395,6 +403,9 @@ export class LocationPickerComponent {
   /** Currently selected location ID */
   readonly selectedId = input<string | undefined>(undefined);
 
+  /** Only let the user pick locations they can add to (e.g. as a move target) */
+  readonly writableOnly = input(false);
+
   /** Emitted when a location is selected (null means "All locations") */
   readonly locationSelected = output<LocationTreeNode | null>();
 
@@ -450,10 +461,20 @@ export class LocationPickerComponent {
     });
   }
 
+  /**
+   * Whether a location cannot be picked because the user may only view it
+   */
+  isReadOnly(node: LocationTreeNode): boolean {
+    return this.writableOnly() && !canEdit(node.role);
+  }
+
   /**
    * Select a location and emit the selection
    */
   selectLocation(node: LocationTreeNode | null): void {
+    if (node && this.isReadOnly(node)) {
+      return;
+    }
     this.triggerHapticFeedback('selection');
     this.locationSelected.emit(node);
   }
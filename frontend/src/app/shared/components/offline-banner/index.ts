@@ -0,0 +1 @@
+export { OfflineBannerComponent } from './offline-banner.component';
@@ -0,0 +1,105 @@
+import { Component, ChangeDetectionStrategy, inject, computed } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { ConnectivityService } from '../../../core/offline/connectivity.service';
+import { OutboxService } from '../../../core/offline/outbox.service';
+
+/**
+ * Banner shown while the app is offline
+ *
+ * Tells the user that the API is unreachable and, when screens are
+ * rendered from the local mirror, when that data was last cached.
+ * Also links to the sync screen while offline changes are waiting.
+ * Should be placed once in the root app component.
+ */
+@Component({
+  selector: 'app-offline-banner',
+  standalone: true,
+  imports: [RouterLink],
+  template: `
+    @if (connectivity.isOffline() || outbox.entries().length > 0) {
+      <div class="offline-banner" role="status" aria-live="polite">
+        <!-- cloud-off icon -->
+        <svg class="offline-banner__icon" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+          <path d="M19.35 10.04C18.67 6.59 15.64 4 12 4c-1.48 0-2.85.43-4.01 1.17l1.46 1.46C10.21 6.23 11.08 6 12 6c3.04 0 5.5 2.46 5.5 5.5v.5H19c1.66 0 3 1.34 3 3 0 1.13-.64 2.11-1.56 2.62l1.45 1.45C23.16 18.16 24 16.68 24 15c0-2.64-2.05-4.78-4.65-4.96zM3 5.27l2.75 2.74C2.56 8.15 0 10.77 0 14c0 3.31 2.69 6 6 6h11.73l2 2L21 20.73 4.27 4 3 5.27zM7.73 10l8 8H6c-2.21 0-4-1.79-4-4s1.79-4 4-4h1.73z"/>
+        </svg>
+        <span class="offline-banner__text">{{ message() }}</span>
+        @if (outbox.entries().length > 0) {
+          <a class="offline-banner__link" routerLink="/sync">{{ linkLabel() }}</a>
+        }
+      </div>
+    }
+  `,
+  styles: [`
+    .offline-banner {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      padding: var(--spacing-sm) var(--spacing-md);
+      padding-top: calc(var(--spacing-sm) + env(safe-area-inset-top, 0px));
+      padding-right: calc(44px + var(--spacing-md)); /* Keep clear of the header search button */
+      background-color: var(--tg-theme-secondary-bg-color);
+      color: var(--tg-theme-hint-color);
+      font-size: 0.8125rem;
+      font-weight: 500;
+    }
+
+    .offline-banner__icon {
+      width: 18px;
+      height: 18px;
+      flex-shrink: 0;
+    }
+
+    .offline-banner__text {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .offline-banner__link {
+      flex-shrink: 0;
+      color: var(--tg-theme-link-color);
+      font-weight: 600;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class OfflineBannerComponent {
+  protected readonly connectivity = inject(ConnectivityService);
+  protected readonly outbox = inject(OutboxService);
+
+  /** Banner text including the age of the cached data when known */
+  readonly message = computed(() => {
+    if (!this.connectivity.isOffline()) {
+      return 'Back online';
+    }
+    const cachedAt = this.connectivity.cachedAt();
+    if (!cachedAt) {
+      return 'You are offline';
+    }
+    return `Offline, showing cached data from ${this.formatDate(cachedAt)}`;
+  });
+
+  /** Link text for queued changes; conflicts and failures need the user first */
+  readonly linkLabel = computed(() => {
+    if (this.outbox.conflicts().length > 0) {
+      return 'Resolve conflicts';
+    }
+    const count = this.outbox.pendingCount();
+    if (count === 0) {
+      return 'Review failed changes';
+    }
+    return `${count} change${count === 1 ? '' : 's'} to sync`;
+  });
+
+  private formatDate(dateString: string): string {
+    try {
+      return new Date(dateString).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      });
+    } catch {
+      return dateString;
+    }
+  }
+}
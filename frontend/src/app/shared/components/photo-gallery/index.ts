@@ -0,0 +1 @@
+export { PhotoGalleryComponent } from './photo-gallery.component';
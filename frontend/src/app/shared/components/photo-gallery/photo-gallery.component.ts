@@ -0,0 +1,249 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  ElementRef,
+  afterNextRender,
+  input,
+  output,
+  signal,
+  viewChild
+} from '@angular/core';
+import { ItemPhoto } from '../../../core/api/item-api.service';
+
+/**
+ * Full-screen photo gallery
+ *
+ * Features:
+ * - Swipe between photos (horizontal scroll snapping)
+ * - Previous/next buttons for non-touch devices
+ * - Position indicator ("2 / 5")
+ * - Opens at the given photo; closes with the close button or Escape
+ */
+@Component({
+  selector: 'app-photo-gallery',
+  standalone: true,
+  host: {
+    '(document:keydown.escape)': 'onClose()'
+  },
+  template: `
+    <div
+      class="photo-gallery"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Photo gallery"
+    >
+      <div class="photo-gallery__header">
+        <span class="photo-gallery__counter">{{ currentIndex() + 1 }} / {{ photos().length }}</span>
+        <button
+          type="button"
+          class="photo-gallery__close"
+          (click)="onClose()"
+          aria-label="Close gallery"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+          </svg>
+        </button>
+      </div>
+
+      <div #track class="photo-gallery__track" (scroll)="onScroll()">
+        @for (photo of photos(); track photo.id; let i = $index) {
+          <div class="photo-gallery__slide">
+            <img
+              class="photo-gallery__image"
+              [src]="photo.url"
+              [alt]="'Photo ' + (i + 1)"
+              [attr.loading]="i === startIndex() ? 'eager' : 'lazy'"
+            />
+          </div>
+        }
+      </div>
+
+      @if (currentIndex() > 0) {
+        <button
+          type="button"
+          class="photo-gallery__nav photo-gallery__nav--prev"
+          (click)="goTo(currentIndex() - 1)"
+          aria-label="Previous photo"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M15.41 16.59L10.83 12l4.58-4.59L14 6l-6 6 6 6 1.41-1.41z"/>
+          </svg>
+        </button>
+      }
+      @if (currentIndex() < photos().length - 1) {
+        <button
+          type="button"
+          class="photo-gallery__nav photo-gallery__nav--next"
+          (click)="goTo(currentIndex() + 1)"
+          aria-label="Next photo"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M8.59 16.59L13.17 12 8.59 7.41 10 6l6 6-6 6z"/>
+          </svg>
+        </button>
+      }
+    </div>
+  `,
+  styles: [`
+    .photo-gallery {
+      position: fixed;
+      inset: 0;
+      z-index: var(--z-modal);
+      display: flex;
+      flex-direction: column;
+      background-color: #000;
+      animation: fadeIn 0.2s ease;
+    }
+
+    @keyframes fadeIn {
+      from { opacity: 0; }
+      to { opacity: 1; }
+    }
+
+    .photo-gallery__header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: var(--spacing-sm) var(--spacing-md);
+      padding-top: calc(var(--spacing-sm) + env(safe-area-inset-top, 0px));
+      color: #fff;
+    }
+
+    .photo-gallery__counter {
+      font-size: 0.875rem;
+      font-weight: 500;
+    }
+
+    .photo-gallery__close {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 44px;
+      height: 44px;
+      background: none;
+      border: none;
+      border-radius: var(--radius-full);
+      color: #fff;
+      cursor: pointer;
+
+      svg {
+        width: 24px;
+        height: 24px;
+      }
+
+      &:active {
+        background-color: rgba(255, 255, 255, 0.15);
+      }
+    }
+
+    .photo-gallery__track {
+      flex: 1;
+      display: flex;
+      overflow-x: auto;
+      scroll-snap-type: x mandatory;
+      scrollbar-width: none;
+      -webkit-overflow-scrolling: touch;
+
+      &::-webkit-scrollbar {
+        display: none;
+      }
+    }
+
+    .photo-gallery__slide {
+      flex: 0 0 100%;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      scroll-snap-align: center;
+      scroll-snap-stop: always;
+    }
+
+    .photo-gallery__image {
+      max-width: 100%;
+      max-height: 100%;
+      object-fit: contain;
+    }
+
+    .photo-gallery__nav {
+      position: absolute;
+      top: 50%;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 44px;
+      height: 44px;
+      margin-top: -22px;
+      background-color: rgba(0, 0, 0, 0.4);
+      border: none;
+      border-radius: var(--radius-full);
+      color: #fff;
+      cursor: pointer;
+
+      svg {
+        width: 28px;
+        height: 28px;
+      }
+    }
+
+    .photo-gallery__nav--prev {
+      left: var(--spacing-sm);
+    }
+
+    .photo-gallery__nav--next {
+      right: var(--spacing-sm);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PhotoGalleryComponent {
+  /** Photos to show */
+  readonly photos = input.required<ItemPhoto[]>();
+
+  /** Index of the photo to open at */
+  readonly startIndex = input(0);
+
+  /** Emitted when the gallery should close */
+  readonly closed = output<void>();
+
+  /** Index of the photo in view */
+  readonly currentIndex = signal(0);
+
+  private readonly track = viewChild.required<ElementRef<HTMLElement>>('track');
+
+  constructor() {
+    afterNextRender(() => {
+      this.currentIndex.set(this.startIndex());
+      this.scrollToIndex(this.startIndex(), 'instant');
+    });
+  }
+
+  /**
+   * Scroll to a photo
+   */
+  goTo(index: number): void {
+    this.scrollToIndex(index, 'smooth');
+  }
+
+  /**
+   * Track the photo in view while swiping
+   */
+  onScroll(): void {
+    const element = this.track().nativeElement;
+    if (element.clientWidth > 0) {
+      this.currentIndex.set(Math.round(element.scrollLeft / element.clientWidth));
+    }
+  }
+
+  /**
+   * Close the gallery
+   */
+  onClose(): void {
+    this.closed.emit();
+  }
+
+  private scrollToIndex(index: number, behavior: ScrollBehavior): void {
+    const element = this.track().nativeElement;
+    element.scrollTo({ left: index * element.clientWidth, behavior });
+  }
+}
@@ -0,0 +1 @@
+export { QrCodeComponent } from './qr-code.component';
@@ -0,0 +1,70 @@
+import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
+import qrcode from 'qrcode-generator';
+
+/** Quiet zone around the code, in modules */
+const QUIET_ZONE = 2;
+
+/**
+ * QR code rendered as a scalable SVG
+ *
+ * Sizes to its container, so it stays sharp both on screen and in print.
+ *
+ * @example
+ * ```html
+ * <app-qr-code [value]="link" label="Open Garage in StuffTracker" />
+ * ```
+ */
+@Component({
+  selector: 'app-qr-code',
+  standalone: true,
+  template: `
+    <svg
+      class="qr-code"
+      [attr.viewBox]="'0 0 ' + code().size + ' ' + code().size"
+      shape-rendering="crispEdges"
+      role="img"
+      [attr.aria-label]="label() || value()"
+    >
+      <rect [attr.width]="code().size" [attr.height]="code().size" fill="#fff" />
+      <path [attr.d]="code().path" fill="#000" />
+    </svg>
+  `,
+  styles: [`
+    :host {
+      display: block;
+    }
+
+    .qr-code {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class QrCodeComponent {
+  /** Text to encode */
+  readonly value = input.required<string>();
+
+  /** Accessible description; defaults to the encoded text */
+  readonly label = input<string>('');
+
+  /** Module grid as a single SVG path */
+  readonly code = computed(() => {
+    const qr = qrcode(0, 'M');
+    qr.addData(this.value());
+    qr.make();
+
+    const moduleCount = qr.getModuleCount();
+    let path = '';
+    for (let row = 0; row < moduleCount; row++) {
+      for (let col = 0; col < moduleCount; col++) {
+        if (qr.isDark(row, col)) {
+          path += `M${col + QUIET_ZONE},${row + QUIET_ZONE}h1v1h-1z`;
+        }
+      }
+    }
+
+    return { size: moduleCount + QUIET_ZONE * 2, path };
+  });
+}
@@ -0,0 +1 @@
+export { QuantityStepperComponent } from './quantity-stepper.component';
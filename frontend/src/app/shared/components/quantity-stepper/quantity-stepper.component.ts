@@ -0,0 +1,212 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  inject,
+  input,
+  output,
+  signal,
+  computed,
+  DestroyRef
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { EMPTY, Subject, of } from 'rxjs';
+import { catchError, concatMap, map } from 'rxjs/operators';
+import { ItemApiService } from '../../../core/api/item-api.service';
+import { TelegramService } from '../../../telegram/telegram.service';
+import { ErrorToastService } from '../error-toast';
+
+/**
+ * −/+ buttons that change an item's quantity right away
+ *
+ * Each tap is applied on screen at once and sent as a relative change; a
+ * change the server rejects is rolled back with an error toast. Taps are
+ * sent one after another, so the quantity the last response reports is the
+ * final one even when the user taps faster than the server answers. Offline,
+ * changes are queued in the outbox and stay applied.
+ * The quantity never drops below 1, matching the item form.
+ */
+@Component({
+  selector: 'app-quantity-stepper',
+  standalone: true,
+  template: `
+    <div class="quantity-stepper" [class.quantity-stepper--compact]="compact()">
+      <button
+        type="button"
+        class="quantity-stepper__btn"
+        [disabled]="displayedQuantity() <= 1"
+        (click)="adjust(-1, $event)"
+        [attr.aria-label]="'Use one ' + itemName()"
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+          <path d="M19 13H5v-2h14v2z"/>
+        </svg>
+      </button>
+      <span class="quantity-stepper__value" aria-live="polite">{{ displayedQuantity() }}</span>
+      <button
+        type="button"
+        class="quantity-stepper__btn"
+        [disabled]="displayedQuantity() >= maxQuantity"
+        (click)="adjust(1, $event)"
+        [attr.aria-label]="'Add one ' + itemName()"
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+          <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z"/>
+        </svg>
+      </button>
+    </div>
+  `,
+  styles: [`
+    .quantity-stepper {
+      display: inline-flex;
+      align-items: center;
+      gap: var(--spacing-xs);
+      padding: 2px;
+      background-color: var(--tg-theme-secondary-bg-color);
+      border-radius: var(--radius-full);
+    }
+
+    .quantity-stepper__btn {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 44px;
+      height: 44px;
+      padding: 0;
+      border: none;
+      border-radius: var(--radius-full);
+      background-color: var(--tg-theme-bg-color);
+      color: var(--tg-theme-button-color);
+      cursor: pointer;
+      transition: transform var(--transition-fast);
+
+      svg {
+        width: 20px;
+        height: 20px;
+      }
+
+      &:active:not(:disabled) {
+        transform: scale(0.92);
+      }
+
+      &:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+    }
+
+    .quantity-stepper__value {
+      min-width: 2ch;
+      font-size: 1rem;
+      font-weight: 600;
+      text-align: center;
+      color: var(--tg-theme-text-color);
+      font-variant-numeric: tabular-nums;
+    }
+
+    .quantity-stepper--compact {
+      .quantity-stepper__btn {
+        width: 36px;
+        height: 36px;
+
+        svg {
+          width: 16px;
+          height: 16px;
+        }
+      }
+
+      .quantity-stepper__value {
+        font-size: 0.9375rem;
+      }
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class QuantityStepperComponent {
+  private readonly itemApiService = inject(ItemApiService);
+  private readonly telegramService = inject(TelegramService);
+  private readonly toastService = inject(ErrorToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Item to change */
+  readonly itemId = input.required<string>();
+
+  /** Item name, for labels and the outbox */
+  readonly itemName = input('');
+
+  /** Last known quantity */
+  readonly quantity = input.required<number>();
+
+  /** Smaller buttons, for use inside list cards */
+  readonly compact = input(false);
+
+  /** Emitted with the new quantity once a change is saved or queued */
+  readonly quantityChange = output<number>();
+
+  readonly maxQuantity = 999999;
+
+  /** Changes sent but not yet confirmed */
+  private readonly pendingDelta = signal(0);
+
+  /** Quantity including changes still in flight */
+  readonly displayedQuantity = computed(() => this.quantity() + this.pendingDelta());
+
+  /** Taps waiting to be sent, in order */
+  private readonly changes = new Subject<number>();
+
+  constructor() {
+    this.changes
+      .pipe(
+        concatMap(delta => this.itemApiService.adjustQuantity(this.itemId(), delta, this.itemName()).pipe(
+          map(item => item.quantity),
+          catchError(err => {
+            if (err.queued) {
+              // Kept in the outbox; it stays applied and is sent once the connection returns
+              return of(this.quantity() + delta);
+            }
+            this.pendingDelta.update(pending => pending - delta);
+            this.toastService.error(err.message || 'Failed to change quantity');
+            return EMPTY;
+          }),
+          map(quantity => ({ delta, quantity }))
+        )),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(({ delta, quantity }) => this.settle(delta, quantity));
+  }
+
+  /**
+   * Apply a change on screen and send it
+   */
+  adjust(delta: number, event: Event): void {
+    // Keep the tap from reaching a tappable parent such as a card
+    event.stopPropagation();
+
+    const next = this.displayedQuantity() + delta;
+    if (next < 1 || next > this.maxQuantity) {
+      return;
+    }
+
+    this.triggerHapticFeedback();
+    this.pendingDelta.update(pending => pending + delta);
+    this.changes.next(delta);
+  }
+
+  /**
+   * Hand a confirmed change over to the parent's quantity
+   */
+  private settle(delta: number, quantity: number): void {
+    this.pendingDelta.update(pending => pending - delta);
+    this.quantityChange.emit(quantity);
+  }
+
+  private triggerHapticFeedback(): void {
+    if (this.telegramService.isInTelegram()) {
+      try {
+        // @ts-expect-error - HapticFeedback may not be typed in SDK
+        window.Telegram?.WebApp?.HapticFeedback?.impactOccurred('light');
+      } catch {
+        // Silently ignore if haptic feedback is not available
+      }
+    }
+  }
+}
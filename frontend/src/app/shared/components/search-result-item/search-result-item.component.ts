@@ -2,18 +2,20 @@ import { Component, ChangeDetectionStrategy, input, inject } from '@angular/core
 import { Router } from '@angular/router';
 import { SearchResultItem } from '../../../core/api/search-api.service';
 import { TelegramService } from '../../../telegram/telegram.service';
+import { TagChipsComponent } from '../tag-chips';
 
 /**
  * Component for displaying a search result item
  *
- * Shows item name with quantity badge (if quantity > 1),
- * and location path as breadcrumb text.
+ * Shows item name with photo thumbnail and quantity badge (if quantity > 1),
+ * location path as breadcrumb text, and tag chips.
  * Clicking navigates to the item detail page.
  * Styled for Telegram Mini App with touch-friendly tap targets (min 44px).
  */
 @Component({
   selector: 'app-search-result-item',
   standalone: true,
+  imports: [TagChipsComponent],
   template: `
     <button
       type="button"
@@ -21,12 +23,21 @@ import { TelegramService } from '../../../telegram/telegram.service';
       (click)="navigateToItem()"
       [attr.aria-label]="'View item: ' + item().name"
     >
-      <!-- Item icon -->
-      <div class="search-result-item__icon">
-        <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
-          <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H5V5h14v14zm-7-2h2v-4h4v-2h-4V7h-2v4H8v2h4v4z"/>
-        </svg>
-      </div>
+      <!-- Photo thumbnail or item icon -->
+      @if (item().thumbnailUrl) {
+        <img
+          class="search-result-item__thumbnail"
+          [src]="item().thumbnailUrl"
+          alt=""
+          loading="lazy"
+        />
+      } @else {
+        <div class="search-result-item__icon">
+          <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H5V5h14v14zm-7-2h2v-4h4v-2h-4V7h-2v4H8v2h4v4z"/>
+          </svg>
+        </div>
+      }
 
       <!-- Item info -->
       <div class="search-result-item__content">
@@ -50,6 +61,8 @@ import { TelegramService } from '../../../telegram/telegram.service';
         @if (item().description) {
           <p class="search-result-item__description">{{ item().description }}</p>
         }
+
+        <app-tag-chips [tags]="item().tags ?? []" />
       </div>
 
       <!-- Chevron right -->
@@ -98,6 +111,15 @@ import { TelegramService } from '../../../telegram/telegram.service';
       }
     }
 
+    .search-result-item__thumbnail {
+      width: 44px;
+      height: 44px;
+      object-fit: cover;
+      border-radius: var(--radius-md);
+      background-color: var(--tg-theme-secondary-bg-color);
+      flex-shrink: 0;
+    }
+
     .search-result-item__content {
       flex: 1;
       min-width: 0;
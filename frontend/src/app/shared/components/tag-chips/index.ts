@@ -0,0 +1 @@
+export { TagChipsComponent } from './tag-chips.component';
@@ -0,0 +1,68 @@
+import { Component, ChangeDetectionStrategy, input, computed } from '@angular/core';
+
+/**
+ * Compact, read-only row of tag chips
+ *
+ * Shows up to `limit` tags and a "+N" chip for the rest, on one line.
+ * Used inside item cards and search results.
+ */
+@Component({
+  selector: 'app-tag-chips',
+  standalone: true,
+  template: `
+    @if (tags().length > 0) {
+      <span class="tag-chips" [attr.aria-label]="'Tags: ' + tags().join(', ')">
+        @for (tag of visibleTags(); track tag) {
+          <span class="tag-chips__chip" aria-hidden="true">{{ tag }}</span>
+        }
+        @if (hiddenCount() > 0) {
+          <span class="tag-chips__chip tag-chips__chip--more" aria-hidden="true">+{{ hiddenCount() }}</span>
+        }
+      </span>
+    }
+  `,
+  styles: [`
+    :host {
+      display: block;
+      min-width: 0;
+    }
+
+    .tag-chips {
+      display: flex;
+      gap: 4px;
+      overflow: hidden;
+    }
+
+    .tag-chips__chip {
+      padding: 1px 6px;
+      font-size: 0.6875rem;
+      font-weight: 500;
+      line-height: 1.4;
+      border-radius: var(--radius-full);
+      background-color: color-mix(in srgb, var(--tg-theme-link-color) 12%, transparent);
+      color: var(--tg-theme-link-color);
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      max-width: 120px;
+    }
+
+    .tag-chips__chip--more {
+      flex-shrink: 0;
+      background-color: var(--tg-theme-secondary-bg-color);
+      color: var(--tg-theme-hint-color);
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TagChipsComponent {
+  /** Tags to show */
+  readonly tags = input<string[]>([]);
+
+  /** Chips shown before collapsing the rest into "+N" */
+  readonly limit = input(3);
+
+  readonly visibleTags = computed(() => this.tags().slice(0, this.limit()));
+
+  readonly hiddenCount = computed(() => Math.max(0, this.tags().length - this.limit()));
+}
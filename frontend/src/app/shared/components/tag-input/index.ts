@@ -0,0 +1 @@
+export { TagInputComponent } from './tag-input.component';
@@ -0,0 +1,259 @@
+import { Component, ChangeDetectionStrategy, input, output, signal, computed } from '@angular/core';
+import { MAX_TAGS_PER_ITEM, MAX_TAG_LENGTH, normalizeTag } from '../../../core/api/tag-api.service';
+
+/** Suggestions shown at once */
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Tag editor with autocomplete
+ *
+ * Features:
+ * - Chosen tags as removable chips
+ * - Enter, comma or picking a suggestion adds the typed tag
+ * - Backspace in the empty field removes the last tag
+ * - Suggestions from existing tags, matching anywhere in the name
+ */
+@Component({
+  selector: 'app-tag-input',
+  standalone: true,
+  template: `
+    <div class="tag-input" [class.tag-input--focused]="isFocused()">
+      @for (tag of tags(); track tag) {
+        <span class="tag-input__chip">
+          {{ tag }}
+          <button
+            type="button"
+            class="tag-input__remove"
+            (click)="removeTag(tag)"
+            [attr.aria-label]="'Remove tag ' + tag"
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+            </svg>
+          </button>
+        </span>
+      }
+      @if (tags().length < maxTags) {
+        <input
+          type="text"
+          class="tag-input__field"
+          [id]="inputId()"
+          [value]="text()"
+          [attr.maxlength]="maxLength"
+          [placeholder]="tags().length === 0 ? 'Add tags (optional)' : ''"
+          autocomplete="off"
+          autocapitalize="off"
+          enterkeyhint="done"
+          (input)="onInput($event)"
+          (keydown)="onKeydown($event)"
+          (focus)="isFocused.set(true)"
+          (blur)="onBlur()"
+        />
+      }
+    </div>
+
+    @if (isFocused() && matches().length > 0) {
+      <ul class="tag-input__suggestions" role="listbox" aria-label="Existing tags">
+        @for (suggestion of matches(); track suggestion) {
+          <li role="option" [attr.aria-selected]="false">
+            <!-- mousedown fires before the field's blur, so the list is still there -->
+            <button
+              type="button"
+              class="tag-input__suggestion"
+              (mousedown)="$event.preventDefault()"
+              (click)="addTag(suggestion)"
+            >
+              {{ suggestion }}
+            </button>
+          </li>
+        }
+      </ul>
+    }
+  `,
+  styles: [`
+    :host {
+      display: block;
+      position: relative;
+    }
+
+    .tag-input {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: var(--spacing-xs);
+      min-height: 52px;
+      padding: var(--spacing-sm) var(--spacing-md);
+      background-color: var(--tg-theme-secondary-bg-color);
+      border: 2px solid transparent;
+      border-radius: var(--radius-md);
+      transition: border-color var(--transition-fast);
+    }
+
+    .tag-input--focused {
+      border-color: var(--tg-theme-button-color);
+    }
+
+    .tag-input__chip {
+      display: inline-flex;
+      align-items: center;
+      gap: 2px;
+      padding: 2px 2px 2px var(--spacing-sm);
+      font-size: 0.875rem;
+      border-radius: var(--radius-full);
+      background-color: color-mix(in srgb, var(--tg-theme-link-color) 15%, transparent);
+      color: var(--tg-theme-link-color);
+    }
+
+    .tag-input__remove {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 24px;
+      height: 24px;
+      padding: 0;
+      border: none;
+      background: transparent;
+      color: inherit;
+      border-radius: var(--radius-full);
+      cursor: pointer;
+
+      svg {
+        width: 14px;
+        height: 14px;
+      }
+    }
+
+    .tag-input__field {
+      flex: 1;
+      min-width: 120px;
+      min-height: 32px;
+      border: none;
+      background: transparent;
+      font-size: 1rem;
+      color: var(--tg-theme-text-color);
+      outline: none;
+
+      &::placeholder {
+        color: var(--tg-theme-hint-color);
+      }
+    }
+
+    .tag-input__suggestions {
+      position: absolute;
+      left: 0;
+      right: 0;
+      top: calc(100% + 4px);
+      z-index: var(--z-sticky);
+      margin: 0;
+      padding: var(--spacing-xs) 0;
+      list-style: none;
+      background-color: var(--tg-theme-section-bg-color);
+      border-radius: var(--radius-md);
+      box-shadow: 0 4px 16px rgba(0, 0, 0, 0.15);
+    }
+
+    .tag-input__suggestion {
+      width: 100%;
+      min-height: 44px;
+      padding: 0 var(--spacing-md);
+      border: none;
+      background: transparent;
+      font-size: 0.9375rem;
+      color: var(--tg-theme-text-color);
+      text-align: left;
+      cursor: pointer;
+
+      &:active {
+        background-color: var(--tg-theme-secondary-bg-color);
+      }
+    }
+  `],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TagInputComponent {
+  /** Chosen tags */
+  readonly tags = input<string[]>([]);
+
+  /** Existing tags offered while typing */
+  readonly suggestions = input<string[]>([]);
+
+  /** ID of the text field, for an outside label */
+  readonly inputId = input('tags');
+
+  /** Emitted with the new tag list after every change */
+  readonly tagsChange = output<string[]>();
+
+  readonly maxTags = MAX_TAGS_PER_ITEM;
+  readonly maxLength = MAX_TAG_LENGTH;
+
+  /** Text typed but not yet added */
+  readonly text = signal('');
+
+  readonly isFocused = signal(false);
+
+  /** Suggestions matching the typed text, minus tags already chosen */
+  readonly matches = computed(() => {
+    const query = normalizeTag(this.text());
+    const chosen = new Set(this.tags());
+    return this.suggestions()
+      .filter(tag => !chosen.has(tag) && (!query || tag.includes(query)))
+      .sort((a, b) => Number(!a.startsWith(query)) - Number(!b.startsWith(query)))
+      .slice(0, MAX_SUGGESTIONS);
+  });
+
+  onInput(event: Event): void {
+    const value = (event.target as HTMLInputElement).value;
+    // A typed or pasted comma finishes the tags before it
+    if (value.includes(',')) {
+      const parts = value.split(',');
+      this.text.set(parts.pop() ?? '');
+      this.addTags(parts);
+      (event.target as HTMLInputElement).value = this.text();
+      return;
+    }
+    this.text.set(value);
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter') {
+      // Keep Enter from submitting the surrounding form
+      event.preventDefault();
+      this.addTag(this.text());
+    } else if (event.key === 'Backspace' && this.text() === '' && this.tags().length > 0) {
+      this.removeTag(this.tags()[this.tags().length - 1]);
+    }
+  }
+
+  onBlur(): void {
+    this.isFocused.set(false);
+    this.addTag(this.text());
+  }
+
+  /**
+   * Add the typed tag and clear the field
+   */
+  addTag(value: string): void {
+    this.text.set('');
+    this.addTags([value]);
+  }
+
+  removeTag(tag: string): void {
+    this.tagsChange.emit(this.tags().filter(t => t !== tag));
+  }
+
+  /**
+   * Add tags, skipping empty ones, duplicates and any over the limit
+   */
+  private addTags(values: string[]): void {
+    const tags = [...this.tags()];
+    for (const value of values) {
+      const tag = normalizeTag(value);
+      if (tag && !tags.includes(tag) && tags.length < MAX_TAGS_PER_ITEM) {
+        tags.push(tag);
+      }
+    }
+    if (tags.length !== this.tags().length) {
+      this.tagsChange.emit(tags);
+    }
+  }
+}
@@ -66,6 +66,18 @@ export class TelegramService {
     return WebApp.initDataUnsafe?.user || null;
   }
 
+  /**
+   * Get the start parameter the Mini App was opened with
+   * (the `startapp` value of a t.me deep link).
+   * Outside Telegram, the `tgWebAppStartParam` query parameter is used for local testing.
+   */
+  getStartParam(): string | null {
+    if (!this.isTelegramEnvironment) {
+      return new URLSearchParams(window.location.search).get('tgWebAppStartParam');
+    }
+    return WebApp.initDataUnsafe?.start_param || null;
+  }
+
   /**
    * Show the main action button at the bottom
    */
@@ -156,6 +168,73 @@ export class TelegramService {
     WebApp.BackButton.offClick(callback);
   }
 
+  /**
+   * Check if the native QR scanner popup is available (Bot API 6.4+)
+   */
+  canScanQr(): boolean {
+    if (!this.isTelegramEnvironment) {
+      return false;
+    }
+    return WebApp.isVersionAtLeast('6.4');
+  }
+
+  /**
+   * Open the native QR scanner and resolve with the first scanned text.
+   * Resolves with null if the user closes the popup without scanning.
+   */
+  scanQr(text?: string): Promise<string | null> {
+    if (!this.canScanQr()) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise<string | null>((resolve) => {
+      let isSettled = false;
+
+      const onClosed = () => {
+        WebApp.offEvent('scanQrPopupClosed', onClosed);
+        if (!isSettled) {
+          isSettled = true;
+          resolve(null);
+        }
+      };
+
+      WebApp.onEvent('scanQrPopupClosed', onClosed);
+      WebApp.showScanQrPopup({ text }, (data: string) => {
+        if (!isSettled) {
+          isSettled = true;
+          resolve(data);
+        }
+        // Returning true closes the popup
+        return true;
+      });
+    });
+  }
+
+  /**
+   * Open Telegram's chat picker to send text to any chat.
+   * Returns false outside Telegram, where there is no chat picker.
+   */
+  shareText(text: string): boolean {
+    if (!this.isTelegramEnvironment) {
+      return false;
+    }
+    // t.me/share needs the url parameter; the text alone becomes the message
+    WebApp.openTelegramLink(`https://t.me/share/url?url=${encodeURIComponent(text)}`);
+    return true;
+  }
+
+  /**
+   * Open a web page outside the Mini App, in Telegram's in-app or the system browser.
+   * Returns false outside Telegram, where the caller opens it itself.
+   */
+  openLink(url: string): boolean {
+    if (!this.isTelegramEnvironment) {
+      return false;
+    }
+    WebApp.openLink(url);
+    return true;
+  }
+
   /**
    * Signal to Telegram that the Mini App is ready to be displayed
    */
@@ -1,6 +1,7 @@
 export const environment = {
   production: true,
   apiUrl: '/api',
+  mockRealtime: false,
   telegram: {
     botUsername: 'StuffTrackerBot'
   }
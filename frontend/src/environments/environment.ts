@@ -1,6 +1,8 @@
 export const environment = {
   production: false,
   apiUrl: 'http://localhost:5000/api',
+  // Push live changes between local tabs instead of using the server event stream
+  mockRealtime: true,
   telegram: {
     botUsername: 'StuffTrackerDevBot'
   }